@@ -35,6 +35,15 @@ const plugins = [
   "stringContentMediaType",
   "uuid",
   
+  // String normalization plugins
+  "stringTrim",
+  "stringToLowerCase",
+  "stringToUpperCase",
+  "stringNormalize",
+  "stringCollapseWhitespace",
+  "stringSlugify",
+  "stringTruncate",
+  
   // Number validation plugins
   "numberMin",
   "numberMax",
@@ -47,12 +56,25 @@ const plugins = [
   "booleanTruthy",
   "booleanFalsy",
   
+  // Date validation plugins
+  "dateMin",
+  "dateMax",
+  "dateAfter",
+  "dateBefore",
+  "datePast",
+  "dateFuture",
+  "dateWithinLast",
+  "dateWithinNext",
+  "dateWeekday",
+  "dateBusinessDay",
+  
   // Array validation plugins
   "arrayMinLength",
   "arrayMaxLength",
   "arrayUnique",
   "arrayIncludes",
   "arrayContains",
+  "arrayItems",
   
   // Object validation plugins
   "object",
@@ -63,6 +85,18 @@ const plugins = [
   "objectPatternProperties",
   "objectDependentRequired",
   "objectDependentSchemas",
+  "objectSchema",
+  
+  // BigInt validation plugins
+  "bigintMin",
+  "bigintMax",
+  "bigintMultipleOf",
+  
+  // Map, Set and record validation plugins
+  "collectionMinSize",
+  "collectionMaxSize",
+  "collectionKeys",
+  "collectionValues",
   
   // Value validation plugins
   "oneOf",
@@ -78,13 +112,19 @@ const plugins = [
   
   // Transform plugin
   "transform",
+  "coerce",
+  "preprocess",
   
   // Tuple plugin
   "tupleBuilder",
   
+  // Union plugin
+  "unionDiscriminated",
+  
   // Context plugins
   "readOnlyWriteOnly",
   "custom",
+  "refineAsync",
   
   // JSON Schema plugins (special handling needed)
   "jsonSchema",
@@ -0,0 +1,434 @@
+import {
+  field,
+  type FieldNode,
+  type LiteralValue,
+  type PropertyNode,
+  type TypeDeclaration,
+  type TypeNode,
+} from "./model";
+
+export interface GenerateOptions {
+  /** Module Builder and the plugins are imported from (default: "@maroonedog/luq") */
+  packageName?: string;
+  /** Module the declared types are imported from; without it they are emitted */
+  typesModule?: string;
+}
+
+type Presence = "required" | "optional" | undefined;
+
+// JSON Schema formats with a matching plugin
+const FORMAT_PLUGINS: Record<string, [plugin: string, method: string]> = {
+  email: ["stringEmailPlugin", "email"],
+  uri: ["stringUrlPlugin", "url"],
+  url: ["stringUrlPlugin", "url"],
+  uuid: ["uuidPlugin", "uuid"],
+  date: ["stringDatePlugin", "date"],
+  "date-time": ["stringDatetimePlugin", "datetime"],
+  time: ["stringTimePlugin", "time"],
+  hostname: ["stringHostnamePlugin", "hostname"],
+};
+
+const GUARDS: Record<string, string> = {
+  string: `(v) => typeof v === "string"`,
+  number: `(v) => typeof v === "number"`,
+  boolean: `(v) => typeof v === "boolean"`,
+  date: `(v) => v instanceof Date`,
+  array: `(v) => Array.isArray(v)`,
+  tuple: `(v) => Array.isArray(v)`,
+  object: `(v) => typeof v === "object" && v !== null && !Array.isArray(v)`,
+};
+
+const lowerFirst = (name: string): string =>
+  name.charAt(0).toLowerCase() + name.slice(1);
+
+const literalText = (value: LiteralValue): string => JSON.stringify(value);
+
+/**
+ * Emit a module with one built validator per declaration and the
+ * minimal set of plugins the fields use
+ *
+ * @example
+ * ```typescript
+ * const source = generateBuilderModule(parseTypeDeclarations("src/user.ts"), {
+ *   typesModule: "./user",
+ * });
+ * ```
+ */
+export function generateBuilderModule(
+  declarations: readonly TypeDeclaration[],
+  options: GenerateOptions = {}
+): string {
+  const plugins = new Set<string>();
+  const validators = declarations.map((declaration) =>
+    generateValidator(declaration, plugins)
+  );
+
+  const lines = [
+    importStatement(
+      ["Builder", ...plugins],
+      options.packageName || "@maroonedog/luq"
+    ),
+  ];
+  if (options.typesModule) {
+    const names = declarations.map((declaration) => declaration.name);
+    lines.push(
+      `import type { ${names.join(", ")} } from "${options.typesModule}";`
+    );
+  }
+  lines.push("");
+  if (!options.typesModule) {
+    for (const declaration of declarations) {
+      lines.push(generateInterface(declaration), "");
+    }
+  }
+  lines.push(validators.join("\n\n"), "");
+  return lines.join("\n");
+}
+
+// One name per line once the statement gets long
+const importStatement = (names: string[], from: string): string => {
+  const statement = `import { ${names.join(", ")} } from "${from}";`;
+  return statement.length <= 80
+    ? statement
+    : `import {\n${names.map((name) => `  ${name},`).join("\n")}\n} from "${from}";`;
+};
+
+// One validator under construction and the ones it depends on
+interface Scope {
+  name: string;
+  used: Set<string>;
+  lines: string[];
+  // Plugins the module imports
+  plugins: Set<string>;
+  // Validators of optional objects, declared before their first use
+  hoisted: string[];
+}
+
+function generateValidator(
+  declaration: TypeDeclaration,
+  plugins: Set<string>
+): string {
+  const hoisted: string[] = [];
+  const validator = builderSource(
+    `${lowerFirst(declaration.name)}Validator`,
+    declaration.name,
+    declaration.properties,
+    plugins,
+    hoisted
+  );
+  return [...hoisted, `export ${validator}`].join("\n\n");
+}
+
+function builderSource(
+  name: string,
+  typeName: string,
+  properties: readonly PropertyNode[],
+  plugins: Set<string>,
+  hoisted: string[]
+): string {
+  const scope: Scope = {
+    name,
+    used: new Set(),
+    lines: [],
+    plugins,
+    hoisted,
+  };
+  collectFields("", typeName, properties, scope);
+  scope.used.forEach((plugin) => plugins.add(plugin));
+
+  return [
+    `const ${name} = Builder()`,
+    ...[...scope.used].map((plugin) => `  .use(${plugin})`),
+    `  .for<${typeName}>()`,
+    ...scope.lines.map((line) => `  ${line}`),
+    "  .build();",
+  ].join("\n");
+}
+
+function collectFields(
+  prefix: string,
+  typeName: string,
+  properties: readonly PropertyNode[],
+  scope: Scope
+): void {
+  for (const property of properties) {
+    const path = prefix ? `${prefix}.${property.name}` : property.name;
+    const node = property.optional ? optionalTuple(property) : property;
+    const presence = property.optional ? "optional" : "required";
+    const propertyType = nonNullable(
+      `${typeName}[${JSON.stringify(property.name)}]`,
+      property.optional || property.nullable
+    );
+    collectField(path, propertyType, node, presence, scope);
+  }
+}
+
+// Fields below an object that may be missing cannot be required by path,
+// so such objects are checked by a validator of their own
+function collectField(
+  path: string,
+  typeName: string,
+  node: FieldNode,
+  presence: Presence,
+  scope: Scope
+): void {
+  let expression = chain(node, presence, scope.used);
+  const { type } = node;
+  const ownValidator =
+    type.kind === "object" && (presence === "optional" || node.nullable);
+  if (ownValidator) {
+    const name = `${scope.name.replace(/Validator$/, "")}${pascalCase(path)}Validator`;
+    scope.hoisted.push(
+      builderSource(
+        name,
+        typeName,
+        type.properties,
+        scope.plugins,
+        scope.hoisted
+      )
+    );
+    scope.used.add("objectSchemaPlugin");
+    expression += `.schema(${name})`;
+  }
+
+  scope.lines.push(`.v(${JSON.stringify(path)}, (b) => ${expression})`);
+  if (ownValidator) return;
+  if (type.kind === "object") {
+    collectFields(path, typeName, type.properties, scope);
+  } else if (type.kind === "array" && type.items.type.kind !== "unknown") {
+    const itemType = nonNullable(`${typeName}[number]`, type.items.nullable);
+    collectField(`${path}[*]`, itemType, type.items, "required", scope);
+  }
+}
+
+const nonNullable = (typeName: string, nullable: boolean | undefined) =>
+  nullable ? `NonNullable<${typeName}>` : typeName;
+
+// "items[*].meta" -> "ItemsMeta"
+const pascalCase = (path: string): string =>
+  path
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+
+// b.tuple rejects missing values and has no optional(), so optional
+// tuples are checked as arrays of the tuple's length
+const optionalTuple = (node: FieldNode): FieldNode =>
+  node.type.kind === "tuple"
+    ? field(
+        { kind: "array", items: field({ kind: "unknown" }) },
+        {
+          minItems: node.type.items.length,
+          maxItems: node.type.items.length,
+        },
+        node.nullable
+      )
+    : node;
+
+function chain(node: FieldNode, presence: Presence, used: Set<string>): string {
+  const { type, constraints } = node;
+  if (type.kind === "unknown") return "b.any";
+
+  const call = (plugin: string, method: string, ...args: string[]) => {
+    used.add(plugin);
+    return `.${method}(${args.join(", ")})`;
+  };
+
+  // required() rejects null, so required nullable fields only get nullable()
+  let expression = `b.${builderOf(type)}`;
+  if (presence === "required" && !node.nullable) {
+    expression += call("requiredPlugin", "required");
+  } else if (presence === "optional") {
+    expression += call("optionalPlugin", "optional");
+  }
+  if (node.nullable && type.kind !== "tuple") {
+    expression += call("nullablePlugin", "nullable");
+  }
+
+  switch (type.kind) {
+    case "string": {
+      if (constraints.minLength !== undefined) {
+        expression += call(
+          "stringMinPlugin",
+          "min",
+          String(constraints.minLength)
+        );
+      }
+      if (constraints.maxLength !== undefined) {
+        expression += call(
+          "stringMaxPlugin",
+          "max",
+          String(constraints.maxLength)
+        );
+      }
+      if (constraints.pattern !== undefined) {
+        expression += call(
+          "stringPatternPlugin",
+          "pattern",
+          JSON.stringify(constraints.pattern)
+        );
+      }
+      const format = constraints.format && FORMAT_PLUGINS[constraints.format];
+      if (format) expression += call(...format);
+      break;
+    }
+    case "number":
+      if (constraints.integer)
+        expression += call("numberIntegerPlugin", "integer");
+      if (constraints.minimum !== undefined) {
+        expression += call(
+          "numberMinPlugin",
+          "min",
+          String(constraints.minimum)
+        );
+      }
+      if (constraints.maximum !== undefined) {
+        expression += call(
+          "numberMaxPlugin",
+          "max",
+          String(constraints.maximum)
+        );
+      }
+      if (constraints.multipleOf !== undefined) {
+        expression += call(
+          "numberMultipleOfPlugin",
+          "multipleOf",
+          String(constraints.multipleOf)
+        );
+      }
+      break;
+    case "array":
+      if (constraints.minItems !== undefined) {
+        expression += call(
+          "arrayMinLengthPlugin",
+          "minLength",
+          String(constraints.minItems)
+        );
+      }
+      if (constraints.maxItems !== undefined) {
+        expression += call(
+          "arrayMaxLengthPlugin",
+          "maxLength",
+          String(constraints.maxItems)
+        );
+      }
+      if (constraints.uniqueItems)
+        expression += call("arrayUniquePlugin", "unique");
+      break;
+    case "literal": {
+      const groups = literalGroups(type.values);
+      if (groups.size === 1) {
+        expression += literalCall([...groups.values()][0], call);
+      } else {
+        for (const [kind, values] of groups) {
+          expression += call(
+            "unionGuardPlugin",
+            "guard",
+            literalGuard(values),
+            `(b) => b.${kind}${literalCall(values, call)}`
+          );
+        }
+      }
+      break;
+    }
+    case "tuple":
+      expression += call(
+        "tupleBuilderPlugin",
+        "builder",
+        // builder() takes untyped element contexts
+        ...type.items.map(
+          (item) => `(b: any) => ${chain(item, "required", used)}`
+        )
+      );
+      break;
+    case "union":
+      for (const member of type.members) {
+        const guard =
+          member.type.kind === "literal"
+            ? literalGuard(member.type.values)
+            : GUARDS[member.type.kind] || "() => true";
+        expression += call(
+          "unionGuardPlugin",
+          "guard",
+          guard,
+          `(b) => ${chain({ ...member, nullable: false }, undefined, used)}`
+        );
+      }
+      break;
+  }
+  return expression;
+}
+
+function builderOf(type: TypeNode): string {
+  if (type.kind !== "literal") return type.kind;
+  const groups = literalGroups(type.values);
+  return groups.size === 1 ? [...groups.keys()][0] : "union";
+}
+
+const literalGroups = (values: readonly LiteralValue[]) => {
+  const groups = new Map<string, LiteralValue[]>();
+  for (const value of values) {
+    const kind = typeof value;
+    groups.set(kind, [...(groups.get(kind) || []), value]);
+  }
+  return groups;
+};
+
+// Narrows to the literals so the branch builder gets their type
+const literalGuard = (values: readonly LiteralValue[]): string =>
+  `(v): v is ${values.map(literalText).join(" | ")} => ${values
+    .map((value) => `v === ${literalText(value)}`)
+    .join(" || ")}`;
+
+const literalCall = (
+  values: readonly LiteralValue[],
+  call: (plugin: string, method: string, ...args: string[]) => string
+): string =>
+  values.length === 1
+    ? call("literalPlugin", "literal", literalText(values[0]))
+    : call("oneOfPlugin", "oneOf", `[${values.map(literalText).join(", ")}]`);
+
+function generateInterface(declaration: TypeDeclaration): string {
+  const members = declaration.properties.map(
+    (property) => `  ${propertyText(property)};`
+  );
+  return [`export interface ${declaration.name} {`, ...members, "}"].join("\n");
+}
+
+const propertyText = (property: PropertyNode): string => {
+  const key = /^[A-Za-z_$][\w$]*$/.test(property.name)
+    ? property.name
+    : JSON.stringify(property.name);
+  return `${key}${property.optional ? "?" : ""}: ${typeText(property)}`;
+};
+
+function typeText(node: FieldNode): string {
+  const { type } = node;
+  let text: string;
+  switch (type.kind) {
+    case "date":
+      text = "Date";
+      break;
+    case "literal":
+      text = type.values.map(literalText).join(" | ");
+      break;
+    case "array": {
+      const items = typeText(type.items);
+      text = /^[\w.]+$/.test(items) ? `${items}[]` : `Array<${items}>`;
+      break;
+    }
+    case "tuple":
+      text = `[${type.items.map(typeText).join(", ")}]`;
+      break;
+    case "object":
+      text = `{ ${type.properties.map(propertyText).join("; ")} }`;
+      break;
+    case "union":
+      text = type.members.map(typeText).join(" | ");
+      break;
+    default:
+      text = type.kind;
+  }
+  return node.nullable ? `${text} | null` : text;
+}
@@ -0,0 +1,121 @@
+#!/usr/bin/env node
+
+/**
+ * Builder module generator
+ *
+ * Usage:
+ *   generate-builder <types.ts | schema.json> [--out file] [--type Name]... [--package name]
+ */
+
+import * as path from "path";
+import * as fs from "fs";
+import { parseTypeDeclarations } from "./parse-types";
+import { parseJsonSchema } from "./parse-json-schema";
+import {
+  generateBuilderModule,
+  type GenerateOptions,
+} from "./generate-builder";
+
+export { parseTypeDeclarations, parseJsonSchema, generateBuilderModule };
+export type { GenerateOptions };
+export type {
+  TypeDeclaration,
+  PropertyNode,
+  FieldNode,
+  TypeNode,
+  Constraints,
+} from "./model";
+
+/**
+ * Validators for the exported interfaces and type aliases of a TypeScript file
+ */
+export function generateFromTypeScript(
+  filePath: string,
+  options: GenerateOptions & { typeNames?: readonly string[] } = {}
+): string {
+  const declarations = parseTypeDeclarations(filePath, options.typeNames);
+  if (declarations.length === 0) {
+    throw new Error(`No exported object types found in ${filePath}`);
+  }
+  return generateBuilderModule(declarations, options);
+}
+
+/**
+ * Validator and interface for a JSON Schema object
+ */
+export function generateFromJsonSchema(
+  schema: Record<string, any>,
+  options: Omit<GenerateOptions, "typesModule"> & { name?: string } = {}
+): string {
+  return generateBuilderModule([parseJsonSchema(schema, options.name)], {
+    packageName: options.packageName,
+  });
+}
+
+const toTypeName = (filePath: string): string =>
+  path
+    .basename(filePath)
+    .replace(/\.(schema\.)?json$/, "")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+
+// "./types/user" relative to the generated file
+const toModuleSpecifier = (from: string, filePath: string): string => {
+  const relative = path
+    .relative(from, filePath)
+    .replace(/\.tsx?$/, "")
+    .split(path.sep)
+    .join("/");
+  return relative.startsWith(".") ? relative : `./${relative}`;
+};
+
+function main(args: string[]) {
+  const [input] = args.filter(
+    (arg, index) => !arg.startsWith("--") && !args[index - 1]?.startsWith("--")
+  );
+  const valuesOf = (flag: string) =>
+    args.flatMap((arg, index) =>
+      arg === flag && args[index + 1] ? [args[index + 1]] : []
+    );
+  const [out] = valuesOf("--out");
+  const [packageName] = valuesOf("--package");
+  const typeNames = valuesOf("--type");
+
+  if (!input) {
+    console.error(
+      "Usage: generate-builder <types.ts | schema.json> [--out file] [--type Name]... [--package name]"
+    );
+    process.exit(1);
+  }
+
+  const inputPath = path.resolve(input);
+  const source = inputPath.endsWith(".json")
+    ? generateFromJsonSchema(JSON.parse(fs.readFileSync(inputPath, "utf-8")), {
+        packageName,
+        name: typeNames[0] || toTypeName(inputPath),
+      })
+    : generateFromTypeScript(inputPath, {
+        packageName,
+        typeNames: typeNames.length > 0 ? typeNames : undefined,
+        typesModule: toModuleSpecifier(
+          out ? path.dirname(path.resolve(out)) : process.cwd(),
+          inputPath
+        ),
+      });
+
+  if (out) {
+    fs.writeFileSync(out, source, "utf-8");
+    console.log(`✅ Builder module generated at: ${out}`);
+  } else {
+    process.stdout.write(source);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main(process.argv.slice(2));
+}
+
+export { main };
@@ -0,0 +1,90 @@
+/**
+ * Intermediate model shared by the TypeScript and JSON Schema readers
+ * and the builder module generator
+ */
+
+export type LiteralValue = string | number | boolean;
+
+/**
+ * Constraints mapped to plugins; names follow JSON Schema keywords
+ * (JSDoc tags use the same names: @minLength 3)
+ */
+export interface Constraints {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  multipleOf?: number;
+  integer?: boolean;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+}
+
+export type TypeNode =
+  | { kind: "string" | "number" | "boolean" | "date" | "unknown" }
+  | { kind: "literal"; values: LiteralValue[] }
+  | { kind: "array"; items: FieldNode }
+  | { kind: "tuple"; items: FieldNode[] }
+  | { kind: "object"; properties: PropertyNode[] }
+  | { kind: "union"; members: FieldNode[] };
+
+export interface FieldNode {
+  type: TypeNode;
+  nullable: boolean;
+  constraints: Constraints;
+}
+
+export interface PropertyNode extends FieldNode {
+  name: string;
+  optional: boolean;
+}
+
+/**
+ * Named object type a validator is generated for
+ */
+export interface TypeDeclaration {
+  name: string;
+  properties: PropertyNode[];
+}
+
+export const field = (
+  type: TypeNode,
+  constraints: Constraints = {},
+  nullable = false
+): FieldNode => ({ type, nullable, constraints });
+
+const NUMERIC_CONSTRAINTS = [
+  "minLength",
+  "maxLength",
+  "minimum",
+  "maximum",
+  "multipleOf",
+  "minItems",
+  "maxItems",
+] as const;
+
+/**
+ * Constraints from JSDoc tags (@minLength 3, @format email, @integer)
+ */
+export function constraintsFromTags(
+  tags: ReadonlyArray<{ name: string; text: string }>
+): Constraints {
+  const constraints: Constraints = {};
+  for (const { name, text } of tags) {
+    const value = text.trim();
+    if ((NUMERIC_CONSTRAINTS as readonly string[]).includes(name)) {
+      const amount = Number(value);
+      if (value !== "" && !Number.isNaN(amount)) {
+        constraints[name as (typeof NUMERIC_CONSTRAINTS)[number]] = amount;
+      }
+    } else if (name === "pattern" || name === "format") {
+      constraints[name] = value;
+    } else if (name === "integer" || name === "uniqueItems") {
+      constraints[name] = true;
+    }
+  }
+  return constraints;
+}
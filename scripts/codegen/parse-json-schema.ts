@@ -0,0 +1,175 @@
+import {
+  field,
+  type Constraints,
+  type FieldNode,
+  type PropertyNode,
+  type TypeDeclaration,
+  type TypeNode,
+} from "./model";
+
+type Schema = Record<string, any> | boolean;
+
+const CONSTRAINT_KEYWORDS = [
+  "minLength",
+  "maxLength",
+  "pattern",
+  "format",
+  "minimum",
+  "maximum",
+  "multipleOf",
+  "minItems",
+  "maxItems",
+  "uniqueItems",
+] as const;
+
+/**
+ * Read a JSON Schema object as a named declaration
+ * $refs into "#/$defs" and "#/definitions" are expanded in place
+ */
+export function parseJsonSchema(
+  schema: Record<string, any>,
+  name: string = schema.title || "Schema"
+): TypeDeclaration {
+  const node = toField(schema, schema, new Set());
+  if (node.type.kind !== "object") {
+    throw new Error(`JSON Schema "${name}" does not describe an object`);
+  }
+  return { name, properties: node.type.properties };
+}
+
+function resolveRef(ref: string, root: Record<string, any>): Schema {
+  const match = ref.match(/^#\/(\$defs|definitions)\/(.+)$/);
+  const target = match && root[match[1]]?.[match[2]];
+  if (target === undefined) {
+    throw new Error(`Cannot resolve $ref "${ref}"`);
+  }
+  return target;
+}
+
+const constraintsOf = (schema: Record<string, any>): Constraints => {
+  const constraints: Constraints = {};
+  for (const keyword of CONSTRAINT_KEYWORDS) {
+    if (schema[keyword] !== undefined) {
+      (constraints as Record<string, unknown>)[keyword] = schema[keyword];
+    }
+  }
+  if (schema.type === "integer" || schema.type?.includes?.("integer")) {
+    constraints.integer = true;
+  }
+  return constraints;
+};
+
+function toField(
+  schema: Schema,
+  root: Record<string, any>,
+  visiting: Set<string>
+): FieldNode {
+  if (typeof schema === "boolean") return field({ kind: "unknown" });
+
+  if (schema.$ref) {
+    // Recursive references stop at the first repetition
+    if (visiting.has(schema.$ref)) return field({ kind: "unknown" });
+    const next = new Set(visiting).add(schema.$ref);
+    return toField(resolveRef(schema.$ref, root), root, next);
+  }
+
+  const constraints = constraintsOf(schema);
+  const types: string[] = Array.isArray(schema.type)
+    ? schema.type
+    : schema.type
+      ? [schema.type]
+      : [];
+  const nullable = schema.nullable === true || types.includes("null");
+
+  if ("const" in schema) {
+    return field(
+      { kind: "literal", values: [schema.const] },
+      constraints,
+      nullable
+    );
+  }
+  if (Array.isArray(schema.enum)) {
+    const values = schema.enum.filter((value: unknown) => value !== null);
+    return field(
+      { kind: "literal", values },
+      constraints,
+      nullable || values.length !== schema.enum.length
+    );
+  }
+
+  const variants: Schema[] | undefined = schema.anyOf || schema.oneOf;
+  if (variants) {
+    const members = variants
+      .filter(
+        (variant) => !(typeof variant === "object" && variant.type === "null")
+      )
+      .map((variant) => toField(variant, root, visiting));
+    const isNullable = nullable || members.length !== variants.length;
+    return members.length === 1
+      ? { ...members[0], nullable: isNullable }
+      : field({ kind: "union", members }, constraints, isNullable);
+  }
+
+  const nodes = types
+    .filter((type) => type !== "null")
+    .map((type) => typeNode(type, schema, root, visiting));
+  if (nodes.length === 0 && schema.properties) {
+    nodes.push(typeNode("object", schema, root, visiting));
+  }
+  if (nodes.length === 0)
+    return field({ kind: "unknown" }, constraints, nullable);
+  if (nodes.length === 1) return field(nodes[0], constraints, nullable);
+  return field(
+    { kind: "union", members: nodes.map((node) => field(node, constraints)) },
+    {},
+    nullable
+  );
+}
+
+function typeNode(
+  type: string,
+  schema: Record<string, any>,
+  root: Record<string, any>,
+  visiting: Set<string>
+): TypeNode {
+  switch (type) {
+    case "string":
+      return { kind: "string" };
+    case "number":
+    case "integer":
+      return { kind: "number" };
+    case "boolean":
+      return { kind: "boolean" };
+    case "array": {
+      const tupleItems =
+        schema.prefixItems || (Array.isArray(schema.items) && schema.items);
+      if (tupleItems) {
+        return {
+          kind: "tuple",
+          items: tupleItems.map((item: Schema) =>
+            toField(item, root, visiting)
+          ),
+        };
+      }
+      return {
+        kind: "array",
+        items: schema.items
+          ? toField(schema.items, root, visiting)
+          : field({ kind: "unknown" }),
+      };
+    }
+    case "object": {
+      const required: string[] = schema.required || [];
+      const properties = Object.entries<Schema>(schema.properties || {}).map(
+        ([name, property]): PropertyNode => ({
+          name,
+          optional: !required.includes(name),
+          ...toField(property, root, visiting),
+        })
+      );
+      return { kind: "object", properties };
+    }
+    default:
+      return { kind: "unknown" };
+  }
+}
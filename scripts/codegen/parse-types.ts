@@ -0,0 +1,192 @@
+import ts from "typescript";
+import {
+  constraintsFromTags,
+  field,
+  type Constraints,
+  type FieldNode,
+  type LiteralValue,
+  type PropertyNode,
+  type TypeDeclaration,
+} from "./model";
+
+/**
+ * Read the exported interfaces and object type aliases of a TypeScript file
+ * Property types are resolved with the type checker, so references to other
+ * interfaces, enums and utility types expand to their structure
+ */
+export function parseTypeDeclarations(
+  filePath: string,
+  typeNames?: readonly string[]
+): TypeDeclaration[] {
+  const program = ts.createProgram([filePath], {
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+  });
+  const checker = program.getTypeChecker();
+  const sourceFile = program.getSourceFile(filePath);
+  if (!sourceFile) {
+    throw new Error(`Cannot read TypeScript file: ${filePath}`);
+  }
+
+  const declarations: TypeDeclaration[] = [];
+  for (const statement of sourceFile.statements) {
+    if (
+      !(
+        ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement)
+      ) ||
+      !isExported(statement) ||
+      statement.typeParameters?.length
+    ) {
+      continue;
+    }
+    const name = statement.name.text;
+    if (typeNames && !typeNames.includes(name)) continue;
+
+    const node = toField(
+      checker,
+      checker.getTypeAtLocation(statement.name),
+      statement,
+      {},
+      new Set()
+    );
+    if (node.type.kind === "object") {
+      declarations.push({ name, properties: node.type.properties });
+    }
+  }
+  return declarations;
+}
+
+const isExported = (declaration: ts.Declaration): boolean =>
+  (ts.getCombinedModifierFlags(declaration) & ts.ModifierFlags.Export) !== 0;
+
+const literalOf = (type: ts.Type): LiteralValue | undefined => {
+  if (type.isStringLiteral() || type.isNumberLiteral()) return type.value;
+  if (type.flags & ts.TypeFlags.BooleanLiteral) {
+    return (
+      (type as ts.Type & { intrinsicName: string }).intrinsicName === "true"
+    );
+  }
+  return undefined;
+};
+
+function toField(
+  checker: ts.TypeChecker,
+  type: ts.Type,
+  location: ts.Node,
+  constraints: Constraints,
+  visiting: Set<ts.Type>
+): FieldNode {
+  if (type.isUnion()) {
+    const members = type.types.filter(
+      (member) => !(member.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined))
+    );
+    const nullable = type.types.some(
+      (member) => (member.flags & ts.TypeFlags.Null) !== 0
+    );
+    const node = toUnion(checker, members, location, constraints, visiting);
+    return { ...node, nullable: node.nullable || nullable };
+  }
+
+  const literal = literalOf(type);
+  if (literal !== undefined) {
+    return field({ kind: "literal", values: [literal] }, constraints);
+  }
+  if (type.flags & ts.TypeFlags.StringLike)
+    return field({ kind: "string" }, constraints);
+  if (type.flags & ts.TypeFlags.NumberLike)
+    return field({ kind: "number" }, constraints);
+  if (type.flags & ts.TypeFlags.BooleanLike)
+    return field({ kind: "boolean" }, constraints);
+
+  if (checker.isTupleType(type)) {
+    return field(
+      {
+        kind: "tuple",
+        items: checker
+          .getTypeArguments(type as ts.TypeReference)
+          .map((item) => toField(checker, item, location, {}, visiting)),
+      },
+      constraints
+    );
+  }
+  if (checker.isArrayType(type)) {
+    const [items] = checker.getTypeArguments(type as ts.TypeReference);
+    return field(
+      { kind: "array", items: toField(checker, items, location, {}, visiting) },
+      constraints
+    );
+  }
+  if (type.getSymbol()?.getName() === "Date") {
+    return field({ kind: "date" }, constraints);
+  }
+
+  // Recursive types stop at the first repetition
+  if (type.flags & ts.TypeFlags.Object && !visiting.has(type)) {
+    visiting.add(type);
+    const properties = checker
+      .getPropertiesOfType(type)
+      .map((property): PropertyNode => {
+        const propertyType = checker.getTypeOfSymbolAtLocation(
+          property,
+          location
+        );
+        const tags = property.getJsDocTags(checker).map((tag) => ({
+          name: tag.name,
+          text: ts.displayPartsToString(tag.text),
+        }));
+        return {
+          name: property.getName(),
+          optional: (property.flags & ts.SymbolFlags.Optional) !== 0,
+          ...toField(
+            checker,
+            propertyType,
+            location,
+            constraintsFromTags(tags),
+            visiting
+          ),
+        };
+      });
+    visiting.delete(type);
+    return field({ kind: "object", properties }, constraints);
+  }
+  return field({ kind: "unknown" }, constraints);
+}
+
+function toUnion(
+  checker: ts.TypeChecker,
+  members: ts.Type[],
+  location: ts.Node,
+  constraints: Constraints,
+  visiting: Set<ts.Type>
+): FieldNode {
+  // boolean is the union true | false
+  const booleans = members.filter(
+    (member) => member.flags & ts.TypeFlags.BooleanLiteral
+  );
+  const rest =
+    booleans.length === 2
+      ? members.filter((member) => !booleans.includes(member))
+      : members;
+  const nodes = rest.map((member) =>
+    toField(checker, member, location, constraints, visiting)
+  );
+  if (booleans.length === 2)
+    nodes.push(field({ kind: "boolean" }, constraints));
+
+  if (nodes.length === 0) return field({ kind: "unknown" }, constraints);
+  if (nodes.length === 1) return nodes[0];
+  if (nodes.every((node) => node.type.kind === "literal")) {
+    return field(
+      {
+        kind: "literal",
+        values: nodes.flatMap((node) =>
+          node.type.kind === "literal" ? node.type.values : []
+        ),
+      },
+      constraints
+    );
+  }
+  return field({ kind: "union", members: nodes }, constraints);
+}
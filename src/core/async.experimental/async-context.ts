@@ -112,6 +112,7 @@ export function createAsyncContext<T = {}>(): AsyncContextBuilder<T> {
  */
 export function addAsyncSupport<TObject>(validator: {
   validate: (value: any, options?: any) => Result<TObject>;
+  validateAsync?: (value: any, options?: any) => Promise<Result<TObject>>;
 }): AsyncAwareValidator<TObject> {
   return {
     validate: validator.validate,
@@ -154,6 +155,11 @@ export function addAsyncSupport<TObject>(validator: {
             },
           };
 
+          // Async rules receive the context data too (see refineAsync)
+          if (validator.validateAsync) {
+            return validator.validateAsync(value, extendedOptions);
+          }
+
           // Execute sync validation (async context already resolved)
           return validator.validate(value, extendedOptions);
         },
@@ -0,0 +1,222 @@
+/**
+ * Async rules - checks that await (refineAsync)
+ *
+ * The synchronous pipeline sees async rules as passing checks, so validate()
+ * keeps its fast path; validateAsync/parseAsync run the sync validator first
+ * and then the async checks of every value without errors
+ */
+
+import { Result } from "../../types/result";
+import type { ValidationError, ValidationOptions } from "../../types";
+import { isSoftValidator, withWarnings } from "../severity";
+import { getAsyncContext } from "./async-context";
+import { runWithTranslate, translateMessage } from "../i18n/translator";
+import {
+  collectRuleFields,
+  resolveFieldPaths,
+  type RuleField,
+} from "../utils/rule-fields";
+
+/**
+ * Options for validateAsync/parseAsync
+ */
+export interface AsyncValidationOptions extends ValidationOptions {
+  /** Cancels pending async rules; the returned promise rejects with signal.reason */
+  signal?: AbortSignal;
+  /** Default timeout of each async rule in ms (a rule's own timeout wins) */
+  timeout?: number;
+  /** Maximum number of async rules running at once (default: unlimited) */
+  concurrency?: number;
+  /** Data resolved by withAsyncContext */
+  asyncContext?: Record<string, any>;
+}
+
+/**
+ * Second argument of an async rule
+ */
+export interface AsyncRuleContext<
+  TContext extends Record<string, any> = Record<string, any>,
+> {
+  path: string;
+  allValues: any;
+  asyncContext?: TContext;
+  /** Aborted on timeout, on cancellation and when abortEarly stops the run */
+  signal: AbortSignal;
+}
+
+export type AsyncRuleResult = boolean | { valid: boolean; message?: string };
+
+export const ASYNC_TIMEOUT_CODE = "ASYNC_TIMEOUT";
+
+const ASYNC_TIMEOUT_KEY = "asyncTimeout";
+
+const TIMED_OUT = Symbol("timedOut");
+
+type RuleOutcome = { valid: boolean; message?: string } | typeof TIMED_OUT;
+
+export function isAsyncValidator(validator: any): boolean {
+  return typeof validator?.checkAsync === "function";
+}
+
+/**
+ * Collect the fields whose rules include async validators
+ */
+export function getAsyncRuleFields(
+  definitions: ReadonlyArray<{ path: string; rules?: readonly any[] }>
+): RuleField[] {
+  return collectRuleFields(definitions, isAsyncValidator);
+}
+
+/**
+ * Run one async rule; resolves undefined when the run was aborted and
+ * rejects with the error a rule throws (a failed lookup is not an issue)
+ */
+const runAsyncRule = (
+  validator: any,
+  value: unknown,
+  context: Omit<AsyncRuleContext, "signal">,
+  parentSignal: AbortSignal,
+  timeout: number | undefined
+): Promise<RuleOutcome | undefined> => {
+  const controller = new AbortController();
+  const abort = () => controller.abort(parentSignal.reason);
+  parentSignal.addEventListener("abort", abort, { once: true });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  return new Promise<RuleOutcome | undefined>((resolve, reject) => {
+    controller.signal.addEventListener("abort", () => resolve(undefined), {
+      once: true,
+    });
+    if (timeout !== undefined) {
+      timer = setTimeout(() => {
+        resolve(TIMED_OUT);
+        controller.abort(new Error(`Async rule timed out (${timeout}ms)`));
+      }, timeout);
+    }
+    Promise.resolve()
+      .then(() =>
+        validator.checkAsync(value, { ...context, signal: controller.signal })
+      )
+      .then(resolve, reject);
+  }).finally(() => {
+    clearTimeout(timer);
+    parentSignal.removeEventListener("abort", abort);
+  });
+};
+
+const createIssue = (
+  validator: any,
+  outcome: RuleOutcome,
+  value: unknown,
+  path: string,
+  timeout: number | undefined
+): ValidationError => {
+  const timedOut = outcome === TIMED_OUT;
+  const code = timedOut
+    ? ASYNC_TIMEOUT_CODE
+    : validator.code || validator.pluginName || validator.name;
+  const message = timedOut
+    ? (translateMessage(ASYNC_TIMEOUT_KEY, () => ({ path, timeout })) ??
+      `${path} validation timed out after ${timeout}ms`)
+    : outcome.message || validator.getErrorMessage(value, path);
+
+  return {
+    path,
+    code,
+    message,
+    ...(isSoftValidator(validator) && { severity: validator.severity }),
+    paths: () => [path],
+  };
+};
+
+/**
+ * Run async rules of every value that passed synchronous validation
+ * and merge their issues into the synchronous result
+ */
+export async function runAsyncRules<T>(
+  fields: readonly RuleField[],
+  data: unknown,
+  syncResult: Result<T>,
+  options: AsyncValidationOptions = {}
+): Promise<Result<T>> {
+  const { signal } = options;
+  const abortEarly = options.abortEarly !== false;
+  if (signal?.aborted) throw signal.reason;
+  if (data === null || typeof data !== "object") return syncResult;
+  if (!syncResult.isValid() && abortEarly) return syncResult;
+
+  const syncErrors = syncResult.isValid() ? [] : syncResult.errors;
+  const errorPaths = new Set(syncErrors.map((error) => error.path));
+  const tasks: Array<{ validator: any; path: string; value: unknown }> = [];
+  for (const field of fields) {
+    for (const [path, value] of resolveFieldPaths(data, field.path)) {
+      if (value === undefined || value === null || errorPaths.has(path)) {
+        continue;
+      }
+      for (const validator of field.validators) {
+        if (isAsyncValidator(validator)) tasks.push({ validator, path, value });
+      }
+    }
+  }
+  if (tasks.length === 0) return syncResult;
+
+  // Stops the remaining rules on cancellation or abortEarly
+  const controller = new AbortController();
+  const cancel = () => controller.abort(signal!.reason);
+  signal?.addEventListener("abort", cancel, { once: true });
+
+  const errors: Array<ValidationError | undefined> = [];
+  const warnings: Array<ValidationError | undefined> = [];
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < tasks.length && !controller.signal.aborted) {
+      const index = next++;
+      const { validator, path, value } = tasks[index];
+      const timeout = validator.timeout ?? options.timeout;
+      const outcome = await runAsyncRule(
+        validator,
+        value,
+        { path, allValues: data, asyncContext: getAsyncContext(options) },
+        controller.signal,
+        timeout
+      );
+      if (!outcome || (outcome !== TIMED_OUT && outcome.valid)) continue;
+
+      const issue = runWithTranslate(options.translate, () =>
+        createIssue(validator, outcome, value, path, timeout)
+      );
+      if (isSoftValidator(validator)) {
+        warnings[index] = issue;
+      } else {
+        errors[index] = issue;
+        if (abortEarly) controller.abort();
+      }
+    }
+  };
+
+  const concurrency = Math.max(1, options.concurrency ?? tasks.length);
+  try {
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, tasks.length) }, worker)
+    );
+  } catch (error) {
+    // Rules still running are cancelled before the error is rethrown
+    controller.abort(error);
+    throw error;
+  } finally {
+    signal?.removeEventListener("abort", cancel);
+  }
+  if (signal?.aborted) throw signal.reason;
+
+  // Keep definition order regardless of completion order
+  const asyncErrors = errors.filter(Boolean) as ValidationError[];
+  const asyncWarnings = warnings.filter(Boolean) as ValidationError[];
+  if (asyncErrors.length === 0) {
+    return withWarnings(syncResult, asyncWarnings);
+  }
+  return Result.error<T>(
+    abortEarly ? asyncErrors.slice(0, 1) : [...syncErrors, ...asyncErrors],
+    [...syncResult.warnings, ...asyncWarnings]
+  );
+}
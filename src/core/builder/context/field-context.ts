@@ -11,6 +11,13 @@ import type {
   TypeMapping,
 } from "../plugins/plugin-types";
 import { attachComposablePlugin } from "../plugins/composable-plugin";
+import {
+  localizeGetErrorMessage,
+  localizeMessageFactory,
+  localizeTypeMessageFactory,
+} from "../../i18n/localize";
+import { applySeverity } from "../../severity";
+import { configuredStringNormalizers } from "../../plugin/string-normalize-utils";
 
 // Validation function signature optimized for monomorphic calls
 type OptimizedValidator<T = unknown> = (value: T, currentValue: T) => boolean;
@@ -135,6 +142,76 @@ function getTypeValidator(type: TypeName): ValidatorWithMeta<unknown> | null {
         outputType: "date",
         metadata: { severity: "error" as const, async: false },
       };
+    case "map":
+      return {
+        check: (value: any) => {
+          // Skip null check if nullable plugin is present (will be handled later)
+          if (value === null || value === undefined) {
+            // Let nullable plugin handle this later in the chain
+            return true;
+          }
+          return value instanceof Map;
+        },
+        name: "mapType",
+        messageFactory: () => "Expected Map",
+        inputType: "map",
+        outputType: "map",
+        metadata: { severity: "error" as const, async: false },
+      };
+    case "set":
+      return {
+        check: (value: any) => {
+          // Skip null check if nullable plugin is present (will be handled later)
+          if (value === null || value === undefined) {
+            // Let nullable plugin handle this later in the chain
+            return true;
+          }
+          return value instanceof Set;
+        },
+        name: "setType",
+        messageFactory: () => "Expected Set",
+        inputType: "set",
+        outputType: "set",
+        metadata: { severity: "error" as const, async: false },
+      };
+    case "record":
+      return {
+        check: (value: any) => {
+          // Skip null check if nullable plugin is present (will be handled later)
+          if (value === null || value === undefined) {
+            // Let nullable plugin handle this later in the chain
+            return true;
+          }
+          return (
+            typeof value === "object" &&
+            !Array.isArray(value) &&
+            !(value instanceof Map) &&
+            !(value instanceof Set) &&
+            !(value instanceof Date)
+          );
+        },
+        name: "recordType",
+        messageFactory: () => "Expected record",
+        inputType: "record",
+        outputType: "record",
+        metadata: { severity: "error" as const, async: false },
+      };
+    case "bigint":
+      return {
+        check: (value: any) => {
+          // Skip null check if nullable plugin is present (will be handled later)
+          if (value === null || value === undefined) {
+            // Let nullable plugin handle this later in the chain
+            return true;
+          }
+          return typeof value === "bigint";
+        },
+        name: "bigintType",
+        messageFactory: () => "Expected bigint",
+        inputType: "bigint",
+        outputType: "bigint",
+        metadata: { severity: "error" as const, async: false },
+      };
     case "null":
       return {
         check: (value: any) => value === null,
@@ -186,12 +263,23 @@ export function createOptimizedTypeBuilder<
     // Only add for new builders, not chained ones
     const typeValidator = getTypeValidator(type);
     if (typeValidator) {
+      typeValidator.messageFactory = localizeTypeMessageFactory(
+        typeValidator.messageFactory!,
+        type
+      );
       validators.push(typeValidator);
     }
   }
   const transforms: Array<TransformFunction<unknown, unknown>> =
     existingState?.transforms ? [...existingState.transforms] : [];
 
+  // Normalizers declared so far; rules declared after them see their output
+  const normalizers: Array<(value: unknown) => unknown> =
+    !existingState && type === "string"
+      ? configuredStringNormalizers().map((format) => format.__transformFn!)
+      : [];
+  transforms.push(...normalizers);
+
   // Base builder object - simplified without ExecutionPlan
   const builder: Record<string, unknown> = {
     _type: type,
@@ -227,7 +315,8 @@ export function createOptimizedTypeBuilder<
     fieldPath,
     plugins,
     validators,
-    transforms
+    transforms,
+    normalizers
   );
 
   // Attach refine methods (needed by jsonSchema.ts)
@@ -316,7 +405,8 @@ function attachPluginMethods<TObject extends object, TPlugins>(
   fieldPath: string,
   plugins: TPlugins,
   validators: ValidatorWithMeta<unknown>[],
-  transforms: Array<TransformFunction<unknown, unknown>>
+  transforms: Array<TransformFunction<unknown, unknown>>,
+  normalizers: Array<(value: unknown) => unknown>
 ): void {
   const pluginEntries = Object.entries(plugins as Record<string, any>);
   const entriesLength = pluginEntries.length;
@@ -346,7 +436,10 @@ function attachPluginMethods<TObject extends object, TPlugins>(
       try {
         const result = createFn(...args);
 
-        if (category === "transform") {
+        if (result?.__isNormalize) {
+          normalizers.push(result.__transformFn);
+          transforms.push(result.__transformFn);
+        } else if (category === "transform") {
           const transformFn = extractTransformFunction(result, args[0]);
           transforms.push(transformFn);
         } else {
@@ -359,7 +452,15 @@ function attachPluginMethods<TObject extends object, TPlugins>(
             args,
             result
           );
-          validators.push(validator);
+          validators.push(
+            normalizers.length > 0
+              ? withNormalizedInput(validator, [...normalizers])
+              : validator
+          );
+          // Rules that also change the parsed value (nested validators)
+          if (typeof result?.transformOnParse === "function") {
+            transforms.push(result.transformOnParse);
+          }
         }
       } catch (e) {
         // Plugin error - ignore silently
@@ -369,6 +470,33 @@ function attachPluginMethods<TObject extends object, TPlugins>(
   }
 }
 
+/**
+ * Validator that checks (and reports) the value after the given normalizers
+ */
+function withNormalizedInput<TValidator extends ValidatorWithMeta<any>>(
+  validator: TValidator,
+  normalizers: Array<(value: unknown) => unknown>
+): TValidator {
+  const normalize = (value: unknown) =>
+    normalizers.reduce((current, fn) => fn(current), value);
+  const { check, messageFactory } = validator;
+  const getErrorMessage = (validator as any).getErrorMessage;
+  const normalized: any = {
+    ...validator,
+    check: (value: any, ...rest: any[]) =>
+      (check as any)(normalize(value), ...rest),
+  };
+  if (getErrorMessage) {
+    normalized.getErrorMessage = (value: any, ...rest: any[]) =>
+      getErrorMessage(normalize(value), ...rest);
+  }
+  if (messageFactory) {
+    normalized.messageFactory = (context: any) =>
+      messageFactory({ ...context, value: normalize(context?.value) });
+  }
+  return normalized;
+}
+
 // Consolidated helper functions
 function extractTransformFunction(result: any, fallback: any) {
   if (typeof result === "function") return fallback;
@@ -399,17 +527,33 @@ function createValidatorMeta(
   args: any[],
   originalResult?: any
 ) {
+  // A messageFactory passed to the rule overrides translated messages
+  const customMessageFactory = args[args.length - 1]?.messageFactory;
+  const severity =
+    args[args.length - 1]?.severity || originalResult?.metadata?.severity;
+  const messageKey = originalResult?.pluginName || name;
+  const getErrorMessage =
+    originalResult?.getErrorMessage && !customMessageFactory
+      ? localizeGetErrorMessage(originalResult.getErrorMessage, messageKey, args)
+      : originalResult?.getErrorMessage;
+  const messageFactory =
+    customMessageFactory ||
+    localizeMessageFactory(
+      originalResult?.messageFactory || (() => "Validation failed"),
+      messageKey,
+      args
+    );
+
   const validator = {
     check: checkFn,
     name,
     // V8 optimization: Keep code and getErrorMessage from plugin
     code: originalResult?.code || name,
     pluginName: originalResult?.pluginName || name,
-    getErrorMessage: originalResult?.getErrorMessage,
-    messageFactory:
-      args[args.length - 1]?.messageFactory ||
-      originalResult?.messageFactory ||
-      (() => "Validation failed"),
+    getErrorMessage,
+    messageFactory,
+    // Raw call arguments, kept for introspection (e.g. JSON Schema export)
+    params: args,
     inputType: type,
     outputType: type,
     metadata: originalResult?.metadata || {
@@ -446,9 +590,26 @@ function createValidatorMeta(
     if (originalResult.recursive) {
       (validator as any).recursive = originalResult.recursive;
     }
+    // Preserve async checks (run by validateAsync/parseAsync)
+    if (originalResult.checkAsync) {
+      (validator as any).checkAsync = originalResult.checkAsync;
+      (validator as any).timeout = originalResult.timeout;
+    }
+    // Preserve input coercion (applied before validate/parse)
+    if (originalResult.coerce) {
+      (validator as any).coerce = originalResult.coerce;
+    }
+    // Preserve input preprocessing (applied before coercion)
+    if (originalResult.preprocess) {
+      (validator as any).preprocess = originalResult.preprocess;
+    }
+    // Preserve nested issues (errors reported below the field's path)
+    if (originalResult.getNestedIssues) {
+      (validator as any).getNestedIssues = originalResult.getNestedIssues;
+    }
   }
 
-  return validator;
+  return applySeverity(validator, severity);
 }
 
 /**
@@ -508,6 +669,26 @@ export function createOptimizedFieldContext<
     fieldPath,
     plugins
   );
+  const mapBuilder = createOptimizedTypeBuilder<TObject, TPlugins, "map">(
+    "map",
+    fieldPath,
+    plugins
+  );
+  const setBuilder = createOptimizedTypeBuilder<TObject, TPlugins, "set">(
+    "set",
+    fieldPath,
+    plugins
+  );
+  const recordBuilder = createOptimizedTypeBuilder<TObject, TPlugins, "record">(
+    "record",
+    fieldPath,
+    plugins
+  );
+  const bigintBuilder = createOptimizedTypeBuilder<TObject, TPlugins, "bigint">(
+    "bigint",
+    fieldPath,
+    plugins
+  );
 
   // Return direct object without getters
   return {
@@ -520,6 +701,10 @@ export function createOptimizedFieldContext<
     union: unionBuilder,
     object: objectBuilder,
     any: anyBuilder,
+    map: mapBuilder,
+    set: setBuilder,
+    record: recordBuilder,
+    bigint: bigintBuilder,
   } as FieldBuilderContext<TObject, TPlugins, TFieldType>;
 }
 
@@ -10,17 +10,68 @@ import type {
   AddFieldTransform,
   ExtractFieldType,
   ApplyFieldTransforms as ApplyNestedTransforms,
-  TransformAwareValidator,
+  BuiltValidator,
   MissingFields,
+  ApplyUnknownKeyPolicy,
   FieldDefinition as FieldDefinitionType,
 } from "../plugins/plugin-types";
 import type { FieldConfig, FieldOptions } from "../types/field-options";
+import type { ToJsonSchemaOptions } from "../../plugin/jsonSchema/types";
 import { normalizeFieldConfig } from "../types/field-options";
 import type { FieldRule } from "../../registry/plugin-registry";
 import { FieldBuilderDefinition } from "../types/types";
 import { createValidatorFactory, FieldDefinition } from "../validator-factory";
 import { DOT } from "../../../constants";
-import { createFieldContext } from "../context/field-context";
+import {
+  createFieldContext,
+  createOptimizedTypeBuilder,
+} from "../context/field-context";
+import { convertFieldDefinitionsToJsonSchema } from "../../plugin/jsonSchema/exporter";
+import { runTranslated } from "../../i18n/localize";
+import {
+  getSoftRuleFields,
+  collectSoftIssues,
+  withWarnings,
+} from "../../severity";
+import {
+  getNestedIssueFields,
+  expandNestedIssues,
+  runWithNestedResults,
+} from "../../nested-issues";
+import {
+  getCoercedFields,
+  coerceInput,
+  withCoercionIssues,
+} from "../../coercion";
+import {
+  getPreprocessedFields,
+  preprocessInput,
+  type ObjectPreprocessor,
+} from "../../preprocess";
+import {
+  getAsyncRuleFields,
+  runAsyncRules,
+  type AsyncValidationOptions,
+} from "../../async.experimental/async-rules";
+import { addAsyncSupport } from "../../async.experimental/async-context";
+import { standardSchemaProps, toStandardResult } from "../../standard-schema";
+import {
+  buildDependencyGraph,
+  getAffectedFields,
+  type DependencyGraph,
+} from "../../field-dependencies";
+import {
+  buildShape,
+  hasKeyRestrictions,
+  collectUnknownKeyIssues,
+  stripUnknownKeys,
+  withUnknownKeyIssues,
+  type UnknownKeyPolicy,
+  type UnknownKeyPredicate,
+} from "../../unknown-keys";
+import type { ParseOptions, Result, ValidationOptions } from "../../../types";
+import { optionalPlugin } from "../../plugin/optional";
+import { requiredPlugin } from "../../plugin/required";
 
 // Re-export types from plugin-types
 export type { FieldBuilder } from "../plugins/plugin-types";
@@ -34,15 +85,22 @@ export function createFieldBuilderImpl<
   TMap = {},
   TPlugins = {},
   TDeclaredFields extends string = never,
+  TUnknownKeys extends UnknownKeyPolicy = "passthrough",
 >(
   plugins: TPlugins,
   chainableBuilder: any,
   fieldDefinitions: Array<FieldBuilderDefinition<TObject, TPlugins, any>> = [],
-  isStrict: boolean = false
-): FieldBuilder<TObject, TMap, TPlugins, TDeclaredFields> {
+  isStrict: boolean = false,
+  unknownKeyPolicy: UnknownKeyPolicy = "passthrough",
+  preprocessors: ReadonlyArray<ObjectPreprocessor> = [],
+  allowUnknownKey?: UnknownKeyPredicate
+): FieldBuilder<TObject, TMap, TPlugins, TDeclaredFields, TUnknownKeys> {
   // Store field definitions for deferred building with type safety
   const _fieldDefinitions = [...fieldDefinitions];
   const _isStrict = isStrict;
+  const _unknownKeyPolicy = unknownKeyPolicy;
+  const _preprocessors = preprocessors;
+  const _allowUnknownKey = allowUnknownKey;
 
   // Cached validator factory for performance
   let _validatorFactory:
@@ -62,7 +120,7 @@ export function createFieldBuilderImpl<
    * @deprecated Use `v` method instead. This method will be removed in a future version.
    * Add a field with type-safe validation and optional field configuration
    * Ensures path exists in TObject at compile time
-   * WIP: Does not validate unknown properties by default
+   * Unknown properties are kept unless unknownKeys() sets another policy
    */
   const field = <Key extends NestedKeyOf<TObject> & string, TFieldBuilder>(
     path: Key,
@@ -82,7 +140,8 @@ export function createFieldBuilderImpl<
       ExtractFieldType<TFieldBuilder>
     >,
     TPlugins,
-    TDeclaredFields | Key
+    TDeclaredFields | Key,
+    TUnknownKeys
   > => {
     // Normalize field options
     const normalizedOptions = fieldOptions !== undefined ? 
@@ -108,18 +167,22 @@ export function createFieldBuilderImpl<
         ExtractFieldType<TFieldBuilder>
       >,
       TPlugins,
-      TDeclaredFields | Key
+      TDeclaredFields | Key,
+      TUnknownKeys
     >(
       plugins,
       chainableBuilder,
       [..._fieldDefinitions, fieldDefinition],
-      _isStrict
+      _isStrict,
+      _unknownKeyPolicy,
+      _preprocessors,
+      _allowUnknownKey
     );
   };
 
   /**
    * Alias for field() with same signature and field options support
-   * WIP: Does not validate unknown properties by default
+   * Unknown properties are kept unless unknownKeys() sets another policy
    */
   const v = field;
 
@@ -136,7 +199,7 @@ export function createFieldBuilderImpl<
   const useField = <Key extends NestedKeyOf<TObject> & string>(
     path: Key,
     fieldRule: FieldRule<TypeOfPath<TObject, Key>>
-  ): FieldBuilder<TObject, TMap, TPlugins, TDeclaredFields | Key> => {
+  ): FieldBuilder<TObject, TMap, TPlugins, TDeclaredFields | Key, TUnknownKeys> => {
     const fieldDefinition: FieldBuilderDefinition<TObject, TPlugins, TypeOfPath<TObject, Key>> = {
       path,
       inferredType: inferFieldType<Key>(path),
@@ -145,11 +208,160 @@ export function createFieldBuilderImpl<
       fieldType: {} as TypeOfPath<TObject, Key>, // Type marker for proper inference
     };
 
-    return createFieldBuilderImpl<TObject, TMap, TPlugins, TDeclaredFields | Key>(
+    return createFieldBuilderImpl<
+      TObject,
+      TMap,
+      TPlugins,
+      TDeclaredFields | Key,
+      TUnknownKeys
+    >(
       plugins,
       chainableBuilder,
       [..._fieldDefinitions, fieldDefinition],
-      _isStrict
+      _isStrict,
+      _unknownKeyPolicy,
+      _preprocessors,
+      _allowUnknownKey
+    );
+  };
+
+  // New builder over other definitions, keeping policy and strict mode
+  const derive = (
+    definitions: Array<FieldBuilderDefinition<TObject, TPlugins, any>>,
+    nextPlugins: any = plugins
+  ): any =>
+    createFieldBuilderImpl(
+      nextPlugins,
+      chainableBuilder,
+      definitions,
+      _isStrict,
+      _unknownKeyPolicy,
+      _preprocessors,
+      _allowUnknownKey
+    );
+
+  /**
+   * Add the fields of another builder (the object types are intersected)
+   * Fields of the other builder replace fields with the same path
+   * @example
+   * ```typescript
+   * const create = base.extend(audit).build();
+   * ```
+   */
+  const extend = (other: any): any => {
+    const otherDefinitions: Array<FieldBuilderDefinition<TObject, TPlugins, any>> =
+      other._fieldDefinitions || [];
+    const replaced = new Set(otherDefinitions.map((def) => def.path));
+    return derive(
+      [
+        ..._fieldDefinitions.filter((def) => !replaced.has(def.path)),
+        ...otherDefinitions,
+      ],
+      { ...(plugins as object), ...other._plugins }
+    );
+  };
+
+  /**
+   * Keep only the given top-level fields (and the paths below them)
+   */
+  const pick = (keys: readonly string[]): any =>
+    derive(_fieldDefinitions.filter((def) => keys.includes(rootKeyOf(def.path))));
+
+  /**
+   * Remove the given top-level fields (and the paths below them)
+   */
+  const omit = (keys: readonly string[]): any =>
+    derive(
+      _fieldDefinitions.filter((def) => !keys.includes(rootKeyOf(def.path)))
+    );
+
+  /**
+   * Make every field optional: required() rules are replaced by optional()
+   */
+  const partial = (): any => {
+    const withOptional = {
+      ...(plugins as object),
+      [optionalPlugin.name]: optionalPlugin,
+    };
+    return derive(
+      _fieldDefinitions.map((def) =>
+        withPresence(def, "optional", withOptional)
+      ),
+      withOptional
+    );
+  };
+
+  /**
+   * Make every field required: optional() rules are replaced by required()
+   */
+  const required = (): any => {
+    const withRequired = {
+      ...(plugins as object),
+      [requiredPlugin.name]: requiredPlugin,
+    };
+    return derive(
+      _fieldDefinitions.map((def) =>
+        withPresence(def, "required", withRequired)
+      ),
+      withRequired
+    );
+  };
+
+  /**
+   * Set how parse() treats keys that no field declares
+   * - passthrough (default): keep them
+   * - strip: drop them from the parsed output
+   * - strict: report them as UNRECOGNIZED_KEY errors
+   * Nested objects override it with the unknownKeys field option
+   * allowKey accepts undeclared keys of the root object (e.g. by pattern)
+   */
+  const unknownKeys = <TPolicy extends UnknownKeyPolicy>(
+    policy: TPolicy,
+    allowKey?: UnknownKeyPredicate
+  ): FieldBuilder<TObject, TMap, TPlugins, TDeclaredFields, TPolicy> => {
+    return createFieldBuilderImpl<
+      TObject,
+      TMap,
+      TPlugins,
+      TDeclaredFields,
+      TPolicy
+    >(
+      plugins,
+      chainableBuilder,
+      _fieldDefinitions,
+      _isStrict,
+      policy,
+      _preprocessors,
+      allowKey
+    );
+  };
+
+  /**
+   * Convert the whole input before any field rule runs
+   * @example
+   * ```typescript
+   * builder.preprocess((input) =>
+   *   typeof input === "string" ? JSON.parse(input) : input
+   * );
+   * ```
+   */
+  const preprocess = (
+    fn: ObjectPreprocessor<TObject>
+  ): FieldBuilder<TObject, TMap, TPlugins, TDeclaredFields, TUnknownKeys> => {
+    return createFieldBuilderImpl<
+      TObject,
+      TMap,
+      TPlugins,
+      TDeclaredFields,
+      TUnknownKeys
+    >(
+      plugins,
+      chainableBuilder,
+      _fieldDefinitions,
+      _isStrict,
+      _unknownKeyPolicy,
+      [..._preprocessors, fn],
+      _allowUnknownKey
     );
   };
 
@@ -159,7 +371,7 @@ export function createFieldBuilderImpl<
    * @deprecated This is a work in progress and may change in future versions
    */
   const strict = (): MissingFields<TObject, TDeclaredFields> extends never
-    ? FieldBuilder<TObject, TMap, TPlugins, TDeclaredFields>
+    ? FieldBuilder<TObject, TMap, TPlugins, TDeclaredFields, TUnknownKeys>
     : {
         _error: `Missing field declarations in strict mode: ${MissingFields<
           TObject,
@@ -168,11 +380,20 @@ export function createFieldBuilderImpl<
           string}`;
         _missingFields: MissingFields<TObject, TDeclaredFields>;
       } => {
-    return createFieldBuilderImpl<TObject, TMap, TPlugins, TDeclaredFields>(
+    return createFieldBuilderImpl<
+      TObject,
+      TMap,
+      TPlugins,
+      TDeclaredFields,
+      TUnknownKeys
+    >(
       plugins,
       chainableBuilder,
       _fieldDefinitions,
-      true
+      true,
+      _unknownKeyPolicy,
+      _preprocessors,
+      _allowUnknownKey
     ) as any;
   };
 
@@ -186,12 +407,15 @@ export function createFieldBuilderImpl<
   /**
    * Build the final validator with optimizations
    * Generates efficient validation function with type transformations
-   * WIP: The built validator does not validate unknown properties by default.
-   * Use objectAdditionalProperties plugin for strict property validation.
+   * Unknown properties are kept unless unknownKeys() sets another policy
    */
-  const build = (): TransformAwareValidator<
+  const build = (): BuiltValidator<
     TObject,
-    ApplyNestedTransforms<TObject, TMap>
+    ApplyUnknownKeyPolicy<
+      ApplyNestedTransforms<TObject, TMap>,
+      TDeclaredFields,
+      TUnknownKeys
+    >
   > => {
     // Use cached factory or create new one for performance
     if (!_validatorFactory) {
@@ -224,7 +448,161 @@ export function createFieldBuilderImpl<
     });
 
     // Generate optimized validator with type safety
-    return _validatorFactory.buildOptimizedValidator(processedDefinitions);
+    const validator = _validatorFactory.buildOptimizedValidator(processedDefinitions);
+    const { validate, parse } = validator;
+
+    // Nested rules (discriminated unions) report errors at nested paths
+    const nestedFields = getNestedIssueFields(processedDefinitions);
+
+    // WARN/INFO rules are reported after validation as Result.warnings
+    const softFields = getSoftRuleFields(processedDefinitions);
+    const reportSoftIssues = <T>(value: unknown, result: Result<T>) =>
+      softFields.length === 0
+        ? result
+        : withWarnings(result, collectSoftIssues(softFields, value));
+
+    // Async rules run after sync validation in validateAsync/parseAsync
+    const asyncFields = getAsyncRuleFields(processedDefinitions);
+
+    // preprocess() steps, then coerce() rules, convert the input first
+    const preprocessedFields = getPreprocessedFields(processedDefinitions);
+    const coercedFields = getCoercedFields(processedDefinitions);
+    const prepareInput = (value: unknown) =>
+      coerceInput(
+        coercedFields,
+        preprocessInput(_preprocessors, preprocessedFields, value)
+      );
+
+    // Undeclared keys are rejected (strict) or dropped from parse (strip)
+    const shape = buildShape(
+      processedDefinitions,
+      _unknownKeyPolicy,
+      _allowUnknownKey
+    );
+    const restrictsKeys = hasKeyRestrictions(shape);
+
+    // Shared by validate and parse around the optimized validator; the
+    // async variants pass the input they prepared for their async rules
+    const runValidation = <T>(
+      input: ReturnType<typeof prepareInput>,
+      options: ValidationOptions | ParseOptions | undefined,
+      run: (input: unknown) => Result<T>
+    ): Result<T> => {
+      const result = expandNestedIssues(
+        nestedFields,
+        input.data,
+        run(input.data),
+        options
+      );
+      const unknownKeyIssues = restrictsKeys
+        ? collectUnknownKeyIssues(shape, input.data)
+        : [];
+      return reportSoftIssues(
+        input.data,
+        withUnknownKeyIssues(
+          withCoercionIssues(result, input.issues, options),
+          unknownKeyIssues,
+          options
+        )
+      );
+    };
+
+    // validateAt() runs a validator over the affected fields only, built
+    // once per set of fields; unknown keys belong to the other fields.
+    // The graph is built on the first validateAt()
+    let dependencyGraph: DependencyGraph | undefined;
+    const fieldPaths = processedDefinitions.map((def) => def.path);
+    const fieldValidators = new Map<string, any>();
+    const validatorAt = (path: string) => {
+      dependencyGraph ||= buildDependencyGraph(processedDefinitions);
+      const affected = getAffectedFields(dependencyGraph, fieldPaths, path);
+      const key = affected.join("\n");
+      if (!fieldValidators.has(key)) {
+        fieldValidators.set(
+          key,
+          createFieldBuilderImpl(
+            plugins,
+            chainableBuilder,
+            _fieldDefinitions.filter((def) => affected.includes(def.path)),
+            _isStrict,
+            "passthrough",
+            _preprocessors
+          ).build()
+        );
+      }
+      return fieldValidators.get(key);
+    };
+
+    // Apply the translate option to error messages; nested validators
+    // run once per call with the same options
+    const validateInput = (
+      input: ReturnType<typeof prepareInput>,
+      options?: ValidationOptions
+    ) =>
+      runTranslated(options?.translate, () =>
+        runWithNestedResults(options, false, () =>
+          runValidation(input, options, (data) => validate(data, options))
+        )
+      );
+    const parseInput = (
+      input: ReturnType<typeof prepareInput>,
+      options?: ParseOptions
+    ) =>
+      runTranslated(options?.translate, () =>
+        runWithNestedResults(options, true, () =>
+          runValidation(input, options, (data) => {
+            const result = parse(data, options);
+            return restrictsKeys
+              ? result.map((parsed) => stripUnknownKeys(shape, parsed))
+              : result;
+          })
+        )
+      );
+
+    const builtValidator = Object.assign(validator, {
+      validate: (value: unknown, options?: ValidationOptions) =>
+        validateInput(prepareInput(value), options),
+      parse: (value: unknown, options?: ParseOptions) =>
+        parseInput(prepareInput(value), options),
+      validateAt: (path: string, value: unknown, options?: ValidationOptions) =>
+        validatorAt(path).validate(value, options),
+      toJsonSchema: (options?: ToJsonSchemaOptions) =>
+        convertFieldDefinitionsToJsonSchema(processedDefinitions, options),
+      validateAsync: async (value: unknown, options?: AsyncValidationOptions) => {
+        const input = prepareInput(value);
+        return runAsyncRules(
+          asyncFields,
+          input.data,
+          validateInput(input, options),
+          options
+        );
+      },
+      parseAsync: async (value: unknown, options?: AsyncValidationOptions) => {
+        const input = prepareInput(value);
+        return runAsyncRules(
+          asyncFields,
+          input.data,
+          parseInput(input, options),
+          options
+        );
+      },
+    });
+
+    // The strip policy narrows the parse output type (stripped above)
+    return Object.assign(builtValidator, {
+      withAsyncContext: addAsyncSupport(builtValidator).withAsyncContext,
+      // Async rules make Standard Schema validation async as well;
+      // Standard Schema consumers expect every issue
+      "~standard": standardSchemaProps((value) =>
+        asyncFields.length > 0
+          ? builtValidator
+              .parseAsync(value, { abortEarly: false })
+              .then(toStandardResult)
+          : toStandardResult(
+              builtValidator.parse(value, { abortEarly: false })
+            )
+      ),
+    }) as any;
   };
 
   // Return the builder interface with all methods
@@ -232,9 +610,81 @@ export function createFieldBuilderImpl<
     field,
     v,
     useField,
+    extend,
+    pick,
+    omit,
+    partial,
+    required,
+    unknownKeys,
+    preprocess,
     strict,
     strictOnEditor,
     build,
+    // Read by extend() of other builders
+    _fieldDefinitions,
+    _plugins: plugins,
+  } as FieldBuilder<TObject, TMap, TPlugins, TDeclaredFields, TUnknownKeys>;
+}
+
+// "items[*].sku" -> "items"
+const rootKeyOf = (path: string): string => path.split(/[.[]/)[0];
+
+// Rule state of a type builder or of a FieldRule (useField)
+const presenceStateOf = (
+  rule: any
+): { type: string; validators: any[]; transforms: any[] } | undefined => {
+  if (rule && typeof rule._getInternalValidators === "function") {
+    const { validators, transforms } = rule._getInternalValidators();
+    // The type check is among the validators; union takes both presences
+    return { type: "union", validators, transforms };
+  }
+  if (
+    rule &&
+    typeof rule._type === "string" &&
+    Array.isArray(rule._validators)
+  ) {
+    return {
+      type: rule._type,
+      validators: rule._validators,
+      transforms: rule._transforms || [],
+    };
+  }
+  return undefined;
+};
+
+/**
+ * Field definition whose rule uses optional() or required() in place of
+ * the other; rules of types without that method are kept as they are
+ * The rule is rebuilt from a copy of its validators, so shared rules
+ * (useField, reused builders) keep their own
+ */
+function withPresence<T extends FieldBuilderDefinition<any, any, any>>(
+  definition: T,
+  presence: "optional" | "required",
+  plugins: object
+): T {
+  const opposite = presence === "optional" ? "required" : "optional";
+  return {
+    ...definition,
+    builderFunction: (context: any) => {
+      const rule = definition.builderFunction(context);
+      const state = presenceStateOf(rule);
+      if (!state) return rule;
+
+      const validators = state.validators.filter(
+        (validator: any) => validator.name !== opposite
+      );
+      const builder: any = createOptimizedTypeBuilder(
+        state.type as any,
+        definition.path,
+        plugins,
+        { validators, transforms: state.transforms }
+      );
+      if (typeof builder[presence] !== "function") return rule;
+      return validators.some((validator: any) => validator.name === presence)
+        ? builder
+        : builder[presence]();
+    },
   };
 }
 
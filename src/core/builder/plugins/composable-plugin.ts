@@ -27,6 +27,11 @@
  */
 
 import type { TypeName, TransformFunction } from "../plugins/plugin-types";
+import {
+  localizeGetErrorMessage,
+  localizeMessageFactory,
+} from "../../i18n/localize";
+import { applySeverity } from "../../severity";
 
 // Re-export TransformFunction for external use
 export type { TransformFunction };
@@ -71,6 +76,8 @@ export interface ValidatorDefinition {
     severity?: "error" | "warning" | "info";
     async?: boolean;
   };
+  // Arguments the validator was composed from (used by schema export)
+  params?: readonly unknown[];
 }
 
 // TransformFunction is imported from plugin-types
@@ -429,6 +436,30 @@ export function attachComposablePlugin<
       if (executionPlan && composerResult && typeof composerResult.validate === 'function') {
         // Always use the custom validate function if available
         // TODO: Restore complex validation logic
+      } else if (composerResult && composerResult._validators && !executionPlan) {
+        // No execution plan: share validators with the type builder's state
+        const builderValidators = (builder as any)._validators;
+        if (Array.isArray(builderValidators)) {
+          for (const validator of composerResult._validators as any[]) {
+            if (validator.getErrorMessage) {
+              validator.getErrorMessage = localizeGetErrorMessage(
+                validator.getErrorMessage,
+                validator.name,
+                []
+              );
+            } else {
+              validator.messageFactory = localizeMessageFactory(
+                validator.messageFactory ||
+                  (() => `Validation failed for ${fieldPath}`),
+                validator.name,
+                []
+              );
+            }
+            builderValidators.push(
+              applySeverity(validator, validator.metadata?.severity)
+            );
+          }
+        }
       } else if (composerResult && composerResult._validators) {
         // Fallback to individual validators
         for (const validator of composerResult._validators) {
@@ -47,11 +47,12 @@ export interface ValidatorFormat {
   __isTransform?: boolean;
   __isDefault?: boolean;
   __isPreprocess?: boolean;
+  __isNormalize?: boolean;
   __isFromContext?: boolean;
   __isStitch?: boolean;
   __isOrFail?: boolean;
   __isRecursive?: boolean;
-  // Transform function for transform plugins
+  // Transform function for transform and normalize plugins
   __transformFn?: (value: any) => any;
   // Context options for context plugins
   __contextOptions?: any;
@@ -12,9 +12,20 @@ import {
   Result,
 } from "../../../types";
 import type { FieldRule } from "../../registry/plugin-registry";
-import { ApplyNestedTransforms } from "../types/types";
+import type { ApplyNestedTransforms, AsyncAwareValidator } from "../types/types";
 import { ValidationFunction } from "../../plugin/types";
 import type { ComposablePlugin } from "../plugins/composable-plugin";
+import type {
+  ToJsonSchemaOptions,
+  ToJsonSchemaResult,
+} from "../../plugin/jsonSchema/types";
+import type { AsyncValidationOptions } from "../../async.experimental/async-rules";
+import type { UnknownKeyPolicy, UnknownKeyPredicate } from "../../unknown-keys";
+import type { PreprocessContext } from "../../preprocess";
+import type { StandardSchemaProps } from "../../standard-schema";
+import type { InferJsonSchemaObject } from "../../plugin/jsonSchema/infer";
+import type { optionalPlugin } from "../../plugin/optional";
+import type { requiredPlugin } from "../../plugin/required";
 import type {
   ConditionalValidationMethod,
   FieldReferenceValidationMethod,
@@ -81,7 +92,17 @@ export interface TypedPlugin<
  */
 export type BuilderExtensionMethod = 
   | { <TBuilder>(...args: any[]): TBuilder }
-  | { <TBuilder extends FieldBuilder<any, any, any, any>>(...args: any[]): TBuilder };
+  | { <TBuilder extends FieldBuilder<any, any, any, any>>(...args: any[]): TBuilder }
+  | JsonSchemaExtensionMethod;
+
+/**
+ * Extension method whose builder validates the type described by its
+ * JSON Schema argument (any unless the schema is declared `as const`)
+ */
+export type JsonSchemaExtensionMethod<TOptions = any> = <TSchema>(
+  schema: TSchema,
+  options?: TOptions
+) => FieldBuilder<InferJsonSchemaObject<TSchema>, any, any, any>;
 
 /**
  * Builder extension plugin interface with method signatures
@@ -112,7 +133,11 @@ export type TypeName =
   | "object"
   | "boolean"
   | "null"
-  | "any";
+  | "any"
+  | "map"
+  | "set"
+  | "record"
+  | "bigint";
 
 /**
  * Type mapping for type names
@@ -128,6 +153,10 @@ export type TypeMapping = {
   boolean: boolean;
   null: null;
   any: any;
+  map: Map<any, any>;
+  set: Set<any>;
+  record: Record<string, any>;
+  bigint: bigint;
 };
 
 /**
@@ -361,7 +390,21 @@ type MapPluginMethodsToChainable<
 > = {
   [MethodName in keyof TMethods]: TMethods[MethodName] extends infer TMethod
     ? TMethod extends (...args: any) => any
-      ? GetPluginCategoryByMethod<
+      ? MethodName extends "keys" | "values"
+        ? (
+            builderFn: (context: FieldBuilderContext<TObject, TPlugins>) => any
+          ) => ChainableFieldBuilder<
+            TObject,
+            TPlugins,
+            TType,
+            TCurrentType,
+            TTypeState
+          >
+        : [GetPluginCategoryByMethod<TPlugins, MethodName & string>] extends [
+              never,
+            ]
+          ? TMethod // composable-directly plugins are typed by their own method
+        : GetPluginCategoryByMethod<
           TPlugins,
           MethodName & string
         > extends infer TCategory
@@ -406,7 +449,7 @@ type MapPluginMethodsToChainable<
                     TMethod,
                     TObject,
                     TCurrentType,
-                    TPlugins,
+                    FilterPluginsByType<TPlugins, Extract<TType, TypeName>>,
                     MethodName & string
                   > extends infer Params
                 ? Params extends readonly any[]
@@ -481,12 +524,47 @@ type MapPluginMethodsToChainable<
                       TOutput,
                       TTypeState
                     >
+                  : MethodName extends "preprocess"
+                    ? (
+                        fn: (
+                          value: unknown,
+                          context: PreprocessContext
+                        ) => TCurrentType | null | undefined
+                      ) => ChainableFieldBuilder<
+                        TObject,
+                        TPlugins,
+                        TType,
+                        TCurrentType,
+                        TTypeState
+                      >
+                  : MethodName extends "schema"
+                    ? <TIn extends object, TOut>(
+                        validator: TransformAwareValidator<TIn, TOut>,
+                        options?: ValidationOptions
+                      ) => ChainableFieldBuilder<
+                        TObject,
+                        TPlugins,
+                        TType,
+                        TOut | Extract<TCurrentType, null | undefined>,
+                        TTypeState
+                      >
+                  : MethodName extends "items"
+                    ? <TIn extends object, TOut>(
+                        validator: TransformAwareValidator<TIn, TOut>,
+                        options?: ValidationOptions
+                      ) => ChainableFieldBuilder<
+                        TObject,
+                        TPlugins,
+                        TType,
+                        TOut[] | Extract<TCurrentType, null | undefined>,
+                        TTypeState
+                      >
                   : MethodName extends "required"
                     ? InferMethodParameters<
                         TMethod,
                         TObject,
                         TCurrentType,
-                        TPlugins,
+                        FilterPluginsByType<TPlugins, Extract<TType, TypeName>>,
                         MethodName & string
                       > extends infer Params
                       ? Params extends readonly any[]
@@ -507,7 +585,7 @@ type MapPluginMethodsToChainable<
                           TMethod,
                           TObject,
                           TCurrentType,
-                          TPlugins,
+                          FilterPluginsByType<TPlugins, Extract<TType, TypeName>>,
                           MethodName & string
                         > extends infer Params
                         ? Params extends readonly any[]
@@ -528,7 +606,7 @@ type MapPluginMethodsToChainable<
                             TMethod,
                             TObject,
                             TCurrentType,
-                            TPlugins,
+                            FilterPluginsByType<TPlugins, Extract<TType, TypeName>>,
                             MethodName & string
                           > extends infer Params
                           ? Params extends readonly any[]
@@ -548,7 +626,7 @@ type MapPluginMethodsToChainable<
                               TMethod,
                               TObject,
                               TCurrentType,
-                              TPlugins,
+                              FilterPluginsByType<TPlugins, Extract<TType, TypeName>>,
                               MethodName & string
                             > extends infer Params
                           ? Params extends readonly any[]
@@ -821,6 +899,28 @@ type GuardMethod<
   TDeclaredTypes | TGuardType
 >;
 
+/**
+ * Discriminated method signature for tagged union types
+ * Every tag needs a branch, which builds the fields of its own variant
+ */
+type DiscriminatedMethod<
+  TObject extends object,
+  TPlugins,
+  TUnionType,
+> = <TKey extends keyof TUnionType & string>(
+  key: TKey,
+  branches: {
+    [TTag in TUnionType[TKey] & (string | number)]: (
+      builder: FieldBuilder<
+        Extract<TUnionType, Record<TKey, TTag>> & object,
+        unknown,
+        TPlugins,
+        never
+      >
+    ) => any;
+  }
+) => UnionFieldBuilderWithPlugins<TObject, TPlugins, TUnionType, TUnionType>;
+
 /**
  * Extract plugin methods for union type
  */
@@ -836,20 +936,22 @@ type ExtractUnionPluginMethods<
     TUnionType
   >]: K extends "guard"
     ? GuardMethod<TObject, TPlugins, TUnionType, TDeclaredTypes>
-    : FlattenPluginMethods<
-          FilterPluginsByType<TPlugins, "union">,
-          TObject,
-          TUnionType
-        >[K] extends (...args: infer P) => any
-      ? (
-          ...args: P
-        ) => UnionFieldBuilderWithPlugins<
-          TObject,
-          TPlugins,
-          TUnionType,
-          TDeclaredTypes
-        >
-      : never;
+    : K extends "discriminated"
+      ? DiscriminatedMethod<TObject, TPlugins, TUnionType>
+      : FlattenPluginMethods<
+            FilterPluginsByType<TPlugins, "union">,
+            TObject,
+            TUnionType
+          >[K] extends (...args: infer P) => any
+        ? (
+            ...args: P
+          ) => UnionFieldBuilderWithPlugins<
+            TObject,
+            TPlugins,
+            TUnionType,
+            TDeclaredTypes
+          >
+        : never;
 };
 
 /**
@@ -1125,6 +1227,15 @@ export type FieldBuilderContext<
         : ChainableFieldBuilder<TObject, TPlugins, "union", any>;
   object: ChainableFieldBuilder<TObject, TPlugins, "object", object>;
   any: ChainableFieldBuilder<TObject, TPlugins, "any", any>;
+  map: ChainableFieldBuilder<TObject, TPlugins, "map", Map<any, any>>;
+  set: ChainableFieldBuilder<TObject, TPlugins, "set", Set<any>>;
+  record: ChainableFieldBuilder<
+    TObject,
+    TPlugins,
+    "record",
+    Record<string, any>
+  >;
+  bigint: ChainableFieldBuilder<TObject, TPlugins, "bigint", bigint>;
 };
 
 /**
@@ -1145,6 +1256,40 @@ export interface TransformAwareValidator<T extends object, TTransformed = T> {
     value: T,
     options?: ParseOptions
   ): { valid: boolean; data?: TTransformed; error?: any };
+
+  // Standard Schema v1 interface (set on built and lazy validators)
+  readonly "~standard"?: StandardSchemaProps<T, TTransformed>;
+}
+
+/**
+ * Validator returned by FieldBuilder.build()
+ */
+export interface BuiltValidator<T extends object, TTransformed = T>
+  extends TransformAwareValidator<T, TTransformed>,
+    AsyncAwareValidator<T, TTransformed> {
+  // Standard Schema v1 interface (vendor "luq")
+  readonly "~standard": StandardSchemaProps<T, TTransformed>;
+
+  // Export field definitions as JSON Schema (Draft-07 or 2020-12)
+  toJsonSchema(options?: ToJsonSchemaOptions): ToJsonSchemaResult;
+
+  // Rules of the field at path (concrete indices allowed: "items[0].sku")
+  // and of the fields whose rules read it; other fields are not checked
+  validateAt(
+    path: NestedKeyOf<T> | (string & {}),
+    value: Partial<T> | unknown,
+    options?: ValidationOptions
+  ): Result<T>;
+
+  validateAsync(
+    value: Partial<T> | unknown,
+    options?: AsyncValidationOptions
+  ): Promise<Result<T>>;
+  parseAsync(
+    value: Partial<T> | unknown,
+    options?: AsyncValidationOptions
+  ): Promise<Result<TTransformed>>;
+
 }
 
 /**
@@ -1166,6 +1311,92 @@ export type ApplyFieldTransforms<TObject, TMap> = ApplyNestedTransforms<
   TMap
 >;
 
+// Declared paths below key K: "a.b" -> "b", "a[*].b" -> "[*].b"
+type PathsBelow<TPaths extends string, K extends string> =
+  TPaths extends `${K}.${infer Rest}`
+    ? Rest
+    : TPaths extends `${K}[*]${infer Rest}`
+      ? `[*]${Rest}`
+      : never;
+
+// Declared paths inside array elements: "[*].b" -> "b", "[*][*]" -> "[*]"
+type PathsInItems<TPaths extends string> = TPaths extends `[*].${infer Rest}`
+  ? Rest
+  : TPaths extends `[*][${infer Rest}`
+    ? `[${Rest}`
+    : never;
+
+type StripValue<T, TPaths extends string> = [TPaths] extends [never]
+  ? T
+  : T extends readonly (infer E)[]
+    ? Array<StripValue<E, PathsInItems<TPaths>>>
+    : T extends Date | ReadonlyMap<any, any> | ReadonlySet<any>
+      ? T
+      : T extends object
+        ? StripObject<T, TPaths>
+        : T;
+
+type StripObject<T, TPaths extends string> = {
+  [K in keyof T as K extends string
+    ? [PathsBelow<TPaths, K>] extends [never]
+      ? K extends TPaths
+        ? K
+        : never
+      : K
+    : never]: K extends string ? StripValue<T[K], PathsBelow<TPaths, K>> : T[K];
+};
+
+// Field paths at or below the top-level keys K
+type PathsUnder<K extends string> = K | `${K}.${string}` | `${K}[${string}`;
+
+// Transform map entries of the fields kept by pick()/omit()
+type PickTransforms<TMap, TPaths> = unknown extends TMap
+  ? TMap
+  : { [P in keyof TMap as P extends TPaths ? P : never]: TMap[P] };
+
+type OmitTransforms<TMap, TPaths> = unknown extends TMap
+  ? TMap
+  : { [P in keyof TMap as P extends TPaths ? never : P]: TMap[P] };
+
+// Transform map after extend(): entries of the other builder win
+type MergeTransforms<TMap, TOtherMap> = unknown extends TOtherMap
+  ? TMap
+  : unknown extends TMap
+    ? TOtherMap
+    : OmitTransforms<TMap, keyof TOtherMap> & TOtherMap;
+
+/**
+ * Object type after partial(): every field at every depth is optional
+ */
+export type DeepPartial<T> = T extends readonly (infer E)[]
+  ? Array<DeepPartial<E>>
+  : T extends Date | Function | ReadonlyMap<any, any> | ReadonlySet<any>
+    ? T
+    : T extends object
+      ? { [K in keyof T]?: DeepPartial<T[K]> }
+      : T;
+
+/**
+ * Object type after required(): every field at every depth is required
+ */
+export type DeepRequired<T> = T extends readonly (infer E)[]
+  ? Array<DeepRequired<E>>
+  : T extends Date | Function | ReadonlyMap<any, any> | ReadonlySet<any>
+    ? T
+    : T extends object
+      ? { [K in keyof T]-?: DeepRequired<NonNullable<T[K]>> }
+      : T;
+
+/**
+ * Output type of parse() under an unknown-key policy
+ * strip keeps only the declared paths of objects with declared fields
+ */
+export type ApplyUnknownKeyPolicy<
+  T,
+  TDeclaredFields extends string,
+  TPolicy extends UnknownKeyPolicy,
+> = TPolicy extends "strip" ? StripValue<T, TDeclaredFields> : T;
+
 /**
  * Extract the final type from a field builder result
  */
@@ -1242,11 +1473,12 @@ export interface FieldBuilder<
   TMap = {},
   TPlugins = {},
   TDeclaredFields extends string = never,
+  TUnknownKeys extends UnknownKeyPolicy = "passthrough",
 > {
   /**
    * @deprecated Use `v` method instead. This method will be removed in a future version.
    * Define validation rules for a field
-   * WIP: Does not validate unknown properties by default
+   * Unknown properties are kept unless unknownKeys() sets another policy
    * @param path - The field path to validate
    * @param definition - Validation rule definition
    * @param options - Optional field configuration
@@ -1271,12 +1503,13 @@ export interface FieldBuilder<
       ExtractFieldType<TFieldBuilder>
     >,
     TPlugins,
-    TDeclaredFields | Key
+    TDeclaredFields | Key,
+    TUnknownKeys
   >;
 
   /**
    * Define validation rules for a field (alias for field method)
-   * WIP: Does not validate unknown properties by default
+   * Unknown properties are kept unless unknownKeys() sets another policy
    * @param path - The field path to validate
    * @param definition - Validation rule definition
    * @param options - Optional field configuration
@@ -1301,7 +1534,8 @@ export interface FieldBuilder<
       ExtractFieldType<TFieldBuilder>
     >,
     TPlugins,
-    TDeclaredFields | Key
+    TDeclaredFields | Key,
+    TUnknownKeys
   >;
 
   /**
@@ -1319,13 +1553,100 @@ export interface FieldBuilder<
   useField<Key extends NestedKeyOf<TObject> & string>(
     path: Key,
     fieldRule: FieldRule<TypeOfPath<TObject, Key>>
-  ): FieldBuilder<TObject, TMap, TPlugins, TDeclaredFields | Key>;
+  ): FieldBuilder<TObject, TMap, TPlugins, TDeclaredFields | Key, TUnknownKeys>;
+  /**
+   * Add the fields of another builder; the object type becomes the
+   * intersection of both. Fields of the other builder replace fields with
+   * the same path
+   */
+  extend<
+    TOtherObject extends object,
+    TOtherMap,
+    TOtherPlugins,
+    TOtherDeclared extends string,
+    TOtherUnknownKeys extends UnknownKeyPolicy,
+  >(
+    other: FieldBuilder<
+      TOtherObject,
+      TOtherMap,
+      TOtherPlugins,
+      TOtherDeclared,
+      TOtherUnknownKeys
+    >
+  ): FieldBuilder<
+    TObject & TOtherObject,
+    MergeTransforms<TMap, TOtherMap>,
+    TPlugins & TOtherPlugins,
+    TDeclaredFields | TOtherDeclared,
+    TUnknownKeys
+  >;
+  /**
+   * New builder with only the given top-level fields
+   */
+  pick<K extends Extract<keyof TObject, string>>(
+    keys: readonly K[]
+  ): FieldBuilder<
+    Pick<TObject, K>,
+    PickTransforms<TMap, PathsUnder<K>>,
+    TPlugins,
+    Extract<TDeclaredFields, PathsUnder<K>>,
+    TUnknownKeys
+  >;
+  /**
+   * New builder without the given top-level fields
+   */
+  omit<K extends Extract<keyof TObject, string>>(
+    keys: readonly K[]
+  ): FieldBuilder<
+    Omit<TObject, K>,
+    OmitTransforms<TMap, PathsUnder<K>>,
+    TPlugins,
+    Exclude<TDeclaredFields, PathsUnder<K>>,
+    TUnknownKeys
+  >;
+  /**
+   * New builder whose rules are all optional (required() becomes optional())
+   */
+  partial(): FieldBuilder<
+    DeepPartial<TObject>,
+    TMap,
+    TPlugins & { optional: typeof optionalPlugin },
+    TDeclaredFields,
+    TUnknownKeys
+  >;
+  /**
+   * New builder whose rules are all required (optional() becomes required())
+   */
+  required(): FieldBuilder<
+    DeepRequired<TObject>,
+    TMap,
+    TPlugins & { required: typeof requiredPlugin },
+    TDeclaredFields,
+    TUnknownKeys
+  >;
+  /**
+   * Set how parse() treats keys that no field declares
+   * (passthrough by default, strip or strict)
+   * Nested objects override it with the unknownKeys field option
+   * allowKey accepts undeclared keys of the root object (e.g. by pattern)
+   */
+  unknownKeys<TPolicy extends UnknownKeyPolicy>(
+    policy: TPolicy,
+    allowKey?: UnknownKeyPredicate
+  ): FieldBuilder<TObject, TMap, TPlugins, TDeclaredFields, TPolicy>;
+  /**
+   * Convert the whole input before any field rule runs
+   * Steps run in the order they are added, before field preprocess() steps
+   */
+  preprocess(
+    fn: (input: unknown) => TObject
+  ): FieldBuilder<TObject, TMap, TPlugins, TDeclaredFields, TUnknownKeys>;
   /**
    * WIP: Enforces strict mode validation
    * @deprecated This is a work in progress and may change in future versions
    */
   strict(): MissingFields<TObject, TDeclaredFields> extends never
-    ? FieldBuilder<TObject, TMap, TPlugins, TDeclaredFields>
+    ? FieldBuilder<TObject, TMap, TPlugins, TDeclaredFields, TUnknownKeys>
     : {
         _error: `Missing field declarations in strict mode: ${MissingFields<
           TObject,
@@ -1339,7 +1660,7 @@ export interface FieldBuilder<
    * @deprecated This is a work in progress and may change in future versions
    */
   strictOnEditor(): MissingFields<TObject, TDeclaredFields> extends never
-    ? FieldBuilder<TObject, TMap, TPlugins, TDeclaredFields>
+    ? FieldBuilder<TObject, TMap, TPlugins, TDeclaredFields, TUnknownKeys>
     : {
         _error: `Missing field declarations in strict mode: ${MissingFields<
           TObject,
@@ -1350,13 +1671,16 @@ export interface FieldBuilder<
       };
   /**
    * Build the final validator
-   * WIP: The built validator does not validate unknown properties by default.
-   * Use objectAdditionalProperties plugin for strict property validation.
-   * @returns A validator function with validate() and parse() methods
+   * Unknown properties are kept unless unknownKeys() sets another policy
+   * @returns A validator function with validate(), parse() and toJsonSchema() methods
    */
-  build(): TransformAwareValidator<
+  build(): BuiltValidator<
     TObject,
-    ApplyFieldTransforms<TObject, TMap>
+    ApplyUnknownKeyPolicy<
+      ApplyFieldTransforms<TObject, TMap>,
+      TDeclaredFields,
+      TUnknownKeys
+    >
   >;
 }
 
@@ -1397,7 +1721,7 @@ type ExtractPluginMethods<
             ? { [P in TMethodName]: (...args: any[]) => any }
             : never
           : TPlugins[K] extends {
-                category: "composable-conditional";
+                category: "composable-conditional" | "composable-directly";
                 methodName: infer TMethodName;
               }
             ? TMethodName extends string
@@ -1,3 +1,5 @@
+import type { UnknownKeyPolicy } from "../../unknown-keys";
+
 /**
  * Field-level options that are not validation rules but field configuration
  * Field-level settings (not validation rules)
@@ -29,6 +31,12 @@ export interface FieldOptions<T = any> {
    * Custom metadata
    */
   metadata?: Record<string, any>;
+
+  /**
+   * Unknown-key policy of this object and the objects below it
+   * (overrides the builder's unknownKeys())
+   */
+  unknownKeys?: UnknownKeyPolicy;
 }
 
 /**
@@ -59,7 +67,8 @@ export function normalizeFieldConfig<T>(
     ('default' in config || 
      'description' in config || 
      'deprecated' in config ||
-     'metadata' in config)
+     'metadata' in config ||
+     'unknownKeys' in config)
   ) {
     return config as FieldOptions<T>;
   }
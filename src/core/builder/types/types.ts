@@ -341,7 +341,11 @@ export interface FieldBuilderDefinition<TObject extends object = any, TPlugins =
 // ========================================
 
 // Import types needed for builder
-import type { FieldBuilder } from "../plugins/plugin-types";
+import type {
+  FieldBuilder,
+  JsonSchemaExtensionMethod,
+} from "../plugins/plugin-types";
+import type { InferJsonSchemaObject } from "../../plugin/jsonSchema/infer";
 import type { ComposablePlugin } from "../plugins/composable-plugin";
 import type { ComposableConditionalPlugin } from "../plugins/composable-conditional-plugin";
 import type { ComposableDirectlyPlugin } from "../plugins/composable-directly-plugin";
@@ -456,7 +460,14 @@ type CreateMethodWithBuilder<
     : never
   : TMethodSignature extends <T>(...args: infer Args) => T
     ? (...args: Args) => TBuilder
-    : never;
+    : TMethodSignature extends JsonSchemaExtensionMethod<infer TOptions>
+      ? TBuilder extends IChainableBuilder<any, infer TPlugins, any>
+        ? <TSchema>(
+            schema: TSchema,
+            options?: TOptions
+          ) => FieldBuilder<InferJsonSchemaObject<TSchema>, {}, TPlugins>
+        : never
+      : never;
 
 /**
  * Type that combines builder interface with accumulated extensions
@@ -685,6 +696,7 @@ import type {
   ValidationOptions,
 } from "../plugins/plugin-types";
 import { ValidationResult } from "../../../types";
+import type { AsyncValidationOptions } from "../../async.experimental/async-rules";
 
 // ========================================
 // FROM: async/async-context.ts
@@ -718,12 +730,23 @@ export interface AsyncContext<T = Record<string, any>> {
 /**
  * Async-aware validator
  */
-export interface AsyncAwareValidator<TObject> {
+export interface AsyncAwareValidator<TObject, TTransformed = TObject> {
   validate(
     value: Partial<TObject> | unknown,
     options?: ValidationOptions
   ): Result<TObject>;
 
+  // Sync validation followed by async rules (refineAsync); built validators
+  // always have them, withAsyncContext() validates through validateAsync
+  validateAsync?(
+    value: Partial<TObject> | unknown,
+    options?: AsyncValidationOptions
+  ): Promise<Result<TObject>>;
+  parseAsync?(
+    value: Partial<TObject> | unknown,
+    options?: AsyncValidationOptions
+  ): Promise<Result<TTransformed>>;
+
   /**
    * Validation with async context (type-safe version)
    * Resolve async context before executing sync validation
@@ -701,8 +701,7 @@ function createUltraFastExecutorValidator<TObject extends object, TMap = {}>(
     plugins
   );
 
-  // V8 optimization: Pre-allocated arrays and results
-  const errors: any[] = [];
+  // V8 optimization: Pre-allocated results
   const OK_RESULT = Result.ok({} as TObject);
 
   // V8 optimization: Generate specialized validator based on field count
@@ -862,8 +861,8 @@ function createUltraFastExecutorValidator<TObject extends object, TMap = {}>(
       const abortEarly = options?.abortEarly !== false; // Default to true
       const abortEarlyOnEachField = options?.abortEarlyOnEachField !== false;
 
-      // V8 optimization: Reset errors array instead of creating new one
-      errors.length = 0;
+      // Per call: nested validators (schema/items/lazy) may re-enter
+      const errors: any[] = [];
 
       // V8 optimization: Direct field validation loop with pre-compiled accessors
       for (let i = 0; i < validatorCount; i++) {
@@ -885,13 +884,13 @@ function createUltraFastExecutorValidator<TObject extends object, TMap = {}>(
             });
           }
           if (abortEarly) {
-            return Result.error(errors.slice()); // Clone to prevent mutation
+            return Result.error(errors);
           }
         }
       }
 
       if (errors.length > 0) {
-        return Result.error(errors.slice()); // Clone to prevent mutation
+        return Result.error(errors);
       }
 
       return Result.ok(value as TObject);
@@ -930,8 +929,7 @@ function createUltraFastExecutorValidator<TObject extends object, TMap = {}>(
       const abortEarly = options?.abortEarly !== false; // Default to true
       const abortEarlyOnEachField = options?.abortEarlyOnEachField !== false;
 
-      // V8 optimization: Reset errors array
-      errors.length = 0;
+      const errors: any[] = [];
 
       // V8 optimization: Direct field parse loop
       for (let i = 0; i < validatorCount; i++) {
@@ -953,7 +951,7 @@ function createUltraFastExecutorValidator<TObject extends object, TMap = {}>(
             });
           }
           if (abortEarly) {
-            return Result.error(errors.slice());
+            return Result.error(errors);
           }
         } else if (result.data !== undefined) {
           setNestedValue(transformedData, path, result.data);
@@ -961,7 +959,7 @@ function createUltraFastExecutorValidator<TObject extends object, TMap = {}>(
       }
 
       if (errors.length > 0) {
-        return Result.error(errors.slice());
+        return Result.error(errors);
       }
 
       return Result.ok(transformedData as ApplyNestedTransforms<TObject, TMap>);
@@ -0,0 +1,234 @@
+/**
+ * Input coercion
+ * Fields with a coerce() rule convert string input (query strings, form
+ * data, env vars) to the field type before validation, following the
+ * GlobalConfig number, boolean and date settings
+ */
+
+import { Result, type ValidationError } from "../types";
+import { globalConfig } from "./global-config";
+import { translateMessage } from "./i18n/translator";
+import { comparableString } from "./plugin/string-normalize-utils";
+import {
+  collectRuleFields,
+  resolveFieldPaths,
+  setAtPath,
+  type RuleField,
+} from "./utils/rule-fields";
+
+export const COERCION_FAILED_CODE = "COERCION_FAILED";
+
+const COERCE_KEY = "coerce";
+
+// Result of one conversion; failed conversions keep the input
+type Coerced = { ok: true; value: unknown } | { ok: false };
+
+const FAILED: Coerced = { ok: false };
+
+export function isCoercingValidator(validator: any): boolean {
+  return !!validator?.coerce;
+}
+
+/**
+ * Collect the fields whose rules include coerce()
+ */
+export function getCoercedFields(
+  definitions: ReadonlyArray<{ path: string; rules?: readonly any[] }>
+): RuleField[] {
+  return collectRuleFields(definitions, isCoercingValidator);
+}
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const matchesValue = (input: string, candidates: readonly string[]) => {
+  const compared = comparableString(input);
+  return candidates.some(
+    (candidate) => comparableString(candidate) === compared
+  );
+};
+
+/**
+ * Number from a string using GlobalConfig.numberFormat separators
+ * Thousand separators are only accepted between groups of three digits
+ * ("1,234,567"); an empty string becomes undefined, like a missing form field
+ */
+export function coerceNumber(value: unknown): Coerced {
+  if (typeof value !== "string") return { ok: true, value };
+  const text = value.trim();
+  if (text === "") return { ok: true, value: undefined };
+
+  const { decimalSeparator = ".", thousandSeparator = "," } =
+    globalConfig.numberFormat;
+  const [integer, ...fraction] = decimalSeparator
+    ? text.split(decimalSeparator)
+    : [text];
+  if (fraction.length > 1) return FAILED;
+
+  const groups = thousandSeparator
+    ? integer.split(thousandSeparator)
+    : [integer];
+  if (
+    groups.length > 1 &&
+    !(
+      /^[+-]?\d{1,3}$/.test(groups[0]) &&
+      groups.slice(1).every((group) => /^\d{3}$/.test(group))
+    )
+  ) {
+    return FAILED;
+  }
+
+  const number = Number([groups.join(""), ...fraction].join("."));
+  return Number.isNaN(number) ? FAILED : { ok: true, value: number };
+}
+
+/**
+ * Boolean from GlobalConfig.toBooleanTruthyValues / toBooleanFalsyValues
+ */
+export function coerceBoolean(value: unknown): Coerced {
+  if (typeof value !== "string") return { ok: true, value };
+  const text = value.trim();
+  if (text === "") return { ok: true, value: undefined };
+  if (matchesValue(text, globalConfig.toBooleanTruthyValues)) {
+    return { ok: true, value: true };
+  }
+  if (matchesValue(text, globalConfig.toBooleanFalsyValues)) {
+    return { ok: true, value: false };
+  }
+  return FAILED;
+}
+
+/**
+ * Parse a date with a YYYY/MM/DD/HH/mm/ss format as UTC
+ */
+export function parseDateWithFormat(
+  text: string,
+  format: string
+): Date | undefined {
+  const tokens: string[] = [];
+  const pattern = format
+    .split(/(YYYY|MM|DD|HH|mm|ss)/)
+    .map((part) => {
+      if (/^(YYYY|MM|DD|HH|mm|ss)$/.test(part)) {
+        tokens.push(part);
+        return part === "YYYY" ? "(\\d{4})" : "(\\d{2})";
+      }
+      return escapeRegExp(part);
+    })
+    .join("");
+  const match = new RegExp(`^${pattern}$`).exec(text);
+  if (!match) return undefined;
+
+  const parts: Record<string, number> = { MM: 1, DD: 1, HH: 0, mm: 0, ss: 0 };
+  tokens.forEach((token, index) => {
+    parts[token] = Number(match[index + 1]);
+  });
+  const date = new Date(
+    Date.UTC(parts.YYYY, parts.MM - 1, parts.DD, parts.HH, parts.mm, parts.ss)
+  );
+  // Reject overflowing components such as 2024-02-30
+  return date.getUTCMonth() === parts.MM - 1 && date.getUTCDate() === parts.DD
+    ? date
+    : undefined;
+}
+
+/**
+ * Date from a string in GlobalConfig.dateFormat, an ISO 8601 date-time
+ * or a timestamp in milliseconds
+ */
+export function coerceDate(value: unknown): Coerced {
+  if (typeof value === "number") {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? FAILED : { ok: true, value: date };
+  }
+  if (typeof value !== "string") return { ok: true, value };
+  const text = value.trim();
+  if (text === "") return { ok: true, value: undefined };
+
+  const date =
+    parseDateWithFormat(text, globalConfig.dateFormat) ??
+    (/^\d{4}-\d{2}-\d{2}T/.test(text) ? new Date(text) : undefined);
+  return date && !Number.isNaN(date.getTime())
+    ? { ok: true, value: date }
+    : FAILED;
+}
+
+const COERCERS: Record<string, (value: unknown) => Coerced> = {
+  number: coerceNumber,
+  boolean: coerceBoolean,
+  date: coerceDate,
+};
+
+const describeInput = (value: unknown): string =>
+  typeof value === "string" ? JSON.stringify(value) : String(value);
+
+/**
+ * Coerce the values of every coerced field in data
+ * The input is not modified; failed conversions are reported as issues
+ * and leave the original value in place
+ */
+export function coerceInput(
+  fields: readonly RuleField[],
+  data: unknown
+): { data: unknown; issues: ValidationError[] } {
+  const issues: ValidationError[] = [];
+  if (fields.length === 0 || data === null || typeof data !== "object") {
+    return { data, issues };
+  }
+
+  let coerced: unknown = data;
+  for (const field of fields) {
+    const validator = field.validators.find(isCoercingValidator);
+    const coerce = COERCERS[validator.inputType];
+    if (!coerce) continue;
+
+    for (const [path, value] of resolveFieldPaths(coerced, field.path)) {
+      if (value === undefined || value === null) continue;
+
+      const result = coerce(value);
+      if (result.ok) {
+        if (result.value !== value) {
+          const tokens = path.match(/[^.[\]]+/g) || [];
+          coerced = setAtPath(coerced, tokens, result.value);
+        }
+        continue;
+      }
+
+      const code = validator.code || COERCION_FAILED_CODE;
+      const expected = validator.inputType;
+      const message =
+        validator.coerce.messageFactory?.({ path, value, code, expected }) ??
+        translateMessage(COERCE_KEY, () => ({
+          path,
+          value: describeInput(value),
+          expected,
+        })) ??
+        `Cannot convert ${describeInput(value)} to ${expected}`;
+      issues.push({ path, code, message, paths: () => [path] });
+    }
+  }
+  return { data: coerced, issues };
+}
+
+/**
+ * Report coercion failures in place of the errors of the same fields
+ */
+export function withCoercionIssues<T>(
+  result: Result<T>,
+  issues: ValidationError[],
+  options?: { abortEarly?: boolean }
+): Result<T> {
+  if (issues.length === 0) return result;
+
+  const failedPaths = new Set(issues.map((issue) => issue.path));
+  const errors = [
+    ...issues,
+    ...(result.isValid()
+      ? []
+      : result.errors.filter((error) => !failedPaths.has(error.path))),
+  ];
+  return Result.error<T>(
+    options?.abortEarly === false ? errors : errors.slice(0, 1),
+    result.warnings
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * Error formatting
+ * Reshape validation errors for forms (flat field map, nested tree) and
+ * HTTP APIs (RFC 7807 problem details, JSON:API error documents)
+ */
+
+import type { Result, ValidationError } from "../types";
+import { getOrSetOwn } from "./utils/own-property";
+
+/**
+ * Errors of a failed Result, or the errors themselves
+ */
+export type ErrorSource = Result<unknown> | readonly ValidationError[];
+
+/**
+ * Messages keyed by field path; errors without a path are form errors
+ */
+export interface FlattenedErrors {
+  fieldErrors: Record<string, string[]>;
+  formErrors: string[];
+}
+
+/**
+ * Messages nested like the input object; array indices are keys
+ * (tree.items[1].name._errors)
+ */
+export type ErrorTree<T = any> = { _errors: string[] } & (0 extends 1 & T
+  ? { [key: string]: any }
+  : T extends readonly (infer E)[]
+    ? { [index: number]: ErrorTree<E> | undefined }
+    : T extends ReadonlyMap<any, infer V>
+      ? { [key: string]: ErrorTree<V> | undefined }
+      : T extends ReadonlySet<infer E>
+        ? { [index: number]: ErrorTree<E> | undefined }
+        : T extends Date
+          ? {}
+          : T extends object
+            ? { [K in keyof T]?: ErrorTree<NonNullable<T[K]>> }
+            : {});
+
+export interface ProblemDetailsOptions {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+}
+
+/**
+ * RFC 7807 problem details with one entry per validation error
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance?: string;
+  errors: Array<{ pointer: string; detail: string; code: string }>;
+}
+
+export interface JsonApiErrorOptions {
+  status?: number;
+  /** Prefix of source.pointer (default: "/data/attributes") */
+  pointerPrefix?: string;
+}
+
+export interface JsonApiErrorDocument {
+  errors: Array<{
+    status: string;
+    code: string;
+    title: string;
+    detail: string;
+    source: { pointer: string };
+  }>;
+}
+
+const toErrors = (source: ErrorSource): readonly ValidationError[] => {
+  if (Array.isArray(source)) return source;
+  const result = source as Result<unknown>;
+  return result.isValid() ? [] : result.errors;
+};
+
+// "items[1].name" -> ["items", "1", "name"]
+const toPathTokens = (path: string): string[] =>
+  path.match(/[^.[\]]+/g) || [];
+
+const escapePointerToken = (token: string): string =>
+  token.replace(/~/g, "~0").replace(/\//g, "~1");
+
+/**
+ * JSON Pointer (RFC 6901) of an error path: "items[1].name" -> "/items/1/name"
+ */
+export function toJsonPointer(path: string): string {
+  return toPathTokens(path)
+    .map((token) => `/${escapePointerToken(token)}`)
+    .join("");
+}
+
+/**
+ * Group messages by field path
+ *
+ * @example
+ * ```typescript
+ * const { fieldErrors, formErrors } = flattenErrors(validator.validate(data));
+ * fieldErrors["address.zip"]; // ["String must have at least 5 characters, but got 3"]
+ * ```
+ */
+export function flattenErrors(source: ErrorSource): FlattenedErrors {
+  const flattened: FlattenedErrors = { fieldErrors: {}, formErrors: [] };
+  for (const error of toErrors(source)) {
+    if (!error.path) {
+      flattened.formErrors.push(error.message);
+      continue;
+    }
+    getOrSetOwn(flattened.fieldErrors, error.path, () => []).push(
+      error.message
+    );
+  }
+  return flattened;
+}
+
+/**
+ * Nest messages following the error paths
+ *
+ * @example
+ * ```typescript
+ * const tree = treeifyErrors(result);
+ * tree.items?.[1]?.name?._errors; // ["Required"]
+ * ```
+ */
+export function treeifyErrors<T = any>(
+  source: Result<T> | readonly ValidationError[]
+): ErrorTree<T> {
+  const tree: ErrorTree = { _errors: [] };
+  for (const error of toErrors(source)) {
+    let node = tree;
+    for (const token of toPathTokens(error.path)) {
+      node = getOrSetOwn(node, token, () => ({ _errors: [] }));
+    }
+    node._errors.push(error.message);
+  }
+  return tree as ErrorTree<T>;
+}
+
+/**
+ * RFC 7807 "application/problem+json" body for failed validation
+ */
+export function toProblemDetails(
+  source: ErrorSource,
+  options: ProblemDetailsOptions = {}
+): ProblemDetails {
+  const errors = toErrors(source);
+  const problem: ProblemDetails = {
+    type: options.type || "about:blank",
+    title: options.title || "Validation failed",
+    status: options.status || 422,
+    detail: options.detail || `Validation failed with ${errors.length} error(s)`,
+    errors: errors.map((error) => ({
+      pointer: toJsonPointer(error.path),
+      detail: error.message,
+      code: error.code,
+    })),
+  };
+  if (options.instance) {
+    problem.instance = options.instance;
+  }
+  return problem;
+}
+
+/**
+ * JSON:API error document with source pointers into the resource
+ */
+export function toJsonApiErrors(
+  source: ErrorSource,
+  options: JsonApiErrorOptions = {}
+): JsonApiErrorDocument {
+  const status = String(options.status || 422);
+  const prefix = options.pointerPrefix ?? "/data/attributes";
+  return {
+    errors: toErrors(source).map((error) => ({
+      status,
+      code: error.code,
+      title: "Invalid field",
+      detail: error.message,
+      source: { pointer: `${prefix}${toJsonPointer(error.path)}` },
+    })),
+  };
+}
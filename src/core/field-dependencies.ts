@@ -0,0 +1,186 @@
+/**
+ * Field dependencies
+ * Rules that read other fields (stitch, compareField, requiredIf,
+ * optionalIf, validateIf, fromContext) make their field depend on those
+ * fields. validateAt() uses the graph to re-run only the rules affected
+ * by an edited field. Reads are found in the rules' source and params;
+ * no user callback runs to build the graph
+ */
+
+import { getRuleValidators } from "./utils/rule-fields";
+
+/**
+ * Field path -> paths of the other fields its rules read
+ */
+export type DependencyGraph = Map<string, string[]>;
+
+const parentOf = (path: string): string =>
+  path.slice(0, Math.max(path.lastIndexOf("."), 0));
+
+// Drop paths that are prefixes of longer ones ("address" of "address.city")
+const dropPrefixes = (paths: string[]): string[] => {
+  const unique = [...new Set(paths)];
+  return unique.filter(
+    (path) => !unique.some((other) => other.startsWith(`${path}.`))
+  );
+};
+
+const isIdentifier = (text: string): boolean => /^[A-Za-z_$][\w$]*$/.test(text);
+
+// "a, { b, c }, d = f(1)" -> ["a", "{ b, c }", "d = f(1)"]
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if ("([{".includes(text[i])) depth++;
+    else if (")]}".includes(text[i])) depth--;
+    else if (text[i] === "," && depth === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts;
+};
+
+// Names bound by a parameter and the field path each one stands for:
+// "data" -> data: "", "{ shipping, items: list }" -> shipping, list: items
+const bindingsOf = (param: string): Array<[string, string]> => {
+  const name = param.split("=")[0].trim();
+  if (isIdentifier(name)) return [[name, ""]];
+  if (!param.startsWith("{")) return [];
+
+  const bindings: Array<[string, string]> = [];
+  const inner = param.slice(1, param.lastIndexOf("}"));
+  for (const entry of splitTopLevel(inner)) {
+    const [key, target = key] = entry
+      .split(/:(.*)/s)
+      .map((part) => part.split("=")[0].trim());
+    if (!isIdentifier(key)) continue;
+    const binding = target || key;
+    // Nested patterns ({ address: { city } }) read the whole key
+    bindings.push([isIdentifier(binding) ? binding : "", key]);
+  }
+  return bindings;
+};
+
+/**
+ * Paths a function's source reads from one of its parameters
+ * Reads behind && or in an untaken branch count as well. Called reads
+ * are methods (items.some(...)) and count as reads of their object
+ */
+export function scanFieldReads(
+  fn: (...args: any[]) => unknown,
+  paramIndex = 0
+): string[] {
+  const source = Function.prototype.toString.call(fn);
+  const signature = source.match(
+    /^[^(=]*\(([^)]*)\)|^\s*(?:async\s+)?([\w$]+)\s*=>/
+  );
+  const param = splitTopLevel(signature?.[1] ?? signature?.[2] ?? "")[
+    paramIndex
+  ];
+  if (!param) return [];
+
+  const reads: string[] = [];
+  for (const [name, prefix] of bindingsOf(param)) {
+    if (prefix) reads.push(prefix);
+    if (!name) continue;
+
+    // data.a.b, data?.a?.b; a trailing call or .length reads the object
+    const access = new RegExp(
+      `(?<![\\w$.])${name.replace(/\$/g, "\\$")}((?:\\??\\.[A-Za-z_$][\\w$]*)+)(\\s*\\()?`,
+      "g"
+    );
+    let match: RegExpExecArray | null;
+    while ((match = access.exec(source))) {
+      let path = match[1].replace(/\?/g, "");
+      if (match[2] || path.endsWith(".length")) {
+        path = parentOf(path);
+      }
+      path = `${prefix}${path}`.replace(/^\./, "");
+      if (path) reads.push(path);
+    }
+  }
+  return dropPrefixes(reads);
+}
+
+/**
+ * Fields read by a validator of one of the supported rules
+ */
+function getValidatorReads(validator: any): string[] {
+  const params: any[] = validator?.params || [];
+  switch (validator?.pluginName) {
+    case "compareField":
+      return typeof params[0] === "string" ? [params[0]] : [];
+    case "stitch":
+      return Array.isArray(params[0]) ? params[0] : [];
+    case "requiredIf":
+    case "optionalIf":
+    case "validateIf":
+      return typeof params[0] === "function" ? scanFieldReads(params[0]) : [];
+    case "fromContext":
+      // validate(value, context, allValues): only allValues holds fields
+      return typeof params[0]?.validate === "function"
+        ? scanFieldReads(params[0].validate, 2)
+        : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Build the graph from the processed field definitions
+ */
+export function buildDependencyGraph(
+  definitions: ReadonlyArray<{ path: string; rules?: readonly any[] }>
+): DependencyGraph {
+  const graph: DependencyGraph = new Map();
+  for (const definition of definitions) {
+    const reads = (definition.rules || [])
+      .flatMap(getRuleValidators)
+      .flatMap(getValidatorReads);
+    if (reads.length > 0) {
+      graph.set(definition.path, [
+        ...(graph.get(definition.path) || []),
+        ...reads,
+      ]);
+    }
+  }
+  return graph;
+}
+
+// "items[0].sku", "items.0.sku" and "items[*].sku" -> ["items", "*", "sku"]
+const toPathTokens = (path: string): string[] =>
+  (path.match(/[^.[\]]+/g) || []).map((token) =>
+    /^\d+$/.test(token) ? "*" : token
+  );
+
+// One path is the other or lies below it
+const isRelated = (a: string[], b: string[]): boolean => {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+};
+
+/**
+ * Declared field paths whose rules must run again after `path` changed:
+ * the fields at, above or below it, and the fields that read any of them
+ */
+export function getAffectedFields(
+  graph: DependencyGraph,
+  fieldPaths: readonly string[],
+  path: string
+): string[] {
+  const edited = toPathTokens(path);
+  return fieldPaths.filter(
+    (fieldPath) =>
+      isRelated(toPathTokens(fieldPath), edited) ||
+      (graph.get(fieldPath) || []).some((read) =>
+        isRelated(toPathTokens(read), edited)
+      )
+  );
+}
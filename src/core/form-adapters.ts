@@ -0,0 +1,237 @@
+/**
+ * Form library adapters
+ * Resolvers and validate functions for react-hook-form, Formik,
+ * VeeValidate and TanStack Form. They run parse() so submitted values are
+ * the transformed ones, and report every invalid field (abortEarly: false).
+ * The library types are declared structurally; no runtime is imported
+ */
+
+import type { ParseOptions, Result, ValidationError } from "../types";
+import type { TransformAwareValidator } from "./builder/plugins/plugin-types";
+import { getOrSetOwn, hasOwnProperty } from "./utils/own-property";
+
+/**
+ * Options forwarded to parse(); abort settings are chosen per library
+ */
+export type FormAdapterOptions = Omit<
+  ParseOptions,
+  "abortEarly" | "abortEarlyOnEachField"
+>;
+
+export interface ReactHookFormFieldError {
+  type: string;
+  message: string;
+  /** Every message by error code (criteriaMode: "all") */
+  types?: Record<string, string | string[]>;
+}
+
+export type ReactHookFormResolverResult<TValues> =
+  | { values: TValues; errors: Record<string, never> }
+  | { values: {}; errors: Record<string, any> };
+
+/**
+ * react-hook-form `resolver`; its context is passed on as ParseOptions.context
+ */
+export type ReactHookFormResolver<TValues, TTransformed> = (
+  values: TValues,
+  context?: Record<string, any>,
+  options?: { criteriaMode?: "firstError" | "all" }
+) => Promise<ReactHookFormResolverResult<TTransformed>>;
+
+/**
+ * Formik `validate`: nested messages, {} when valid
+ */
+export type FormikValidate<TValues> = (values: TValues) => Record<string, any>;
+
+/**
+ * VeeValidate typed schema (`validationSchema` of useForm)
+ */
+export interface VeeValidateTypedSchema<TValues, TTransformed> {
+  __type: "VVTypedSchema";
+  parse(values: TValues): Promise<{
+    value?: TTransformed;
+    errors: Array<{ path?: string; errors: string[] }>;
+  }>;
+}
+
+/**
+ * TanStack Form form-level validator (`validators.onChange`, `onSubmit`, ...)
+ */
+export type TanStackFormValidator<TValues> = (props: {
+  value: TValues;
+}) => { form?: string; fields: Record<string, string> } | undefined;
+
+const errorsOf = (result: Result<unknown>): ValidationError[] =>
+  result.isValid() ? [] : result.errors;
+
+// "items[1].name" -> ["items", "1", "name"]
+const toPathTokens = (path: string): string[] => path.match(/[^.[\]]+/g) || [];
+
+// Nested containers follow the path: numeric tokens make arrays.
+// Only own properties count, so "constructor" is a field like any other
+const getOrCreate = (
+  target: Record<string, any>,
+  tokens: string[]
+): Record<string, any> => {
+  let node = target;
+  tokens.forEach((token, index) => {
+    node = getOrSetOwn(node, token, () =>
+      /^\d+$/.test(tokens[index + 1] ?? "") ? [] : {}
+    );
+  });
+  return node;
+};
+
+/**
+ * react-hook-form resolver
+ *
+ * @example
+ * ```typescript
+ * const form = useForm({ resolver: reactHookFormResolver(signupValidator) });
+ * ```
+ */
+export function reactHookFormResolver<T extends object, TTransformed = T>(
+  validator: TransformAwareValidator<T, TTransformed>,
+  options: FormAdapterOptions = {}
+): ReactHookFormResolver<T, TTransformed> {
+  return async (values, context, resolverOptions) => {
+    const allMessages = resolverOptions?.criteriaMode === "all";
+    const result = validator.parse(values, {
+      ...options,
+      context: context ?? options.context,
+      abortEarly: false,
+      abortEarlyOnEachField: !allMessages,
+    });
+    if (result.isValid()) {
+      return { values: result.unwrap(), errors: {} };
+    }
+
+    const errors: Record<string, any> = {};
+    for (const error of errorsOf(result)) {
+      const tokens = error.path ? toPathTokens(error.path) : ["root"];
+      const parent = getOrCreate(errors, tokens.slice(0, -1));
+      const key = tokens[tokens.length - 1];
+      const fieldError: ReactHookFormFieldError = getOrSetOwn(
+        parent,
+        key,
+        () => ({ type: error.code, message: error.message })
+      );
+      if (allMessages) {
+        const types = (fieldError.types ||= {});
+        const existing = hasOwnProperty(types, error.code)
+          ? types[error.code]
+          : undefined;
+        types[error.code] =
+          existing === undefined
+            ? error.message
+            : ([] as string[]).concat(existing, error.message);
+      }
+    }
+    return { values: {}, errors };
+  };
+}
+
+/**
+ * Formik validate function, one message per field
+ * Errors without a path have no place in Formik's errors and are left out
+ *
+ * @example
+ * ```typescript
+ * <Formik validate={formikValidate(signupValidator)} ... />
+ * ```
+ */
+export function formikValidate<T extends object>(
+  validator: TransformAwareValidator<T, any>,
+  options: FormAdapterOptions = {}
+): FormikValidate<T> {
+  return (values) => {
+    const errors: Record<string, any> = {};
+    const result = validator.parse(values, {
+      ...options,
+      abortEarly: false,
+      abortEarlyOnEachField: true,
+    });
+    for (const error of errorsOf(result)) {
+      const tokens = toPathTokens(error.path);
+      if (tokens.length === 0) continue;
+      const parent = getOrCreate(errors, tokens.slice(0, -1));
+      getOrSetOwn(parent, tokens[tokens.length - 1], () => error.message);
+    }
+    return errors;
+  };
+}
+
+/**
+ * VeeValidate typed schema with every message of each field
+ *
+ * @example
+ * ```typescript
+ * const { handleSubmit } = useForm({
+ *   validationSchema: veeValidateSchema(signupValidator),
+ * });
+ * ```
+ */
+export function veeValidateSchema<T extends object, TTransformed = T>(
+  validator: TransformAwareValidator<T, TTransformed>,
+  options: FormAdapterOptions = {}
+): VeeValidateTypedSchema<T, TTransformed> {
+  return {
+    __type: "VVTypedSchema",
+    parse: async (values) => {
+      const result = validator.parse(values, {
+        ...options,
+        abortEarly: false,
+        abortEarlyOnEachField: false,
+      });
+      if (result.isValid()) {
+        return { value: result.unwrap(), errors: [] };
+      }
+
+      const byPath = new Map<string, string[]>();
+      for (const error of errorsOf(result)) {
+        const messages = byPath.get(error.path) || [];
+        byPath.set(error.path, [...messages, error.message]);
+      }
+      return {
+        errors: [...byPath].map(([path, errors]) => ({ path, errors })),
+      };
+    },
+  };
+}
+
+/**
+ * TanStack Form form-level validator, one message per field
+ *
+ * @example
+ * ```typescript
+ * const form = useForm({
+ *   defaultValues,
+ *   validators: { onChange: tanstackFormValidator(signupValidator) },
+ * });
+ * ```
+ */
+export function tanstackFormValidator<T extends object>(
+  validator: TransformAwareValidator<T, any>,
+  options: FormAdapterOptions = {}
+): TanStackFormValidator<T> {
+  return ({ value }) => {
+    const result = validator.parse(value, {
+      ...options,
+      abortEarly: false,
+      abortEarlyOnEachField: true,
+    });
+    if (result.isValid()) return undefined;
+
+    const errors: { form?: string; fields: Record<string, string> } = {
+      fields: {},
+    };
+    for (const error of errorsOf(result)) {
+      if (!error.path) {
+        errors.form ??= error.message;
+        continue;
+      }
+      getOrSetOwn(errors.fields, error.path, () => error.message);
+    }
+    return errors;
+  };
+}
@@ -1,13 +1,16 @@
 export interface GlobalConfig {
   messageKeyPrefix?: string;
+  locale?: string; // Translate error messages with this catalog when set
   toBooleanTruthyValues?: string[];
+  toBooleanFalsyValues?: string[];
   numberFormat?: {
     decimalSeparator?: string;
     thousandSeparator?: string;
   };
   dateFormat?: string;
+  clock?: () => Date; // Current time for relative date rules (past, future, ...)
   trimStrings?: boolean;
-  caseSensitive?: boolean;
+  caseSensitive?: boolean; // false: string comparison rules ignore case
   customTransforms?: Record<string, (value: any) => any>;
 }
 
@@ -25,6 +28,9 @@ const defaultConfig: GlobalConfig = {
   customTransforms: {},
 };
 
+// Strings coerce() reads as false unless toBooleanFalsyValues is set
+const DEFAULT_FALSY_VALUES = ["false", "0", "no", "off"];
+
 // Current configuration state
 let currentConfig: GlobalConfig = { ...defaultConfig };
 
@@ -51,10 +57,18 @@ export const globalConfig = {
     return currentConfig.messageKeyPrefix || "";
   },
 
+  get locale(): string | undefined {
+    return currentConfig.locale;
+  },
+
   get toBooleanTruthyValues(): string[] {
     return [...(currentConfig.toBooleanTruthyValues || [])];
   },
 
+  get toBooleanFalsyValues(): string[] {
+    return [...(currentConfig.toBooleanFalsyValues || DEFAULT_FALSY_VALUES)];
+  },
+
   get numberFormat(): NonNullable<GlobalConfig["numberFormat"]> {
     return { ...currentConfig.numberFormat! };
   },
@@ -63,6 +77,10 @@ export const globalConfig = {
     return currentConfig.dateFormat || "YYYY-MM-DD";
   },
 
+  get clock(): () => Date {
+    return currentConfig.clock || (() => new Date());
+  },
+
   get trimStrings(): boolean {
     return currentConfig.trimStrings || false;
   },
@@ -0,0 +1,255 @@
+/**
+ * HTTP request validation
+ * Middleware for Express, Fastify, Koa and Hono that parses body, query,
+ * params and headers with one validator each, replaces every part with
+ * its parsed value and answers 400 with the errors of all parts
+ * ("query.page"). The framework types are declared structurally
+ */
+
+import { Result, type ParseOptions, type ValidationError } from "../types";
+import type { TransformAwareValidator } from "./builder/plugins/plugin-types";
+import { toProblemDetails } from "./error-format";
+
+export type RequestPart = "body" | "query" | "params" | "headers";
+
+const REQUEST_PARTS: readonly RequestPart[] = [
+  "params",
+  "query",
+  "headers",
+  "body",
+];
+
+/**
+ * One validator per request part; parts without one are left as they are
+ */
+export type RequestValidators = {
+  [K in RequestPart]?: TransformAwareValidator<any, any>;
+};
+
+/**
+ * Parsed (transformed) value of each validated part
+ */
+export type ValidatedParts<TValidators extends RequestValidators> = {
+  [K in keyof TValidators]: TValidators[K] extends TransformAwareValidator<
+    any,
+    infer TOutput
+  >
+    ? TOutput
+    : never;
+};
+
+/**
+ * Framework request with the validated parts typed as parsed
+ *
+ * @example
+ * ```typescript
+ * const orderRequest = { body: orderValidator, query: paginationValidator };
+ *
+ * app.post("/orders", expressValidator(orderRequest), (req, res) => {
+ *   const { body, query } = req as ValidatedRequest<typeof orderRequest>;
+ *   query.page; // number, after .transform(Number)
+ * });
+ * ```
+ */
+export type ValidatedRequest<
+  TValidators extends RequestValidators,
+  TRequest = {},
+> = Omit<TRequest, keyof TValidators> & ValidatedParts<TValidators>;
+
+export interface RequestValidationOptions {
+  /** Response status for invalid requests (default: 400) */
+  status?: number;
+  /** Response body (default: RFC 7807 problem details) */
+  errorBody?: (errors: ValidationError[], status: number) => unknown;
+  /** Options for parse(); abortEarly defaults to false */
+  parseOptions?: ParseOptions;
+}
+
+const joinPath = (part: RequestPart, path: string): string =>
+  !path ? part : path[0] === "[" ? `${part}${path}` : `${part}.${path}`;
+
+const withPartPrefix = (
+  part: RequestPart,
+  error: ValidationError
+): ValidationError => ({
+  ...error,
+  path: joinPath(part, error.path),
+  paths: () => error.paths().map((path) => joinPath(part, path)),
+});
+
+/**
+ * Parse each part that has a validator and collect the errors of all parts
+ */
+export function validateRequest<TValidators extends RequestValidators>(
+  validators: TValidators,
+  request: Partial<Record<RequestPart, unknown>>,
+  options: ParseOptions = {}
+): Result<ValidatedParts<TValidators>> {
+  const parts: Partial<Record<RequestPart, unknown>> = {};
+  const errors: ValidationError[] = [];
+  for (const part of REQUEST_PARTS) {
+    const validator = validators[part];
+    if (!validator) continue;
+    const result = validator.parse(request[part], {
+      abortEarly: false,
+      ...options,
+    });
+    if (result.isValid()) {
+      parts[part] = result.unwrap();
+    } else {
+      errors.push(...result.errors.map((error) => withPartPrefix(part, error)));
+    }
+  }
+  return errors.length > 0
+    ? Result.error(errors)
+    : Result.ok(parts as ValidatedParts<TValidators>);
+}
+
+const toErrorResponse = (
+  errors: ValidationError[],
+  options: RequestValidationOptions
+): { status: number; body: unknown } => {
+  const status = options.status || 400;
+  return {
+    status,
+    body: options.errorBody
+      ? options.errorBody(errors, status)
+      : toProblemDetails(errors, { status }),
+  };
+};
+
+// Some frameworks expose parts through getters (Express 5 req.query,
+// Koa request.query); an own property shadows them
+const replacePart = (target: any, key: string, value: unknown): void => {
+  Object.defineProperty(target, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+};
+
+/**
+ * Express middleware
+ */
+export function expressValidator<TValidators extends RequestValidators>(
+  validators: TValidators,
+  options: RequestValidationOptions = {}
+): (req: any, res: any, next: (error?: unknown) => void) => void {
+  return (req, res, next) => {
+    const result = validateRequest(validators, req, options.parseOptions);
+    if (!result.isValid()) {
+      const { status, body } = toErrorResponse(result.errors, options);
+      res.status(status).json(body);
+      return;
+    }
+    for (const [part, value] of Object.entries(result.unwrap())) {
+      replacePart(req, part, value);
+    }
+    next();
+  };
+}
+
+/**
+ * Fastify hook (preValidation or preHandler)
+ */
+export function fastifyValidator<TValidators extends RequestValidators>(
+  validators: TValidators,
+  options: RequestValidationOptions = {}
+): (request: any, reply: any) => Promise<unknown> {
+  return async (request, reply) => {
+    const result = validateRequest(validators, request, options.parseOptions);
+    if (!result.isValid()) {
+      const { status, body } = toErrorResponse(result.errors, options);
+      return reply.code(status).send(body);
+    }
+    for (const [part, value] of Object.entries(result.unwrap())) {
+      replacePart(request, part, value);
+    }
+  };
+}
+
+/**
+ * Koa middleware; body comes from a body parser (ctx.request.body) and
+ * params from a router (ctx.params)
+ */
+export function koaValidator<TValidators extends RequestValidators>(
+  validators: TValidators,
+  options: RequestValidationOptions = {}
+): (ctx: any, next: () => Promise<unknown>) => Promise<void> {
+  return async (ctx, next) => {
+    const result = validateRequest(
+      validators,
+      {
+        body: ctx.request.body,
+        query: ctx.request.query,
+        params: ctx.params,
+        headers: ctx.request.headers,
+      },
+      options.parseOptions
+    );
+    if (!result.isValid()) {
+      const { status, body } = toErrorResponse(result.errors, options);
+      ctx.status = status;
+      ctx.body = body;
+      return;
+    }
+    for (const [part, value] of Object.entries(result.unwrap())) {
+      replacePart(part === "params" ? ctx : ctx.request, part, value);
+    }
+    await next();
+  };
+}
+
+// Hono keeps parsed values apart from the request: c.req.valid(target)
+const HONO_TARGETS: Record<Exclude<RequestPart, "body">, string> = {
+  query: "query",
+  params: "param",
+  headers: "header",
+};
+
+/**
+ * Hono middleware; handlers read the parsed parts with c.req.valid()
+ * ("json" or "form" for the body, "query", "param", "header")
+ */
+export function honoValidator<TValidators extends RequestValidators>(
+  validators: TValidators,
+  options: RequestValidationOptions = {}
+): (c: any, next: () => Promise<void>) => Promise<unknown> {
+  return async (c, next) => {
+    const isJson = /json/i.test(c.req.header("content-type") || "");
+    let body: unknown;
+    if (validators.body) {
+      body = await (isJson ? c.req.json() : c.req.parseBody()).catch(
+        () => undefined
+      );
+    }
+    const result = validateRequest(
+      validators,
+      {
+        body,
+        query: validators.query && c.req.query(),
+        params: validators.params && c.req.param(),
+        headers: validators.headers && c.req.header(),
+      },
+      options.parseOptions
+    );
+    if (!result.isValid()) {
+      const { status, body: errorBody } = toErrorResponse(
+        result.errors,
+        options
+      );
+      return c.json(errorBody, status);
+    }
+    for (const [part, value] of Object.entries(result.unwrap())) {
+      const target =
+        part === "body"
+          ? isJson
+            ? "json"
+            : "form"
+          : HONO_TARGETS[part as Exclude<RequestPart, "body">];
+      c.req.addValidatedData(target, value);
+    }
+    await next();
+  };
+}
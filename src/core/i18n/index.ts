@@ -0,0 +1,17 @@
+/**
+ * i18n - Message keys, catalogs and translation for validation errors
+ */
+
+export {
+  registerMessageCatalog,
+  getMessageCatalog,
+  createTranslator,
+  interpolateMessage,
+  type MessageCatalog,
+  type TranslateFunction,
+  type TranslatorOptions,
+} from "./translator";
+export { INVALID_TYPE_KEY, REQUIRED_KEY } from "./message-params";
+export { enMessages } from "./locales/en";
+export { jaMessages } from "./locales/ja";
+export { deMessages } from "./locales/de";
@@ -0,0 +1,107 @@
+import type { MessageCatalog } from "../translator";
+
+/**
+ * German messages for built-in error keys
+ */
+export const deMessages: MessageCatalog = {
+  required: "{path} ist erforderlich",
+  invalidType: "{expected} erwartet, aber {received} erhalten",
+  // String
+  stringMin: "Muss mindestens {min} Zeichen lang sein",
+  stringMax: "Darf höchstens {max} Zeichen lang sein",
+  stringExactLength: "Muss genau {expected} Zeichen lang sein",
+  stringPattern: "Muss dem Muster {pattern} entsprechen",
+  stringStartsWith: "Muss mit „{prefix}“ beginnen",
+  stringEndsWith: "Muss mit „{suffix}“ enden",
+  stringAlphanumeric: "Darf nur Buchstaben und Ziffern enthalten",
+  stringEmail: "Muss eine gültige E-Mail-Adresse sein",
+  stringUrl: "Muss eine gültige URL sein",
+  stringUuid: "Muss eine gültige UUID sein",
+  stringDate: "Muss ein gültiges Datum (JJJJ-MM-TT) sein",
+  stringDatetime: "Muss ein gültiger ISO-8601-Zeitstempel sein",
+  stringTime: "Muss eine gültige Uhrzeit sein",
+  stringDuration: "Muss eine gültige ISO-8601-Dauer sein",
+  stringHostname: "Muss ein gültiger Hostname sein",
+  stringIpv4: "Muss eine gültige IPv4-Adresse sein",
+  stringIpv6: "Muss eine gültige IPv6-Adresse sein",
+  stringIri: "Muss eine gültige IRI sein",
+  stringIriReference: "Muss eine gültige IRI-Referenz sein",
+  stringJsonPointer: "Muss ein gültiger JSON Pointer sein",
+  stringRelativeJsonPointer: "Muss ein gültiger relativer JSON Pointer sein",
+  stringUriTemplate: "Muss ein gültiges URI-Template sein",
+  stringBase64: "Muss gültiges Base64 sein",
+  stringContentEncoding: "Muss {encoding}-kodiert sein",
+  stringContentMediaType: "Muss gültiger {mediaType}-Inhalt sein",
+  // Number
+  numberMin: "Muss mindestens {min} sein",
+  numberMax: "Darf höchstens {max} sein",
+  numberRange: "Muss zwischen {min} und {max} liegen",
+  numberPositive: "Muss eine positive Zahl sein",
+  numberNegative: "Muss eine negative Zahl sein",
+  numberInteger: "Muss eine ganze Zahl sein",
+  numberFinite: "Muss eine endliche Zahl sein",
+  numberMultipleOf: "Muss ein Vielfaches von {multipleOf} sein",
+  // BigInt
+  bigintMin: "Muss mindestens {min} sein",
+  bigintMax: "Darf höchstens {max} sein",
+  bigintMultipleOf: "Muss ein Vielfaches von {multipleOf} sein",
+  // Boolean
+  booleanTruthy: "Muss true sein",
+  booleanFalsy: "Muss false sein",
+  // Date
+  dateMin: "Muss am oder nach dem {min} liegen",
+  dateMax: "Muss am oder vor dem {max} liegen",
+  dateAfter: "Muss nach dem {date} liegen",
+  dateBefore: "Muss vor dem {date} liegen",
+  datePast: "Muss in der Vergangenheit liegen",
+  dateFuture: "Muss in der Zukunft liegen",
+  dateWithinLast: "Muss innerhalb der letzten {duration} liegen",
+  dateWithinNext: "Muss innerhalb der nächsten {duration} liegen",
+  dateWeekday: "Muss ein Wochentag sein",
+  dateBusinessDay: "Muss ein Werktag sein",
+  // Array
+  arrayMinLength: "Muss mindestens {min} Einträge enthalten",
+  arrayMaxLength: "Darf höchstens {max} Einträge enthalten",
+  arrayUnique: "Darf keine doppelten Einträge enthalten",
+  arrayIncludes: "Muss {element} enthalten",
+  arrayContains: "Muss einen passenden Eintrag enthalten",
+  arrayItems: "Jeder Eintrag muss gültig sein",
+  // Object
+  objectMinProperties: "Muss mindestens {min} Eigenschaften haben",
+  objectMaxProperties: "Darf höchstens {max} Eigenschaften haben",
+  objectAdditionalProperties: "Enthält nicht erlaubte Eigenschaften",
+  objectPropertyNames: "Enthält ungültige Eigenschaftsnamen",
+  objectPatternProperties: "Enthält ungültige Mustereigenschaften",
+  objectDependentRequired: "Abhängige Pflichteigenschaften fehlen",
+  objectDependentSchemas: "Erfüllt die abhängigen Schemas nicht",
+  objectSchema: "Muss ein gültiges Objekt sein",
+  // Map, Set and record
+  collectionMinSize: "Muss mindestens {min} Einträge enthalten",
+  collectionMaxSize: "Darf höchstens {max} Einträge enthalten",
+  collectionKeys: "Enthält ungültige Schlüssel",
+  collectionValues: "Enthält ungültige Werte",
+  // Common
+  oneOf: "Muss einer der folgenden Werte sein: {values}",
+  literal: "Muss {expected} sein",
+  nullable: "Darf nicht null sein",
+  custom: "Ist ungültig",
+  tupleBuilder: "Muss ein gültiges Tupel sein",
+  unionGuard: "Entspricht keinem der erlaubten Typen",
+  unionDiscriminated: "Muss ein Objekt mit gültigem Diskriminator sein",
+  invalidDiscriminator: "Ungültiger Diskriminator. Erlaubt sind: {allowed}",
+  // Field references and conditions
+  compareField: "Muss mit {field} übereinstimmen",
+  requiredIf: "{path} ist erforderlich",
+  validateIf: "Ist ungültig",
+  stitch: "Feldübergreifende Validierung fehlgeschlagen",
+  fromContext: "Ist ungültig",
+  // Coercion
+  coerce: "{value} kann nicht in {expected} umgewandelt werden",
+  // Unknown keys
+  unrecognizedKey: "Unbekannter Schlüssel \"{key}\"",
+  // Recursive validators
+  circularReference: "Enthält einen Zirkelbezug",
+  // Async rules
+  refineAsync: "Ist ungültig",
+  asyncTimeout: "Validierung nach {timeout}ms abgebrochen",
+};
@@ -0,0 +1,107 @@
+import type { MessageCatalog } from "../translator";
+
+/**
+ * English messages for built-in error keys
+ */
+export const enMessages: MessageCatalog = {
+  required: "{path} is required",
+  invalidType: "Expected {expected}, but received {received}",
+  // String
+  stringMin: "Must be at least {min} characters",
+  stringMax: "Must be at most {max} characters",
+  stringExactLength: "Must be exactly {expected} characters",
+  stringPattern: "Must match the pattern {pattern}",
+  stringStartsWith: "Must start with \"{prefix}\"",
+  stringEndsWith: "Must end with \"{suffix}\"",
+  stringAlphanumeric: "Must contain only letters and numbers",
+  stringEmail: "Must be a valid email address",
+  stringUrl: "Must be a valid URL",
+  stringUuid: "Must be a valid UUID",
+  stringDate: "Must be a valid date (YYYY-MM-DD)",
+  stringDatetime: "Must be a valid ISO 8601 date-time",
+  stringTime: "Must be a valid time",
+  stringDuration: "Must be a valid ISO 8601 duration",
+  stringHostname: "Must be a valid hostname",
+  stringIpv4: "Must be a valid IPv4 address",
+  stringIpv6: "Must be a valid IPv6 address",
+  stringIri: "Must be a valid IRI",
+  stringIriReference: "Must be a valid IRI reference",
+  stringJsonPointer: "Must be a valid JSON Pointer",
+  stringRelativeJsonPointer: "Must be a valid relative JSON Pointer",
+  stringUriTemplate: "Must be a valid URI template",
+  stringBase64: "Must be valid Base64",
+  stringContentEncoding: "Must be {encoding} encoded",
+  stringContentMediaType: "Must be valid {mediaType} content",
+  // Number
+  numberMin: "Must be at least {min}",
+  numberMax: "Must be at most {max}",
+  numberRange: "Must be between {min} and {max}",
+  numberPositive: "Must be a positive number",
+  numberNegative: "Must be a negative number",
+  numberInteger: "Must be an integer",
+  numberFinite: "Must be a finite number",
+  numberMultipleOf: "Must be a multiple of {multipleOf}",
+  // BigInt
+  bigintMin: "Must be at least {min}",
+  bigintMax: "Must be at most {max}",
+  bigintMultipleOf: "Must be a multiple of {multipleOf}",
+  // Boolean
+  booleanTruthy: "Must be true",
+  booleanFalsy: "Must be false",
+  // Date
+  dateMin: "Must be on or after {min}",
+  dateMax: "Must be on or before {max}",
+  dateAfter: "Must be after {date}",
+  dateBefore: "Must be before {date}",
+  datePast: "Must be in the past",
+  dateFuture: "Must be in the future",
+  dateWithinLast: "Must be within the last {duration}",
+  dateWithinNext: "Must be within the next {duration}",
+  dateWeekday: "Must be a weekday",
+  dateBusinessDay: "Must be a business day",
+  // Array
+  arrayMinLength: "Must contain at least {min} items",
+  arrayMaxLength: "Must contain at most {max} items",
+  arrayUnique: "Must not contain duplicate items",
+  arrayIncludes: "Must include {element}",
+  arrayContains: "Must contain a matching item",
+  arrayItems: "Each item must be valid",
+  // Object
+  objectMinProperties: "Must have at least {min} properties",
+  objectMaxProperties: "Must have at most {max} properties",
+  objectAdditionalProperties: "Contains properties that are not allowed",
+  objectPropertyNames: "Contains invalid property names",
+  objectPatternProperties: "Contains invalid pattern properties",
+  objectDependentRequired: "Is missing dependent required properties",
+  objectDependentSchemas: "Does not satisfy dependent schemas",
+  objectSchema: "Must be a valid object",
+  // Map, Set and record
+  collectionMinSize: "Must contain at least {min} entries",
+  collectionMaxSize: "Must contain at most {max} entries",
+  collectionKeys: "Contains invalid keys",
+  collectionValues: "Contains invalid values",
+  // Common
+  oneOf: "Must be one of: {values}",
+  literal: "Must be {expected}",
+  nullable: "Must not be null",
+  custom: "Is invalid",
+  tupleBuilder: "Must be a valid tuple",
+  unionGuard: "Does not match any allowed type",
+  unionDiscriminated: "Must be an object with a valid discriminator",
+  invalidDiscriminator: "Invalid discriminator value. Expected one of: {allowed}",
+  // Field references and conditions
+  compareField: "Must match {field}",
+  requiredIf: "{path} is required",
+  validateIf: "Is invalid",
+  stitch: "Cross-field validation failed",
+  fromContext: "Is invalid",
+  // Coercion
+  coerce: "Cannot convert {value} to {expected}",
+  // Unknown keys
+  unrecognizedKey: "Unrecognized key \"{key}\"",
+  // Recursive validators
+  circularReference: "Contains a circular reference",
+  // Async rules
+  refineAsync: "Is invalid",
+  asyncTimeout: "Validation timed out after {timeout}ms",
+};
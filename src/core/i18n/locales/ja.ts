@@ -0,0 +1,107 @@
+import type { MessageCatalog } from "../translator";
+
+/**
+ * Japanese messages for built-in error keys
+ */
+export const jaMessages: MessageCatalog = {
+  required: "{path}は必須です",
+  invalidType: "{expected}型である必要がありますが、{received}型が渡されました",
+  // String
+  stringMin: "{min}文字以上で入力してください",
+  stringMax: "{max}文字以下で入力してください",
+  stringExactLength: "{expected}文字で入力してください",
+  stringPattern: "パターン{pattern}に一致する必要があります",
+  stringStartsWith: "「{prefix}」で始まる必要があります",
+  stringEndsWith: "「{suffix}」で終わる必要があります",
+  stringAlphanumeric: "英数字のみで入力してください",
+  stringEmail: "有効なメールアドレスを入力してください",
+  stringUrl: "有効なURLを入力してください",
+  stringUuid: "有効なUUIDを入力してください",
+  stringDate: "有効な日付(YYYY-MM-DD)を入力してください",
+  stringDatetime: "有効なISO 8601形式の日時を入力してください",
+  stringTime: "有効な時刻を入力してください",
+  stringDuration: "有効なISO 8601形式の期間を入力してください",
+  stringHostname: "有効なホスト名を入力してください",
+  stringIpv4: "有効なIPv4アドレスを入力してください",
+  stringIpv6: "有効なIPv6アドレスを入力してください",
+  stringIri: "有効なIRIを入力してください",
+  stringIriReference: "有効なIRI参照を入力してください",
+  stringJsonPointer: "有効なJSON Pointerを入力してください",
+  stringRelativeJsonPointer: "有効な相対JSON Pointerを入力してください",
+  stringUriTemplate: "有効なURIテンプレートを入力してください",
+  stringBase64: "有効なBase64文字列を入力してください",
+  stringContentEncoding: "{encoding}でエンコードされている必要があります",
+  stringContentMediaType: "有効な{mediaType}の内容である必要があります",
+  // Number
+  numberMin: "{min}以上の値を入力してください",
+  numberMax: "{max}以下の値を入力してください",
+  numberRange: "{min}から{max}の範囲で入力してください",
+  numberPositive: "正の数を入力してください",
+  numberNegative: "負の数を入力してください",
+  numberInteger: "整数を入力してください",
+  numberFinite: "有限の数値を入力してください",
+  numberMultipleOf: "{multipleOf}の倍数を入力してください",
+  // BigInt
+  bigintMin: "{min}以上の値を入力してください",
+  bigintMax: "{max}以下の値を入力してください",
+  bigintMultipleOf: "{multipleOf}の倍数を入力してください",
+  // Boolean
+  booleanTruthy: "trueである必要があります",
+  booleanFalsy: "falseである必要があります",
+  // Date
+  dateMin: "{min}以降である必要があります",
+  dateMax: "{max}以前である必要があります",
+  dateAfter: "{date}より後である必要があります",
+  dateBefore: "{date}より前である必要があります",
+  datePast: "過去の日時である必要があります",
+  dateFuture: "未来の日時である必要があります",
+  dateWithinLast: "過去{duration}以内である必要があります",
+  dateWithinNext: "今後{duration}以内である必要があります",
+  dateWeekday: "平日である必要があります",
+  dateBusinessDay: "営業日である必要があります",
+  // Array
+  arrayMinLength: "{min}件以上の要素が必要です",
+  arrayMaxLength: "{max}件以下の要素にしてください",
+  arrayUnique: "重複する要素は使用できません",
+  arrayIncludes: "{element}を含む必要があります",
+  arrayContains: "条件に一致する要素を含む必要があります",
+  arrayItems: "各要素が有効である必要があります",
+  // Object
+  objectMinProperties: "{min}個以上のプロパティが必要です",
+  objectMaxProperties: "{max}個以下のプロパティにしてください",
+  objectAdditionalProperties: "許可されていないプロパティが含まれています",
+  objectPropertyNames: "無効なプロパティ名が含まれています",
+  objectPatternProperties: "パターンに一致しないプロパティが含まれています",
+  objectDependentRequired: "依存する必須プロパティが不足しています",
+  objectDependentSchemas: "依存スキーマを満たしていません",
+  objectSchema: "有効なオブジェクトである必要があります",
+  // Map, Set and record
+  collectionMinSize: "{min}件以上の要素が必要です",
+  collectionMaxSize: "要素は{max}件以下にしてください",
+  collectionKeys: "無効なキーが含まれています",
+  collectionValues: "無効な値が含まれています",
+  // Common
+  oneOf: "次のいずれかである必要があります: {values}",
+  literal: "{expected}である必要があります",
+  nullable: "nullは使用できません",
+  custom: "無効な値です",
+  tupleBuilder: "有効なタプルである必要があります",
+  unionGuard: "許可されたいずれの型にも一致しません",
+  unionDiscriminated: "有効な識別子を持つオブジェクトである必要があります",
+  invalidDiscriminator: "識別子の値が不正です。次のいずれかである必要があります: {allowed}",
+  // Field references and conditions
+  compareField: "{field}と一致する必要があります",
+  requiredIf: "{path}は必須です",
+  validateIf: "無効な値です",
+  stitch: "複数フィールドの検証に失敗しました",
+  fromContext: "無効な値です",
+  // Coercion
+  coerce: "{value}を{expected}に変換できません",
+  // Unknown keys
+  unrecognizedKey: "未定義のキー「{key}」は指定できません",
+  // Recursive validators
+  circularReference: "循環参照を含めることはできません",
+  // Async rules
+  refineAsync: "無効な値です",
+  asyncTimeout: "検証が{timeout}ミリ秒以内に完了しませんでした",
+};
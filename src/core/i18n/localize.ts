@@ -0,0 +1,97 @@
+/**
+ * Hook built-in error messages into translation
+ * Wrapped message functions fall back to the original message when
+ * translation is inactive or the key has no catalog entry
+ */
+
+import { Result, type ValidationError } from "../../types";
+import {
+  getMessageParams,
+  describeValueType,
+  INVALID_TYPE_KEY,
+  REQUIRED_KEY,
+} from "./message-params";
+import {
+  translateMessage,
+  runWithTranslate,
+  isTranslationActive,
+  type TranslateFunction,
+} from "./translator";
+
+type GetErrorMessage = (value: any, path: string, ...rest: any[]) => string;
+type MessageFactory = (context: any) => string;
+
+/**
+ * Wrap a plugin's getErrorMessage so it emits `key` with params from args
+ */
+export function localizeGetErrorMessage(
+  getErrorMessage: GetErrorMessage,
+  key: string,
+  args: readonly any[]
+): GetErrorMessage {
+  return (value, path, ...rest) =>
+    translateMessage(key, () => getMessageParams(key, args, value, path)) ??
+    getErrorMessage(value, path, ...rest);
+}
+
+/**
+ * Wrap a messageFactory so it emits `key` with params from args
+ */
+export function localizeMessageFactory(
+  messageFactory: MessageFactory,
+  key: string,
+  args: readonly any[]
+): MessageFactory {
+  return (context) =>
+    translateMessage(key, () =>
+      getMessageParams(key, args, context?.value, context?.path)
+    ) ?? messageFactory(context);
+}
+
+/**
+ * Wrap the messageFactory of an automatic type check
+ */
+export function localizeTypeMessageFactory(
+  messageFactory: MessageFactory,
+  expected: string
+): MessageFactory {
+  return (context) =>
+    translateMessage(INVALID_TYPE_KEY, () => ({
+      path: context?.path,
+      expected,
+      received: describeValueType(context?.value),
+    })) ?? messageFactory(context);
+}
+
+/**
+ * Translate errors the validator factory reports without a rule
+ * (missing required fields)
+ */
+export function localizeErrors<TError extends ValidationError>(
+  errors: TError[]
+): TError[] {
+  return errors.map((error) => {
+    if (error.code !== "REQUIRED") return error;
+    const message = translateMessage(REQUIRED_KEY, () => ({
+      path: error.path,
+    }));
+    return message === undefined ? error : { ...error, message };
+  });
+}
+
+/**
+ * Run a validate/parse call with the per-call translate option active
+ * No-op unless a translate function or GlobalConfig.locale is set
+ */
+export function runTranslated<T>(
+  translate: TranslateFunction | undefined,
+  run: () => Result<T>
+): Result<T> {
+  if (!translate && !isTranslationActive()) return run();
+
+  const result = runWithTranslate(translate, run);
+  if (result.isValid()) return result;
+  return runWithTranslate(translate, () =>
+    Result.error<T>(localizeErrors(result.errors), result.warnings)
+  );
+}
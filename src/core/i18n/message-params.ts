@@ -0,0 +1,97 @@
+/**
+ * Stable message keys and params for built-in plugins
+ * Keys are plugin names; params are derived from the rule's call arguments
+ */
+
+import {
+  toTimestamp,
+  formatDate,
+  describeDuration,
+} from "../plugin/date-utils";
+
+type ParamsExtractor = (args: readonly any[]) => Record<string, unknown>;
+
+// Key for the automatic type check added by the field context
+export const INVALID_TYPE_KEY = "invalidType";
+
+// Key for missing required fields reported by the validator factory
+export const REQUIRED_KEY = "required";
+
+const formatDateParam = (date: unknown): string =>
+  formatDate(toTimestamp(date));
+
+const formatList = (values: readonly unknown[]): string =>
+  values.map((value) => JSON.stringify(value)).join(", ");
+
+const MESSAGE_PARAMS: Record<string, ParamsExtractor> = {
+  stringMin: ([min]) => ({ min }),
+  stringMax: ([max]) => ({ max }),
+  stringExactLength: ([length]) => ({ expected: length }),
+  stringPattern: ([pattern]) => ({
+    pattern: pattern instanceof RegExp ? pattern.source : String(pattern),
+  }),
+  stringStartsWith: ([prefix]) => ({ prefix }),
+  stringEndsWith: ([suffix]) => ({ suffix }),
+  stringContentEncoding: ([encoding]) => ({ encoding }),
+  stringContentMediaType: ([mediaType]) => ({ mediaType }),
+  numberMin: ([min, options]) => ({ min, exclusive: !!options?.exclusive }),
+  numberMax: ([max, options]) => ({ max, exclusive: !!options?.exclusive }),
+  numberRange: ([min, max]) => ({ min, max }),
+  numberMultipleOf: ([multipleOf]) => ({ multipleOf }),
+  arrayMinLength: ([min]) => ({ min }),
+  arrayMaxLength: ([max]) => ({ max }),
+  arrayIncludes: ([element]) => ({ element: JSON.stringify(element) }),
+  dateMin: ([min]) => ({ min: formatDateParam(min) }),
+  dateMax: ([max]) => ({ max: formatDateParam(max) }),
+  dateAfter: ([date, options]) => ({
+    date: formatDateParam(date),
+    inclusive: !!options?.inclusive,
+  }),
+  dateBefore: ([date, options]) => ({
+    date: formatDateParam(date),
+    inclusive: !!options?.inclusive,
+  }),
+  dateWithinLast: ([duration]) => ({ duration: describeDuration(duration) }),
+  dateWithinNext: ([duration]) => ({ duration: describeDuration(duration) }),
+  objectMinProperties: ([min]) => ({ min }),
+  objectMaxProperties: ([max]) => ({ max }),
+  collectionMinSize: ([min]) => ({ min }),
+  collectionMaxSize: ([max]) => ({ max }),
+  bigintMin: ([min]) => ({ min: String(min) }),
+  bigintMax: ([max]) => ({ max: String(max) }),
+  bigintMultipleOf: ([divisor]) => ({ multipleOf: String(divisor) }),
+  oneOf: ([values]) => ({ values: formatList(values || []) }),
+  literal: ([expected]) => ({ expected: JSON.stringify(expected) }),
+  compareField: ([field]) => ({ field }),
+};
+
+/**
+ * Build the params passed to translate for a failed rule
+ * Always includes path and, for strings and arrays, the actual length
+ */
+export function getMessageParams(
+  key: string,
+  args: readonly any[],
+  value: unknown,
+  path: string
+): Record<string, unknown> {
+  const extractor = MESSAGE_PARAMS[key];
+  const params: Record<string, unknown> = extractor ? extractor(args) : {};
+  params.path = path;
+  if (typeof value === "string" || Array.isArray(value)) {
+    params.actual = value.length;
+  }
+  return params;
+}
+
+/**
+ * Describe the received value for invalidType messages
+ */
+export function describeValueType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (value instanceof Date) return "date";
+  if (value instanceof Map) return "map";
+  if (value instanceof Set) return "set";
+  return typeof value;
+}
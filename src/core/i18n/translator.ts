@@ -0,0 +1,138 @@
+/**
+ * Message catalogs and translation for validation errors
+ */
+
+import { globalConfig } from "../global-config";
+import { enMessages } from "./locales/en";
+import { jaMessages } from "./locales/ja";
+import { deMessages } from "./locales/de";
+
+/**
+ * Message templates keyed by message key; params are written as {name}
+ */
+export type MessageCatalog = Record<string, string>;
+
+export type TranslateFunction = (
+  key: string,
+  params?: Record<string, any>
+) => string;
+
+export interface TranslatorOptions {
+  fallbackLocale?: string; // Defaults to "en"
+}
+
+// Bundled catalogs are registered up front, user catalogs are merged on top
+const catalogs = new Map<string, MessageCatalog>([
+  ["en", { ...enMessages }],
+  ["ja", { ...jaMessages }],
+  ["de", { ...deMessages }],
+]);
+
+// Translate function for the validate/parse call currently running
+let activeTranslate: TranslateFunction | undefined;
+
+const localeTranslators = new Map<string, TranslateFunction>();
+
+/**
+ * Register (or extend) the catalog for a locale globally
+ */
+export function registerMessageCatalog(
+  locale: string,
+  catalog: MessageCatalog
+): void {
+  catalogs.set(locale, { ...(catalogs.get(locale) || {}), ...catalog });
+}
+
+export function getMessageCatalog(locale: string): MessageCatalog | undefined {
+  const catalog = catalogs.get(locale);
+  return catalog ? { ...catalog } : undefined;
+}
+
+/**
+ * Replace {name} placeholders with params; unknown placeholders are kept
+ */
+export function interpolateMessage(
+  template: string,
+  params: Record<string, any> = {}
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Create a translate function backed by the registered catalogs
+ * Keys may carry GlobalConfig.messageKeyPrefix; missing keys return the key
+ */
+export function createTranslator(
+  locale: string,
+  options: TranslatorOptions = {}
+): TranslateFunction {
+  const fallbackLocale = options.fallbackLocale || "en";
+
+  return (key, params) => {
+    const prefix = globalConfig.messageKeyPrefix;
+    const baseKey =
+      prefix && key.startsWith(prefix) ? key.slice(prefix.length) : key;
+    const template =
+      catalogs.get(locale)?.[baseKey] ?? catalogs.get(fallbackLocale)?.[baseKey];
+    return template !== undefined ? interpolateMessage(template, params) : key;
+  };
+}
+
+/**
+ * Run fn with a per-call translate function active
+ * Nested calls without one keep the outer translate function
+ */
+export function runWithTranslate<T>(
+  translate: TranslateFunction | undefined,
+  fn: () => T
+): T {
+  const previous = activeTranslate;
+  activeTranslate = translate ?? previous;
+  try {
+    return fn();
+  } finally {
+    activeTranslate = previous;
+  }
+}
+
+/**
+ * Whether error messages are currently translated
+ * (per-call translate option or GlobalConfig.locale)
+ */
+export function isTranslationActive(): boolean {
+  return activeTranslate !== undefined || !!globalConfig.locale;
+}
+
+const getCurrentTranslate = (): TranslateFunction | undefined => {
+  if (activeTranslate) return activeTranslate;
+
+  const locale = globalConfig.locale;
+  if (!locale) return undefined;
+
+  let translator = localeTranslators.get(locale);
+  if (!translator) {
+    translator = createTranslator(locale);
+    localeTranslators.set(locale, translator);
+  }
+  return translator;
+};
+
+/**
+ * Translate a message key with the current translate function
+ * Params are only computed when translation is active
+ * Returns undefined when translation is inactive or the key is unknown,
+ * so callers can fall back to the plugin's own message
+ */
+export function translateMessage(
+  key: string,
+  getParams: () => Record<string, any>
+): string | undefined {
+  const translate = getCurrentTranslate();
+  if (!translate) return undefined;
+
+  const fullKey = globalConfig.messageKeyPrefix + key;
+  const message = translate(fullKey, getParams());
+  return message && message !== fullKey ? message : undefined;
+}
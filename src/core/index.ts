@@ -21,6 +21,7 @@ export {
 export {
   type FieldBuilder,
   type TransformAwareValidator,
+  type BuiltValidator,
   type ApplyFieldTransforms,
   type ExtractFieldType,
 } from "./builder/plugins/plugin-types";
@@ -32,7 +33,8 @@ export { ValidationResult } from "./builder/plugins/plugin-types";
 export {
   type ValidationOptions,
   type MessageContext,
-  type SEVERITY,
+  SEVERITY,
+  type Severity,
 } from "./plugin/types";
 
 // Export only plugins used in benchmarks (for optimal tree-shaking)
@@ -85,5 +87,27 @@ export {
   resetGlobalConfig,
 } from "./global-config";
 
+// i18n: message catalogs and translation
+export {
+  registerMessageCatalog,
+  getMessageCatalog,
+  createTranslator,
+  interpolateMessage,
+  enMessages,
+  jaMessages,
+  deMessages,
+  type MessageCatalog,
+  type TranslateFunction,
+  type TranslatorOptions,
+} from "./i18n";
+
 // JsonSchema plugin
 export { jsonSchemaPlugin } from "./plugin/jsonSchema";
+export {
+  convertFieldDefinitionsToJsonSchema,
+  type JsonSchemaDialect,
+  type JsonSchemaDocument,
+  type ToJsonSchemaOptions,
+  type ToJsonSchemaResult,
+  type UnsupportedRule,
+} from "./plugin/jsonSchema";
@@ -0,0 +1,96 @@
+/**
+ * Lazy validators
+ * Defer resolving a validator until it is used, so validators can refer
+ * to themselves or to each other (Folder -> Folder[], Expr -> Stmt -> Expr).
+ * Combine with schema()/items() to validate the nested values
+ */
+
+import { Result, type ValidationError } from "../types";
+import { translateMessage } from "./i18n/translator";
+import type { TransformAwareValidator } from "./builder/plugins/plugin-types";
+import {
+  standardSchemaProps,
+  toStandardResult,
+  type StandardSchemaV1,
+} from "./standard-schema";
+
+export const CIRCULAR_REFERENCE_CODE = "CIRCULAR_REFERENCE";
+
+const CIRCULAR_REFERENCE_KEY = "circularReference";
+
+// Objects being validated by a lazy validator further up the stack
+const activeValues = new Set<object>();
+
+const circularReferenceError = <T>(): Result<T> => {
+  const error: ValidationError = {
+    path: "",
+    code: CIRCULAR_REFERENCE_CODE,
+    message:
+      translateMessage(CIRCULAR_REFERENCE_KEY, () => ({ path: "" })) ??
+      "Contains a circular reference",
+    paths: () => [""],
+  };
+  return Result.error<T>([error]);
+};
+
+/**
+ * Run fn unless value is already being validated (a cycle in the input)
+ */
+const guardCycle = <T>(value: unknown, fn: () => Result<T>): Result<T> => {
+  if (value === null || typeof value !== "object") return fn();
+  if (activeValues.has(value)) return circularReferenceError<T>();
+
+  activeValues.add(value);
+  try {
+    return fn();
+  } finally {
+    activeValues.delete(value);
+  }
+};
+
+/**
+ * Validator resolved on first use
+ * Input objects that contain themselves fail with CIRCULAR_REFERENCE
+ * instead of recursing forever
+ *
+ * @example
+ * ```typescript
+ * type Folder = { name: string; children: Folder[] };
+ *
+ * const folderValidator: TransformAwareValidator<Folder> = Builder()
+ *   .use(requiredPlugin)
+ *   .use(arrayItemsPlugin)
+ *   .for<Folder>()
+ *   .v("name", (b) => b.string.required())
+ *   .v("children", (b) => b.array.items(lazy(() => folderValidator)))
+ *   .build();
+ *
+ * // Errors are reported at "children[2].children[0].name"
+ * ```
+ */
+export function lazy<T extends object, TTransformed = T>(
+  getter: () => TransformAwareValidator<T, TTransformed>
+): TransformAwareValidator<T, TTransformed> &
+  StandardSchemaV1<T, TTransformed> {
+  let resolved: TransformAwareValidator<T, TTransformed> | undefined;
+  const resolve = () => (resolved ||= getter());
+
+  const parse: TransformAwareValidator<T, TTransformed>["parse"] = (
+    value,
+    options
+  ) => guardCycle(value, () => resolve().parse(value, options));
+
+  return {
+    validate: (value, options) =>
+      guardCycle(value, () => resolve().validate(value, options)),
+    parse,
+    pick: (key) => resolve().pick(key),
+    "~standard": standardSchemaProps((value) =>
+      toStandardResult(parse(value, { abortEarly: false }))
+    ),
+    // Read by getNestedResult: lazy() wrappers of the same validator
+    // share its results
+    _resolve: resolve,
+  } as TransformAwareValidator<T, TTransformed> &
+    StandardSchemaV1<T, TTransformed>;
+}
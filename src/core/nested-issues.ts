@@ -0,0 +1,155 @@
+/**
+ * Nested issues
+ * Rules that validate a nested object (discriminated unions) fail as a
+ * single error in the optimized validators; that error is replaced
+ * afterwards by the rule's issues at their nested paths
+ */
+
+import {
+  Result,
+  type ParseOptions,
+  type ValidationError,
+  type ValidationOptions,
+} from "../types";
+import {
+  collectRuleFields,
+  resolveFieldPaths,
+  type RuleField,
+} from "./utils/rule-fields";
+
+/**
+ * Issues of a failed rule at concrete paths below `path`
+ * Returning undefined keeps the rule's own error
+ */
+export type NestedIssuesFunction = (
+  value: unknown,
+  path: string,
+  rootData: unknown,
+  options?: ValidationOptions
+) => ValidationError[] | undefined;
+
+/**
+ * Move an issue of a nested validator below prefix ("city" -> "address.city")
+ */
+export function withPathPrefix(
+  error: ValidationError,
+  prefix: string
+): ValidationError {
+  const path = error.path ? `${prefix}.${error.path}` : prefix;
+  return { ...error, path, paths: () => [path] };
+}
+
+/**
+ * Built validator run by a rule (objectSchema)
+ */
+export interface NestedValidator {
+  validate(value: unknown, options?: ValidationOptions): Result<unknown>;
+  parse(value: unknown, options?: ParseOptions): Result<unknown>;
+  /** Validator a lazy() wrapper resolves to */
+  _resolve?: () => NestedValidator;
+}
+
+// The validate/parse call in progress: its options and the nested
+// validator results computed so far, by value and validator
+interface NestedRun {
+  options: ValidationOptions | ParseOptions | undefined;
+  parse: boolean;
+  results: WeakMap<object, Map<NestedValidator, Result<unknown>>>;
+}
+
+let activeRun: NestedRun | undefined;
+
+/**
+ * Run a validate (parse: false) or parse call whose rules share the
+ * results of their nested validators
+ */
+export function runWithNestedResults<T>(
+  options: ValidationOptions | ParseOptions | undefined,
+  parse: boolean,
+  fn: () => T
+): T {
+  const previous = activeRun;
+  activeRun = { options, parse, results: new WeakMap() };
+  try {
+    return fn();
+  } finally {
+    activeRun = previous;
+  }
+}
+
+/**
+ * Result of a nested validator for value, computed once per call
+ * (objects only; primitive values are cheap to check again)
+ * It runs with the caller's options and collects every error
+ * (abortEarly: false); getNestedIssues applies abortEarly
+ */
+export function getNestedResult(
+  validator: NestedValidator,
+  value: unknown
+): Result<unknown> {
+  const run = activeRun;
+  const options = { ...run?.options, abortEarly: false };
+  const execute = () =>
+    run && !run.parse
+      ? validator.validate(value, options)
+      : validator.parse(value, options);
+  if (!run || value === null || typeof value !== "object") return execute();
+
+  let results = run.results.get(value);
+  if (!results) {
+    results = new Map();
+    run.results.set(value, results);
+  }
+  // Rules build their own lazy() wrappers of the same validator
+  const key = validator._resolve?.() ?? validator;
+  let result = results.get(key);
+  if (!result) {
+    result = execute();
+    results.set(key, result);
+  }
+  return result;
+}
+
+export function hasNestedIssues(validator: any): boolean {
+  return typeof validator?.getNestedIssues === "function";
+}
+
+/**
+ * Collect the fields whose rules report nested issues
+ */
+export function getNestedIssueFields(
+  definitions: ReadonlyArray<{ path: string; rules?: readonly any[] }>
+): RuleField[] {
+  return collectRuleFields(definitions, hasNestedIssues);
+}
+
+/**
+ * Replace the errors of nested-issue rules with their nested issues
+ */
+export function expandNestedIssues<T>(
+  fields: readonly RuleField[],
+  data: unknown,
+  result: Result<T>,
+  options?: ValidationOptions
+): Result<T> {
+  if (fields.length === 0 || result.isValid()) return result;
+
+  let errors = result.errors;
+  for (const field of fields) {
+    for (const [path, value] of resolveFieldPaths(data, field.path)) {
+      for (const validator of field.validators) {
+        if (!hasNestedIssues(validator)) continue;
+        const index = errors.findIndex(
+          (error) => error.path === path && error.code === validator.code
+        );
+        if (index === -1) continue;
+        const issues = validator.getNestedIssues(value, path, data, options);
+        if (!issues || issues.length === 0) continue;
+        errors = [...errors.slice(0, index), ...issues, ...errors.slice(index + 1)];
+      }
+    }
+  }
+  return errors === result.errors
+    ? result
+    : Result.error<T>(errors, result.warnings);
+}
@@ -0,0 +1,259 @@
+/**
+ * OpenAPI 3.1 document generation
+ * Operations register the validators of their request parts and responses;
+ * toJsonSchema() turns each validator into a Schema Object. Named
+ * validators, and validators shared by several bodies or responses, are
+ * written once to components/schemas and referenced; shared validators
+ * without a name become "Schema1", "Schema2", ...
+ */
+
+import type { JsonSchemaDocument } from "../plugin/jsonSchema/types";
+import type {
+  OpenApiDocument,
+  OpenApiDocumentOptions,
+  OpenApiDocumentResult,
+  OpenApiOperationDefinition,
+  OpenApiParameter,
+  OpenApiResponseDefinition,
+  OpenApiUnsupportedRule,
+  SchemaSource,
+} from "./types";
+
+export interface OpenApiRegistry {
+  /** Name a validator; every body or response using it becomes a $ref */
+  schema(name: string, validator: SchemaSource): OpenApiRegistry;
+  operation(definition: OpenApiOperationDefinition): OpenApiRegistry;
+  toDocument(): OpenApiDocumentResult;
+}
+
+const JSON_CONTENT_TYPE = "application/json";
+
+const STATUS_TEXTS: Record<string, string> = {
+  "200": "OK",
+  "201": "Created",
+  "202": "Accepted",
+  "204": "No Content",
+  "400": "Bad Request",
+  "401": "Unauthorized",
+  "403": "Forbidden",
+  "404": "Not Found",
+  "409": "Conflict",
+  "422": "Unprocessable Content",
+  "500": "Internal Server Error",
+  default: "Default response",
+};
+
+const PARAMETER_LOCATIONS = [
+  ["params", "path"],
+  ["query", "query"],
+  ["headers", "header"],
+] as const;
+
+const isSchemaSource = (value: unknown): value is SchemaSource =>
+  typeof (value as SchemaSource)?.toJsonSchema === "function";
+
+const toResponseDefinition = (
+  response: SchemaSource | OpenApiResponseDefinition
+): OpenApiResponseDefinition =>
+  isSchemaSource(response) ? { validator: response } : response;
+
+// "create-order", "/shops/{shopId}" -> "CreateOrder", "ShopsShopId"
+export const toPascalCase = (value: string): string =>
+  (value.match(/[A-Za-z0-9]+/g) || [])
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+
+const routeOf = (operation: OpenApiOperationDefinition): string =>
+  `${operation.method.toUpperCase()} ${operation.path}`;
+
+// Definition keys whose value is undefined are left out of the document
+const compact = <T extends Record<string, unknown>>(object: T): T =>
+  Object.fromEntries(
+    Object.entries(object).filter(([, value]) => value !== undefined)
+  ) as T;
+
+/**
+ * Registry of operations and named schemas
+ *
+ * @example
+ * ```typescript
+ * const { document } = createOpenApiRegistry({
+ *   info: { title: "Shop API", version: "1.0.0" },
+ * })
+ *   .schema("Order", orderValidator)
+ *   .operation({
+ *     method: "post",
+ *     path: "/shops/{shopId}/orders",
+ *     operationId: "createOrder",
+ *     request: { params: shopParams, body: orderValidator },
+ *     responses: { 201: orderValidator, 422: { description: "Invalid order" } },
+ *   })
+ *   .toDocument();
+ * ```
+ */
+export function createOpenApiRegistry(
+  options: OpenApiDocumentOptions
+): OpenApiRegistry {
+  const namedSchemas = new Map<SchemaSource, string>();
+  const operations: OpenApiOperationDefinition[] = [];
+  const routes = new Set<string>();
+
+  const registry: OpenApiRegistry = {
+    schema: (name, validator) => {
+      namedSchemas.set(validator, name);
+      return registry;
+    },
+    operation: (definition) => {
+      const route = routeOf(definition);
+      if (routes.has(route)) {
+        throw new Error(`Operation ${route} is already registered`);
+      }
+      routes.add(route);
+      operations.push(definition);
+      return registry;
+    },
+    toDocument: () => generateDocument(options, operations, namedSchemas),
+  };
+  return registry;
+}
+
+function generateDocument(
+  options: OpenApiDocumentOptions,
+  operations: readonly OpenApiOperationDefinition[],
+  namedSchemas: ReadonlyMap<SchemaSource, string>
+): OpenApiDocumentResult {
+  const unsupported: OpenApiUnsupportedRule[] = [];
+  const convert = (
+    validator: SchemaSource,
+    location: string
+  ): JsonSchemaDocument => {
+    const result = validator.toJsonSchema({
+      dialect: "2020-12",
+      metadataPrefix: "x-",
+    });
+    for (const rule of result.unsupported) {
+      unsupported.push({ ...rule, location });
+    }
+    const { $schema, ...schema } = result.schema;
+    return schema;
+  };
+
+  // Number of bodies and responses by validator, in registration order
+  const uses = new Map<SchemaSource, number>();
+  for (const operation of operations) {
+    const bodies = [
+      operation.request?.body,
+      ...Object.values(operation.responses).map(
+        (response) => toResponseDefinition(response).validator
+      ),
+    ];
+    for (const validator of bodies) {
+      if (!validator) continue;
+      uses.set(validator, (uses.get(validator) || 0) + 1);
+    }
+  }
+
+  // No single use names a shared validator, so unnamed ones are numbered
+  const componentNames = new Map(namedSchemas);
+  const takenNames = new Set(namedSchemas.values());
+  let schemaNumber = 0;
+  for (const [validator, count] of uses) {
+    if (componentNames.has(validator) || count < 2) continue;
+    let name: string;
+    do {
+      name = `Schema${++schemaNumber}`;
+    } while (takenNames.has(name));
+    componentNames.set(validator, name);
+    takenNames.add(name);
+  }
+
+  const schemas: Record<string, JsonSchemaDocument> = {};
+  for (const [validator, name] of componentNames) {
+    schemas[name] = convert(validator, `components.schemas.${name}`);
+  }
+
+  const bodySchema = (
+    validator: SchemaSource,
+    location: string
+  ): JsonSchemaDocument => {
+    const name = componentNames.get(validator);
+    return name
+      ? { $ref: `#/components/schemas/${name}` }
+      : convert(validator, location);
+  };
+
+  const paths: OpenApiDocument["paths"] = {};
+  for (const operation of operations) {
+    const method = operation.method.toLowerCase();
+    const route = routeOf(operation);
+
+    const parameters: OpenApiParameter[] = [];
+    for (const [part, location] of PARAMETER_LOCATIONS) {
+      const validator = operation.request?.[part];
+      if (!validator) continue;
+      const schema = convert(validator, `${route} ${part}`);
+      for (const [name, property] of Object.entries<JsonSchemaDocument>(
+        schema.properties || {}
+      )) {
+        const { description, deprecated, ...propertySchema } = property;
+        parameters.push(
+          compact({
+            name,
+            in: location,
+            required: location === "path" || !!schema.required?.includes(name),
+            schema: propertySchema,
+            description,
+            deprecated,
+          })
+        );
+      }
+    }
+
+    const body = operation.request?.body;
+    const responses: Record<string, JsonSchemaDocument> = {};
+    for (const [status, response] of Object.entries(operation.responses)) {
+      const { description, validator, contentType } =
+        toResponseDefinition(response);
+      responses[status] = compact({
+        description:
+          description ?? STATUS_TEXTS[status] ?? `${status} response`,
+        content: validator && {
+          [contentType || JSON_CONTENT_TYPE]: {
+            schema: bodySchema(validator, `${route} response ${status}`),
+          },
+        },
+      });
+    }
+
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [method]: compact({
+        operationId: operation.operationId,
+        summary: operation.summary,
+        description: operation.description,
+        tags: operation.tags,
+        deprecated: operation.deprecated,
+        parameters: parameters.length > 0 ? parameters : undefined,
+        requestBody: body && {
+          required: true,
+          content: {
+            [operation.request?.bodyContentType || JSON_CONTENT_TYPE]: {
+              schema: bodySchema(body, `${route} body`),
+            },
+          },
+        },
+        responses,
+      }),
+    };
+  }
+
+  const document: OpenApiDocument = compact({
+    openapi: "3.1.0" as const,
+    info: options.info,
+    servers: options.servers,
+    tags: options.tags,
+    paths,
+    components: componentNames.size > 0 ? { schemas } : undefined,
+  });
+  return { document, unsupported };
+}
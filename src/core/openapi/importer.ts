@@ -0,0 +1,750 @@
+/**
+ * OpenAPI import
+ * Build one validator per request part and response of every operation
+ * in an OpenAPI 3.0/3.1 document (parsed JSON or YAML). Schemas go through
+ * fromJsonSchema() after the OpenAPI-only keywords are rewritten: nullable,
+ * boolean exclusiveMinimum/Maximum, discriminator, and readOnly/writeOnly
+ * properties, which are left out of requests/responses respectively
+ */
+
+import { addAsyncSupport } from "../async.experimental/async-context";
+import type { AsyncValidationOptions } from "../async.experimental/async-rules";
+import { Builder } from "../builder/core/builder";
+import type { BuiltValidator } from "../builder/plugins/plugin-types";
+import { coerceBoolean, coerceNumber } from "../coercion";
+import { translateMessage } from "../i18n/translator";
+import { jsonSchemaFullFeaturePlugin } from "../plugin/jsonSchemaFullFeature";
+import { INVALID_DISCRIMINATOR_CODE } from "../plugin/unionDiscriminated";
+import type {
+  InferJsonSchema,
+  InferJsonSchemaObject,
+} from "../plugin/jsonSchema/infer";
+import type {
+  JsonSchemaDocument,
+  JsonSchemaOptions,
+  ToJsonSchemaOptions,
+  ToJsonSchemaResult,
+} from "../plugin/jsonSchema/types";
+import { standardSchemaProps, toStandardResult } from "../standard-schema";
+import {
+  Result,
+  type ParseOptions,
+  type ValidationError,
+  type ValidationOptions,
+} from "../../types";
+import { toPascalCase } from "./document";
+import type { HttpMethod } from "./types";
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export interface OpenApiImportOptions {
+  /** Passed to fromJsonSchema() (customFormats, schemas, loader, ...) */
+  jsonSchema?: JsonSchemaOptions;
+}
+
+/**
+ * Validators of one operation; parts without a schema are left out
+ */
+export interface ImportedOperation<
+  TBody extends object = any,
+  TQuery extends object = any,
+  TParams extends object = any,
+  THeaders extends object = any,
+  TResponses extends object = Record<string, any>,
+> {
+  operationId: string;
+  method: HttpMethod;
+  path: string;
+  body?: BuiltValidator<TBody>;
+  query?: BuiltValidator<TQuery>;
+  params?: BuiltValidator<TParams>;
+  headers?: BuiltValidator<THeaders>;
+  /** By status code ("200", "default") */
+  responses: {
+    [S in keyof TResponses]?: BuiltValidator<
+      TResponses[S] extends object ? TResponses[S] : any
+    >;
+  };
+}
+
+// Type-level toPascalCase(): "/pets/{petId}" -> "PetsPetId"
+type PascalCase<
+  S extends string,
+  TCapitalize = true,
+> = S extends `${infer C}${infer Rest}`
+  ? Lowercase<C> extends Uppercase<C>
+    ? C extends `${number}`
+      ? `${C}${PascalCase<Rest, false>}`
+      : PascalCase<Rest, true>
+    : `${TCapitalize extends true ? Uppercase<C> : C}${PascalCase<Rest, false>}`
+  : "";
+
+type OperationId<
+  TOperation,
+  TMethod extends string,
+  TPath,
+> = TOperation extends { operationId: infer Id extends string }
+  ? Id
+  : `${TMethod}${PascalCase<TPath & string>}`;
+
+// Operations of a document declared `as const`, with their path item
+type OperationEntry<TDocument> = TDocument extends { paths: infer TPaths }
+  ? {
+      [P in keyof TPaths]: {
+        [M in keyof TPaths[P] & HttpMethod]: {
+          id: OperationId<TPaths[P][M], M, P>;
+          operation: TPaths[P][M];
+          pathItem: TPaths[P];
+        };
+      }[keyof TPaths[P] & HttpMethod];
+    }[keyof TPaths]
+  : never;
+
+type OperationIdOf<TDocument> = OperationEntry<TDocument>["id"];
+
+// $refs to #/components/schemas resolve against the document's components
+type WithComponents<TSchema, TDocument> = TSchema &
+  (TDocument extends { components: infer C } ? { components: C } : {});
+
+type JsonSchemaOf<TContent> = TContent extends {
+  "application/json": { schema: infer S };
+}
+  ? S
+  : never;
+
+type ContentType<TContent, TDocument> = [JsonSchemaOf<TContent>] extends [never]
+  ? any
+  : InferJsonSchemaObject<WithComponents<JsonSchemaOf<TContent>, TDocument>>;
+
+type ParameterOf<TEntry> =
+  | (TEntry extends { operation: { parameters: readonly (infer P)[] } }
+      ? P
+      : never)
+  | (TEntry extends { pathItem: { parameters: readonly (infer P)[] } }
+      ? P
+      : never);
+
+type ParameterName<P, TIn> = P extends {
+  in: TIn;
+  name: infer N extends string;
+}
+  ? TIn extends "header"
+    ? Lowercase<N>
+    : N
+  : never;
+
+type ParameterType<P, TDocument> = P extends { schema: infer S }
+  ? InferJsonSchema<WithComponents<S, TDocument>>
+  : unknown;
+
+type ParametersIn<TEntry, TIn, TDocument> = Simplify<
+  {
+    -readonly [P in ParameterOf<TEntry> as P extends { required: true }
+      ? ParameterName<P, TIn>
+      : never]: ParameterType<P, TDocument>;
+  } & {
+    -readonly [P in ParameterOf<TEntry> as P extends { required: true }
+      ? never
+      : ParameterName<P, TIn>]?: ParameterType<P, TDocument>;
+  }
+>;
+
+type ImportedOperationOf<TEntry, TDocument> = ImportedOperation<
+  TEntry extends { operation: { requestBody: { content: infer C } } }
+    ? ContentType<C, TDocument>
+    : any,
+  ParametersIn<TEntry, "query", TDocument>,
+  ParametersIn<TEntry, "path", TDocument>,
+  ParametersIn<TEntry, "header", TDocument>,
+  TEntry extends { operation: { responses: infer R } }
+    ? {
+        -readonly [S in keyof R]: R[S] extends { content: infer C }
+          ? ContentType<C, TDocument>
+          : any;
+      }
+    : Record<string, any>
+>;
+
+/**
+ * Imported operations by operationId; typed for documents declared
+ * `as const`, Record<string, ImportedOperation> otherwise
+ */
+export type ImportedOperations<TDocument> = [OperationIdOf<TDocument>] extends [
+  never,
+]
+  ? Record<string, ImportedOperation>
+  : string extends OperationIdOf<TDocument>
+    ? Record<string, ImportedOperation>
+    : {
+        [Id in OperationIdOf<TDocument>]: ImportedOperationOf<
+          Extract<OperationEntry<TDocument>, { id: Id }>,
+          TDocument
+        >;
+      };
+
+type Direction = "request" | "response";
+
+const HTTP_METHODS: readonly HttpMethod[] = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+];
+
+const SCHEMA_REF_PREFIX = "#/components/schemas/";
+
+const PARAMETER_PARTS = {
+  path: "params",
+  query: "query",
+  header: "headers",
+} as const;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Follow local $refs ("#/components/parameters/PageParam") to their target
+ * Other documents' refs are left for fromJsonSchema's loader
+ */
+function resolveLocalRef(document: any, node: any): any {
+  const seen = new Set<string>();
+  let current = node;
+  while (isObject(current) && typeof current.$ref === "string") {
+    const ref: string = current.$ref;
+    if (!ref.startsWith("#/") || seen.has(ref)) return current;
+    seen.add(ref);
+    current = ref
+      .slice(2)
+      .split("/")
+      .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"))
+      .reduce((target, token) => target?.[token], document);
+  }
+  return current;
+}
+
+const schemaTypeOf = (schema: any): string | undefined =>
+  typeof schema?.type === "string"
+    ? schema.type
+    : schema?.properties
+      ? "object"
+      : schema?.items || schema?.prefixItems
+        ? "array"
+        : undefined;
+
+/**
+ * Rewrite an OpenAPI Schema Object as plain JSON Schema for one direction
+ */
+function createSchemaNormalizer(document: any, direction: Direction) {
+  const hidden = direction === "request" ? "readOnly" : "writeOnly";
+  const resolve = (schema: any) => resolveLocalRef(document, schema);
+
+  const normalize = (schema: any): any => {
+    if (!isObject(schema)) return schema;
+
+    const { nullable, discriminator, xml, externalDocs, example, ...rest } =
+      schema;
+    const result: JsonSchemaDocument = { ...rest };
+
+    if (typeof result.$ref === "string") {
+      if (result.$ref.startsWith(SCHEMA_REF_PREFIX)) {
+        result.$ref = `#/$defs/${result.$ref.slice(SCHEMA_REF_PREFIX.length)}`;
+      }
+      return result;
+    }
+
+    // OpenAPI 3.0: exclusiveMinimum: true qualifies minimum
+    for (const [exclusive, bound] of [
+      ["exclusiveMinimum", "minimum"],
+      ["exclusiveMaximum", "maximum"],
+    ]) {
+      if (typeof result[exclusive] !== "boolean") continue;
+      if (result[exclusive] && result[bound] !== undefined) {
+        result[exclusive] = result[bound];
+        delete result[bound];
+      } else {
+        delete result[exclusive];
+      }
+    }
+
+    if (isObject(result.properties)) {
+      const properties: Record<string, any> = {};
+      for (const [name, property] of Object.entries(result.properties)) {
+        const target = resolve(property);
+        if (target?.[hidden] === true) continue;
+        properties[name] = normalize(property);
+      }
+      result.properties = properties;
+      if (Array.isArray(result.required)) {
+        result.required = result.required.filter(
+          (name: string) => name in properties
+        );
+      }
+    }
+    for (const keyword of ["items", "additionalProperties", "not"]) {
+      if (isObject(result[keyword])) {
+        result[keyword] = normalize(result[keyword]);
+      }
+    }
+    for (const keyword of ["prefixItems", "allOf", "anyOf", "oneOf"]) {
+      if (Array.isArray(result[keyword])) {
+        result[keyword] = result[keyword].map(normalize);
+      }
+    }
+    if (Array.isArray(result.items)) {
+      result.items = result.items.map(normalize);
+    }
+
+    if (
+      isObject(discriminator) &&
+      typeof discriminator.propertyName === "string"
+    ) {
+      const variants = schema.oneOf ? "oneOf" : schema.anyOf ? "anyOf" : null;
+      if (variants) {
+        result[variants] = schema[variants].map((variant: any) =>
+          withDiscriminatorValue(
+            variant,
+            discriminator.propertyName,
+            discriminator.mapping
+          )
+        );
+      }
+    }
+
+    // Composition without a type is read as a string by fromJsonSchema;
+    // use the type every member shares
+    const members = [
+      ...(result.allOf || []),
+      ...(result.anyOf || []),
+      ...(result.oneOf || []),
+    ];
+    if (result.type === undefined && members.length > 0) {
+      const types = new Set(
+        members.map((member) => schemaTypeOf(resolve(member)))
+      );
+      const [type] = types;
+      if (types.size === 1 && type) {
+        result.type = type;
+      }
+    }
+
+    if (nullable === true) {
+      if (typeof result.type === "string") {
+        result.type = [result.type, "null"];
+      } else if (Array.isArray(result.type)) {
+        result.type = [...new Set([...result.type, "null"])];
+      } else {
+        return { anyOf: [result, { type: "null" }] };
+      }
+    }
+    return result;
+  };
+
+  // Variants of a discriminated union: the discriminator property must hold
+  // the variant's mapping value (or its component name)
+  const withDiscriminatorValue = (
+    variant: any,
+    propertyName: string,
+    mapping: Record<string, string> | undefined
+  ): any => {
+    const ref = typeof variant?.$ref === "string" ? variant.$ref : undefined;
+    const mapped = Object.entries(mapping || {}).find(
+      ([, target]) => target === ref || `${SCHEMA_REF_PREFIX}${target}` === ref
+    )?.[0];
+    const value =
+      mapped ??
+      (ref?.startsWith(SCHEMA_REF_PREFIX)
+        ? ref.slice(SCHEMA_REF_PREFIX.length)
+        : undefined);
+    const schema = normalize(ref ? resolve(variant) : variant);
+    if (value === undefined || !isObject(schema)) return schema;
+
+    return {
+      ...schema,
+      type: schema.type ?? "object",
+      properties: {
+        ...schema.properties,
+        [propertyName]: {
+          ...schema.properties?.[propertyName],
+          const: value,
+        },
+      },
+      required: [...new Set([...(schema.required || []), propertyName])],
+    };
+  };
+
+  return normalize;
+}
+
+// Query, path and header values are strings; convert them to the
+// scalar types their schemas declare before validation
+const toParameterValue = (value: unknown, schema: any): unknown => {
+  const type = Array.isArray(schema?.type)
+    ? schema.type.find((each: string) => each !== "null")
+    : schema?.type;
+  if (type === "array") {
+    const items = Array.isArray(value) ? value : [value];
+    return items.map((item) => toParameterValue(item, schema.items));
+  }
+  const coerced =
+    type === "integer" || type === "number"
+      ? coerceNumber(value)
+      : type === "boolean"
+        ? coerceBoolean(value)
+        : { ok: true as const, value };
+  return coerced.ok ? coerced.value : value;
+};
+
+// A root $ref is replaced by its target
+const resolveRoot = (schema: any, $defs: Record<string, any>): any => {
+  let root = schema;
+  const seen = new Set<string>();
+  while (
+    typeof root?.$ref === "string" &&
+    root.$ref.startsWith("#/$defs/") &&
+    !seen.has(root.$ref)
+  ) {
+    seen.add(root.$ref);
+    root = $defs[root.$ref.slice("#/$defs/".length)];
+  }
+  return root;
+};
+
+const pickJsonSchema = (content: unknown): unknown => {
+  if (!isObject(content)) return undefined;
+  const [, media] =
+    Object.entries(content).find(([type]) => /json/i.test(type)) ||
+    Object.entries(content)[0] ||
+    [];
+  return media?.schema;
+};
+
+type CompositionKeyword = "oneOf" | "anyOf" | "allOf";
+
+const COMPOSITION_KEYWORDS: readonly CompositionKeyword[] = [
+  "oneOf",
+  "anyOf",
+  "allOf",
+];
+
+interface CompositionMember {
+  validator: BuiltValidator<any>;
+  /** Value of the tag property, for tagged unions */
+  tag?: unknown;
+}
+
+// Property every member fixes with const: the tag of a discriminated union
+const tagPropertyOf = (schemas: readonly any[]): string | undefined =>
+  Object.keys(schemas[0]?.properties || {}).find((name) =>
+    schemas.every((schema) => schema?.properties?.[name]?.const !== undefined)
+  );
+
+const compositionError = (
+  keyword: CompositionKeyword,
+  matches: number
+): ValidationError => ({
+  path: "",
+  code: keyword === "anyOf" ? "ANY_OF" : "ONE_OF",
+  message:
+    matches === 0
+      ? "Value does not match any of the expected schemas"
+      : "Value matches more than one schema",
+  paths: () => [""],
+});
+
+/**
+ * Validator of a body whose root is a oneOf/anyOf/allOf
+ * fromJsonSchema() checks properties only, so base holds the root's own
+ * properties and every member is built separately. A tag property selects
+ * the member of a discriminated union
+ */
+function composeValidators(
+  keyword: CompositionKeyword,
+  base: BuiltValidator<any>,
+  members: readonly CompositionMember[],
+  tagProperty: string | undefined
+): BuiltValidator<any> {
+  const selected = (value: unknown) =>
+    tagProperty === undefined
+      ? members
+      : members.filter(
+          (member) => isObject(value) && member.tag === value[tagProperty]
+        );
+
+  const invalidTag = (): ValidationError => {
+    const allowed = members
+      .map((member) => JSON.stringify(member.tag))
+      .join(", ");
+    return {
+      path: tagProperty!,
+      code: INVALID_DISCRIMINATOR_CODE,
+      message:
+        translateMessage("invalidDiscriminator", () => ({
+          path: tagProperty,
+          key: tagProperty,
+          allowed,
+        })) ?? `Invalid discriminator value. Expected one of: ${allowed}`,
+      paths: () => [tagProperty!],
+    };
+  };
+
+  // Outputs of the base and the matching members are merged
+  const combine = <T>(baseResult: Result<T>, results: Result<T>[]) => {
+    const errors = baseResult.isValid() ? [] : [...baseResult.errors];
+    let matching = results.filter((result) => result.isValid());
+    if (tagProperty !== undefined && results.length === 0) {
+      errors.push(invalidTag());
+    } else if (keyword === "allOf" || tagProperty !== undefined) {
+      for (const result of results) {
+        if (!result.isValid()) errors.push(...result.errors);
+      }
+    } else if (keyword === "anyOf" && matching.length > 0) {
+      matching = matching.slice(0, 1);
+    } else if (matching.length !== 1) {
+      errors.push(compositionError(keyword, matching.length));
+    }
+    if (errors.length > 0) return Result.error<T>(errors);
+    return Result.ok<T>(
+      Object.assign(
+        {},
+        baseResult.unwrap(),
+        ...matching.map((result) => result.unwrap())
+      )
+    );
+  };
+
+  const run = <T>(
+    value: unknown,
+    check: (validator: BuiltValidator<any>) => Result<T>
+  ): Result<T> =>
+    combine(
+      check(base),
+      selected(value).map((member) => check(member.validator))
+    );
+  const runAsync = async <T>(
+    value: unknown,
+    check: (validator: BuiltValidator<any>) => Promise<Result<T>>
+  ): Promise<Result<T>> => {
+    const [baseResult, ...results] = await Promise.all([
+      check(base),
+      ...selected(value).map((member) => check(member.validator)),
+    ]);
+    return combine(baseResult, results);
+  };
+
+  const validator = {
+    validate: (value: unknown, options?: ValidationOptions) =>
+      run(value, (each) => each.validate(value, options)),
+    parse: (value: unknown, options?: ParseOptions) =>
+      run(value, (each) => each.parse(value, options)),
+    validateAt: (path: string, value: unknown, options?: ValidationOptions) =>
+      run(value, (each) => each.validateAt(path, value, options)),
+    validateAsync: (value: unknown, options?: AsyncValidationOptions) =>
+      runAsync(value, (each) => each.validateAsync(value, options)),
+    parseAsync: (value: unknown, options?: AsyncValidationOptions) =>
+      runAsync(value, (each) => each.parseAsync(value, options)),
+    pick: base.pick,
+    toJsonSchema: (options?: ToJsonSchemaOptions): ToJsonSchemaResult => {
+      const results = [base, ...members.map((member) => member.validator)].map(
+        (each) => each.toJsonSchema(options)
+      );
+      const [{ schema }, ...memberResults] = results;
+      return {
+        schema: {
+          ...schema,
+          [keyword]: memberResults.map(
+            ({ schema: { $schema, ...rest } }) => rest
+          ),
+        },
+        unsupported: results.flatMap((result) => result.unsupported),
+      };
+    },
+  };
+  return Object.assign(validator, {
+    withAsyncContext: addAsyncSupport(validator).withAsyncContext,
+    "~standard": standardSchemaProps((value) =>
+      toStandardResult(validator.parse(value, { abortEarly: false }))
+    ),
+  }) as BuiltValidator<any>;
+}
+
+/**
+ * Validators for every operation of an OpenAPI 3.0/3.1 document
+ * Operations without an operationId are keyed by method and path
+ * ("getOrdersId"). YAML documents are parsed by the caller
+ *
+ * @example
+ * ```typescript
+ * const api = importOpenApi(yaml.load(partnerSpec));
+ *
+ * const result = api.createOrder.body?.validate(req.body);
+ * app.post("/orders", expressValidator(api.createOrder), handler);
+ * ```
+ */
+export function importOpenApi<const TDocument extends object>(
+  document: TDocument,
+  options: OpenApiImportOptions = {}
+): ImportedOperations<TDocument> {
+  const spec: any = document;
+  const jsonSchemaOptions: JsonSchemaOptions = {
+    dialect: "2020-12",
+    ...options.jsonSchema,
+  };
+
+  const normalizers = {
+    request: createSchemaNormalizer(spec, "request"),
+    response: createSchemaNormalizer(spec, "response"),
+  };
+  const defsCache = new Map<Direction, Record<string, any>>();
+  const defsFor = (direction: Direction): Record<string, any> => {
+    let defs = defsCache.get(direction);
+    if (!defs) {
+      defs = {};
+      for (const [name, schema] of Object.entries<any>(
+        spec.components?.schemas || {}
+      )) {
+        defs[name] = normalizers[direction](schema);
+      }
+      defsCache.set(direction, defs);
+    }
+    return defs;
+  };
+
+  const buildValidator = (
+    schema: unknown,
+    direction: Direction,
+    preprocess?: (input: unknown) => any
+  ): BuiltValidator<any> =>
+    buildRoot(normalizers[direction](schema), defsFor(direction), preprocess);
+
+  const buildRoot = (
+    schema: any,
+    $defs: Record<string, any>,
+    preprocess?: (input: unknown) => any
+  ): BuiltValidator<any> => {
+    const root = resolveRoot(schema, $defs);
+    const keyword = COMPOSITION_KEYWORDS.find(
+      (each) => Array.isArray(root?.[each]) && root[each].length > 0
+    );
+    if (keyword) {
+      const { [keyword]: memberSchemas, ...base } = root;
+      const resolved = memberSchemas.map((member: any) =>
+        resolveRoot(member, $defs)
+      );
+      const tagProperty =
+        keyword === "allOf" ? undefined : tagPropertyOf(resolved);
+      return composeValidators(
+        keyword,
+        buildRoot(base, $defs, preprocess),
+        resolved.map((member: any) => ({
+          validator: buildRoot(member, $defs, preprocess),
+          tag:
+            tagProperty === undefined
+              ? undefined
+              : member.properties[tagProperty].const,
+        })),
+        tagProperty
+      );
+    }
+
+    let builder: any = Builder()
+      .use(jsonSchemaFullFeaturePlugin)
+      .fromJsonSchema({ ...root, $defs }, jsonSchemaOptions);
+    if (preprocess) {
+      builder = builder.preprocess(preprocess);
+    }
+    return builder.build();
+  };
+
+  const operations: Record<string, ImportedOperation> = {};
+  for (const [path, pathItemNode] of Object.entries<any>(spec.paths || {})) {
+    const pathItem = resolveLocalRef(spec, pathItemNode);
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem?.[method];
+      if (!isObject(operation)) continue;
+
+      const operationId =
+        typeof operation.operationId === "string"
+          ? operation.operationId
+          : `${method}${toPascalCase(path)}`;
+      const imported: ImportedOperation = {
+        operationId,
+        method,
+        path,
+        responses: {},
+      };
+
+      // Operation parameters override path item parameters of the same name
+      const parameters = new Map<string, any>();
+      for (const node of [
+        ...(pathItem.parameters || []),
+        ...(operation.parameters || []),
+      ]) {
+        const parameter = resolveLocalRef(spec, node);
+        if (!isObject(parameter)) continue;
+        parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+      for (const [location, part] of Object.entries(PARAMETER_PARTS)) {
+        const properties: Record<string, any> = {};
+        const required: string[] = [];
+        for (const parameter of parameters.values()) {
+          if (parameter.in !== location) continue;
+          const name =
+            location === "header"
+              ? String(parameter.name).toLowerCase()
+              : parameter.name;
+          properties[name] = {
+            ...(parameter.schema ?? pickJsonSchema(parameter.content) ?? {}),
+            ...(parameter.deprecated ? { deprecated: true } : {}),
+          };
+          if (location === "path" || parameter.required) {
+            required.push(name);
+          }
+        }
+        if (Object.keys(properties).length === 0) continue;
+
+        const schema = { type: "object", properties, required };
+        const resolved = Object.fromEntries(
+          Object.entries(properties).map(([name, property]) => [
+            name,
+            normalizers.request(resolveLocalRef(spec, property)),
+          ])
+        );
+        imported[part] = buildValidator(schema, "request", (input) =>
+          isObject(input)
+            ? Object.fromEntries(
+                Object.entries(input).map(([name, value]) => [
+                  name,
+                  name in resolved
+                    ? toParameterValue(value, resolved[name])
+                    : value,
+                ])
+              )
+            : input
+        );
+      }
+
+      const requestBody = resolveLocalRef(spec, operation.requestBody);
+      const bodySchema = pickJsonSchema(requestBody?.content);
+      if (bodySchema) {
+        imported.body = buildValidator(bodySchema, "request");
+      }
+
+      for (const [status, responseNode] of Object.entries(
+        operation.responses || {}
+      )) {
+        const response = resolveLocalRef(spec, responseNode);
+        const schema = pickJsonSchema(response?.content);
+        if (schema) {
+          imported.responses[status] = buildValidator(schema, "response");
+        }
+      }
+
+      operations[operationId] = imported;
+    }
+  }
+  return operations as ImportedOperations<TDocument>;
+}
@@ -0,0 +1,25 @@
+/**
+ * OpenAPI - Main Entry Point
+ * OpenAPI 3.1 documents from validators and route definitions, and
+ * validators from OpenAPI 3.0/3.1 documents
+ */
+
+export { createOpenApiRegistry, type OpenApiRegistry } from "./document";
+export {
+  importOpenApi,
+  type OpenApiImportOptions,
+  type ImportedOperation,
+  type ImportedOperations,
+} from "./importer";
+export type {
+  HttpMethod,
+  SchemaSource,
+  OpenApiInfo,
+  OpenApiDocument,
+  OpenApiDocumentOptions,
+  OpenApiDocumentResult,
+  OpenApiOperationDefinition,
+  OpenApiParameter,
+  OpenApiResponseDefinition,
+  OpenApiUnsupportedRule,
+} from "./types";
@@ -0,0 +1,104 @@
+/**
+ * OpenAPI types
+ * Only the parts of the OpenAPI 3.1 document the generator writes
+ */
+
+import type {
+  JsonSchemaDocument,
+  ToJsonSchemaOptions,
+  ToJsonSchemaResult,
+  UnsupportedRule,
+} from "../plugin/jsonSchema/types";
+
+export type HttpMethod =
+  | "get"
+  | "put"
+  | "post"
+  | "delete"
+  | "options"
+  | "head"
+  | "patch"
+  | "trace";
+
+/**
+ * Validator that can describe itself as JSON Schema (built validators)
+ */
+export interface SchemaSource {
+  toJsonSchema(options?: ToJsonSchemaOptions): ToJsonSchemaResult;
+}
+
+export interface OpenApiResponseDefinition {
+  /** Defaults to the status text ("Created" for 201) */
+  description?: string;
+  /** Body validator; responses without one have no content */
+  validator?: SchemaSource;
+  /** Defaults to "application/json" */
+  contentType?: string;
+}
+
+/**
+ * A route and the validators of its request parts and responses
+ */
+export interface OpenApiOperationDefinition {
+  method: HttpMethod | Uppercase<HttpMethod>;
+  /** OpenAPI path template: "/shops/{shopId}/orders" */
+  path: string;
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  request?: {
+    params?: SchemaSource;
+    query?: SchemaSource;
+    headers?: SchemaSource;
+    body?: SchemaSource;
+    /** Defaults to "application/json" */
+    bodyContentType?: string;
+  };
+  responses: Record<number | string, SchemaSource | OpenApiResponseDefinition>;
+}
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+  [extension: `x-${string}`]: unknown;
+}
+
+export interface OpenApiDocumentOptions {
+  info: OpenApiInfo;
+  servers?: Array<{ url: string; description?: string }>;
+  tags?: Array<{ name: string; description?: string }>;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: "path" | "query" | "header";
+  required: boolean;
+  schema: JsonSchemaDocument;
+  description?: string;
+  deprecated?: boolean;
+}
+
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: OpenApiInfo;
+  servers?: Array<{ url: string; description?: string }>;
+  tags?: Array<{ name: string; description?: string }>;
+  paths: Record<string, Record<string, JsonSchemaDocument>>;
+  components?: { schemas: Record<string, JsonSchemaDocument> };
+}
+
+/**
+ * A rule left out of the document, with where it was found
+ * ("POST /orders body", "components.schemas.Order")
+ */
+export interface OpenApiUnsupportedRule extends UnsupportedRule {
+  location: string;
+}
+
+export interface OpenApiDocumentResult {
+  document: OpenApiDocument;
+  unsupported: OpenApiUnsupportedRule[];
+}
@@ -0,0 +1,99 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+import { getNestedResult, withPathPrefix } from "../nested-issues";
+import type { TransformAwareValidator } from "../builder/plugins/plugin-types";
+import type {
+  ValidationError,
+  ValidationOptions as RunOptions,
+} from "../../types";
+
+const ERROR_CODE = "arrayItems";
+
+const supportedTypes = ["array"] as const;
+
+/**
+ * @luq-plugin
+ * @name arrayItems
+ * @category standard
+ * @description Validates every element of an array field with a validator built by another Builder. The nested errors are reported at "<path>[index].<field>" and parse() returns the elements transformed by the nested validator
+ * @allowedTypes ["array"]
+ * @example
+ * ```typescript
+ * const addressValidator = Builder()
+ *   .use(requiredPlugin)
+ *   .for<Address>()
+ *   .v("city", (b) => b.string.required())
+ *   .build();
+ *
+ * const userValidator = Builder()
+ *   .use(arrayItemsPlugin)
+ *   .for<User>()
+ *   .v("addresses", (b) => b.array.items(addressValidator))
+ *   .build();
+ *
+ * // Errors are reported at "addresses[1].city"
+ * userValidator.validate({ addresses: [{ city: "Paris" }, {}] });
+ * ```
+ * @params
+ * - validator: TransformAwareValidator - Built validator of the elements
+ * - options?: { code?: string; messageFactory?: (context: MessageContext) => string } - Error shown when the nested errors cannot be reported
+ * @returns Validation function that returns true if the nested validator accepts every element
+ * @customError
+ * - Reports the nested validator's errors with the element path as prefix
+ * @since 0.1.0-alpha
+ */
+export const arrayItemsPlugin = plugin({
+  name: "arrayItems",
+  methodName: "items",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (
+    validator: TransformAwareValidator<any, any>,
+    options?: ValidationOptions
+  ) => {
+    const code = options?.code || ERROR_CODE;
+    const messageFactory =
+      options?.messageFactory ||
+      ((_ctx: MessageContext) => "Array items do not match the schema");
+
+    return {
+      // Non-arrays are left to the array type check; the element results
+      // are shared with getNestedIssues and transformOnParse
+      check: (value: any) =>
+        !Array.isArray(value) ||
+        value.every((item) => getNestedResult(validator, item).isValid()),
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({ path, value, code }),
+      // Replaces the error above with the errors of each element
+      getNestedIssues: (
+        value: unknown,
+        path: string,
+        _rootData: unknown,
+        runOptions?: RunOptions
+      ): ValidationError[] | undefined => {
+        if (!Array.isArray(value)) return undefined;
+        const abortEarly = runOptions?.abortEarly !== false;
+        const issues: ValidationError[] = [];
+        for (let index = 0; index < value.length; index++) {
+          const result = getNestedResult(validator, value[index]);
+          if (result.isValid()) continue;
+          for (const error of result.errors) {
+            issues.push(withPathPrefix(error, `${path}[${index}]`));
+            if (abortEarly) return issues;
+          }
+        }
+        return issues.length > 0 ? issues : undefined;
+      },
+      // parse() returns the elements transformed by the nested validator
+      transformOnParse: (value: unknown) => {
+        if (!Array.isArray(value)) return value;
+        return value.map((item) => {
+          const result = getNestedResult(validator, item);
+          return result.isValid() ? result.unwrap() : item;
+        });
+      },
+      params: [validator, options],
+    };
+  },
+});
@@ -0,0 +1,62 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+
+// Type-safe context for bigintMax plugin
+export interface BigintMaxContext extends MessageContext {
+  max: bigint;
+}
+
+const ERROR_CODE = "bigintMax";
+
+const supportedTypes = ["bigint"] as const;
+
+/**
+ * @luq-plugin
+ * @name bigintMax
+ * @category standard
+ * @description Validates that a bigint is less than or equal to the specified maximum
+ * @allowedTypes ["bigint"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(bigintMaxPlugin)
+ *   .for<{ amount: bigint }>()
+ *   .v("amount", (b) => b.bigint.max(1_000_000n))
+ *   .build();
+ * ```
+ * @params
+ * - max: bigint - Maximum allowed value (inclusive)
+ * - options?: { messageFactory?: (context: MessageContext) => string } - Optional configuration
+ * @returns Validation function that returns true if the bigint is at most max
+ * @customError
+ * ```typescript
+ * .max(1_000_000n, {
+ *   messageFactory: ({ path }) => `${path} exceeds the limit`
+ * })
+ * ```
+ * @since 0.1.0-alpha
+ */
+export const bigintMaxPlugin = plugin({
+  name: "bigintMax",
+  methodName: "max",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (max: bigint, options?: ValidationOptions<BigintMaxContext>) => {
+    if (typeof max !== "bigint") {
+      throw new Error(`Invalid max: ${String(max)}`);
+    }
+    const code = options?.code || ERROR_CODE;
+    const messageFactory =
+      options?.messageFactory ||
+      ((ctx: BigintMaxContext) =>
+        `Value must be at most ${ctx.max}, but got ${ctx.value}`);
+
+    return {
+      check: (value: any) => typeof value !== "bigint" || value <= max,
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({ path, value, code, max }),
+      params: [max, options],
+    };
+  },
+});
@@ -0,0 +1,62 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+
+// Type-safe context for bigintMin plugin
+export interface BigintMinContext extends MessageContext {
+  min: bigint;
+}
+
+const ERROR_CODE = "bigintMin";
+
+const supportedTypes = ["bigint"] as const;
+
+/**
+ * @luq-plugin
+ * @name bigintMin
+ * @category standard
+ * @description Validates that a bigint is greater than or equal to the specified minimum
+ * @allowedTypes ["bigint"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(bigintMinPlugin)
+ *   .for<{ amount: bigint }>()
+ *   .v("amount", (b) => b.bigint.min(0n))
+ *   .build();
+ * ```
+ * @params
+ * - min: bigint - Minimum allowed value (inclusive)
+ * - options?: { messageFactory?: (context: MessageContext) => string } - Optional configuration
+ * @returns Validation function that returns true if the bigint is at least min
+ * @customError
+ * ```typescript
+ * .min(0n, {
+ *   messageFactory: ({ path }) => `${path} must not be negative`
+ * })
+ * ```
+ * @since 0.1.0-alpha
+ */
+export const bigintMinPlugin = plugin({
+  name: "bigintMin",
+  methodName: "min",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (min: bigint, options?: ValidationOptions<BigintMinContext>) => {
+    if (typeof min !== "bigint") {
+      throw new Error(`Invalid min: ${String(min)}`);
+    }
+    const code = options?.code || ERROR_CODE;
+    const messageFactory =
+      options?.messageFactory ||
+      ((ctx: BigintMinContext) =>
+        `Value must be at least ${ctx.min}, but got ${ctx.value}`);
+
+    return {
+      check: (value: any) => typeof value !== "bigint" || value >= min,
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({ path, value, code, min }),
+      params: [min, options],
+    };
+  },
+});
@@ -0,0 +1,68 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+
+// Type-safe context for bigintMultipleOf plugin
+export interface BigintMultipleOfContext extends MessageContext {
+  divisor: bigint;
+}
+
+const ERROR_CODE = "bigintMultipleOf";
+
+const supportedTypes = ["bigint"] as const;
+
+/**
+ * @luq-plugin
+ * @name bigintMultipleOf
+ * @category standard
+ * @description Validates that a bigint is a multiple of the specified divisor
+ * @allowedTypes ["bigint"]
+ * @example
+ * ```typescript
+ * // Ledger amounts in cents, booked in whole dollars
+ * const validator = Builder()
+ *   .use(bigintMultipleOfPlugin)
+ *   .for<{ amountCents: bigint }>()
+ *   .v("amountCents", (b) => b.bigint.multipleOf(100n))
+ *   .build();
+ * ```
+ * @params
+ * - divisor: bigint - Non-zero divisor
+ * - options?: { messageFactory?: (context: MessageContext) => string } - Optional configuration
+ * @returns Validation function that returns true if the bigint is divisible by divisor
+ * @customError
+ * ```typescript
+ * .multipleOf(100n, {
+ *   messageFactory: ({ path }) => `${path} must be whole dollars`
+ * })
+ * ```
+ * @since 0.1.0-alpha
+ */
+export const bigintMultipleOfPlugin = plugin({
+  name: "bigintMultipleOf",
+  methodName: "multipleOf",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (
+    divisor: bigint,
+    options?: ValidationOptions<BigintMultipleOfContext>
+  ) => {
+    if (typeof divisor !== "bigint" || !divisor) {
+      throw new Error(
+        `Invalid divisor: ${String(divisor)}. Must be a non-zero bigint.`
+      );
+    }
+    const code = options?.code || ERROR_CODE;
+    const messageFactory =
+      options?.messageFactory ||
+      ((ctx: BigintMultipleOfContext) =>
+        `Value must be a multiple of ${ctx.divisor}`);
+
+    return {
+      check: (value: any) => typeof value !== "bigint" || !(value % divisor),
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({ path, value, code, divisor }),
+      params: [divisor, options],
+    };
+  },
+});
@@ -0,0 +1,60 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import type { MessageContext } from "./types";
+import { COERCION_FAILED_CODE } from "../coercion";
+
+/**
+ * @luq-plugin
+ * @name coerce
+ * @category standard
+ * @description Converts string input to the field type before validation.
+ * Numbers use GlobalConfig.numberFormat, booleans use
+ * GlobalConfig.toBooleanTruthyValues / toBooleanFalsyValues, dates use
+ * GlobalConfig.dateFormat (ISO 8601 date-times and timestamps are accepted too).
+ * Empty strings become undefined.
+ * @allowedTypes ["number", "boolean", "date"]
+ * @example
+ * ```typescript
+ * // Query strings, form data and env vars only contain strings
+ * const validator = Builder()
+ *   .use(requiredPlugin)
+ *   .use(numberMinPlugin)
+ *   .use(coercePlugin)
+ *   .for<{ page: number; debug: boolean; since: Date }>()
+ *   .v("page", (b) => b.number.coerce().required().min(1))
+ *   .v("debug", (b) => b.boolean.coerce())
+ *   .v("since", (b) => b.date.coerce())
+ *   .build();
+ *
+ * validator.parse(Object.fromEntries(new URLSearchParams(search)));
+ * // => { page: 2, debug: true, since: Date }
+ * ```
+ * @params
+ * - options?: { code?: string; messageFactory?: (context: MessageContext & { expected: string }) => string } - Error customization for input that cannot be converted
+ * @returns Validator that makes validate/parse convert the field's input first
+ * @customError
+ * ```typescript
+ * .coerce({
+ *   messageFactory: ({ path, value }) => `${path}: "${value}" is not a number`
+ * })
+ * ```
+ */
+export const coercePlugin = plugin({
+  name: "coerce",
+  methodName: "coerce",
+  allowedTypes: ["number", "boolean", "date"] as const,
+  category: "standard",
+  impl: (options?: {
+    code?: string;
+    messageFactory?: (
+      context: MessageContext & { expected: string }
+    ) => string;
+  }) => ({
+    // Conversion happens before validation; see coerceInput
+    check: () => true,
+    code: options?.code || COERCION_FAILED_CODE,
+    coerce: { messageFactory: options?.messageFactory },
+    getErrorMessage: (value: any, path: string) =>
+      `${path} cannot be converted`,
+    params: [options],
+  }),
+});
@@ -0,0 +1,102 @@
+/**
+ * Shared helpers for Map, Set and record plugins
+ * Element rules are built from field builder functions (like tuple elements)
+ * and report their errors at "<path>.<key>" (Map, record) or
+ * "<path>[<index>]" (Set, in iteration order)
+ */
+
+import { createFieldContext } from "../builder/context/field-context";
+import type { ValidationError } from "../../types";
+
+/**
+ * One element of a collection and the path its errors are reported at
+ */
+export interface CollectionEntry {
+  path: string;
+  key: unknown;
+  value: unknown;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  !(value instanceof Map) &&
+  !(value instanceof Set) &&
+  !(value instanceof Date);
+
+/**
+ * Number of entries of a Map, Set or record; undefined for other values
+ */
+export function collectionSize(value: unknown): number | undefined {
+  if (value instanceof Map || value instanceof Set) return value.size;
+  if (isRecord(value)) return Object.keys(value).length;
+  return undefined;
+}
+
+/**
+ * Entries of a Map, Set or record with their error paths
+ */
+export function collectionEntries(
+  value: unknown,
+  path: string
+): CollectionEntry[] {
+  if (value instanceof Map) {
+    return Array.from(value, ([key, item]) => ({
+      path: `${path}.${String(key)}`,
+      key,
+      value: item,
+    }));
+  }
+  if (value instanceof Set) {
+    return Array.from(value, (item, index) => ({
+      path: `${path}[${index}]`,
+      key: index,
+      value: item,
+    }));
+  }
+  if (isRecord(value)) {
+    return Object.keys(value).map((key) => ({
+      path: `${path}.${key}`,
+      key,
+      value: value[key],
+    }));
+  }
+  return [];
+}
+
+/**
+ * Build the rule of an element from a field builder function
+ */
+export function buildElementRule(
+  builderFn: (context: any) => any,
+  fieldPath: string,
+  plugins: unknown
+): { _validators: any[] } | null {
+  const builder = builderFn(createFieldContext(fieldPath, plugins as any));
+  return builder && typeof builder.build === "function"
+    ? builder.build()
+    : null;
+}
+
+/**
+ * First error of an element rule, reported at path
+ */
+export function checkElement(
+  rule: { _validators: any[] },
+  value: unknown,
+  rootData: unknown,
+  path: string
+): ValidationError | undefined {
+  for (const validator of rule._validators) {
+    if (validator.check(value, rootData)) continue;
+    const code = validator.code || validator.name;
+    const message = validator.getErrorMessage
+      ? validator.getErrorMessage(value, path)
+      : validator.messageFactory
+        ? validator.messageFactory({ path, value, code })
+        : "Validation failed";
+    return { path, code, message, paths: () => [path] };
+  }
+  return undefined;
+}
@@ -0,0 +1,100 @@
+/**
+ * @luq-plugin
+ * @name collectionKeys
+ * @category composable-directly
+ * @description Validates every key of a Map or record with a field builder. Errors are reported at "<path>.<key>"
+ * @allowedTypes ["map", "record"]
+ * @example
+ * ```typescript
+ * type Ledger = {
+ *   balances: Record<string, number>;
+ *   prices: Map<string, number>;
+ * };
+ *
+ * const validator = Builder()
+ *   .use(collectionKeysPlugin)
+ *   .use(stringPatternPlugin)
+ *   .for<Ledger>()
+ *   .v("balances", (b) => b.record.keys((k) => k.string.pattern(/^[A-Z]{3}$/)))
+ *   .v("prices", (b) => b.map.keys((k) => k.string.pattern(/^[A-Z]{3}$/)))
+ *   .build();
+ *
+ * // Errors are reported at "balances.usd"
+ * ```
+ * @params
+ * - builderFn: (context: FieldBuilderContext) => any - Builder function for each key
+ * @returns Composable validation function
+ * @customError
+ * - Reports the first failing rule of each invalid key at its element path
+ * @since 0.1.0-alpha
+ */
+
+import { createComposableDirectlyPlugin } from "../builder/plugins/composable-directly-plugin";
+import {
+  createValidatorResult,
+  createValidator,
+} from "../builder/plugins/composable-plugin";
+import {
+  buildElementRule,
+  checkElement,
+  collectionEntries,
+} from "./collection-utils";
+import type {
+  ValidationError,
+  ValidationOptions as RunOptions,
+} from "../../types";
+
+const ERROR_CODE = "collectionKeys";
+
+export const collectionKeysPlugin = createComposableDirectlyPlugin<
+  "collectionKeys",
+  "keys",
+  readonly ["map", "record"],
+  unknown[]
+>(
+  "collectionKeys",
+  "keys",
+  ["map", "record"] as const,
+  (compositions, fieldPath, plugins) => {
+    const [builderFn] = compositions[0] || [];
+    const rule =
+      typeof builderFn === "function"
+        ? buildElementRule(builderFn as any, `${fieldPath}[*]`, plugins)
+        : null;
+
+    const issuesOf = (
+      value: unknown,
+      path: string,
+      rootData: unknown,
+      abortEarly: boolean
+    ): ValidationError[] => {
+      const issues: ValidationError[] = [];
+      if (!rule) return issues;
+      for (const entry of collectionEntries(value, path)) {
+        const issue = checkElement(rule, entry.key, rootData, entry.path);
+        if (!issue) continue;
+        issues.push(issue);
+        if (abortEarly) break;
+      }
+      return issues;
+    };
+
+    const validator: any = createValidator(
+      ERROR_CODE,
+      (value, rootData) => issuesOf(value, "", rootData, true).length === 0,
+      { severity: "error" }
+    );
+    validator.code = ERROR_CODE;
+    validator.params = [rule];
+    validator.messageFactory = () => "Contains invalid keys";
+    // Replaced by the errors of the invalid keys
+    validator.getNestedIssues = (
+      value: unknown,
+      path: string,
+      rootData: unknown,
+      options?: RunOptions
+    ) => issuesOf(value, path, rootData, options?.abortEarly !== false);
+
+    return createValidatorResult([validator]);
+  }
+);
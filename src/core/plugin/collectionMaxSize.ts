@@ -0,0 +1,77 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+import { collectionSize } from "./collection-utils";
+
+// Type-safe context for collectionMaxSize plugin
+export interface CollectionMaxSizeContext extends MessageContext {
+  max: number;
+  actual: number;
+}
+
+const ERROR_CODE = "collectionMaxSize";
+
+const supportedTypes = ["map", "set", "record"] as const;
+
+/**
+ * @luq-plugin
+ * @name collectionMaxSize
+ * @category standard
+ * @description Validates that a Map, Set or record has at most the specified number of entries
+ * @allowedTypes ["map", "set", "record"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(collectionMaxSizePlugin)
+ *   .for<{ tags: Set<string>; prices: Map<string, number> }>()
+ *   .v("tags", (b) => b.set.maxSize(10))
+ *   .v("prices", (b) => b.map.maxSize(10))
+ *   .build();
+ * ```
+ * @params
+ * - max: number - Maximum number of entries
+ * - options?: { messageFactory?: (context: MessageContext) => string } - Optional configuration
+ * @returns Validation function that returns true if the collection has at most max entries
+ * @customError
+ * ```typescript
+ * .maxSize(10, {
+ *   messageFactory: ({ path, max }) => `${path} needs at most ${max} entries`
+ * })
+ * ```
+ * @since 0.1.0-alpha
+ */
+export const collectionMaxSizePlugin = plugin({
+  name: "collectionMaxSize",
+  methodName: "maxSize",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (
+    max: number,
+    options?: ValidationOptions<CollectionMaxSizeContext>
+  ) => {
+    if (typeof max !== "number" || max < 0) {
+      throw new Error(`Invalid max size: ${max}`);
+    }
+    const code = options?.code || ERROR_CODE;
+    const messageFactory =
+      options?.messageFactory ||
+      ((ctx: CollectionMaxSizeContext) =>
+        `Must contain at most ${ctx.max} entries, but got ${ctx.actual}`);
+
+    return {
+      check: (value: any) => {
+        const size = collectionSize(value);
+        return size === undefined || size <= max;
+      },
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({
+          path,
+          value,
+          code,
+          max,
+          actual: collectionSize(value) ?? 0,
+        }),
+      params: [max, options],
+    };
+  },
+});
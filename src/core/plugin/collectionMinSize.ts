@@ -0,0 +1,77 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+import { collectionSize } from "./collection-utils";
+
+// Type-safe context for collectionMinSize plugin
+export interface CollectionMinSizeContext extends MessageContext {
+  min: number;
+  actual: number;
+}
+
+const ERROR_CODE = "collectionMinSize";
+
+const supportedTypes = ["map", "set", "record"] as const;
+
+/**
+ * @luq-plugin
+ * @name collectionMinSize
+ * @category standard
+ * @description Validates that a Map, Set or record has at least the specified number of entries
+ * @allowedTypes ["map", "set", "record"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(collectionMinSizePlugin)
+ *   .for<{ tags: Set<string>; prices: Map<string, number> }>()
+ *   .v("tags", (b) => b.set.minSize(1))
+ *   .v("prices", (b) => b.map.minSize(1))
+ *   .build();
+ * ```
+ * @params
+ * - min: number - Minimum number of entries
+ * - options?: { messageFactory?: (context: MessageContext) => string } - Optional configuration
+ * @returns Validation function that returns true if the collection has at least min entries
+ * @customError
+ * ```typescript
+ * .minSize(1, {
+ *   messageFactory: ({ path, min }) => `${path} needs at least ${min} entries`
+ * })
+ * ```
+ * @since 0.1.0-alpha
+ */
+export const collectionMinSizePlugin = plugin({
+  name: "collectionMinSize",
+  methodName: "minSize",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (
+    min: number,
+    options?: ValidationOptions<CollectionMinSizeContext>
+  ) => {
+    if (typeof min !== "number" || min < 0) {
+      throw new Error(`Invalid min size: ${min}`);
+    }
+    const code = options?.code || ERROR_CODE;
+    const messageFactory =
+      options?.messageFactory ||
+      ((ctx: CollectionMinSizeContext) =>
+        `Must contain at least ${ctx.min} entries, but got ${ctx.actual}`);
+
+    return {
+      check: (value: any) => {
+        const size = collectionSize(value);
+        return size === undefined || size >= min;
+      },
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({
+          path,
+          value,
+          code,
+          min,
+          actual: collectionSize(value) ?? 0,
+        }),
+      params: [min, options],
+    };
+  },
+});
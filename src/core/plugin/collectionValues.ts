@@ -0,0 +1,103 @@
+/**
+ * @luq-plugin
+ * @name collectionValues
+ * @category composable-directly
+ * @description Validates every value of a Map or record, or every element of a Set, with a field builder. Errors are reported at "<path>.<key>" (Map, record) or "<path>[<index>]" (Set)
+ * @allowedTypes ["map", "set", "record"]
+ * @example
+ * ```typescript
+ * type Catalog = {
+ *   prices: Map<string, number>;
+ *   tags: Set<string>;
+ *   stock: Record<string, number>;
+ * };
+ *
+ * const validator = Builder()
+ *   .use(collectionValuesPlugin)
+ *   .use(numberMinPlugin)
+ *   .use(stringMinPlugin)
+ *   .for<Catalog>()
+ *   .v("prices", (b) => b.map.values((v) => v.number.min(0)))
+ *   .v("tags", (b) => b.set.values((v) => v.string.min(1)))
+ *   .v("stock", (b) => b.record.values((v) => v.number.min(0)))
+ *   .build();
+ *
+ * // Errors are reported at "prices.EUR" and "tags[2]"
+ * ```
+ * @params
+ * - builderFn: (context: FieldBuilderContext) => any - Builder function for each value
+ * @returns Composable validation function
+ * @customError
+ * - Reports the first failing rule of each invalid value at its element path
+ * @since 0.1.0-alpha
+ */
+
+import { createComposableDirectlyPlugin } from "../builder/plugins/composable-directly-plugin";
+import {
+  createValidatorResult,
+  createValidator,
+} from "../builder/plugins/composable-plugin";
+import {
+  buildElementRule,
+  checkElement,
+  collectionEntries,
+} from "./collection-utils";
+import type {
+  ValidationError,
+  ValidationOptions as RunOptions,
+} from "../../types";
+
+const ERROR_CODE = "collectionValues";
+
+export const collectionValuesPlugin = createComposableDirectlyPlugin<
+  "collectionValues",
+  "values",
+  readonly ["map", "set", "record"],
+  unknown[]
+>(
+  "collectionValues",
+  "values",
+  ["map", "set", "record"] as const,
+  (compositions, fieldPath, plugins) => {
+    const [builderFn] = compositions[0] || [];
+    const rule =
+      typeof builderFn === "function"
+        ? buildElementRule(builderFn as any, `${fieldPath}[*]`, plugins)
+        : null;
+
+    const issuesOf = (
+      value: unknown,
+      path: string,
+      rootData: unknown,
+      abortEarly: boolean
+    ): ValidationError[] => {
+      const issues: ValidationError[] = [];
+      if (!rule) return issues;
+      for (const entry of collectionEntries(value, path)) {
+        const issue = checkElement(rule, entry.value, rootData, entry.path);
+        if (!issue) continue;
+        issues.push(issue);
+        if (abortEarly) break;
+      }
+      return issues;
+    };
+
+    const validator: any = createValidator(
+      ERROR_CODE,
+      (value, rootData) => issuesOf(value, "", rootData, true).length === 0,
+      { severity: "error" }
+    );
+    validator.code = ERROR_CODE;
+    validator.params = [rule];
+    validator.messageFactory = () => "Contains invalid values";
+    // Replaced by the errors of the invalid values
+    validator.getNestedIssues = (
+      value: unknown,
+      path: string,
+      rootData: unknown,
+      options?: RunOptions
+    ) => issuesOf(value, path, rootData, options?.abortEarly !== false);
+
+    return createValidatorResult([validator]);
+  }
+);
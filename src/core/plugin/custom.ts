@@ -1,5 +1,6 @@
 import { plugin } from "../builder/plugins/plugin-creator";
 import { ValidationOptions, MessageContext } from "./types";
+import type { NestedIssuesFunction } from "../nested-issues";
 
 const DEFAULT_CODE = "CUSTOM_VALIDATION_FAILED";
 
@@ -13,6 +14,10 @@ const supportedTypes = [
   "object",
   "tuple",
   "union",
+  "map",
+  "set",
+  "record",
+  "bigint",
 ] as const;
 
 /**
@@ -20,7 +25,7 @@ const supportedTypes = [
  * @name custom
  * @category standard
  * @description Allows custom validation logic
- * @allowedTypes ["string", "number", "boolean", "date", "array", "object", "tuple", "union"]
+ * @allowedTypes ["string", "number", "boolean", "date", "array", "object", "tuple", "union", "map", "set", "record", "bigint"]
  * @example
  * ```typescript
  * // Basic custom validation
@@ -45,7 +50,7 @@ const supportedTypes = [
  * ```
  * @params
  * - validator: (value: any, rootData?: any) => boolean - Custom validation function
- * - options?: { code?: string; messageFactory?: (context: MessageContext) => string } - Error customization
+ * - options?: { code?: string; messageFactory?: (context: MessageContext) => string; nestedIssues?: NestedIssuesFunction } - Error customization; nestedIssues reports a failure at paths below the field
  * @returns Validation function with custom logic
  * @customError
  * ```typescript
@@ -68,7 +73,10 @@ export const customPlugin = plugin({
       value: any,
       rootData?: any
     ) => boolean | { valid: boolean; message?: string },
-    options?: ValidationOptions & { messageFactory?: (context: MessageContext) => string }
+    options?: ValidationOptions & {
+      messageFactory?: (context: MessageContext) => string;
+      nestedIssues?: NestedIssuesFunction;
+    }
   ) => {
     const code = options?.code || DEFAULT_CODE;
     const defaultMessage = "Custom validation failed";
@@ -111,6 +119,7 @@ export const customPlugin = plugin({
         const ctx = { path, value, code };
         return messageFactory(ctx);
       },
+      ...(options?.nestedIssues && { getNestedIssues: options.nestedIssues }),
       params: [validator, options],
     };
   },
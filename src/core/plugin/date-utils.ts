@@ -0,0 +1,104 @@
+/**
+ * Shared helpers for date constraint plugins
+ * Rules accept Date values and ISO 8601 strings (b.string.date()/datetime())
+ */
+
+import { globalConfig } from "../global-config";
+
+/**
+ * Date bound given to a rule: Date, ISO 8601 string or timestamp
+ */
+export type DateInput = Date | string | number;
+
+/**
+ * Length of a relative date window
+ */
+export interface DateDuration {
+  weeks?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+}
+
+const UNIT_MS: Record<keyof DateDuration, number> = {
+  weeks: 7 * 24 * 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  hours: 60 * 60 * 1000,
+  minutes: 60 * 1000,
+  seconds: 1000,
+};
+
+/**
+ * Timestamp of a Date, ISO string or number; NaN when it is not a date
+ */
+export function toTimestamp(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string") return Date.parse(value);
+  if (typeof value === "number") return value;
+  return NaN;
+}
+
+/**
+ * Timestamp of a rule bound, rejecting invalid bounds when building
+ */
+export function toBoundTimestamp(bound: DateInput, pluginName: string): number {
+  const time = toTimestamp(bound);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date for ${pluginName}: ${String(bound)}`);
+  }
+  return time;
+}
+
+/**
+ * Current time from GlobalConfig.clock (injectable for tests)
+ */
+export function now(): number {
+  return globalConfig.clock().getTime();
+}
+
+export function durationToMs(duration: DateDuration): number {
+  let total = 0;
+  for (const unit of Object.keys(UNIT_MS) as Array<keyof DateDuration>) {
+    total += (duration[unit] || 0) * UNIT_MS[unit];
+  }
+  return total;
+}
+
+/**
+ * Human readable duration for messages ("30 days", "1 week 2 days")
+ */
+export function describeDuration(duration: DateDuration): string {
+  return (Object.keys(UNIT_MS) as Array<keyof DateDuration>)
+    .filter((unit) => duration[unit])
+    .map((unit) => {
+      const amount = duration[unit]!;
+      return `${amount} ${amount === 1 ? unit.slice(0, -1) : unit}`;
+    })
+    .join(" ");
+}
+
+export function formatDate(time: number): string {
+  return new Date(time).toISOString();
+}
+
+// UTC calendar day ("2024-03-01") of a timestamp
+export function toDayKey(time: number): string {
+  return formatDate(time).slice(0, 10);
+}
+
+/**
+ * Whether a timestamp falls on Monday-Friday (UTC)
+ */
+export function isWeekday(time: number): boolean {
+  const day = new Date(time).getUTCDay();
+  return day !== 0 && day !== 6;
+}
+
+/**
+ * Whether a value is something date rules apply to
+ * Other types are left to the field's type check
+ */
+export function isDateValue(value: unknown): value is Date | string {
+  return value instanceof Date || typeof value === "string";
+}
@@ -0,0 +1,80 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+import {
+  toTimestamp,
+  toBoundTimestamp,
+  formatDate,
+  isDateValue,
+  type DateInput,
+} from "./date-utils";
+
+// Type-safe context for dateAfter plugin
+export interface DateAfterContext extends MessageContext {
+  date: string;
+  inclusive: boolean;
+}
+
+const ERROR_CODE = "dateAfter";
+
+const supportedTypes = ["date", "string"] as const;
+
+/**
+ * @luq-plugin
+ * @name dateAfter
+ * @category standard
+ * @description Validates that a date or ISO 8601 string is after the specified date
+ * @allowedTypes ["date", "string"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(stringDatePlugin)
+ *   .use(dateAfterPlugin)
+ *   .for<{ checkOut: string; expiresAt: Date }>()
+ *   .v("checkOut", (b) => b.string.date().after("2024-01-01"))
+ *   .v("expiresAt", (b) => b.date.after(new Date(), { inclusive: true }))
+ *   .build();
+ * ```
+ * @params
+ * - date: Date | string | number - Date to compare with
+ * - options?: { inclusive?: boolean; messageFactory?: (context: DateAfterContext) => string } - inclusive also accepts the date itself
+ * @returns Validation function that returns true if the date is after date
+ * @customError
+ * ```typescript
+ * .after(today, {
+ *   messageFactory: ({ path, date }) => `${path} must be after ${date}`
+ * })
+ * ```
+ * @since 0.1.0-alpha
+ */
+export const dateAfterPlugin = plugin({
+  name: "dateAfter",
+  methodName: "after",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (
+    date: DateInput,
+    options?: ValidationOptions<DateAfterContext> & { inclusive?: boolean }
+  ) => {
+    const code = options?.code || ERROR_CODE;
+    const bound = toBoundTimestamp(date, "dateAfter");
+    const inclusive = options?.inclusive || false;
+    const messageFactory =
+      options?.messageFactory ||
+      ((ctx: DateAfterContext) =>
+        ctx.inclusive
+          ? `Date must be on or after ${ctx.date}`
+          : `Date must be after ${ctx.date}`);
+
+    return {
+      check: (value: any) => {
+        if (!isDateValue(value)) return true;
+        const time = toTimestamp(value);
+        return inclusive ? time >= bound : time > bound;
+      },
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({ path, value, code, date: formatDate(bound), inclusive }),
+      params: [date, options],
+    };
+  },
+});
@@ -0,0 +1,80 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+import {
+  toTimestamp,
+  toBoundTimestamp,
+  formatDate,
+  isDateValue,
+  type DateInput,
+} from "./date-utils";
+
+// Type-safe context for dateBefore plugin
+export interface DateBeforeContext extends MessageContext {
+  date: string;
+  inclusive: boolean;
+}
+
+const ERROR_CODE = "dateBefore";
+
+const supportedTypes = ["date", "string"] as const;
+
+/**
+ * @luq-plugin
+ * @name dateBefore
+ * @category standard
+ * @description Validates that a date or ISO 8601 string is before the specified date
+ * @allowedTypes ["date", "string"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(stringDatePlugin)
+ *   .use(dateBeforePlugin)
+ *   .for<{ birthDate: string; expiresAt: Date }>()
+ *   .v("birthDate", (b) => b.string.date().before("2024-01-01"))
+ *   .v("expiresAt", (b) => b.date.before(new Date(), { inclusive: true }))
+ *   .build();
+ * ```
+ * @params
+ * - date: Date | string | number - Date to compare with
+ * - options?: { inclusive?: boolean; messageFactory?: (context: DateBeforeContext) => string } - inclusive also accepts the date itself
+ * @returns Validation function that returns true if the date is before date
+ * @customError
+ * ```typescript
+ * .before(today, {
+ *   messageFactory: ({ path, date }) => `${path} must be before ${date}`
+ * })
+ * ```
+ * @since 0.1.0-alpha
+ */
+export const dateBeforePlugin = plugin({
+  name: "dateBefore",
+  methodName: "before",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (
+    date: DateInput,
+    options?: ValidationOptions<DateBeforeContext> & { inclusive?: boolean }
+  ) => {
+    const code = options?.code || ERROR_CODE;
+    const bound = toBoundTimestamp(date, "dateBefore");
+    const inclusive = options?.inclusive || false;
+    const messageFactory =
+      options?.messageFactory ||
+      ((ctx: DateBeforeContext) =>
+        ctx.inclusive
+          ? `Date must be on or before ${ctx.date}`
+          : `Date must be before ${ctx.date}`);
+
+    return {
+      check: (value: any) => {
+        if (!isDateValue(value)) return true;
+        const time = toTimestamp(value);
+        return inclusive ? time <= bound : time < bound;
+      },
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({ path, value, code, date: formatDate(bound), inclusive }),
+      params: [date, options],
+    };
+  },
+});
@@ -0,0 +1,73 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+import {
+  toTimestamp,
+  toBoundTimestamp,
+  toDayKey,
+  isDateValue,
+  isWeekday,
+  type DateInput,
+} from "./date-utils";
+
+const ERROR_CODE = "dateBusinessDay";
+
+const supportedTypes = ["date", "string"] as const;
+
+/**
+ * @luq-plugin
+ * @name dateBusinessDay
+ * @category standard
+ * @description Validates that a date or ISO 8601 string is a business day: Monday to Friday (UTC) and not a holiday
+ * @allowedTypes ["date", "string"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(dateBusinessDayPlugin)
+ *   .for<{ shipDate: Date }>()
+ *   .v("shipDate", (b) =>
+ *     b.date.businessDay({ holidays: ["2024-12-25", "2025-01-01"] })
+ *   )
+ *   .build();
+ * ```
+ * @params
+ * - options?: { holidays?: Array<Date | string | number>; messageFactory?: (context: MessageContext) => string } - Holidays are compared by UTC calendar day
+ * @returns Validation function that returns true if the date is a business day
+ * @customError
+ * ```typescript
+ * .businessDay({
+ *   holidays,
+ *   messageFactory: ({ path }) => `${path} must be a business day`
+ * })
+ * ```
+ * @since 0.1.0-alpha
+ */
+export const dateBusinessDayPlugin = plugin({
+  name: "dateBusinessDay",
+  methodName: "businessDay",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (options?: ValidationOptions & { holidays?: DateInput[] }) => {
+    const code = options?.code || ERROR_CODE;
+    const holidays = new Set(
+      (options?.holidays || []).map((holiday) =>
+        toDayKey(toBoundTimestamp(holiday, "dateBusinessDay"))
+      )
+    );
+    const messageFactory =
+      options?.messageFactory ||
+      ((_ctx: MessageContext) => "Date must be a business day");
+
+    return {
+      check: (value: any) => {
+        if (!isDateValue(value)) return true;
+        const time = toTimestamp(value);
+        if (Number.isNaN(time) || !isWeekday(time)) return false;
+        return !holidays.has(toDayKey(time));
+      },
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({ path, value, code }),
+      params: [options],
+    };
+  },
+});
@@ -0,0 +1,59 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+import { toTimestamp, isDateValue, now } from "./date-utils";
+
+const ERROR_CODE = "dateFuture";
+
+const supportedTypes = ["date", "string"] as const;
+
+/**
+ * @luq-plugin
+ * @name dateFuture
+ * @category standard
+ * @description Validates that a date or ISO 8601 string is in the future
+ * @allowedTypes ["date", "string"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(dateFuturePlugin)
+ *   .for<{ deliveryDate: Date }>()
+ *   .v("deliveryDate", (b) => b.date.future())
+ *   .build();
+ *
+ * // The current time comes from GlobalConfig.clock
+ * setGlobalConfig({ clock: () => new Date("2024-06-01T00:00:00Z") });
+ * ```
+ * @params
+ * - options?: { messageFactory?: (context: MessageContext) => string } - Optional configuration
+ * @returns Validation function that returns true if the date is in the future
+ * @customError
+ * ```typescript
+ * .future({
+ *   messageFactory: ({ path }) => `${path} must be in the future`
+ * })
+ * ```
+ * @since 0.1.0-alpha
+ */
+export const dateFuturePlugin = plugin({
+  name: "dateFuture",
+  methodName: "future",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (options?: ValidationOptions) => {
+    const code = options?.code || ERROR_CODE;
+    const messageFactory =
+      options?.messageFactory ||
+      ((_ctx: MessageContext) => "Date must be in the future");
+
+    return {
+      check: (value: any) => {
+        if (!isDateValue(value)) return true;
+        return toTimestamp(value) > now();
+      },
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({ path, value, code }),
+      params: [options],
+    };
+  },
+});
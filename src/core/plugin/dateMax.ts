@@ -0,0 +1,68 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+import {
+  toTimestamp,
+  toBoundTimestamp,
+  formatDate,
+  type DateInput,
+} from "./date-utils";
+
+// Type-safe context for dateMax plugin
+export interface DateMaxContext extends MessageContext {
+  max: string;
+}
+
+const ERROR_CODE = "dateMax";
+
+const supportedTypes = ["date"] as const;
+
+/**
+ * @luq-plugin
+ * @name dateMax
+ * @category standard
+ * @description Validates that a date is on or before the specified date
+ * @allowedTypes ["date"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(dateMaxPlugin)
+ *   .for<{ endsAt: Date }>()
+ *   .v("endsAt", (b) => b.date.max("2024-01-01"))
+ *   .build();
+ * ```
+ * @params
+ * - max: Date | string | number - Latest allowed date (inclusive)
+ * - options?: { messageFactory?: (context: DateMaxContext) => string } - Optional configuration
+ * @returns Validation function that returns true if the date is on or before max
+ * @customError
+ * ```typescript
+ * .max(launch, {
+ *   messageFactory: ({ path, max }) => `${path} must be on or before ${max}`
+ * })
+ * ```
+ * @since 0.1.0-alpha
+ */
+export const dateMaxPlugin = plugin({
+  name: "dateMax",
+  methodName: "max",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (max: DateInput, options?: ValidationOptions<DateMaxContext>) => {
+    const code = options?.code || ERROR_CODE;
+    const bound = toBoundTimestamp(max, "dateMax");
+    const messageFactory =
+      options?.messageFactory ||
+      ((ctx: DateMaxContext) => `Date must be on or before ${ctx.max}`);
+
+    return {
+      check: (value: any) => {
+        if (!(value instanceof Date)) return true;
+        return toTimestamp(value) <= bound;
+      },
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({ path, value, code, max: formatDate(bound) }),
+      params: [max, options],
+    };
+  },
+});
@@ -0,0 +1,68 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+import {
+  toTimestamp,
+  toBoundTimestamp,
+  formatDate,
+  type DateInput,
+} from "./date-utils";
+
+// Type-safe context for dateMin plugin
+export interface DateMinContext extends MessageContext {
+  min: string;
+}
+
+const ERROR_CODE = "dateMin";
+
+const supportedTypes = ["date"] as const;
+
+/**
+ * @luq-plugin
+ * @name dateMin
+ * @category standard
+ * @description Validates that a date is on or after the specified date
+ * @allowedTypes ["date"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(dateMinPlugin)
+ *   .for<{ startsAt: Date }>()
+ *   .v("startsAt", (b) => b.date.min("2024-01-01"))
+ *   .build();
+ * ```
+ * @params
+ * - min: Date | string | number - Earliest allowed date (inclusive)
+ * - options?: { messageFactory?: (context: DateMinContext) => string } - Optional configuration
+ * @returns Validation function that returns true if the date is on or after min
+ * @customError
+ * ```typescript
+ * .min(launch, {
+ *   messageFactory: ({ path, min }) => `${path} must be on or after ${min}`
+ * })
+ * ```
+ * @since 0.1.0-alpha
+ */
+export const dateMinPlugin = plugin({
+  name: "dateMin",
+  methodName: "min",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (min: DateInput, options?: ValidationOptions<DateMinContext>) => {
+    const code = options?.code || ERROR_CODE;
+    const bound = toBoundTimestamp(min, "dateMin");
+    const messageFactory =
+      options?.messageFactory ||
+      ((ctx: DateMinContext) => `Date must be on or after ${ctx.min}`);
+
+    return {
+      check: (value: any) => {
+        if (!(value instanceof Date)) return true;
+        return toTimestamp(value) >= bound;
+      },
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({ path, value, code, min: formatDate(bound) }),
+      params: [min, options],
+    };
+  },
+});
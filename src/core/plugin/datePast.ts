@@ -0,0 +1,59 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+import { toTimestamp, isDateValue, now } from "./date-utils";
+
+const ERROR_CODE = "datePast";
+
+const supportedTypes = ["date", "string"] as const;
+
+/**
+ * @luq-plugin
+ * @name datePast
+ * @category standard
+ * @description Validates that a date or ISO 8601 string is in the past
+ * @allowedTypes ["date", "string"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(datePastPlugin)
+ *   .for<{ birthDate: Date }>()
+ *   .v("birthDate", (b) => b.date.past())
+ *   .build();
+ *
+ * // The current time comes from GlobalConfig.clock
+ * setGlobalConfig({ clock: () => new Date("2024-06-01T00:00:00Z") });
+ * ```
+ * @params
+ * - options?: { messageFactory?: (context: MessageContext) => string } - Optional configuration
+ * @returns Validation function that returns true if the date is in the past
+ * @customError
+ * ```typescript
+ * .past({
+ *   messageFactory: ({ path }) => `${path} must be in the past`
+ * })
+ * ```
+ * @since 0.1.0-alpha
+ */
+export const datePastPlugin = plugin({
+  name: "datePast",
+  methodName: "past",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (options?: ValidationOptions) => {
+    const code = options?.code || ERROR_CODE;
+    const messageFactory =
+      options?.messageFactory ||
+      ((_ctx: MessageContext) => "Date must be in the past");
+
+    return {
+      check: (value: any) => {
+        if (!isDateValue(value)) return true;
+        return toTimestamp(value) < now();
+      },
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({ path, value, code }),
+      params: [options],
+    };
+  },
+});
@@ -0,0 +1,58 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+import { toTimestamp, isDateValue, isWeekday } from "./date-utils";
+
+const ERROR_CODE = "dateWeekday";
+
+const supportedTypes = ["date", "string"] as const;
+
+/**
+ * @luq-plugin
+ * @name dateWeekday
+ * @category standard
+ * @description Validates that a date or ISO 8601 string falls on Monday to Friday (UTC)
+ * @allowedTypes ["date", "string"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(stringDatePlugin)
+ *   .use(dateWeekdayPlugin)
+ *   .for<{ meetingDay: string }>()
+ *   .v("meetingDay", (b) => b.string.date().weekday())
+ *   .build();
+ * ```
+ * @params
+ * - options?: { messageFactory?: (context: MessageContext) => string } - Optional configuration
+ * @returns Validation function that returns true if the date is a weekday
+ * @customError
+ * ```typescript
+ * .weekday({
+ *   messageFactory: ({ path }) => `${path} must not be on a weekend`
+ * })
+ * ```
+ * @since 0.1.0-alpha
+ */
+export const dateWeekdayPlugin = plugin({
+  name: "dateWeekday",
+  methodName: "weekday",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (options?: ValidationOptions) => {
+    const code = options?.code || ERROR_CODE;
+    const messageFactory =
+      options?.messageFactory ||
+      ((_ctx: MessageContext) => "Date must be a weekday");
+
+    return {
+      check: (value: any) => {
+        if (!isDateValue(value)) return true;
+        const time = toTimestamp(value);
+        return !Number.isNaN(time) && isWeekday(time);
+      },
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({ path, value, code }),
+      params: [options],
+    };
+  },
+});
@@ -0,0 +1,77 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+import {
+  toTimestamp,
+  isDateValue,
+  now,
+  durationToMs,
+  describeDuration,
+  type DateDuration,
+} from "./date-utils";
+
+// Type-safe context for dateWithinLast plugin
+export interface DateWithinLastContext extends MessageContext {
+  duration: string;
+}
+
+const ERROR_CODE = "dateWithinLast";
+
+const supportedTypes = ["date", "string"] as const;
+
+/**
+ * @luq-plugin
+ * @name dateWithinLast
+ * @category standard
+ * @description Validates that a date or ISO 8601 string is within the last duration
+ * @allowedTypes ["date", "string"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(dateWithinLastPlugin)
+ *   .for<{ lastLoginAt: Date }>()
+ *   .v("lastLoginAt", (b) => b.date.withinLast({ days: 30 }))
+ *   .build();
+ * ```
+ * @params
+ * - duration: { weeks?: number; days?: number; hours?: number; minutes?: number; seconds?: number } - Window length from the current time (GlobalConfig.clock)
+ * - options?: { messageFactory?: (context: DateWithinLastContext) => string } - Optional configuration
+ * @returns Validation function that returns true if the date is within the last duration
+ * @customError
+ * ```typescript
+ * .withinLast({ days: 30 }, {
+ *   messageFactory: ({ path, duration }) => `${path} must be within the last ${duration}`
+ * })
+ * ```
+ * @since 0.1.0-alpha
+ */
+export const dateWithinLastPlugin = plugin({
+  name: "dateWithinLast",
+  methodName: "withinLast",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (duration: DateDuration, options?: ValidationOptions<DateWithinLastContext>) => {
+    const code = options?.code || ERROR_CODE;
+    const window = durationToMs(duration);
+    const messageFactory =
+      options?.messageFactory ||
+      ((ctx: DateWithinLastContext) => `Date must be within the last ${ctx.duration}`);
+
+    return {
+      check: (value: any) => {
+        if (!isDateValue(value)) return true;
+        const time = toTimestamp(value);
+        const current = now();
+        return time <= current && time >= current - window;
+      },
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({
+          path,
+          value,
+          code,
+          duration: describeDuration(duration),
+        }),
+      params: [duration, options],
+    };
+  },
+});
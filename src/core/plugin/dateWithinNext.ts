@@ -0,0 +1,77 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+import {
+  toTimestamp,
+  isDateValue,
+  now,
+  durationToMs,
+  describeDuration,
+  type DateDuration,
+} from "./date-utils";
+
+// Type-safe context for dateWithinNext plugin
+export interface DateWithinNextContext extends MessageContext {
+  duration: string;
+}
+
+const ERROR_CODE = "dateWithinNext";
+
+const supportedTypes = ["date", "string"] as const;
+
+/**
+ * @luq-plugin
+ * @name dateWithinNext
+ * @category standard
+ * @description Validates that a date or ISO 8601 string is within the next duration
+ * @allowedTypes ["date", "string"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(dateWithinNextPlugin)
+ *   .for<{ appointmentAt: Date }>()
+ *   .v("appointmentAt", (b) => b.date.withinNext({ weeks: 2 }))
+ *   .build();
+ * ```
+ * @params
+ * - duration: { weeks?: number; days?: number; hours?: number; minutes?: number; seconds?: number } - Window length from the current time (GlobalConfig.clock)
+ * - options?: { messageFactory?: (context: DateWithinNextContext) => string } - Optional configuration
+ * @returns Validation function that returns true if the date is within the next duration
+ * @customError
+ * ```typescript
+ * .withinNext({ weeks: 2 }, {
+ *   messageFactory: ({ path, duration }) => `${path} must be within the next ${duration}`
+ * })
+ * ```
+ * @since 0.1.0-alpha
+ */
+export const dateWithinNextPlugin = plugin({
+  name: "dateWithinNext",
+  methodName: "withinNext",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (duration: DateDuration, options?: ValidationOptions<DateWithinNextContext>) => {
+    const code = options?.code || ERROR_CODE;
+    const window = durationToMs(duration);
+    const messageFactory =
+      options?.messageFactory ||
+      ((ctx: DateWithinNextContext) => `Date must be within the next ${ctx.duration}`);
+
+    return {
+      check: (value: any) => {
+        if (!isDateValue(value)) return true;
+        const time = toTimestamp(value);
+        const current = now();
+        return time >= current && time <= current + window;
+      },
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({
+          path,
+          value,
+          code,
+          duration: describeDuration(duration),
+        }),
+      params: [duration, options],
+    };
+  },
+});
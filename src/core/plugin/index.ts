@@ -14,6 +14,7 @@ export { oneOfPlugin } from "./oneOf";
 export { literalPlugin } from "./literal";
 export { compareFieldPlugin } from "./compareField";
 export { customPlugin } from "./custom";
+export { refineAsyncPlugin } from "./refineAsync";
 export { stitchPlugin } from "./stitch";
 
 // String plugins
@@ -45,6 +46,15 @@ export { stringRelativeJsonPointerPlugin } from "./stringRelativeJsonPointer";
 export { stringContentEncodingPlugin } from "./stringContentEncoding";
 export { stringContentMediaTypePlugin } from "./stringContentMediaType";
 
+// String normalization plugins
+export { stringTrimPlugin } from "./stringTrim";
+export { stringToLowerCasePlugin } from "./stringToLowerCase";
+export { stringToUpperCasePlugin } from "./stringToUpperCase";
+export { stringNormalizePlugin } from "./stringNormalize";
+export { stringCollapseWhitespacePlugin } from "./stringCollapseWhitespace";
+export { stringSlugifyPlugin } from "./stringSlugify";
+export { stringTruncatePlugin } from "./stringTruncate";
+
 // Number plugins
 export { numberMinPlugin } from "./numberMin";
 export { numberMaxPlugin } from "./numberMax";
@@ -59,11 +69,24 @@ export { numberRangePlugin } from "./numberRange";
 export { booleanTruthyPlugin } from "./booleanTruthy";
 export { booleanFalsyPlugin } from "./booleanFalsy";
 
+// Date plugins
+export { dateMinPlugin } from "./dateMin";
+export { dateMaxPlugin } from "./dateMax";
+export { dateAfterPlugin } from "./dateAfter";
+export { dateBeforePlugin } from "./dateBefore";
+export { datePastPlugin } from "./datePast";
+export { dateFuturePlugin } from "./dateFuture";
+export { dateWithinLastPlugin } from "./dateWithinLast";
+export { dateWithinNextPlugin } from "./dateWithinNext";
+export { dateWeekdayPlugin } from "./dateWeekday";
+export { dateBusinessDayPlugin } from "./dateBusinessDay";
+
 // Array plugins
 export { arrayIncludesPlugin } from "./arrayIncludes";
 export { arrayUniquePlugin } from "./arrayUnique";
 export { arrayMinLengthPlugin } from "./arrayMinLength";
 export { arrayMaxLengthPlugin } from "./arrayMaxLength";
+export { arrayItemsPlugin } from "./arrayItems";
 
 // Object plugins
 export { objectPlugin } from "./object";
@@ -72,12 +95,27 @@ export { objectRecursivelyPlugin } from "./objectRecursively";
 export { objectMinPropertiesPlugin } from "./objectMinProperties";
 export { objectMaxPropertiesPlugin } from "./objectMaxProperties";
 export { objectAdditionalPropertiesPlugin } from "./objectAdditionalProperties";
+export { objectSchemaPlugin } from "./objectSchema";
+
+// BigInt plugins
+export { bigintMinPlugin } from "./bigintMin";
+export { bigintMaxPlugin } from "./bigintMax";
+export { bigintMultipleOfPlugin } from "./bigintMultipleOf";
+
+// Map, Set and record plugins
+export { collectionMinSizePlugin } from "./collectionMinSize";
+export { collectionMaxSizePlugin } from "./collectionMaxSize";
+export { collectionKeysPlugin } from "./collectionKeys";
+export { collectionValuesPlugin } from "./collectionValues";
 
 // Transform plugin
 export { transformPlugin } from "./transform";
+export { coercePlugin } from "./coerce";
+export { preprocessPlugin } from "./preprocess";
 
 // Union Plugin
 export { unionGuardPlugin } from "./unionGuard";
+export { unionDiscriminatedPlugin } from "./unionDiscriminated";
 
 // Tuple Plugin
 export { tupleBuilderPlugin } from "./tupleBuilder";
@@ -0,0 +1,35 @@
+import type { JSONSchema7 } from "json-schema";
+import type { JsonSchemaImportDialect } from "./types";
+
+/**
+ * JSON Schema dialect detection
+ * Older drafts (04, 06) are handled like Draft-07
+ */
+
+const DIALECT_URIS: Record<string, JsonSchemaImportDialect> = {
+  "json-schema.org/draft-04/schema": "draft-07",
+  "json-schema.org/draft-06/schema": "draft-07",
+  "json-schema.org/draft-07/schema": "draft-07",
+  "json-schema.org/draft/2019-09/schema": "2019-09",
+  "json-schema.org/draft/2020-12/schema": "2020-12",
+};
+
+/**
+ * Dialect declared by $schema, or fallback when missing or unknown
+ */
+export const detectDialect = (
+  schema: JSONSchema7 | unknown,
+  fallback: JsonSchemaImportDialect = "draft-07"
+): JsonSchemaImportDialect => {
+  const uri = (schema as JSONSchema7 | undefined)?.$schema;
+  if (typeof uri !== "string") return fallback;
+  const normalized = uri.replace(/^https?:\/\//, "").replace(/#$/, "");
+  return DIALECT_URIS[normalized] ?? fallback;
+};
+
+/**
+ * Whether $ref is an applicator next to its siblings and the
+ * 2019-09 vocabulary (dependentSchemas, unevaluated*, ...) applies
+ */
+export const isModernDialect = (dialect: JsonSchemaImportDialect): boolean =>
+  dialect !== "draft-07";
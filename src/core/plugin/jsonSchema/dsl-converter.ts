@@ -1,13 +1,38 @@
 import type { JSONSchema7 } from "json-schema";
-import { LuqFieldDSL, LuqConstraints, JsonSchemaOptions } from "./types";
-import { resolveSchemaRef } from "./ref-resolver";
+import { LuqFieldDSL, LuqConstraints, JsonSchemaOptions, ModernJsonSchema } from "./types";
+import { resolveSchemaRef, hasRefResolver, getSchemaDialect } from "./ref-resolver";
+import { isModernDialect } from "./dialect";
 import { validateValueAgainstSchema } from "./validation-core";
+import { getDetailedValidationErrors } from "./error-generation";
 
 /**
  * DSL conversion utilities
  * Convert JSON Schema to Luq DSL and back
  */
 
+// 2019-09 / 2020-12 keywords without a Luq rule
+const SCHEMA_CHECK_KEYWORDS = [
+  "prefixItems",
+  "minContains",
+  "maxContains",
+  "dependentRequired",
+  "dependentSchemas",
+  "unevaluatedItems",
+  "unevaluatedProperties",
+  "$dynamicRef",
+] as const;
+
+/**
+ * Whether a 2019-09+ property schema must be validated as a whole:
+ * it uses keywords without a Luq rule, or $ref next to other keywords
+ */
+const needsSchemaCheck = (schema: JSONSchema7): boolean => {
+  if (!isModernDialect(getSchemaDialect(schema))) return false;
+  if (SCHEMA_CHECK_KEYWORDS.some(keyword => keyword in schema)) return true;
+  return schema.$ref !== undefined &&
+    Object.keys(schema).some(keyword => !["$ref", "$comment", "$schema"].includes(keyword));
+};
+
 /**
  * Convert JSON Schema to Luq DSL field definitions
  */
@@ -17,7 +42,9 @@ export const convertJsonSchemaToLuqDSL = (
   rootSchema?: JSONSchema7
 ): LuqFieldDSL[] => {
   const fields: LuqFieldDSL[] = [];
-  const resolvedSchema = schema.$ref && rootSchema ? resolveSchemaRef(schema, rootSchema) : schema;
+  const resolvedSchema = schema.$ref && (rootSchema || hasRefResolver(schema)) ? resolveSchemaRef(schema, rootSchema) : schema;
+  // $ref targets being expanded, to stop at recursive references
+  const expanding = new Set([resolvedSchema, ...(rootSchema ? [rootSchema] : [])]);
   
   // Handle root-level composition constraints (oneOf, anyOf, allOf at root level)
   if (parentPath === "" && (resolvedSchema.oneOf || resolvedSchema.anyOf || resolvedSchema.allOf)) {
@@ -55,7 +82,8 @@ export const convertJsonSchemaToLuqDSL = (
           propertySchema,
           propertyPath,
           resolvedSchema,
-          rootSchema
+          rootSchema,
+          expanding
         );
         fields.push(...propertyFields);
       }
@@ -72,7 +100,8 @@ export const convertJsonSchemaToLuqDSL = (
           patternSchema,
           patternPath,
           resolvedSchema,
-          rootSchema
+          rootSchema,
+          expanding
         );
         fields.push(...patternFields);
       }
@@ -90,11 +119,16 @@ const convertPropertyToLuqDSL = (
   propertySchema: JSONSchema7,
   propertyPath: string,
   parentSchema: JSONSchema7,
-  rootSchema?: JSONSchema7
+  rootSchema?: JSONSchema7,
+  expanding: ReadonlySet<JSONSchema7> = new Set()
 ): LuqFieldDSL[] => {
   const fields: LuqFieldDSL[] = [];
-  const resolvedSchema = propertySchema.$ref && rootSchema ? 
+  const resolvedSchema = propertySchema.$ref && (rootSchema || hasRefResolver(propertySchema)) ? 
     resolveSchemaRef(propertySchema, rootSchema) : propertySchema;
+  const isRecursive = resolvedSchema !== propertySchema && expanding.has(resolvedSchema);
+  const nestedExpanding = resolvedSchema !== propertySchema
+    ? new Set([...expanding, resolvedSchema])
+    : expanding;
   
   // Handle multiple types
   const { type, nullable, multipleTypes } = processSchemaTypes(resolvedSchema);
@@ -112,6 +146,17 @@ const convertPropertyToLuqDSL = (
   };
   
   fields.push(fieldDSL);
+
+  // Recursive $ref: validate the whole value lazily instead of expanding it again
+  if (isRecursive) {
+    constraints.lazySchema = resolvedSchema;
+    return fields;
+  }
+  if (needsSchemaCheck(propertySchema)) {
+    constraints.lazySchema = propertySchema;
+  } else if (needsSchemaCheck(resolvedSchema)) {
+    constraints.lazySchema = resolvedSchema;
+  }
   
   // Handle nested objects
   if (resolvedSchema.type === "object" || (Array.isArray(resolvedSchema.type) && resolvedSchema.type.includes("object"))) {
@@ -124,7 +169,8 @@ const convertPropertyToLuqDSL = (
             nestedSchema,
             nestedPath,
             resolvedSchema,
-            rootSchema
+            rootSchema,
+            nestedExpanding
           );
           fields.push(...nestedFields);
         }
@@ -134,14 +180,17 @@ const convertPropertyToLuqDSL = (
   
   // Handle array items
   if (resolvedSchema.type === "array" || (Array.isArray(resolvedSchema.type) && resolvedSchema.type.includes("array"))) {
-    if (resolvedSchema.items && !Array.isArray(resolvedSchema.items) && typeof resolvedSchema.items === 'object') {
+    // With 2020-12 prefixItems, items only applies after the prefix (see lazySchema)
+    const hasPrefixItems = (resolvedSchema as ModernJsonSchema).prefixItems !== undefined;
+    if (resolvedSchema.items && !hasPrefixItems && !Array.isArray(resolvedSchema.items) && typeof resolvedSchema.items === 'object') {
       const itemPath = `${propertyPath}[*]`;
       const itemFields = convertPropertyToLuqDSL(
         `${propertyName}[*]`,
         resolvedSchema.items,
         itemPath,
         resolvedSchema,
-        rootSchema
+        rootSchema,
+        nestedExpanding
       );
       fields.push(...itemFields);
     }
@@ -265,6 +314,12 @@ const extractRootConstraints = (schema: JSONSchema7): LuqConstraints => {
   if ((schema as any).dependentRequired) {
     constraints.dependentRequired = (schema as any).dependentRequired;
   }
+  if ((schema as ModernJsonSchema).dependentSchemas) {
+    constraints.dependentSchemas = (schema as ModernJsonSchema).dependentSchemas;
+  }
+  if ((schema as ModernJsonSchema).unevaluatedProperties === false) {
+    constraints.unevaluatedProperties = false;
+  }
   
   return constraints;
 };
@@ -371,7 +426,7 @@ export const convertDSLToFieldDefinition = (
       }));
       
       return builder.oneOf(typeSchemas.map(schema => (b: any) => 
-        applyTypeAndConstraints(b, schema.type, schema.constraints, customFormats)
+        applyTypeAndConstraints(b, schema.type, schema.constraints, customFormats, dsl.nullable)
       ));
     }
     
@@ -384,7 +439,7 @@ export const convertDSLToFieldDefinition = (
     }
     
     // Apply constraints
-    chain = applyConstraints(chain, dsl.constraints, customFormats);
+    chain = applyConstraints(chain, dsl.constraints, customFormats, dsl.nullable);
     
     return chain;
   };
@@ -413,10 +468,11 @@ const applyTypeAndConstraints = (
   builder: any,
   type: string,
   constraints: LuqConstraints,
-  customFormats?: Record<string, (value: any) => boolean>
+  customFormats?: Record<string, (value: any) => boolean>,
+  nullable?: boolean
 ): any => {
   let chain = applyBaseType(builder, type as LuqFieldDSL['type']);
-  return applyConstraints(chain, constraints, customFormats);
+  return applyConstraints(chain, constraints, customFormats, nullable);
 };
 
 /**
@@ -463,7 +519,8 @@ const filterConstraintsForType = (constraints: LuqConstraints, type: string): Lu
 export const applyConstraints = (
   chain: any,
   constraints: LuqConstraints,
-  customFormats?: Record<string, (value: any) => boolean>
+  customFormats?: Record<string, (value: any) => boolean>,
+  nullable?: boolean
 ): any => {
   // Handle literal values first
   if (constraints.const !== undefined) {
@@ -594,9 +651,34 @@ export const applyConstraints = (
     });
   }
   
-  // Required constraint
+  // Recursive $ref target; its issues are reported at their nested paths
+  if (constraints.lazySchema && chain.custom) {
+    const lazySchema = constraints.lazySchema;
+    chain = chain.custom(
+      (value: any) => {
+        if (value === undefined || validateValueAgainstSchema(value, lazySchema, customFormats)) {
+          return true;
+        }
+        const [error] = getDetailedValidationErrors(value, lazySchema, customFormats);
+        return { valid: false, message: error?.message };
+      },
+      {
+        nestedIssues: (value: unknown, path: string) =>
+          getDetailedValidationErrors(value, lazySchema, customFormats, undefined, path).map(
+            (error) => ({
+              path: error.path,
+              message: error.message,
+              code: error.code,
+              paths: () => [error.path],
+            })
+          ),
+      }
+    );
+  }
+  
+  // Required constraint; a property whose type allows null may hold null
   if (constraints.required && chain.required) {
-    chain = chain.required();
+    chain = nullable ? chain.required({ allowNull: true }) : chain.required();
   }
   
   return chain;
@@ -1,13 +1,16 @@
 import type { JSONSchema7 } from "json-schema";
 import { ValidationError } from "./types";
-import { validateValueAgainstSchema } from "./validation-core";
-import { resolveSchemaRef } from "./ref-resolver";
+import { validateValueAgainstSchema, createCycleGuard } from "./validation-core";
+import { resolveSchemaRef, hasRefResolver } from "./ref-resolver";
 
 /**
  * JSON Schema validation error generation
  * Functions for generating detailed validation error messages
  */
 
+// A cycle in the data reports its issues once
+const withoutCycles = createCycleGuard();
+
 /**
  * Generate detailed validation errors for a value against a schema
  */
@@ -17,6 +20,19 @@ export const getDetailedValidationErrors = (
   customFormats?: Record<string, (value: string) => boolean>,
   rootSchema?: JSONSchema7,
   path: string = ""
+): ValidationError[] =>
+  typeof schema === 'boolean'
+    ? collectValidationErrors(value, schema, customFormats, rootSchema, path)
+    : withoutCycles(value, schema, [], () =>
+        collectValidationErrors(value, schema, customFormats, rootSchema, path)
+      );
+
+const collectValidationErrors = (
+  value: any,
+  schema: JSONSchema7 | boolean,
+  customFormats?: Record<string, (value: string) => boolean>,
+  rootSchema?: JSONSchema7,
+  path: string = ""
 ): ValidationError[] => {
   const errors: ValidationError[] = [];
   
@@ -39,7 +55,7 @@ export const getDetailedValidationErrors = (
   }
   
   // Resolve $ref if present
-  if (schema.$ref && rootSchema) {
+  if (schema.$ref && (rootSchema || hasRefResolver(schema))) {
     schema = resolveSchemaRef(schema, rootSchema);
   }
   
@@ -0,0 +1,679 @@
+import type { FieldDefinition } from "../../builder/validator-factory";
+import { isSoftValidator } from "../../severity";
+import {
+  JsonSchemaDialect,
+  JsonSchemaDocument,
+  ToJsonSchemaOptions,
+  ToJsonSchemaResult,
+  UnsupportedRule,
+} from "./types";
+
+/**
+ * JSON Schema export utilities
+ * Convert built field definitions back to JSON Schema (Draft-07 / 2020-12)
+ */
+
+const SCHEMA_URIS: Record<JsonSchemaDialect, string> = {
+  "draft-07": "http://json-schema.org/draft-07/schema#",
+  "2020-12": "https://json-schema.org/draft/2020-12/schema",
+};
+
+// Automatic type checks added by the field context (see getTypeValidator)
+const TYPE_CHECKS: Record<string, string> = {
+  stringType: "string",
+  numberType: "number",
+  booleanType: "boolean",
+  arrayType: "array",
+  objectType: "object",
+  dateType: "date",
+  nullType: "null",
+  anyType: "any",
+  mapType: "map",
+  setType: "set",
+  recordType: "record",
+  bigintType: "bigint",
+};
+
+/**
+ * Mutable state shared by keyword mappers while converting a single rule
+ */
+interface ExportState {
+  path: string;
+  dialect: JsonSchemaDialect;
+  required: boolean;
+  nullable: boolean;
+  unsupported: UnsupportedRule[];
+}
+
+type KeywordMapper = (
+  schema: JsonSchemaDocument,
+  params: readonly any[],
+  state: ExportState
+) => void;
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const reportUnsupported = (
+  state: ExportState,
+  plugin: string,
+  reason: string
+): void => {
+  state.unsupported.push({ path: state.path, plugin, reason });
+};
+
+// BigInt parameters are only exported when a JSON number holds them exactly
+const setBigintKeyword = (
+  schema: JsonSchemaDocument,
+  keyword: "minimum" | "maximum" | "multipleOf",
+  value: bigint,
+  plugin: string,
+  state: ExportState
+): void => {
+  const number = Number(value);
+  if (Number.isSafeInteger(number)) {
+    schema[keyword] = number;
+    return;
+  }
+  reportUnsupported(
+    state,
+    plugin,
+    `${value} is outside the safe integer range of JSON numbers`
+  );
+};
+
+// A schema can only hold one "pattern", additional ones go to allOf
+const addPattern = (schema: JsonSchemaDocument, pattern: string): void => {
+  if (schema.pattern === undefined) {
+    schema.pattern = pattern;
+    return;
+  }
+  schema.allOf = [...(schema.allOf || []), { pattern }];
+};
+
+const setFormat = (format: string): KeywordMapper => (schema) => {
+  schema.format = format;
+};
+
+const isPlainSchema = (value: unknown): value is JsonSchemaDocument =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof RegExp) &&
+  typeof (value as any).validator !== "function";
+
+/**
+ * Built-in plugin name -> JSON Schema keyword mapping
+ * Plugins not listed here are reported as unsupported
+ */
+const KEYWORD_MAPPERS: Record<string, KeywordMapper> = {
+  // Presence
+  required: (_schema, _params, state) => {
+    state.required = true;
+  },
+  optional: () => {},
+  nullable: (_schema, _params, state) => {
+    state.nullable = true;
+  },
+
+  // String
+  stringMin: (schema, [min]) => {
+    schema.minLength = min;
+  },
+  stringMax: (schema, [max]) => {
+    schema.maxLength = max;
+  },
+  stringExactLength: (schema, [length]) => {
+    schema.minLength = length;
+    schema.maxLength = length;
+  },
+  stringPattern: (schema, [regex], state) => {
+    if (regex instanceof RegExp) {
+      const flags = regex.flags.replace(/[gu]/g, "");
+      if (flags) {
+        reportUnsupported(
+          state,
+          "stringPattern",
+          `RegExp flags "${flags}" cannot be represented in JSON Schema`
+        );
+      }
+      addPattern(schema, regex.source);
+    } else {
+      addPattern(schema, String(regex));
+    }
+  },
+  stringStartsWith: (schema, [prefix]) => {
+    addPattern(schema, `^${escapeRegExp(prefix)}`);
+  },
+  stringEndsWith: (schema, [suffix]) => {
+    addPattern(schema, `${escapeRegExp(suffix)}$`);
+  },
+  stringAlphanumeric: (schema, [allowSpaces]) => {
+    addPattern(schema, allowSpaces ? "^[a-zA-Z0-9\\s]+$" : "^[a-zA-Z0-9]+$");
+  },
+  stringEmail: setFormat("email"),
+  stringUrl: setFormat("uri"),
+  stringUuid: setFormat("uuid"),
+  stringDate: setFormat("date"),
+  stringDatetime: setFormat("date-time"),
+  stringTime: setFormat("time"),
+  stringDuration: setFormat("duration"),
+  stringHostname: setFormat("hostname"),
+  stringIpv4: setFormat("ipv4"),
+  stringIpv6: setFormat("ipv6"),
+  stringIri: setFormat("iri"),
+  stringIriReference: setFormat("iri-reference"),
+  stringJsonPointer: setFormat("json-pointer"),
+  stringRelativeJsonPointer: setFormat("relative-json-pointer"),
+  stringUriTemplate: setFormat("uri-template"),
+  stringBase64: (schema) => {
+    schema.contentEncoding = "base64";
+  },
+  stringContentEncoding: (schema, [encoding]) => {
+    schema.contentEncoding = encoding;
+  },
+  stringContentMediaType: (schema, [mediaType]) => {
+    schema.contentMediaType = mediaType;
+  },
+
+  // Number
+  numberMin: (schema, [min, options]) => {
+    if (options?.exclusive) {
+      schema.exclusiveMinimum = min;
+    } else {
+      schema.minimum = min;
+    }
+  },
+  numberMax: (schema, [max, options]) => {
+    if (options?.exclusive) {
+      schema.exclusiveMaximum = max;
+    } else {
+      schema.maximum = max;
+    }
+  },
+  numberRange: (schema, [min, max]) => {
+    schema.minimum = min;
+    schema.maximum = max;
+  },
+  numberPositive: (schema) => {
+    schema.exclusiveMinimum = 0;
+  },
+  numberNegative: (schema) => {
+    schema.exclusiveMaximum = 0;
+  },
+  numberInteger: (schema) => {
+    schema.type = "integer";
+  },
+  numberMultipleOf: (schema, [divisor]) => {
+    schema.multipleOf = divisor;
+  },
+  // JSON numbers are always finite
+  numberFinite: () => {},
+
+  // Boolean
+  booleanTruthy: (schema) => {
+    schema.const = true;
+  },
+  booleanFalsy: (schema) => {
+    schema.const = false;
+  },
+
+  // Array
+  arrayMinLength: (schema, [min]) => {
+    schema.minItems = min;
+  },
+  arrayMaxLength: (schema, [max]) => {
+    schema.maxItems = max;
+  },
+  arrayUnique: (schema) => {
+    schema.uniqueItems = true;
+  },
+  arrayIncludes: (schema, [element]) => {
+    schema.contains = { const: element };
+  },
+  arrayContains: (schema, [contains], state) => {
+    if (typeof contains !== "object" || contains === null) {
+      schema.contains = { const: contains };
+    } else if (isPlainSchema(contains)) {
+      schema.contains = contains;
+    } else {
+      reportUnsupported(
+        state,
+        "arrayContains",
+        "Function validators cannot be represented in JSON Schema"
+      );
+    }
+  },
+
+  // Object
+  objectMinProperties: (schema, [min]) => {
+    schema.minProperties = min;
+  },
+  objectMaxProperties: (schema, [max]) => {
+    schema.maxProperties = max;
+  },
+  objectAdditionalProperties: (schema, [allowed, options]) => {
+    const additional =
+      typeof allowed === "object" ? allowed : options?.additionalPropertiesSchema;
+    if (allowed === false || options?.strict === true) {
+      schema.additionalProperties = false;
+    } else {
+      schema.additionalProperties = additional || true;
+    }
+    // Explicitly allowed names must stay valid under additionalProperties: false
+    const allowedProperties: string[] = options?.allowedProperties || [];
+    if (allowedProperties.length > 0) {
+      schema.properties = schema.properties || {};
+      for (const name of allowedProperties) {
+        schema.properties[name] = schema.properties[name] || {};
+      }
+    }
+  },
+  objectPropertyNames: (schema, [names], state) => {
+    if (names instanceof RegExp) {
+      schema.propertyNames = { pattern: names.source };
+    } else if (typeof names === "string") {
+      schema.propertyNames = { pattern: names };
+    } else {
+      reportUnsupported(
+        state,
+        "objectPropertyNames",
+        "Function validators cannot be represented in JSON Schema"
+      );
+    }
+  },
+  objectPatternProperties: (_schema, _params, state) => {
+    reportUnsupported(
+      state,
+      "objectPatternProperties",
+      "Function validators cannot be represented in JSON Schema"
+    );
+  },
+  objectDependentRequired: (schema, [dependencies], state) => {
+    if (state.dialect === "2020-12") {
+      schema.dependentRequired = dependencies;
+    } else {
+      schema.dependencies = { ...(schema.dependencies || {}), ...dependencies };
+    }
+  },
+  objectDependentSchemas: (schema, [schemas], state) => {
+    const representable: Record<string, JsonSchemaDocument> = {};
+    for (const [key, dependent] of Object.entries(schemas || {})) {
+      if (isPlainSchema(dependent)) {
+        representable[key] = dependent;
+      } else {
+        reportUnsupported(
+          state,
+          "objectDependentSchemas",
+          `Function validator for "${key}" cannot be represented in JSON Schema`
+        );
+      }
+    }
+    if (Object.keys(representable).length === 0) return;
+    if (state.dialect === "2020-12") {
+      schema.dependentSchemas = representable;
+    } else {
+      schema.dependencies = { ...(schema.dependencies || {}), ...representable };
+    }
+  },
+
+  // Set (array with unique items) and record (object); Maps have no JSON form
+  collectionMinSize: (schema, [min]) => {
+    if (schema.type === "array") schema.minItems = min;
+    if (schema.type === "object") schema.minProperties = min;
+  },
+  collectionMaxSize: (schema, [max]) => {
+    if (schema.type === "array") schema.maxItems = max;
+    if (schema.type === "object") schema.maxProperties = max;
+  },
+  collectionKeys: (schema, [rule], state) => {
+    if (schema.type === "object" && rule) {
+      schema.propertyNames = convertNestedBuilder(rule, state.path, state);
+    }
+  },
+  collectionValues: (schema, [rule], state) => {
+    if (!rule) return;
+    if (schema.type === "array") {
+      schema.items = convertNestedBuilder(rule, `${state.path}[*]`, state);
+    }
+    if (schema.type === "object") {
+      schema.additionalProperties = convertNestedBuilder(
+        rule,
+        `${state.path}.*`,
+        state
+      );
+    }
+  },
+
+  // BigInt (JSON integers); bounds beyond 2^53 have no exact JSON number
+  bigintMin: (schema, [min], state) => {
+    setBigintKeyword(schema, "minimum", min, "bigintMin", state);
+  },
+  bigintMax: (schema, [max], state) => {
+    setBigintKeyword(schema, "maximum", max, "bigintMax", state);
+  },
+  bigintMultipleOf: (schema, [divisor], state) => {
+    setBigintKeyword(schema, "multipleOf", divisor, "bigintMultipleOf", state);
+  },
+
+  // Common
+  literal: (schema, [value]) => {
+    schema.const = value;
+  },
+  oneOf: (schema, [values]) => {
+    schema.enum = [...values];
+  },
+  readOnlyWriteOnly: (schema) => {
+    schema.readOnly = true;
+  },
+  writeOnly: (schema) => {
+    schema.writeOnly = true;
+  },
+
+  // Composable
+  tupleBuilder: (schema, [elements, rest], state) => {
+    const items = (elements || []).map((element: any, index: number) =>
+      convertNestedBuilder(element, `${state.path}[${index}]`, state)
+    );
+    const restSchema = rest
+      ? convertNestedBuilder(rest, `${state.path}[*]`, state)
+      : false;
+    if (state.dialect === "2020-12") {
+      schema.prefixItems = items;
+      schema.items = restSchema;
+    } else {
+      schema.items = items;
+      schema.additionalItems = restSchema;
+    }
+    schema.minItems = items.length;
+    if (!rest) {
+      schema.maxItems = items.length;
+    }
+  },
+  unionGuard: (schema, [branches], state) => {
+    if (!branches) {
+      // No guards defined: nothing is accepted
+      schema.not = {};
+      return;
+    }
+    schema.anyOf = branches.map((branch: any) =>
+      convertNestedBuilder(branch, state.path, state)
+    );
+  },
+};
+
+/**
+ * Extract type and validators from a rule (type builder or FieldRule)
+ */
+const describeRule = (
+  rule: any
+): { type: string | undefined; validators: any[] } => {
+  if (rule && typeof rule._getInternalValidators === "function") {
+    const validators = rule._getInternalValidators().validators || [];
+    return { type: inferTypeFromValidators(validators), validators };
+  }
+  const validators = rule?._validators || [];
+  return {
+    type: rule?._type || inferTypeFromValidators(validators),
+    validators,
+  };
+};
+
+const inferTypeFromValidators = (validators: any[]): string | undefined => {
+  for (const validator of validators) {
+    if (TYPE_CHECKS[validator.name]) return TYPE_CHECKS[validator.name];
+  }
+  return undefined;
+};
+
+const createBaseSchema = (type: string | undefined): JsonSchemaDocument => {
+  switch (type) {
+    case "string":
+    case "number":
+    case "boolean":
+    case "array":
+    case "object":
+    case "null":
+      return { type };
+    case "tuple":
+      return { type: "array" };
+    case "date":
+      // Dates travel as ISO 8601 strings in JSON
+      return { type: "string", format: "date-time" };
+    case "set":
+      return { type: "array", uniqueItems: true };
+    case "record":
+      return { type: "object" };
+    case "bigint":
+      return { type: "integer" };
+    default:
+      // any / union
+      return {};
+  }
+};
+
+const applyNullable = (schema: JsonSchemaDocument): void => {
+  if (typeof schema.type === "string") {
+    if (schema.type !== "null") schema.type = [schema.type, "null"];
+  } else if (Array.isArray(schema.type)) {
+    if (!schema.type.includes("null")) schema.type = [...schema.type, "null"];
+  }
+  if (schema.const !== undefined) {
+    schema.enum = [schema.const, null];
+    delete schema.const;
+  } else if (Array.isArray(schema.enum) && !schema.enum.includes(null)) {
+    schema.enum = [...schema.enum, null];
+  }
+  if (Array.isArray(schema.anyOf)) {
+    schema.anyOf = [...schema.anyOf, { type: "null" }];
+  }
+};
+
+/**
+ * Convert a single rule to a schema, recording presence flags on the state
+ */
+const convertRule = (
+  rule: any,
+  state: ExportState
+): JsonSchemaDocument => {
+  const { type, validators } = describeRule(rule);
+  const schema = createBaseSchema(type);
+  if (type === "map") {
+    reportUnsupported(state, "map", "Map values have no JSON representation");
+  }
+
+  for (const validator of validators) {
+    const pluginName: string = validator.pluginName || validator.name;
+    // WARN/INFO rules never reject a value, so they add no keywords
+    if (TYPE_CHECKS[pluginName] || isSoftValidator(validator)) continue;
+
+    const mapper = KEYWORD_MAPPERS[pluginName];
+    if (!mapper) {
+      reportUnsupported(
+        state,
+        pluginName,
+        "No JSON Schema equivalent for this rule"
+      );
+      continue;
+    }
+    mapper(schema, validator.params || [], state);
+  }
+
+  if (state.nullable) {
+    applyNullable(schema);
+  }
+  return schema;
+};
+
+// Element builders of tuples and union branches share the parent's report
+const convertNestedBuilder = (
+  builder: any,
+  path: string,
+  parent: ExportState
+): JsonSchemaDocument =>
+  convertRule(builder, {
+    path,
+    dialect: parent.dialect,
+    required: false,
+    nullable: false,
+    unsupported: parent.unsupported,
+  });
+
+/**
+ * Merge keywords of source into target, combining nested object structure
+ */
+const mergeSchema = (
+  target: JsonSchemaDocument,
+  source: JsonSchemaDocument
+): JsonSchemaDocument => {
+  for (const [keyword, value] of Object.entries(source)) {
+    if (keyword === "properties" && target.properties) {
+      for (const [name, property] of Object.entries(value)) {
+        target.properties[name] = target.properties[name]
+          ? mergeSchema(target.properties[name], property as JsonSchemaDocument)
+          : property;
+      }
+    } else if (keyword === "required" && Array.isArray(target.required)) {
+      for (const name of value as string[]) {
+        if (!target.required.includes(name)) target.required.push(name);
+      }
+    } else if (
+      keyword === "items" &&
+      isPlainSchema(target.items) &&
+      isPlainSchema(value)
+    ) {
+      mergeSchema(target.items, value);
+    } else {
+      target[keyword] = value;
+    }
+  }
+  return target;
+};
+
+// "items[*].tags[*]" -> [{ name: "items", depth: 1 }, { name: "tags", depth: 1 }]
+const parsePath = (path: string): Array<{ name: string; depth: number }> =>
+  path.split(".").map((segment) => {
+    const match = segment.match(/^(.*?)((?:\[\*\])*)$/);
+    const name = match ? match[1] : segment;
+    const depth = match ? match[2].length / 3 : 0;
+    return { name, depth };
+  });
+
+const ensureObjectNode = (node: JsonSchemaDocument): JsonSchemaDocument => {
+  if (node.type === undefined) node.type = "object";
+  node.properties = node.properties || {};
+  return node;
+};
+
+const ensureArrayItems = (
+  node: JsonSchemaDocument,
+  depth: number
+): JsonSchemaDocument => {
+  let current = node;
+  for (let i = 0; i < depth; i++) {
+    if (current.type === undefined) current.type = "array";
+    if (!isPlainSchema(current.items)) current.items = {};
+    current = current.items;
+  }
+  return current;
+};
+
+/**
+ * Place a field schema at its (possibly nested) path in the root schema
+ */
+const placeFieldSchema = (
+  root: JsonSchemaDocument,
+  path: string,
+  fieldSchema: JsonSchemaDocument,
+  required: boolean
+): void => {
+  const segments = parsePath(path);
+  let node = root;
+
+  for (let i = 0; i < segments.length; i++) {
+    const { name, depth } = segments[i];
+    const isLast = i === segments.length - 1;
+    const parent = ensureObjectNode(node);
+    const property = (parent.properties[name] = parent.properties[name] || {});
+
+    if (isLast) {
+      if (depth > 0) {
+        mergeSchema(ensureArrayItems(property, depth), fieldSchema);
+      } else {
+        parent.properties[name] = mergeSchema(property, fieldSchema);
+      }
+      if (required) {
+        parent.required = parent.required || [];
+        if (!parent.required.includes(name)) parent.required.push(name);
+      }
+      return;
+    }
+
+    node = ensureArrayItems(property, depth);
+  }
+};
+
+const toJsonValue = (value: unknown): unknown =>
+  value instanceof Date ? value.toISOString() : value;
+
+/**
+ * Convert built field definitions to a JSON Schema document
+ * Rules without a JSON Schema equivalent (custom, stitch, ...) are left out
+ * and listed in `unsupported`, or thrown with onUnsupported: "throw"
+ */
+export const convertFieldDefinitionsToJsonSchema = (
+  fieldDefinitions: FieldDefinition[],
+  options: ToJsonSchemaOptions = {}
+): ToJsonSchemaResult => {
+  const dialect = options.dialect || "draft-07";
+  const unsupported: UnsupportedRule[] = [];
+  const root: JsonSchemaDocument = {
+    $schema: SCHEMA_URIS[dialect],
+    ...(options.$id ? { $id: options.$id } : {}),
+    type: "object",
+    properties: {},
+  };
+
+  for (const definition of fieldDefinitions) {
+    const state: ExportState = {
+      path: definition.path,
+      dialect,
+      required: false,
+      nullable: false,
+      unsupported,
+    };
+    const fieldSchema = convertRule(definition.rules?.[0], state);
+
+    const fieldOptions = definition.metadata?.fieldOptions;
+    if (fieldOptions) {
+      if (fieldOptions.description !== undefined) {
+        fieldSchema.description = fieldOptions.description;
+      }
+      if (
+        fieldOptions.default !== undefined &&
+        typeof fieldOptions.default !== "function"
+      ) {
+        fieldSchema.default = toJsonValue(fieldOptions.default);
+      }
+      if (fieldOptions.deprecated && dialect === "2020-12") {
+        fieldSchema.deprecated = true;
+      }
+      if (fieldOptions.metadata && options.metadataPrefix !== undefined) {
+        for (const [key, value] of Object.entries(fieldOptions.metadata)) {
+          fieldSchema[`${options.metadataPrefix}${key}`] = toJsonValue(value);
+        }
+      }
+    }
+
+    placeFieldSchema(root, definition.path, fieldSchema, state.required);
+  }
+
+  if (unsupported.length > 0 && options.onUnsupported === "throw") {
+    const details = unsupported
+      .map((rule) => `${rule.path}: ${rule.plugin}`)
+      .join(", ");
+    throw new Error(`Rules cannot be represented in JSON Schema: ${details}`);
+  }
+
+  return { schema: root, unsupported };
+};
@@ -3,8 +3,32 @@
  * Modular JSON Schema to Luq validator conversion
  */
 
-export { LuqFieldDSL, LuqConstraints, JsonSchemaOptions, ValidationError } from "./types";
-export { resolveRef, resolveSchemaRef, resolveAllRefs } from "./ref-resolver";
+export {
+  LuqFieldDSL,
+  LuqConstraints,
+  JsonSchemaOptions,
+  SchemaLoader,
+  JsonSchemaImportDialect,
+  ModernJsonSchema,
+  ValidationError,
+  JsonSchemaDialect,
+  JsonSchemaDocument,
+  ToJsonSchemaOptions,
+  ToJsonSchemaResult,
+  UnsupportedRule,
+} from "./types";
+export type { InferJsonSchema, InferJsonSchemaObject } from "./infer";
+export {
+  resolveRef,
+  resolveSchemaRef,
+  resolveAllRefs,
+  createRefResolver,
+  hasRefResolver,
+  getSchemaDialect,
+  resolveDynamicRef,
+  RefResolver,
+} from "./ref-resolver";
+export { detectDialect, isModernDialect } from "./dialect";
 export { formatValidators, validateFormat, getSupportedFormats, isFormatSupported } from "./format-validators";
 export { 
   validateValueAgainstSchema, 
@@ -24,5 +48,7 @@ export {
   applyBaseType as getBaseChain
 } from "./dsl-converter";
 
+export { convertFieldDefinitionsToJsonSchema } from "./exporter";
+
 // Re-export the main plugin
 export { jsonSchemaPlugin } from "./plugin";
\ No newline at end of file
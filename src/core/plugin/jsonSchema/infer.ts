@@ -0,0 +1,175 @@
+/**
+ * Static type inference from JSON Schema documents declared `as const`
+ * Schemas whose keywords are widened to string (no `as const`) infer `any`
+ */
+
+// Nesting limit for recursive $refs
+type MaxDepth = 10;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+// Schemas referenced from "#/$defs/...", "#/definitions/..." and
+// (OpenAPI) "#/components/schemas/..."
+type DefsOf<TRoot> = (TRoot extends { $defs: infer D } ? D : {}) &
+  (TRoot extends { definitions: infer D } ? D : {}) &
+  (TRoot extends { components: { schemas: infer D } } ? D : {});
+
+type ResolveRef<TRef, TRoot> = TRef extends "#"
+  ? TRoot
+  : TRef extends
+        | `#/$defs/${infer Name}`
+        | `#/definitions/${infer Name}`
+        | `#/components/schemas/${infer Name}`
+    ? Name extends keyof DefsOf<TRoot>
+      ? DefsOf<TRoot>[Name]
+      : unknown
+    : unknown;
+
+type PrimitiveOf<TType> = TType extends "string"
+  ? string
+  : TType extends "number" | "integer"
+    ? number
+    : TType extends "boolean"
+      ? boolean
+      : TType extends "null"
+        ? null
+        : never;
+
+type InferTuple<
+  TItems extends readonly unknown[],
+  TRoot,
+  TDepth extends unknown[],
+> = {
+  -readonly [K in keyof TItems]: InferSchema<TItems[K], TRoot, TDepth>;
+};
+
+// Tuple elements followed by the items after them (2020-12 items,
+// Draft-07 additionalItems); false closes the tuple
+type InferTupleWithRest<
+  TItems extends readonly unknown[],
+  TRest,
+  TRoot,
+  TDepth extends unknown[],
+> = [TRest] extends [false]
+  ? InferTuple<TItems, TRoot, TDepth>
+  : [
+      ...InferTuple<TItems, TRoot, TDepth>,
+      ...Array<InferSchema<TRest, TRoot, TDepth>>,
+    ];
+
+type InferArray<S, TRoot, TDepth extends unknown[]> = S extends {
+  prefixItems: infer P extends readonly unknown[];
+}
+  ? S extends { items: infer R }
+    ? InferTupleWithRest<P, R, TRoot, TDepth>
+    : InferTuple<P, TRoot, TDepth>
+  : S extends { items: infer I extends readonly unknown[] }
+    ? S extends { additionalItems: infer R }
+      ? InferTupleWithRest<I, R, TRoot, TDepth>
+      : InferTuple<I, TRoot, TDepth>
+    : S extends { items: infer I }
+      ? Array<InferSchema<I, TRoot, TDepth>>
+      : unknown[];
+
+type RequiredKeys<S> = S extends { required: readonly (infer K)[] }
+  ? K & string
+  : never;
+
+type InferObject<S, TRoot, TDepth extends unknown[]> = S extends {
+  properties: infer P;
+}
+  ? Simplify<
+      {
+        -readonly [K in keyof P as K extends RequiredKeys<S>
+          ? K
+          : never]: InferSchema<P[K], TRoot, TDepth>;
+      } & {
+        -readonly [K in keyof P as K extends RequiredKeys<S>
+          ? never
+          : K]?: InferSchema<P[K], TRoot, TDepth>;
+      }
+    >
+  : S extends { additionalProperties: infer A extends object }
+    ? Record<string, InferSchema<A, TRoot, TDepth>>
+    : Record<string, unknown>;
+
+type InferType<
+  TType,
+  S,
+  TRoot,
+  TDepth extends unknown[],
+> = TType extends "array"
+  ? InferArray<S, TRoot, TDepth>
+  : TType extends "object"
+    ? InferObject<S, TRoot, TDepth>
+    : PrimitiveOf<TType>;
+
+type WithNullable<S, T> = S extends { nullable: true } ? T | null : T;
+
+type InferKeywords<S, TRoot, TDepth extends unknown[]> = S extends {
+  $ref: infer R;
+}
+  ? InferSchema<ResolveRef<R, TRoot>, TRoot, [...TDepth, unknown]>
+  : S extends { const: infer C }
+    ? C
+    : S extends { enum: readonly (infer E)[] }
+      ? E
+      : S extends
+            | { anyOf: readonly (infer A)[] }
+            | { oneOf: readonly (infer A)[] }
+        ? InferSchema<A, TRoot, TDepth>
+        : S extends { type: infer T }
+          ? string extends T
+            ? any
+            : T extends readonly (infer Each)[]
+              ? InferType<Each, S, TRoot, TDepth>
+              : InferType<T, S, TRoot, TDepth>
+          : S extends { properties: object }
+            ? InferObject<S, TRoot, TDepth>
+            : unknown;
+
+type InferSchema<
+  S,
+  TRoot,
+  TDepth extends unknown[],
+> = TDepth["length"] extends MaxDepth
+  ? unknown
+  : S extends true
+    ? unknown
+    : S extends false
+      ? never
+      : WithNullable<S, InferKeywords<S, TRoot, TDepth>>;
+
+/**
+ * TypeScript type of the values a JSON Schema accepts
+ *
+ * @example
+ * ```typescript
+ * const schema = {
+ *   type: "object",
+ *   properties: {
+ *     id: { type: "integer" },
+ *     tags: { type: "array", items: { type: "string" } },
+ *     status: { enum: ["draft", "published"] },
+ *   },
+ *   required: ["id"],
+ * } as const;
+ *
+ * type Post = InferJsonSchema<typeof schema>;
+ * // { id: number; tags?: string[]; status?: "draft" | "published" }
+ * ```
+ */
+export type InferJsonSchema<TSchema> = InferSchema<TSchema, TSchema, []>;
+
+/**
+ * Object type validated by fromJsonSchema(): `any` unless the schema
+ * infers an object type
+ */
+export type InferJsonSchemaObject<TSchema> =
+  InferJsonSchema<TSchema> extends infer T
+    ? 0 extends 1 & T
+      ? any
+      : T extends object
+        ? T
+        : any
+    : any;
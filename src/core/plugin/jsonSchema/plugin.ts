@@ -3,13 +3,18 @@ import type { JSONSchema7 } from "json-schema";
 import type {
   BuilderExtensionPlugin,
   FieldBuilder,
+  JsonSchemaExtensionMethod,
 } from "../../builder/plugins/plugin-types";
 import type { IChainableBuilder } from "../../builder/types/types";
 import { JsonSchemaOptions } from "./types";
+import type { InferJsonSchemaObject } from "./infer";
 import {
   convertJsonSchemaToLuqDSL,
   convertDSLToFieldDefinition,
 } from "./dsl-converter";
+import { createRefResolver } from "./ref-resolver";
+import { getEvaluatedProperties } from "./validation-core";
+import { hasOwnProperty } from "../../utils/own-property";
 
 /**
  * @luq-plugin
@@ -33,6 +38,15 @@ import {
  *     required: ['email']
  *   })
  *   .build();
+ *
+ * // $refs to other documents resolve through a registry and/or a loader
+ * Builder()
+ *   .use(jsonSchemaFullFeaturePlugin)
+ *   .fromJsonSchema(
+ *     { properties: { address: { $ref: 'common.json#/definitions/Address' } } },
+ *     { schemas: { 'common.json': commonSchema }, loader: (uri) => loadSchema(uri) }
+ *   )
+ *   .build();
  * ```
  */
 
@@ -42,27 +56,59 @@ import {
 export const jsonSchemaPlugin: BuilderExtensionPlugin<
   "jsonSchema",
   "fromJsonSchema",
-  <TBuilder extends FieldBuilder<any, any, any, any>>(
-    schema: JSONSchema7 | unknown,
-    options?: JsonSchemaOptions
-  ) => TBuilder
+  JsonSchemaExtensionMethod<JsonSchemaOptions>
 > = pluginBuilderExtension({
   name: "jsonSchema",
   methodName: "fromJsonSchema",
   impl: () => {
-    return function <TBuilder extends FieldBuilder<any, any, any, any>>(
-      schema: JSONSchema7 | unknown,
+    return function <TSchema>(
+      schema: TSchema,
       options: JsonSchemaOptions = {}
-    ): TBuilder {
+    ): FieldBuilder<InferJsonSchemaObject<TSchema>, any, any, any> {
+      // Index $ids, $anchors and external documents for $ref resolution
+      if (schema && typeof schema === "object") {
+        createRefResolver(schema as JSONSchema7, options);
+      }
+
       // Convert JSON Schema to DSL
       const dslFields = convertJsonSchemaToLuqDSL(schema, "", schema);
 
       // Start with a FieldBuilder by calling .for() first
-      // We need to infer the type from the schema, but for now use 'any'
+      // The static type comes from InferJsonSchemaObject; fields are untyped here
       let fieldBuilder = this.for();
 
+      // Root object constraints (dependentRequired, additionalProperties, etc.)
+      const rootConstraints = dslFields.find((f) => f.path === "")?.constraints;
+
+      // Fields that become required once one of the listed properties is present
+      const requiredWhenPresent = new Map<string, string[]>();
+      const addRequiredWhenPresent = (prop: string, deps: readonly string[]) => {
+        for (const dep of deps) {
+          requiredWhenPresent.set(dep, [
+            ...(requiredWhenPresent.get(dep) || []),
+            prop,
+          ]);
+        }
+      };
+      for (const [prop, deps] of Object.entries(
+        rootConstraints?.dependentRequired || {}
+      )) {
+        addRequiredWhenPresent(prop, deps);
+      }
+      for (const [prop, dependent] of Object.entries(
+        rootConstraints?.dependentSchemas || {}
+      )) {
+        if (typeof dependent === "object") {
+          addRequiredWhenPresent(prop, dependent.required || []);
+        }
+      }
+      const requiredIfPresent = (chain: any, props: string[]) =>
+        chain.requiredIf((data: any) =>
+          props.some((prop) => data[prop] !== undefined)
+        );
+
       for (const dslField of dslFields) {
-        // Skip root object constraints for now (would need special handling)
+        // Root object constraints are applied to the builder below
         if (dslField.path === "") continue;
 
         // Convert DSL to field definition function
@@ -70,37 +116,64 @@ export const jsonSchemaPlugin: BuilderExtensionPlugin<
           dslField,
           options?.customFormats
         );
+        const props = requiredWhenPresent.get(dslField.path);
+        requiredWhenPresent.delete(dslField.path);
 
-        fieldBuilder = fieldBuilder.v(dslField.path, definition);
+        fieldBuilder = fieldBuilder.v(
+          dslField.path,
+          props
+            ? (b: any) => {
+                // Untyped schemas leave the bare context, which has no rules
+                const chain = definition(b);
+                return requiredIfPresent(
+                  chain.requiredIf ? chain : b.union,
+                  props
+                );
+              }
+            : definition
+        );
       }
 
-      // Handle root-level object constraints (dependentRequired, additionalProperties, etc.)
-      const rootConstraints = dslFields.find((f) => f.path === "");
-      if (rootConstraints) {
-        // Apply root-level validations
-        if (
-          rootConstraints.constraints.additionalProperties === false &&
-          typeof fieldBuilder.strict === "function"
-        ) {
-          // Add strict mode validation
-          fieldBuilder = fieldBuilder.strict();
-        }
+      // Dependencies without a property schema accept any value
+      for (const [dep, props] of requiredWhenPresent) {
+        fieldBuilder = fieldBuilder.v(dep, (b: any) =>
+          requiredIfPresent(b.union, props)
+        );
+      }
 
-        if (rootConstraints.constraints.dependentRequired) {
-          // Add dependent required validation
-          for (const [prop, deps] of Object.entries(
-            rootConstraints.constraints.dependentRequired
-          )) {
-            for (const dep of deps) {
-              fieldBuilder = fieldBuilder.v(dep, (b: any) =>
-                b.requiredIf((data: any) => data[prop] !== undefined)
-              );
-            }
+      // Undeclared keys are rejected unless a pattern matches them
+      // (additionalProperties) or a subschema evaluates them
+      // (unevaluatedProperties: if/then/else, anyOf, oneOf, $ref, ...)
+      const rootSchema = schema as JSONSchema7;
+      if (rootConstraints?.additionalProperties === false) {
+        const patterns = Object.keys(
+          rootConstraints.patternProperties || {}
+        ).map((pattern) => new RegExp(pattern));
+        fieldBuilder = fieldBuilder.unknownKeys(
+          "strict",
+          (key) =>
+            hasOwnProperty(rootSchema.properties || {}, key) ||
+            patterns.some((pattern) => pattern.test(key))
+        );
+      } else if (rootConstraints?.unevaluatedProperties === false) {
+        // Evaluated once per object rather than once per key
+        const evaluated = new WeakMap<object, Set<string>>();
+        fieldBuilder = fieldBuilder.unknownKeys("strict", (key, value) => {
+          let properties = evaluated.get(value);
+          if (!properties) {
+            properties = getEvaluatedProperties(
+              value,
+              rootSchema,
+              options.customFormats,
+              rootSchema
+            );
+            evaluated.set(value, properties);
           }
-        }
+          return properties.has(key);
+        });
       }
 
-      return fieldBuilder as TBuilder;
+      return fieldBuilder;
     };
   },
   extendBuilder: (builder) => {
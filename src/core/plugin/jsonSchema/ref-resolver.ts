@@ -1,39 +1,263 @@
 import type { JSONSchema7 } from "json-schema";
+import type { JsonSchemaImportDialect, JsonSchemaOptions } from "./types";
+import { detectDialect } from "./dialect";
 
 /**
  * Schema reference resolution utilities
  * Pure functions for resolving JSON Schema $ref
  */
 
-export const resolveRef = (
-  ref: string,
-  rootSchema: JSONSchema7,
-  definitions?: Record<string, JSONSchema7>
+/**
+ * Resolves $refs across the root schema and its external documents
+ */
+export interface RefResolver {
+  /** Resolve ref against the base URI of `from` (defaults to the root schema) */
+  resolve(ref: string, from?: JSONSchema7): JSONSchema7;
+  /**
+   * Resolve a $dynamicRef: a target with a matching $dynamicAnchor is replaced
+   * by the outermost resource in dynamicScope that declares the same
+   * $dynamicAnchor
+   */
+  resolveDynamic(
+    ref: string,
+    from: JSONSchema7,
+    dynamicScope: readonly SchemaResource[]
+  ): JSONSchema7;
+  /** Subschema declaring a $dynamicAnchor ("https://example.com/tree#node") */
+  getDynamicAnchor(uri: string): JSONSchema7 | undefined;
+}
+
+/**
+ * Schema resource (document or embedded $id) a subschema belongs to
+ */
+export interface SchemaResource {
+  baseUri: string;
+  dialect: JsonSchemaImportDialect;
+  resolver: RefResolver;
+}
+
+// Base URI of root schemas without $id or baseUri
+const DEFAULT_BASE_URI = "luq:///root.json";
+const DEFAULT_BASE_DIR = "luq:///";
+
+// Keywords whose values are data, not subschemas
+const DATA_KEYWORDS = new Set(["enum", "const", "default", "examples"]);
+
+/**
+ * Base URI, dialect and resolver of every indexed (sub)schema, so $refs found
+ * later during validation resolve against the document they were written in
+ */
+const schemaScopes = new WeakMap<object, SchemaResource>();
+
+/**
+ * Walk a JSON pointer fragment ("/definitions/User") from a document
+ */
+const resolvePointer = (
+  document: JSONSchema7,
+  pointer: string,
+  ref: string
 ): JSONSchema7 => {
-  if (!ref.startsWith('#')) {
-    throw new Error(`External $ref not supported: ${ref}`);
-  }
-  
-  const path = ref.slice(1).split('/');
-  let current: any = rootSchema;
-  
-  for (const segment of path) {
-    if (!segment) continue; // Skip empty segments from leading #/
-    
-    if (segment === 'definitions' || segment === '$defs') {
+  let current: any = document;
+
+  for (const rawSegment of pointer.split('/')) {
+    if (!rawSegment) continue; // Skip empty segments from leading #/
+    const segment = rawSegment.replace(/~1/g, '/').replace(/~0/g, '~');
+
+    // definitions and $defs are interchangeable; the named one wins
+    if (segment === '$defs') {
+      current = current.$defs || current.definitions || {};
+    } else if (segment === 'definitions') {
       current = current.definitions || current.$defs || {};
     } else {
       current = current[segment];
     }
-    
+
     if (current === undefined) {
       throw new Error(`Cannot resolve $ref: ${ref}`);
     }
   }
-  
+
   return current;
 };
 
+/**
+ * Create a resolver for a root schema and its external documents
+ *
+ * Documents are identified by absolute URI: the root's $id (or baseUri),
+ * the keys and $ids of options.schemas, and whatever options.loader returns.
+ * Embedded $ids change the base URI of their subschemas and $anchor
+ * (or a draft-07 "#name" $id) names a subschema. The dialect comes from
+ * options.dialect or the root's $schema; embedded $schemas switch it.
+ */
+export const createRefResolver = (
+  rootSchema: JSONSchema7,
+  options: Pick<
+    JsonSchemaOptions,
+    "schemas" | "loader" | "baseUri" | "dialect"
+  > = {}
+): RefResolver => {
+  const documents = new Map<string, JSONSchema7>();
+  const anchors = new Map<string, JSONSchema7>();
+  const dynamicAnchors = new Map<string, JSONSchema7>();
+  const rootUri = new URL(options.baseUri ?? DEFAULT_BASE_URI, DEFAULT_BASE_URI).href;
+  const rootDialect = options.dialect ?? detectDialect(rootSchema);
+
+  const index = (
+    schema: unknown,
+    baseUri: string,
+    dialect: JsonSchemaImportDialect,
+    seen: Set<object>
+  ): void => {
+    if (!schema || typeof schema !== 'object' || seen.has(schema)) return;
+    seen.add(schema);
+    if (Array.isArray(schema)) {
+      schema.forEach((item) => index(item, baseUri, dialect, seen));
+      return;
+    }
+
+    const node = schema as Record<string, any>;
+    if (node !== rootSchema || !options.dialect) {
+      dialect = detectDialect(node, dialect);
+    }
+    let base = baseUri;
+    if (typeof node.$id === 'string') {
+      const uri = new URL(node.$id, baseUri).href;
+      if (node.$id.startsWith('#')) {
+        anchors.set(uri, node);
+      } else {
+        base = uri.split('#')[0];
+        documents.set(base, node);
+      }
+    }
+    if (typeof node.$anchor === 'string') {
+      anchors.set(`${base}#${node.$anchor}`, node);
+    }
+    if (typeof node.$dynamicAnchor === 'string') {
+      anchors.set(`${base}#${node.$dynamicAnchor}`, node);
+      dynamicAnchors.set(`${base}#${node.$dynamicAnchor}`, node);
+    }
+    schemaScopes.set(node, { baseUri: base, dialect, resolver });
+
+    for (const [keyword, value] of Object.entries(node)) {
+      if (!DATA_KEYWORDS.has(keyword)) index(value, base, dialect, seen);
+    }
+  };
+
+  const addDocument = (uri: string, document: JSONSchema7): void => {
+    documents.set(uri, document);
+    index(document, uri, rootDialect, new Set());
+  };
+
+  const getDocument = (uri: string): JSONSchema7 | undefined => {
+    if (!documents.has(uri) && options.loader) {
+      // Hide the internal default base from loaders
+      const loaded = options.loader(
+        uri.startsWith(DEFAULT_BASE_DIR) ? uri.slice(DEFAULT_BASE_DIR.length) : uri
+      );
+      if (loaded) addDocument(uri, loaded);
+    }
+    return documents.get(uri);
+  };
+
+  const resolver: RefResolver = {
+    resolve: (ref, from = rootSchema) => {
+      const scope = schemaScopes.get(from);
+      const baseUri = scope?.resolver === resolver ? scope.baseUri : rootBaseUri;
+      const [documentUri, rawFragment = ""] = new URL(ref, baseUri).href.split('#');
+      const fragment = decodeURIComponent(rawFragment);
+
+      const document = getDocument(documentUri);
+      if (fragment && !fragment.startsWith('/')) {
+        const anchored = anchors.get(`${documentUri}#${fragment}`);
+        if (anchored) return anchored;
+        throw new Error(`Cannot resolve $ref: ${ref}`);
+      }
+      if (!document) {
+        throw new Error(`Cannot resolve $ref: ${ref}`);
+      }
+      return resolvePointer(document, fragment, ref);
+    },
+    resolveDynamic: (ref, from, dynamicScope) => {
+      const target = resolver.resolve(ref, from);
+      const anchor = ref.split('#')[1];
+      if (!anchor || (target as any).$dynamicAnchor !== anchor) {
+        return target;
+      }
+      for (const resource of dynamicScope) {
+        const dynamicTarget = resource.resolver.getDynamicAnchor(
+          `${resource.baseUri}#${anchor}`
+        );
+        if (dynamicTarget) return dynamicTarget;
+      }
+      return target;
+    },
+    getDynamicAnchor: (uri) => dynamicAnchors.get(uri),
+  };
+
+  addDocument(rootUri, rootSchema);
+  const rootBaseUri = schemaScopes.get(rootSchema)?.baseUri ?? rootUri;
+  for (const [uri, document] of Object.entries(options.schemas ?? {})) {
+    addDocument(new URL(uri, rootBaseUri).href.split('#')[0], document);
+  }
+
+  return resolver;
+};
+
+/**
+ * Whether the schema belongs to a document indexed by createRefResolver
+ */
+export const hasRefResolver = (schema: JSONSchema7): boolean =>
+  schemaScopes.has(schema);
+
+/**
+ * Dialect of an indexed schema, else the one declared by its $schema
+ */
+export const getSchemaDialect = (schema: JSONSchema7): JsonSchemaImportDialect =>
+  schemaScopes.get(schema)?.dialect ?? detectDialect(schema);
+
+/**
+ * Resource of an indexed schema (undefined when not indexed)
+ */
+export const getSchemaResource = (schema: JSONSchema7): SchemaResource | undefined =>
+  schemaScopes.get(schema);
+
+/**
+ * Resolve the $dynamicRef of a schema within the given dynamic scope
+ * (resources being evaluated, outermost first)
+ */
+export const resolveDynamicRef = (
+  schema: JSONSchema7,
+  dynamicScope: readonly SchemaResource[],
+  rootSchema?: JSONSchema7
+): JSONSchema7 => {
+  const ref = (schema as any).$dynamicRef as string;
+  const scope = schemaScopes.get(schema);
+  if (scope) {
+    return scope.resolver.resolveDynamic(ref, schema, dynamicScope);
+  }
+  if (!rootSchema) {
+    throw new Error('Root schema required for $ref resolution');
+  }
+  return resolveRef(ref, rootSchema);
+};
+
+export const resolveRef = (
+  ref: string,
+  rootSchema: JSONSchema7,
+  definitions?: Record<string, JSONSchema7>
+): JSONSchema7 => {
+  const scope = schemaScopes.get(rootSchema);
+  if (scope) {
+    return scope.resolver.resolve(ref, rootSchema);
+  }
+
+  if (!ref.startsWith('#')) {
+    throw new Error(`External $ref not supported: ${ref}`);
+  }
+  
+  return resolvePointer(rootSchema, ref.slice(1), ref);
+};
+
 /**
  * Check if schema has $ref and resolve it
  */
@@ -45,6 +269,12 @@ export const resolveSchemaRef = (
   if (!schema.$ref) {
     return schema;
   }
+
+  // Resolve against the document the $ref was written in
+  const scope = schemaScopes.get(schema);
+  if (scope) {
+    return scope.resolver.resolve(schema.$ref, schema);
+  }
   
   if (!rootSchema) {
     throw new Error('Root schema required for $ref resolution');
@@ -55,6 +285,8 @@ export const resolveSchemaRef = (
 
 /**
  * Recursively resolve all $refs in a schema
+ * A $ref back to a schema being expanded is kept, so recursive schemas
+ * stay finite
  */
 export const resolveAllRefs = (
   schema: JSONSchema7,
@@ -63,10 +295,10 @@ export const resolveAllRefs = (
 ): JSONSchema7 => {
   if (schema.$ref) {
     if (visited.has(schema.$ref)) {
-      throw new Error(`Circular reference detected: ${schema.$ref}`);
+      return schema;
     }
     visited.add(schema.$ref);
-    const resolved = resolveRef(schema.$ref, rootSchema);
+    const resolved = resolveSchemaRef(schema, rootSchema);
     return resolveAllRefs(resolved, rootSchema, visited);
   }
   
@@ -1,4 +1,4 @@
-import type { JSONSchema7 } from "json-schema";
+import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
 
 /**
  * DSL representation for field definitions
@@ -38,6 +38,8 @@ export interface LuqConstraints {
   propertyNames?: JSONSchema7; // Object property names constraint
   patternProperties?: Record<string, any>; // Pattern-based property validation
   dependentRequired?: Record<string, string[]>; // Dependent required fields
+  dependentSchemas?: Record<string, JSONSchema7Definition>; // Schemas applied when a field is present
+  unevaluatedProperties?: boolean | JSONSchema7Definition;
   minProperties?: number;
   maxProperties?: number;
   // Schema composition
@@ -60,12 +62,50 @@ export interface LuqConstraints {
     condition: JSONSchema7;
     parentPath: string;
   };
+  // Schema validated as a whole at runtime (recursive $refs, keywords without a Luq rule)
+  lazySchema?: JSONSchema7;
 }
 
+/**
+ * Synchronous schema loader for external $refs
+ * Receives the document URI without fragment; returns undefined when unknown
+ */
+export type SchemaLoader = (uri: string) => JSONSchema7 | undefined;
+
+/**
+ * JSON Schema dialects understood by fromJsonSchema
+ */
+export type JsonSchemaImportDialect = "draft-07" | "2019-09" | "2020-12";
+
+/**
+ * Draft-07 schema with the 2019-09 / 2020-12 keywords
+ */
+export type ModernJsonSchema = JSONSchema7 & {
+  $anchor?: string;
+  $dynamicRef?: string;
+  $dynamicAnchor?: string;
+  $defs?: Record<string, JSONSchema7Definition>;
+  prefixItems?: JSONSchema7Definition[];
+  minContains?: number;
+  maxContains?: number;
+  dependentRequired?: Record<string, string[]>;
+  dependentSchemas?: Record<string, JSONSchema7Definition>;
+  unevaluatedItems?: JSONSchema7Definition;
+  unevaluatedProperties?: JSONSchema7Definition;
+};
+
 export interface JsonSchemaOptions {
   strictRequired?: boolean;
   allowAdditionalProperties?: boolean;
   customFormats?: Record<string, (value: any) => boolean>;
+  // External documents by URI ("common.json", "https://example.com/address.json")
+  schemas?: Record<string, JSONSchema7>;
+  // Called for external documents missing from schemas; results are cached
+  loader?: SchemaLoader;
+  // Base URI of the root schema when it has no $id
+  baseUri?: string;
+  // Overrides the dialect declared by $schema (Draft-07 when missing)
+  dialect?: JsonSchemaImportDialect;
 }
 
 export interface ValidationError {
@@ -74,4 +114,36 @@ export interface ValidationError {
   code: string;
   value?: any;
   constraint?: any;
-}
\ No newline at end of file
+}
+/**
+ * JSON Schema dialects supported by the exporter
+ */
+export type JsonSchemaDialect = "draft-07" | "2020-12";
+
+/**
+ * Exported JSON Schema document (Draft-07 or 2020-12 keywords)
+ */
+export type JsonSchemaDocument = { [keyword: string]: any };
+
+export interface ToJsonSchemaOptions {
+  dialect?: JsonSchemaDialect; // Defaults to "draft-07"
+  onUnsupported?: "report" | "throw"; // Defaults to "report"
+  $id?: string;
+  // Write FieldOptions.metadata as prefixed keywords ("x-" for OpenAPI);
+  // left out when not set
+  metadataPrefix?: string;
+}
+
+/**
+ * A rule that has no JSON Schema equivalent and was left out of the export
+ */
+export interface UnsupportedRule {
+  path: string;
+  plugin: string;
+  reason: string;
+}
+
+export interface ToJsonSchemaResult {
+  schema: JsonSchemaDocument;
+  unsupported: UnsupportedRule[];
+}
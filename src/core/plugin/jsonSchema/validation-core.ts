@@ -1,6 +1,16 @@
-import type { JSONSchema7 } from "json-schema";
+import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
+import type { ModernJsonSchema } from "./types";
 import { validateFormat } from "./format-validators";
-import { resolveSchemaRef } from "./ref-resolver";
+import {
+  resolveSchemaRef,
+  hasRefResolver,
+  createRefResolver,
+  resolveDynamicRef,
+  getSchemaDialect,
+  getSchemaResource,
+  type SchemaResource,
+} from "./ref-resolver";
+import { detectDialect, isModernDialect } from "./dialect";
 
 /**
  * Core JSON Schema validation functions
@@ -48,6 +58,45 @@ const hasDuplicates = (arr: any[]): boolean => {
   return false;
 };
 
+/**
+ * Validate against a schema or a boolean schema
+ */
+const validateDefinition = (
+  value: any,
+  schema: JSONSchema7Definition,
+  customFormats?: Record<string, (value: string) => boolean>,
+  rootSchema?: JSONSchema7
+): boolean =>
+  typeof schema === 'boolean'
+    ? schema
+    : validateValueAgainstSchema(value, schema, customFormats, rootSchema);
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Schema resources being evaluated, outermost first
+ * (the dynamic scope of $dynamicRef)
+ */
+const dynamicScope: SchemaResource[] = [];
+
+const withinResource = <T>(schema: JSONSchema7, run: () => T): T => {
+  const resource = getSchemaResource(schema);
+  const current = dynamicScope[dynamicScope.length - 1];
+  if (
+    !resource ||
+    (resource.baseUri === current?.baseUri && resource.resolver === current.resolver)
+  ) {
+    return run();
+  }
+  dynamicScope.push(resource);
+  try {
+    return run();
+  } finally {
+    dynamicScope.pop();
+  }
+};
+
 /**
  * Type validation functions
  */
@@ -184,9 +233,20 @@ export const validateArrayConstraints = (
   if (schema.uniqueItems && hasDuplicates(value)) {
     return false;
   }
+
+  // 2020-12: prefixItems validates the leading items, items the rest
+  const dialect = getSchemaDialect(schema);
+  const prefixItems = dialect === "2020-12" ? (schema as ModernJsonSchema).prefixItems : undefined;
+  if (prefixItems) {
+    for (let i = 0; i < Math.min(prefixItems.length, value.length); i++) {
+      if (!validateDefinition(value[i], prefixItems[i], customFormats, rootSchema)) {
+        return false;
+      }
+    }
+  }
   
   // Items validation
-  if (schema.items) {
+  if (schema.items !== undefined) {
     if (Array.isArray(schema.items)) {
       // Tuple validation
       for (let i = 0; i < value.length; i++) {
@@ -206,7 +266,7 @@ export const validateArrayConstraints = (
       }
     } else {
       // Single schema for all items
-      for (const item of value) {
+      for (const item of value.slice(prefixItems?.length ?? 0)) {
         if (typeof schema.items === 'boolean') {
           if (!schema.items) return false;
         } else if (!validateValueAgainstSchema(item, schema.items, customFormats, rootSchema)) {
@@ -216,23 +276,16 @@ export const validateArrayConstraints = (
     }
   }
   
-  // Contains constraint
+  // Contains constraint (minContains/maxContains from 2019-09)
   if (schema.contains !== undefined) {
-    if (typeof schema.contains === 'boolean') {
-      if (!schema.contains) {
-        return false; // false means no items can satisfy
-      }
-      // true means at least one item must exist
-      if (value.length === 0) {
-        return false;
-      }
-    } else {
-      const hasMatchingItem = value.some(item => 
-        validateValueAgainstSchema(item, schema.contains as JSONSchema7, customFormats, rootSchema)
-      );
-      if (!hasMatchingItem) {
-        return false;
-      }
+    const { minContains = 1, maxContains } = isModernDialect(dialect)
+      ? (schema as ModernJsonSchema)
+      : {};
+    const matches = value.filter(item =>
+      validateDefinition(item, schema.contains!, customFormats, rootSchema)
+    ).length;
+    if (matches < minContains || (maxContains !== undefined && matches > maxContains)) {
+      return false;
     }
   }
   
@@ -320,6 +373,21 @@ export const validateObjectConstraints = (
     }
   }
   
+  // 2019-09: dependentRequired / dependentSchemas
+  if (isModernDialect(getSchemaDialect(schema))) {
+    const { dependentRequired = {}, dependentSchemas = {} } = schema as ModernJsonSchema;
+    for (const [propName, dependencies] of Object.entries(dependentRequired)) {
+      if (propName in value && dependencies.some(dependency => !(dependency in value))) {
+        return false;
+      }
+    }
+    for (const [propName, dependentSchema] of Object.entries(dependentSchemas)) {
+      if (propName in value && !validateDefinition(value, dependentSchema, customFormats, rootSchema)) {
+        return false;
+      }
+    }
+  }
+  
   // Property names validation
   if (schema.propertyNames !== undefined) {
     if (typeof schema.propertyNames === 'boolean') {
@@ -340,6 +408,168 @@ export const validateObjectConstraints = (
   return true;
 };
 
+/**
+ * Property names and item indexes evaluated by passing subschemas
+ */
+interface EvaluatedLocations {
+  properties: Set<string>;
+  items: Set<number>;
+}
+
+/**
+ * Collect the locations a valid schema evaluated (unevaluatedProperties/Items)
+ */
+const collectEvaluated = (
+  value: any,
+  definition: JSONSchema7Definition,
+  evaluated: EvaluatedLocations,
+  includeUnevaluated: boolean,
+  customFormats?: Record<string, (value: string) => boolean>,
+  rootSchema?: JSONSchema7
+): void => {
+  if (typeof definition === 'boolean') return;
+  const schema = definition as ModernJsonSchema;
+  const dialect = getSchemaDialect(schema);
+  const passes = (subSchema: JSONSchema7Definition) =>
+    validateDefinition(value, subSchema, customFormats, rootSchema);
+  const collect = (subSchema: JSONSchema7Definition) =>
+    collectEvaluated(value, subSchema, evaluated, true, customFormats, rootSchema);
+
+  withinResource(schema, () => {
+    if (schema.$ref && (rootSchema || hasRefResolver(schema))) {
+      collect(resolveSchemaRef(schema, rootSchema));
+    }
+    if (schema.$dynamicRef) {
+      collect(resolveDynamicRef(schema, dynamicScope, rootSchema));
+    }
+
+    if (Array.isArray(value)) {
+      const isTuple = Array.isArray(schema.items);
+      const prefix = dialect === "2020-12"
+        ? schema.prefixItems
+        : isTuple ? schema.items as JSONSchema7Definition[] : undefined;
+      const rest = !isTuple
+        ? schema.items as JSONSchema7Definition | undefined
+        : dialect === "2020-12" ? undefined : schema.additionalItems;
+      value.forEach((item, index) => {
+        if (
+          (prefix && index < prefix.length) ||
+          (rest !== undefined && index >= (prefix?.length ?? 0)) ||
+          (includeUnevaluated && schema.unevaluatedItems !== undefined) ||
+          (dialect === "2020-12" && schema.contains !== undefined &&
+            validateDefinition(item, schema.contains, customFormats, rootSchema))
+        ) {
+          evaluated.items.add(index);
+        }
+      });
+    } else if (isPlainObject(value)) {
+      const patterns = Object.keys(schema.patternProperties ?? {}).map(pattern => new RegExp(pattern));
+      for (const key of Object.keys(value)) {
+        if (
+          (schema.properties && key in schema.properties) ||
+          patterns.some(pattern => pattern.test(key)) ||
+          schema.additionalProperties !== undefined ||
+          (includeUnevaluated && schema.unevaluatedProperties !== undefined)
+        ) {
+          evaluated.properties.add(key);
+        }
+      }
+      for (const [propName, dependentSchema] of Object.entries(schema.dependentSchemas ?? {})) {
+        if (propName in value) collect(dependentSchema);
+      }
+    }
+
+    schema.allOf?.forEach(collect);
+    [...(schema.anyOf ?? []), ...(schema.oneOf ?? [])].forEach(subSchema => {
+      if (passes(subSchema)) collect(subSchema);
+    });
+    if (schema.if !== undefined) {
+      if (passes(schema.if)) {
+        collect(schema.if);
+        if (schema.then !== undefined) collect(schema.then);
+      } else if (schema.else !== undefined) {
+        collect(schema.else);
+      }
+    }
+  });
+};
+
+/**
+ * Property names of the object that the schema evaluates itself
+ * (properties, patterns, passing subschemas, if/then/else, $ref)
+ */
+export const getEvaluatedProperties = (
+  value: Record<string, any>,
+  schema: JSONSchema7,
+  customFormats?: Record<string, (value: string) => boolean>,
+  rootSchema?: JSONSchema7
+): Set<string> => {
+  const evaluated: EvaluatedLocations = { properties: new Set(), items: new Set() };
+  collectEvaluated(value, schema, evaluated, false, customFormats, rootSchema);
+  return evaluated.properties;
+};
+
+/**
+ * Validate unevaluatedProperties / unevaluatedItems (2019-09)
+ */
+const validateUnevaluated = (
+  value: any,
+  schema: ModernJsonSchema,
+  customFormats?: Record<string, (value: string) => boolean>,
+  rootSchema?: JSONSchema7
+): boolean => {
+  const { unevaluatedItems, unevaluatedProperties } = schema;
+  const checksItems = Array.isArray(value) && unevaluatedItems !== undefined;
+  const checksProperties = isPlainObject(value) && unevaluatedProperties !== undefined;
+  if (!checksItems && !checksProperties) {
+    return true;
+  }
+
+  const evaluated: EvaluatedLocations = { properties: new Set(), items: new Set() };
+  collectEvaluated(value, schema, evaluated, false, customFormats, rootSchema);
+
+  if (checksItems) {
+    return (value as any[]).every((item, index) =>
+      evaluated.items.has(index) ||
+      validateDefinition(item, unevaluatedItems!, customFormats, rootSchema)
+    );
+  }
+  return Object.entries(value).every(([propName, propValue]) =>
+    evaluated.properties.has(propName) ||
+    validateDefinition(propValue, unevaluatedProperties!, customFormats, rootSchema)
+  );
+};
+
+/**
+ * Guard against cyclic data under a recursive $ref: check runs unless the
+ * same object value is already being checked against the same schema
+ * further up, in which case the repeated check is answered with whenCyclic
+ */
+export const createCycleGuard = () => {
+  // Object values being checked, with the schemas they are checked against
+  const inProgress = new WeakMap<object, Set<JSONSchema7>>();
+
+  return <T>(
+    value: unknown,
+    schema: JSONSchema7,
+    whenCyclic: T,
+    check: () => T
+  ): T => {
+    if (typeof value !== 'object' || value === null) return check();
+    let schemas = inProgress.get(value);
+    if (schemas?.has(schema)) return whenCyclic;
+    if (!schemas) inProgress.set(value, (schemas = new Set()));
+    schemas.add(schema);
+    try {
+      return check();
+    } finally {
+      schemas.delete(schema);
+    }
+  };
+};
+
+const withoutCycles = createCycleGuard();
+
 /**
  * Main validation function
  */
@@ -349,9 +579,39 @@ export const validateValueAgainstSchema = (
   customFormats?: Record<string, (value: string) => boolean>,
   rootSchema?: JSONSchema7
 ): boolean => {
+  // Index schemas declaring a 2019-09+ dialect on first use
+  if (schema.$schema && !hasRefResolver(schema) && isModernDialect(detectDialect(schema))) {
+    createRefResolver(schema);
+  }
+  return withoutCycles(value, schema, true, () =>
+    withinResource(schema, () =>
+      validateSchemaKeywords(value, schema, customFormats, rootSchema)
+    )
+  );
+};
+
+const validateSchemaKeywords = (
+  value: any,
+  schema: JSONSchema7,
+  customFormats?: Record<string, (value: string) => boolean>,
+  rootSchema?: JSONSchema7
+): boolean => {
+  const modern = isModernDialect(getSchemaDialect(schema));
+
   // Resolve $ref if present
-  if (schema.$ref && rootSchema) {
-    schema = resolveSchemaRef(schema, rootSchema);
+  if (schema.$ref && (rootSchema || hasRefResolver(schema))) {
+    if (!modern) {
+      schema = resolveSchemaRef(schema, rootSchema);
+    } else if (!validateDefinition(value, resolveSchemaRef(schema, rootSchema), customFormats, rootSchema)) {
+      // 2019-09+: $ref applies next to its sibling keywords
+      return false;
+    }
+  }
+  if (modern && (schema as ModernJsonSchema).$dynamicRef) {
+    const target = resolveDynamicRef(schema, dynamicScope, rootSchema);
+    if (!validateDefinition(value, target, customFormats, rootSchema)) {
+      return false;
+    }
   }
   
   // Handle null/undefined values
@@ -382,6 +642,10 @@ export const validateValueAgainstSchema = (
     }
   }
   
+  if (modern && !validateUnevaluated(value, schema, customFormats, rootSchema)) {
+    return false;
+  }
+  
   // Const validation
   if (schema.const !== undefined) {
     return deepEqual(value, schema.const);
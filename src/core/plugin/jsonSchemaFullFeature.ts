@@ -1,8 +1,7 @@
 import type {
   BuilderExtensionPlugin,
-  FieldBuilder,
+  JsonSchemaExtensionMethod,
 } from "../builder/plugins/plugin-types";
-import type { JSONSchema7 } from "json-schema";
 import { jsonSchemaPlugin } from "./jsonSchema";
 import type { JsonSchemaOptions } from "./jsonSchema/types";
 
@@ -165,10 +164,7 @@ const jsonSchemaRequiredPlugins = [
 export const jsonSchemaFullFeaturePlugin: BuilderExtensionPlugin<
   "jsonSchemaFullFeature",
   "fromJsonSchema",
-  <TBuilder extends FieldBuilder<any, any, any, any>>(
-    schema: JSONSchema7 | unknown,
-    options?: JsonSchemaOptions
-  ) => TBuilder
+  JsonSchemaExtensionMethod<JsonSchemaOptions>
 > = {
   // Inherit all properties from jsonSchemaPlugin
   ...jsonSchemaPlugin,
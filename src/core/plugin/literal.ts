@@ -1,5 +1,6 @@
 import { plugin } from "../builder/plugins/plugin-creator";
 import { ValidationOptions, MessageContext } from "./types";
+import { comparableString } from "./string-normalize-utils";
 import {
   VALID_RESULT,
   INVALID_RESULT,
@@ -78,6 +79,10 @@ export const literalPlugin = plugin({
         if (isExpectedNaN) {
           return typeof value === "number" && isNaN(value);
         }
+        // Strings follow GlobalConfig.caseSensitive
+        if (typeof value === "string" && typeof expectedValue === "string") {
+          return comparableString(value) === comparableString(expectedValue);
+        }
         return value === expectedValue;
       },
       code: code,
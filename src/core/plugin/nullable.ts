@@ -18,6 +18,10 @@ const allTypes = [
   "object",
   "date",
   "union",
+  "map",
+  "set",
+  "record",
+  "bigint",
 ] as const;
 
 /**
@@ -25,7 +29,7 @@ const allTypes = [
  * @name nullable
  * @category standard
  * @description Allows a field to accept null as a valid value
- * @allowedTypes ["string", "number", "boolean", "array", "object", "date", "union"]
+ * @allowedTypes ["string", "number", "boolean", "array", "object", "date", "union", "map", "set", "record", "bigint"]
  * @example
  * ```typescript
  * // Basic usage - field can be null or valid string
@@ -0,0 +1,97 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+import { getNestedResult, withPathPrefix } from "../nested-issues";
+import type { TransformAwareValidator } from "../builder/plugins/plugin-types";
+import type {
+  ValidationError,
+  ValidationOptions as RunOptions,
+} from "../../types";
+
+const ERROR_CODE = "objectSchema";
+
+const supportedTypes = ["object"] as const;
+
+const isObject = (value: unknown): value is object =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * @luq-plugin
+ * @name objectSchema
+ * @category standard
+ * @description Validates an object field with a validator built by another Builder. The nested errors keep their paths below the field and parse() returns the nested validator's transformed output
+ * @allowedTypes ["object"]
+ * @example
+ * ```typescript
+ * const addressValidator = Builder()
+ *   .use(requiredPlugin)
+ *   .for<Address>()
+ *   .v("street", (b) => b.string.required())
+ *   .v("city", (b) => b.string.required())
+ *   .build();
+ *
+ * const userValidator = Builder()
+ *   .use(requiredPlugin)
+ *   .use(objectSchemaPlugin)
+ *   .for<User>()
+ *   .v("address", (b) => b.object.required().schema(addressValidator))
+ *   .build();
+ *
+ * // Errors are reported at "address.city"
+ * userValidator.validate({ address: { street: "Main St" } });
+ * ```
+ * @params
+ * - validator: TransformAwareValidator - Built validator of the nested object
+ * - options?: { code?: string; messageFactory?: (context: MessageContext) => string } - Error shown when the nested errors cannot be reported
+ * @returns Validation function that returns true if the nested validator accepts the object
+ * @customError
+ * - Reports the nested validator's errors with the field path as prefix
+ * @since 0.1.0-alpha
+ */
+export const objectSchemaPlugin = plugin({
+  name: "objectSchema",
+  methodName: "schema",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (
+    validator: TransformAwareValidator<any, any>,
+    options?: ValidationOptions
+  ) => {
+    const code = options?.code || ERROR_CODE;
+    const messageFactory =
+      options?.messageFactory ||
+      ((_ctx: MessageContext) => "Object does not match the schema");
+
+    return {
+      // Non-objects are left to the object type check; the nested result
+      // is shared with getNestedIssues and transformOnParse
+      check: (value: any) =>
+        !isObject(value) || getNestedResult(validator, value).isValid(),
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({ path, value, code }),
+      // Replaces the error above with the nested validator's errors
+      getNestedIssues: (
+        value: unknown,
+        path: string,
+        _rootData: unknown,
+        runOptions?: RunOptions
+      ): ValidationError[] | undefined => {
+        if (!isObject(value)) return undefined;
+        const result = getNestedResult(validator, value);
+        if (result.isValid()) return undefined;
+        const errors =
+          runOptions?.abortEarly === false
+            ? result.errors
+            : result.errors.slice(0, 1);
+        return errors.map((error) => withPathPrefix(error, path));
+      },
+      // parse() returns the nested validator's output
+      transformOnParse: (value: unknown) => {
+        if (!isObject(value)) return value;
+        const result = getNestedResult(validator, value);
+        return result.isValid() ? result.unwrap() : value;
+      },
+      params: [validator, options],
+    };
+  },
+});
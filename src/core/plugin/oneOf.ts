@@ -1,5 +1,7 @@
 import { plugin } from "../builder/plugins/plugin-creator";
 import { ValidationOptions, MessageContext } from "./types";
+import { comparableString } from "./string-normalize-utils";
+import { globalConfig } from "../global-config";
 
 // V8 Optimization: Module-level constants
 
@@ -84,6 +86,16 @@ export const oneOfPlugin = plugin({
         // Let nullable plugin handle null and optional plugin handle undefined
         if (value === null || value === undefined) return true;
 
+        // GlobalConfig.caseSensitive: false compares strings ignoring case
+        if (typeof value === "string" && !globalConfig.caseSensitive) {
+          const compared = comparableString(value);
+          return allowedValues.some(
+            (allowed) =>
+              typeof allowed === "string" &&
+              comparableString(allowed) === compared
+          );
+        }
+
         // Use appropriate lookup method
         const isAllowed = useSet
           ? allowedSet!.has(value)
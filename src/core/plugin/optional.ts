@@ -17,6 +17,10 @@ const allTypes = [
   "object",
   "date",
   "union",
+  "map",
+  "set",
+  "record",
+  "bigint",
 ] as const;
 
 /**
@@ -24,7 +28,7 @@ const allTypes = [
  * @name optional
  * @category standard
  * @description Allows a field to be undefined (but not null or empty string)
- * @allowedTypes ["string", "number", "boolean", "array", "object", "date", "union"]
+ * @allowedTypes ["string", "number", "boolean", "array", "object", "date", "union", "map", "set", "record", "bigint"]
  * @example
  * ```typescript
  * // Basic usage - field can be undefined
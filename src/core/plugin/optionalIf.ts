@@ -27,6 +27,10 @@ const allTypes = [
   "object",
   "date",
   "union",
+  "map",
+  "set",
+  "record",
+  "bigint",
 ] as const;
 
 /**
@@ -34,7 +38,7 @@ const allTypes = [
  * @name optionalIf
  * @category conditional
  * @description Makes a field optional based on a dynamic condition evaluated at validation time, with support for array context validation
- * @allowedTypes ["string", "number", "boolean", "array", "object", "date", "union"]
+ * @allowedTypes ["string", "number", "boolean", "array", "object", "date", "union", "map", "set", "record", "bigint"]
  * @example
  * ```typescript
  * // Basic conditional optional
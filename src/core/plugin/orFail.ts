@@ -25,6 +25,10 @@ const allTypes = [
   "date",
   "union",
   "tuple",
+  "map",
+  "set",
+  "record",
+  "bigint",
 ] as const;
 
 /**
@@ -32,7 +36,7 @@ const allTypes = [
  * @name orFail
  * @category conditional
  * @description Conditionally forces validation to fail with a custom error message
- * @allowedTypes ["string", "number", "boolean", "array", "object", "date", "union", "tuple"]
+ * @allowedTypes ["string", "number", "boolean", "array", "object", "date", "union", "tuple", "map", "set", "record", "bigint"]
  * @example
  * ```typescript
  * // Basic usage - fails when condition is true
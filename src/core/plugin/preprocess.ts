@@ -0,0 +1,62 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import type { FieldPreprocessor } from "../preprocess";
+
+const allTypes = [
+  "string",
+  "number",
+  "boolean",
+  "array",
+  "object",
+  "date",
+  "union",
+  "tuple",
+  "map",
+  "set",
+  "record",
+  "bigint",
+] as const;
+
+/**
+ * @luq-plugin
+ * @name preprocess
+ * @category standard
+ * @description Converts the raw input of a field before the type check and required/optional handling; the rest of the chain receives the output
+ * @allowedTypes ["string", "number", "boolean", "array", "object", "date", "union", "tuple", "map", "set", "record", "bigint"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(preprocessPlugin)
+ *   .use(optionalPlugin)
+ *   .use(numberMinPlugin)
+ *   .for<{ age?: number }>()
+ *   .v("age", (b) =>
+ *     b.number
+ *       .preprocess((v) => (v === "" ? undefined : Number(v)))
+ *       .optional()
+ *       .min(0)
+ *   )
+ *   .build();
+ *
+ * validator.parse({ age: "42" }); // => { age: 42 }
+ * ```
+ * @params
+ * - fn: (value: unknown, context: { path: string; allValues: unknown }) => T - Receives the raw value, returns a value of the field type
+ * @returns Validator that makes validate/parse preprocess the field's input first
+ * @customError
+ * preprocess does not generate errors; the rules after it validate its output.
+ * @since 0.1.0-alpha
+ */
+export const preprocessPlugin = plugin({
+  name: "preprocess",
+  methodName: "preprocess",
+  allowedTypes: allTypes,
+  category: "standard",
+  impl: (fn: FieldPreprocessor) => ({
+    // Runs before validation; see preprocessInput
+    check: () => true,
+    code: "preprocess",
+    preprocess: { preprocessFn: fn },
+    getErrorMessage: () => "",
+    params: [fn],
+  }),
+});
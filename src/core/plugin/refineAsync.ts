@@ -0,0 +1,98 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { ValidationOptions, MessageContext } from "./types";
+import type {
+  AsyncRuleContext,
+  AsyncRuleResult,
+} from "../async.experimental/async-rules";
+
+const DEFAULT_CODE = "ASYNC_VALIDATION_FAILED";
+
+// Types that refineAsync can be applied to
+const supportedTypes = [
+  "string",
+  "number",
+  "boolean",
+  "date",
+  "array",
+  "object",
+  "tuple",
+  "union",
+  "map",
+  "set",
+  "record",
+  "bigint",
+] as const;
+
+/**
+ * @luq-plugin
+ * @name refineAsync
+ * @category standard
+ * @description Asynchronous validation rule, run by validateAsync/parseAsync
+ * @allowedTypes ["string", "number", "boolean", "date", "array", "object", "tuple", "union", "map", "set", "record", "bigint"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(refineAsyncPlugin)
+ *   .for<{ username: string }>()
+ *   .v("username", (b) =>
+ *     b.string.required().refineAsync(
+ *       async (username, { signal }) =>
+ *         !(await users.exists(username, { signal })),
+ *       { code: "USERNAME_TAKEN", timeout: 2000 }
+ *     )
+ *   )
+ *   .build();
+ *
+ * const result = await validator.validateAsync(data, { signal });
+ *
+ * // Data pre-fetched with an async context is available as well
+ * await validator.withAsyncContext(context).validate(data);
+ * ```
+ * @params
+ * - validator: (value, context: { path, allValues, asyncContext, signal }) => Promise<boolean | { valid: boolean; message?: string }> - Async validation function
+ * - options?: { code?: string; timeout?: number; messageFactory?: (context: MessageContext) => string } - Error customization and per-rule timeout in ms
+ * @returns Async validator; the synchronous validate() skips it
+ * @customError
+ * ```typescript
+ * .refineAsync(isAvailable, {
+ *   messageFactory: ({ path, value }) => `${path} "${value}" is already taken`
+ * })
+ * ```
+ */
+export const refineAsyncPlugin = plugin({
+  name: "refineAsync",
+  methodName: "refineAsync",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (
+    validator: (
+      value: any,
+      context: AsyncRuleContext
+    ) => AsyncRuleResult | Promise<AsyncRuleResult>,
+    options?: ValidationOptions & {
+      timeout?: number;
+      messageFactory?: (context: MessageContext) => string;
+    }
+  ) => {
+    const code = options?.code || DEFAULT_CODE;
+    const messageFactory =
+      options?.messageFactory ||
+      ((ctx: MessageContext) => `${ctx.path} is invalid`);
+
+    // Return hoisted validator format
+    return {
+      // The synchronous pipeline always passes; see checkAsync
+      check: () => true,
+      checkAsync: async (value: any, context: AsyncRuleContext) => {
+        const result = await validator(value, context);
+        return typeof result === "boolean" ? { valid: result } : result;
+      },
+      timeout: options?.timeout,
+      code: code,
+      getErrorMessage: (value: any, path: string) =>
+        messageFactory({ path, value, code }),
+      metadata: { severity: "error" as const, async: true },
+      params: [validator, options],
+    };
+  },
+});
@@ -14,6 +14,10 @@ const supportedTypes = [
   "date",
   "union",
   "tuple",
+  "map",
+  "set",
+  "record",
+  "bigint",
 ] as const;
 
 /**
@@ -21,7 +25,7 @@ const supportedTypes = [
  * @name required
  * @category standard
  * @description Validates that a field is required (not null, undefined, or empty string)
- * @allowedTypes ["string", "number", "boolean", "date", "array", "object", "tuple", "union"]
+ * @allowedTypes ["string", "number", "boolean", "date", "array", "object", "tuple", "union", "map", "set", "record", "bigint"]
  * @example
  * ```typescript
  * // Basic usage
@@ -28,6 +28,10 @@ const allTypes = [
   "object",
   "date",
   "union",
+  "map",
+  "set",
+  "record",
+  "bigint",
 ] as const;
 
 /**
@@ -35,7 +39,7 @@ const allTypes = [
  * @name requiredIf
  * @category conditional
  * @description Makes a field required based on a dynamic condition evaluated at validation time, with support for array context validation
- * @allowedTypes ["string", "number", "boolean", "array", "object", "date", "union"]
+ * @allowedTypes ["string", "number", "boolean", "array", "object", "date", "union", "map", "set", "record", "bigint"]
  * @example
  * ```typescript
  * // Basic conditional required
@@ -14,6 +14,10 @@ const allTypes = [
   "object",
   "date",
   "union",
+  "map",
+  "set",
+  "record",
+  "bigint",
 ] as const;
 
 /**
@@ -21,7 +25,7 @@ const allTypes = [
  * @name skip
  * @category conditional
  * @description Completely skips validation for a field based on a dynamic condition
- * @allowedTypes ["string", "number", "boolean", "array", "object", "date", "union"]
+ * @allowedTypes ["string", "number", "boolean", "array", "object", "date", "union", "map", "set", "record", "bigint"]
  * @example
  * ```typescript
  * // Skip validation when not needed
@@ -0,0 +1,47 @@
+/**
+ * Shared helpers for string normalization plugins
+ * Normalizers change the value for the rules declared after them and for
+ * the parsed output; non-string values are passed through unchanged
+ */
+
+import type { ValidatorFormat } from "../builder/plugins/plugin-interfaces";
+import { globalConfig } from "../global-config";
+
+export type StringNormalizer = (value: string) => string;
+
+/**
+ * Validator format of a normalizer (always passes, marks __isNormalize)
+ */
+export function createNormalizer(
+  code: string,
+  normalize: StringNormalizer,
+  params: any[]
+): ValidatorFormat {
+  return {
+    check: () => true,
+    code,
+    getErrorMessage: () => "",
+    params,
+    __isNormalize: true,
+    __transformFn: (value: any) =>
+      typeof value === "string" ? normalize(value) : value,
+  };
+}
+
+/**
+ * Normalizers every string field starts with, from GlobalConfig
+ * (trimStrings: trim). caseSensitive does not change values; see
+ * comparableString
+ */
+export function configuredStringNormalizers(): ValidatorFormat[] {
+  return globalConfig.trimStrings
+    ? [createNormalizer("stringTrim", (v) => v.trim(), [])]
+    : [];
+}
+
+/**
+ * String as the comparison rules see it (oneOf, literal, startsWith,
+ * endsWith, coerce()): lower case when GlobalConfig.caseSensitive is false
+ */
+export const comparableString = (value: string): string =>
+  globalConfig.caseSensitive ? value : value.toLowerCase();
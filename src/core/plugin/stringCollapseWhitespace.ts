@@ -0,0 +1,34 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { createNormalizer } from "./string-normalize-utils";
+import { collapseWhitespace } from "../transform/string/normalize";
+
+const ERROR_CODE = "stringCollapseWhitespace";
+
+const supportedTypes = ["string"] as const;
+
+/**
+ * @luq-plugin
+ * @name stringCollapseWhitespace
+ * @category standard
+ * @description Replaces runs of whitespace with a single space and trims the ends
+ * @allowedTypes ["string"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(stringCollapseWhitespacePlugin)
+ *   .for<FormData>()
+ *   .v("title", (b) => b.string.collapseWhitespace().max(80))
+ *   .build();
+ * ```
+ * @params
+ * None
+ * @returns Normalizer that collapses whitespace
+ * @since 0.1.0-alpha
+ */
+export const stringCollapseWhitespacePlugin = plugin({
+  name: "stringCollapseWhitespace",
+  methodName: "collapseWhitespace",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: () => createNormalizer(ERROR_CODE, collapseWhitespace, []),
+});
@@ -1,5 +1,6 @@
 import { plugin } from "../builder/plugins/plugin-creator";
 import { ValidationOptions, MessageContext } from "./types";
+import { comparableString } from "./string-normalize-utils";
 import {
   VALID_RESULT,
   INVALID_RESULT,
@@ -72,7 +73,7 @@ export const stringEndsWithPlugin = plugin({
         if (typeof value !== "string") return true;
         // Fast path for empty suffix
         if (suffix.length === 0) return true;
-        return value.endsWith(suffix);
+        return comparableString(value).endsWith(comparableString(suffix));
       },
       code: code,
       getErrorMessage: (value: any, path: string) => {
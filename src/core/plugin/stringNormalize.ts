@@ -0,0 +1,38 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { createNormalizer } from "./string-normalize-utils";
+import {
+  createNormalize,
+  type UnicodeNormalizationForm,
+} from "../transform/string/normalize";
+
+const ERROR_CODE = "stringNormalize";
+
+const supportedTypes = ["string"] as const;
+
+/**
+ * @luq-plugin
+ * @name stringNormalize
+ * @category standard
+ * @description Applies Unicode normalization (NFC by default)
+ * @allowedTypes ["string"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(stringNormalizePlugin)
+ *   .for<FormData>()
+ *   .v("name", (b) => b.string.normalize("NFC").max(50))
+ *   .build();
+ * ```
+ * @params
+ * - form?: "NFC" | "NFD" | "NFKC" | "NFKD" - Normalization form (default: "NFC")
+ * @returns Normalizer that normalizes the string
+ * @since 0.1.0-alpha
+ */
+export const stringNormalizePlugin = plugin({
+  name: "stringNormalize",
+  methodName: "normalize",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (form?: UnicodeNormalizationForm) =>
+    createNormalizer(ERROR_CODE, createNormalize(form), [form]),
+});
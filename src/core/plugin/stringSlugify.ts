@@ -0,0 +1,34 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { createNormalizer } from "./string-normalize-utils";
+import { slugify } from "../transform/string/normalize";
+
+const ERROR_CODE = "stringSlugify";
+
+const supportedTypes = ["string"] as const;
+
+/**
+ * @luq-plugin
+ * @name stringSlugify
+ * @category standard
+ * @description Turns the string into a URL slug ("Crème Brûlée!" -> "creme-brulee")
+ * @allowedTypes ["string"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(stringSlugifyPlugin)
+ *   .for<FormData>()
+ *   .v("slug", (b) => b.string.slugify().min(1))
+ *   .build();
+ * ```
+ * @params
+ * None
+ * @returns Normalizer that slugifies the string
+ * @since 0.1.0-alpha
+ */
+export const stringSlugifyPlugin = plugin({
+  name: "stringSlugify",
+  methodName: "slugify",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: () => createNormalizer(ERROR_CODE, slugify, []),
+});
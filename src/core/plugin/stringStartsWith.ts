@@ -1,5 +1,6 @@
 import { plugin } from "../builder/plugins/plugin-creator";
 import { ValidationOptions, MessageContext } from "./types";
+import { comparableString } from "./string-normalize-utils";
 
 // V8 Optimization: Module-level constants
 
@@ -70,7 +71,7 @@ export const stringStartsWithPlugin = plugin({
         if (typeof value !== "string") return true;
         // Fast path for empty prefix
         if (prefix.length === 0) return true;
-        return value.startsWith(prefix);
+        return comparableString(value).startsWith(comparableString(prefix));
       },
       code: code,
 
@@ -0,0 +1,33 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { createNormalizer } from "./string-normalize-utils";
+
+const ERROR_CODE = "stringToLowerCase";
+
+const supportedTypes = ["string"] as const;
+
+/**
+ * @luq-plugin
+ * @name stringToLowerCase
+ * @category standard
+ * @description Converts the string to lower case
+ * @allowedTypes ["string"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(stringToLowerCasePlugin)
+ *   .for<FormData>()
+ *   .v("email", (b) => b.string.toLowerCase().email())
+ *   .build();
+ * ```
+ * @params
+ * None
+ * @returns Normalizer that lower-cases the string
+ * @since 0.1.0-alpha
+ */
+export const stringToLowerCasePlugin = plugin({
+  name: "stringToLowerCase",
+  methodName: "toLowerCase",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: () => createNormalizer(ERROR_CODE, (value) => value.toLowerCase(), []),
+});
@@ -0,0 +1,33 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { createNormalizer } from "./string-normalize-utils";
+
+const ERROR_CODE = "stringToUpperCase";
+
+const supportedTypes = ["string"] as const;
+
+/**
+ * @luq-plugin
+ * @name stringToUpperCase
+ * @category standard
+ * @description Converts the string to upper case
+ * @allowedTypes ["string"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(stringToUpperCasePlugin)
+ *   .for<FormData>()
+ *   .v("countryCode", (b) => b.string.toUpperCase().exactLength(2))
+ *   .build();
+ * ```
+ * @params
+ * None
+ * @returns Normalizer that upper-cases the string
+ * @since 0.1.0-alpha
+ */
+export const stringToUpperCasePlugin = plugin({
+  name: "stringToUpperCase",
+  methodName: "toUpperCase",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: () => createNormalizer(ERROR_CODE, (value) => value.toUpperCase(), []),
+});
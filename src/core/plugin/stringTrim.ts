@@ -0,0 +1,33 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { createNormalizer } from "./string-normalize-utils";
+
+const ERROR_CODE = "stringTrim";
+
+const supportedTypes = ["string"] as const;
+
+/**
+ * @luq-plugin
+ * @name stringTrim
+ * @category standard
+ * @description Removes leading and trailing whitespace; rules declared after it and the parsed value see the trimmed string
+ * @allowedTypes ["string"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(stringTrimPlugin)
+ *   .for<FormData>()
+ *   .v("username", (b) => b.string.trim().min(3))
+ *   .build();
+ * ```
+ * @params
+ * None
+ * @returns Normalizer that trims the string
+ * @since 0.1.0-alpha
+ */
+export const stringTrimPlugin = plugin({
+  name: "stringTrim",
+  methodName: "trim",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: () => createNormalizer(ERROR_CODE, (value) => value.trim(), []),
+});
@@ -0,0 +1,39 @@
+import { plugin } from "../builder/plugins/plugin-creator";
+import { createNormalizer } from "./string-normalize-utils";
+import { createTruncate } from "../transform/string/normalize";
+
+const ERROR_CODE = "stringTruncate";
+
+const supportedTypes = ["string"] as const;
+
+/**
+ * @luq-plugin
+ * @name stringTruncate
+ * @category standard
+ * @description Cuts the string to at most maxLength characters (code points)
+ * @allowedTypes ["string"]
+ * @example
+ * ```typescript
+ * const validator = Builder()
+ *   .use(stringTruncatePlugin)
+ *   .for<FormData>()
+ *   .v("summary", (b) => b.string.truncate(140, { suffix: "…" }))
+ *   .build();
+ * ```
+ * @params
+ * - maxLength: number - Maximum length, suffix included
+ * - options?: { suffix?: string } - Appended when the string is cut
+ * @returns Normalizer that truncates the string
+ * @since 0.1.0-alpha
+ */
+export const stringTruncatePlugin = plugin({
+  name: "stringTruncate",
+  methodName: "truncate",
+  allowedTypes: supportedTypes,
+  category: "standard",
+  impl: (maxLength: number, options?: { suffix?: string }) =>
+    createNormalizer(ERROR_CODE, createTruncate(maxLength, options?.suffix), [
+      maxLength,
+      options,
+    ]),
+});
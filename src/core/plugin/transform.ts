@@ -9,6 +9,10 @@ const allTypes = [
   "object",
   "date",
   "union",
+  "map",
+  "set",
+  "record",
+  "bigint",
 ] as const;
 
 /**
@@ -16,7 +20,7 @@ const allTypes = [
  * @name transform
  * @category transform
  * @description Transforms values after successful validation (type conversion, normalization, computed values)
- * @allowedTypes ["string", "number", "boolean", "array", "object", "date", "union"]
+ * @allowedTypes ["string", "number", "boolean", "array", "object", "date", "union", "map", "set", "record", "bigint"]
  * @example
  * ```typescript
  * // String transformation (lowercase)
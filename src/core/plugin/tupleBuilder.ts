@@ -113,6 +113,31 @@ const TOO_SHORT_ERROR = Object.freeze({
   suffix: "elements, got",
 });
 
+// Run the validators of a built element builder ({ _validators, _transforms })
+const validateElement = (
+  built: any,
+  value: unknown,
+  rootData: unknown
+): { valid: boolean; errors: Array<{ message: string; code: string }> } => {
+  const validators = built._validators || [];
+  const validatorsLength = validators.length;
+  for (let i = 0; i < validatorsLength; i++) {
+    const validator = validators[i];
+    if (!validator.check(value, rootData)) {
+      const message = validator.getErrorMessage
+        ? validator.getErrorMessage(value, "")
+        : validator.messageFactory
+          ? validator.messageFactory({ path: "", value, code: validator.code })
+          : "Validation failed";
+      return {
+        valid: false,
+        errors: [{ message, code: validator.code || validator.name }],
+      };
+    }
+  }
+  return { valid: true, errors: [] };
+};
+
 export const tupleBuilderPlugin = createComposableDirectlyPlugin<
   "tupleBuilder",
   "builder",
@@ -174,6 +199,7 @@ export const tupleBuilderPlugin = createComposableDirectlyPlugin<
 
     // Pre-compute validators for each tuple element
     const elementValidators = new Array(tupleLength);
+    const elementBuilders = new Array(tupleLength);
     for (let i = 0; i < tupleLength; i++) {
       const elementContext = createFieldContext(
         `${fieldPath}[${i}]`,
@@ -181,6 +207,7 @@ export const tupleBuilderPlugin = createComposableDirectlyPlugin<
       );
 
       const elementBuilder = builderFns[i](elementContext as any);
+      elementBuilders[i] = elementBuilder;
 
       if (elementBuilder && typeof elementBuilder.build === "function") {
         elementValidators[i] = elementBuilder.build();
@@ -191,12 +218,13 @@ export const tupleBuilderPlugin = createComposableDirectlyPlugin<
 
     // Pre-compute rest validator if needed
     let restValidator: any = null;
+    let restBuilder: any = null;
     if (restBuilderFn) {
       const restContext = createFieldContext(
         `${fieldPath}[rest]`,
         plugins as any
       );
-      const restBuilder = restBuilderFn(restContext as any);
+      restBuilder = restBuilderFn(restContext as any);
 
       if (restBuilder && typeof restBuilder.build === "function") {
         restValidator = restBuilder.build();
@@ -211,7 +239,7 @@ export const tupleBuilderPlugin = createComposableDirectlyPlugin<
       // Validate each element
       for (let i = 0; i < tupleLength; i++) {
         const validator = elementValidators[i];
-        if (validator && !validator.validate(value[i]).valid) {
+        if (validator && !validateElement(validator, value[i], value).valid) {
           return false;
         }
       }
@@ -227,7 +255,7 @@ export const tupleBuilderPlugin = createComposableDirectlyPlugin<
       // Validate fixed elements
       for (let i = 0; i < tupleLength; i++) {
         const validator = elementValidators[i];
-        if (validator && !validator.validate(value[i]).valid) {
+        if (validator && !validateElement(validator, value[i], value).valid) {
           return false;
         }
       }
@@ -235,7 +263,7 @@ export const tupleBuilderPlugin = createComposableDirectlyPlugin<
       // Validate rest elements if present
       if (restValidator && valueLength > tupleLength) {
         for (let i = tupleLength; i < valueLength; i++) {
-          if (!restValidator.validate(value[i]).valid) {
+          if (!validateElement(restValidator, value[i], value).valid) {
             return false;
           }
         }
@@ -262,6 +290,9 @@ export const tupleBuilderPlugin = createComposableDirectlyPlugin<
       }
     );
 
+    // Keep the element builders so the tuple shape can be exported
+    validator.params = [elementBuilders, restBuilder];
+
     // Custom validate function with detailed error reporting
     const customValidate = (value: unknown) => {
       if (!isArray(value)) {
@@ -321,8 +352,8 @@ export const tupleBuilderPlugin = createComposableDirectlyPlugin<
         if (validator) {
           const elementValue = value[i];
           // Call validate with both value and allValues (parent object)
-          const result = validator.validate(elementValue, value);
-          if (!result.isValid()) {
+          const result = validateElement(validator, elementValue, value);
+          if (!result.valid) {
             // V8 optimization: Pre-compute path
             const elementPath = `${fieldPath}[${i}]`;
             if (result.errors && result.errors.length > 0) {
@@ -347,7 +378,7 @@ export const tupleBuilderPlugin = createComposableDirectlyPlugin<
       // Validate rest elements
       if (restValidator && valueLength > tupleLength) {
         for (let i = tupleLength; i < valueLength; i++) {
-          const result = restValidator.validate(value[i]);
+          const result = validateElement(restValidator, value[i], value);
           if (!result.valid && result.errors) {
             // V8 optimization: Pre-compute path
             const elementPath = `${fieldPath}[${i}]`;
@@ -0,0 +1,178 @@
+/**
+ * @luq-plugin
+ * @name unionDiscriminated
+ * @category composable-directly
+ * @description Validates tagged unions by dispatching on a discriminator field
+ * @allowedTypes ["union"]
+ * @example
+ * ```typescript
+ * type Payment =
+ *   | { kind: "card"; cardNumber: string }
+ *   | { kind: "bank"; iban: string };
+ *
+ * const validator = Builder()
+ *   .use(requiredPlugin)
+ *   .use(stringMinPlugin)
+ *   .use(unionDiscriminatedPlugin)
+ *   .for<{ payment: Payment }>()
+ *   .v("payment", (b) =>
+ *     b.union.discriminated("kind", {
+ *       card: (card) => card.v("cardNumber", (b) => b.string.required().min(12)),
+ *       bank: (bank) => bank.v("iban", (b) => b.string.required()),
+ *     })
+ *   )
+ *   .build();
+ *
+ * // Errors keep the nested path: "payment.cardNumber"
+ * validator.validate({ payment: { kind: "card", cardNumber: "1234" } });
+ * ```
+ * @params
+ * - key: string - Discriminator field present in every branch
+ * - branches: Record<tag, (builder: FieldBuilder<Branch>) => FieldBuilder> - Field builder of each branch, keyed by tag
+ * @returns Composable validation function
+ * @customError
+ * - Reports INVALID_DISCRIMINATOR at `<path>.<key>` listing the allowed tags
+ * - Reports the branch's errors at their nested paths
+ * @since 0.1.0-alpha
+ */
+
+import { createComposableDirectlyPlugin } from "../builder/plugins/composable-directly-plugin";
+import {
+  createValidatorResult,
+  type ComposableValidatorResult,
+} from "../builder/plugins/composable-plugin";
+import { createFieldBuilderImpl } from "../builder/core/field-builder";
+import { translateMessage } from "../i18n/translator";
+import { withPathPrefix } from "../nested-issues";
+import type { ValidationError, ValidationOptions } from "../../types";
+
+export const INVALID_DISCRIMINATOR_CODE = "INVALID_DISCRIMINATOR";
+
+const INVALID_DISCRIMINATOR_KEY = "invalidDiscriminator";
+
+export interface DiscriminatedBranchFunction {
+  (builder: any): any;
+}
+
+// Arguments of discriminated(key, branches)
+type DiscriminatedComposition = [
+  string,
+  Record<string, DiscriminatedBranchFunction>,
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+// Failed branch results of check, read back by getNestedIssues; a field's
+// rule is instantiated once per build stage, so they are kept by signature
+const failures = new WeakMap<object, { signature: string; result: any }>();
+
+/**
+ * Discriminated Union Composable Plugin
+ * Each branch is built once into a validator; the tag selects it in O(1)
+ */
+export const unionDiscriminatedPlugin = createComposableDirectlyPlugin<
+  "unionDiscriminated",
+  "discriminated",
+  readonly ["union"],
+  DiscriminatedComposition
+>(
+  "unionDiscriminated",
+  "discriminated",
+  ["union"] as const,
+  <TPlugins>(
+    compositions: DiscriminatedComposition[],
+    _fieldPath: string,
+    plugins: TPlugins
+  ): ComposableValidatorResult => {
+    // discriminated() is called once; the last call wins
+    const [key, branchFns] = compositions[compositions.length - 1] || [
+      "",
+      {},
+    ];
+
+    const branches = new Map<string, any>();
+    for (const [tag, branchFn] of Object.entries(branchFns)) {
+      const branchBuilder = branchFn(
+        createFieldBuilderImpl(plugins as any, undefined)
+      );
+      branches.set(tag, branchBuilder.build());
+    }
+    const allowed = [...branches.keys()]
+      .map((tag) => JSON.stringify(tag))
+      .join(", ");
+
+    const signature = JSON.stringify([key, ...branches.keys()]);
+
+    const getBranch = (value: Record<string, unknown>) => {
+      const tag = value[key];
+      return typeof tag === "string" || typeof tag === "number"
+        ? branches.get(String(tag))
+        : undefined;
+    };
+
+    const validator = {
+      check: (value: unknown) => {
+        if (!isObject(value)) return false;
+        const branch = getBranch(value);
+        if (!branch) return false;
+        // All errors are kept; getNestedIssues applies abortEarly
+        const result = branch.validate(value, { abortEarly: false });
+        if (result.isValid()) return true;
+        failures.set(value, { signature, result });
+        return false;
+      },
+      name: "unionDiscriminated",
+      code: "unionDiscriminated",
+      getErrorMessage: (value: any) => {
+        if (!isObject(value)) return "Value must be an object";
+        return getBranch(value)
+          ? `Value does not match the "${value[key]}" variant`
+          : `Invalid discriminator value. Expected one of: ${allowed}`;
+      },
+      // Replaces the error above with the branch's errors
+      getNestedIssues: (
+        value: unknown,
+        path: string,
+        _rootData: unknown,
+        options?: ValidationOptions
+      ): ValidationError[] | undefined => {
+        if (!isObject(value)) return undefined;
+
+        const branch = getBranch(value);
+        if (!branch) {
+          const tagPath = `${path}.${key}`;
+          return [
+            {
+              path: tagPath,
+              code: INVALID_DISCRIMINATOR_CODE,
+              message:
+                translateMessage(INVALID_DISCRIMINATOR_KEY, () => ({
+                  path: tagPath,
+                  key,
+                  allowed,
+                })) ?? `Invalid discriminator value. Expected one of: ${allowed}`,
+              paths: () => [tagPath],
+            },
+          ];
+        }
+
+        const failure = failures.get(value);
+        failures.delete(value);
+        const result =
+          failure?.signature === signature
+            ? failure.result
+            : branch.validate(value, { abortEarly: false });
+        if (result.isValid()) return undefined;
+        const errors: ValidationError[] =
+          options?.abortEarly === false
+            ? result.errors
+            : result.errors.slice(0, 1);
+        return errors.map((error) => withPathPrefix(error, path));
+      },
+      params: [key, Object.fromEntries(branches)],
+    };
+
+    return createValidatorResult([validator], []);
+  }
+);
@@ -105,6 +105,7 @@ export const unionGuardPlugin = createComposableConditionalPlugin<
       return {
         condition,
         validators,
+        builder: builderResult,
       };
     });
 
@@ -143,6 +144,8 @@ export const unionGuardPlugin = createComposableConditionalPlugin<
       getErrorMessage: (value: any, path: string) => {
         return "Value does not match any union type guard";
       },
+      // Branch builders, kept so the union can be exported as anyOf
+      params: [guards.map((guard) => guard.builder)],
     };
 
     // Return using helper
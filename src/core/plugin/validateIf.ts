@@ -27,6 +27,10 @@ const allTypes = [
   "object",
   "date",
   "union",
+  "map",
+  "set",
+  "record",
+  "bigint",
 ] as const;
 
 /**
@@ -34,7 +38,7 @@ const allTypes = [
  * @name validateIf
  * @category conditional
  * @description Conditionally applies all validation rules to a field based on a dynamic condition, with support for array context validation
- * @allowedTypes ["string", "number", "boolean", "array", "object", "date", "union"]
+ * @allowedTypes ["string", "number", "boolean", "array", "object", "date", "union", "map", "set", "record", "bigint"]
  * @example
  * ```typescript
  * // Validate URL only when custom endpoint is enabled
@@ -0,0 +1,79 @@
+/**
+ * Input preprocessing
+ * preprocess() steps run before every other rule, type checks and
+ * required/optional included: object-level steps receive the whole input,
+ * field-level steps the value at the field path
+ */
+
+import {
+  collectRuleFields,
+  resolveFieldPaths,
+  setAtPath,
+  type RuleField,
+} from "./utils/rule-fields";
+
+/**
+ * Context given to field-level preprocess functions
+ */
+export interface PreprocessContext {
+  path: string;
+  allValues: unknown;
+}
+
+export type FieldPreprocessor<TOutput = unknown> = (
+  value: unknown,
+  context: PreprocessContext
+) => TOutput;
+
+export type ObjectPreprocessor<TOutput = unknown> = (input: unknown) => TOutput;
+
+export function isPreprocessingValidator(validator: any): boolean {
+  return typeof validator?.preprocess?.preprocessFn === "function";
+}
+
+/**
+ * Collect the fields whose rules include preprocess()
+ */
+export function getPreprocessedFields(
+  definitions: ReadonlyArray<{ path: string; rules?: readonly any[] }>
+): RuleField[] {
+  return collectRuleFields(definitions, isPreprocessingValidator);
+}
+
+/**
+ * Run the object-level steps, then the field-level steps in declaration order
+ * The input is not modified; missing fields are preprocessed too, so a
+ * step can supply a value for them
+ */
+export function preprocessInput(
+  steps: readonly ObjectPreprocessor[],
+  fields: readonly RuleField[],
+  data: unknown
+): unknown {
+  let processed = steps.reduce((input, step) => step(input), data);
+  if (
+    fields.length === 0 ||
+    processed === null ||
+    typeof processed !== "object"
+  ) {
+    return processed;
+  }
+
+  for (const field of fields) {
+    for (const validator of field.validators) {
+      if (!isPreprocessingValidator(validator)) continue;
+
+      for (const [path, value] of resolveFieldPaths(processed, field.path)) {
+        const result = validator.preprocess.preprocessFn(value, {
+          path,
+          allValues: processed,
+        });
+        if (result !== value) {
+          const tokens = path.match(/[^.[\]]+/g) || [];
+          processed = setAtPath(processed, tokens, result);
+        }
+      }
+    }
+  }
+  return processed;
+}
@@ -22,6 +22,13 @@ import {
   applyDefault,
 } from "../builder/types/field-options";
 import { createFieldContext } from "../builder/context/field-context";
+import { runTranslated } from "../i18n/localize";
+import { checkSoftRules, withWarnings } from "../severity";
+import {
+  standardSchemaProps,
+  toStandardResult,
+  type StandardSchemaProps,
+} from "../standard-schema";
 import { Builder, IChainableBuilder } from "../builder/core/builder";
 import type { NestedKeyOf, TypeOfPath } from "../../types/util";
 
@@ -49,6 +56,11 @@ export interface FieldRule<T> {
    */
   getPluginRegistry(): PluginRegistry<any>;
 
+  /**
+   * Standard Schema v1 interface; issues are reported at the value itself
+   */
+  readonly "~standard": StandardSchemaProps<T, T>;
+
   /**
    * Internal: Get validators and transforms for integration
    * @internal
@@ -659,8 +671,34 @@ function createFieldRuleImpl<T, TPlugins = any>(
     getPluginRegistry(): PluginRegistry<any> {
       return registry;
     },
+
+    "~standard": standardSchemaProps<T, T>((value) =>
+      toStandardResult(
+        fieldRule.parse(value, { abortEarly: false }),
+        (errors) => errors.map((error) => ({ message: error.message }))
+      )
+    ),
   };
 
+  // WARN/INFO rules are reported as Result.warnings of a valid value
+  const reportSoftIssues = <TResult>(value: unknown, result: Result<TResult>) => {
+    if (!result.isValid()) return result;
+    const path = normalizedOptions?.name || "field";
+    const { validators } = fieldRule._getInternalValidators!();
+    return withWarnings(result, checkSoftRules(validators, value, path, {}));
+  };
+
+  // Apply the translate option to error messages
+  const { validate, parse } = fieldRule;
+  fieldRule.validate = (value, validateOptions) =>
+    runTranslated(validateOptions?.translate, () =>
+      reportSoftIssues(value, validate(value, validateOptions))
+    );
+  fieldRule.parse = (value, parseOptions) =>
+    runTranslated(parseOptions?.translate, () =>
+      reportSoftIssues(value, parse(value, parseOptions))
+    );
+
   return fieldRule;
 }
 
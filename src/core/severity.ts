@@ -0,0 +1,135 @@
+/**
+ * Rule severity
+ * WARN/INFO rules never fail validation; their check is swapped for a
+ * passing one so abortEarly and the optimized validators only see errors,
+ * and the real check runs afterwards to collect Result.warnings
+ */
+
+import { Result, type ValidationError } from "../types";
+import { SEVERITY, type Severity } from "./plugin/types";
+import {
+  collectRuleFields,
+  resolveFieldPaths,
+  type RuleField,
+} from "./utils/rule-fields";
+
+type SeverityInput = Severity | "error" | "warning" | "info" | undefined;
+
+type CheckFunction = (value: any, rootData: any) => boolean;
+
+const alwaysValid: CheckFunction = () => true;
+
+/**
+ * Map SEVERITY values and composable metadata ("warning"/"info") to SEVERITY
+ */
+export function normalizeSeverity(severity: SeverityInput): Severity {
+  switch (severity) {
+    case SEVERITY.WARN:
+    case "warning":
+      return SEVERITY.WARN;
+    case SEVERITY.INFO:
+    case "info":
+      return SEVERITY.INFO;
+    default:
+      return SEVERITY.ERROR;
+  }
+}
+
+/**
+ * Mark a validator as soft unless its severity is ERROR
+ */
+export function applySeverity<TValidator extends { check: CheckFunction }>(
+  validator: TValidator,
+  severity: SeverityInput
+): TValidator {
+  const level = normalizeSeverity(severity);
+  if (level === SEVERITY.ERROR || isSoftValidator(validator)) {
+    return validator;
+  }
+  return Object.assign(validator, {
+    check: alwaysValid,
+    softCheck: validator.check,
+    severity: level,
+  });
+}
+
+export function isSoftValidator(validator: any): boolean {
+  return typeof validator?.softCheck === "function";
+}
+
+/**
+ * Collect the fields whose rules include WARN/INFO validators
+ */
+export function getSoftRuleFields(
+  definitions: ReadonlyArray<{ path: string; rules?: readonly any[] }>
+): RuleField[] {
+  return collectRuleFields(definitions, isSoftValidator);
+}
+
+/**
+ * Run the soft rules of one value
+ * Soft rules only apply to present values that pass the field's error rules
+ */
+export function checkSoftRules(
+  validators: readonly any[],
+  value: unknown,
+  path: string,
+  rootData: unknown
+): ValidationError[] {
+  if (value === undefined || value === null) return [];
+  if (validators.some((validator) => !validator.check(value, rootData))) {
+    return [];
+  }
+
+  const issues: ValidationError[] = [];
+  for (const validator of validators) {
+    if (!isSoftValidator(validator) || validator.softCheck(value, rootData)) {
+      continue;
+    }
+    const code = validator.code || validator.pluginName || validator.name;
+    issues.push({
+      path,
+      code,
+      message: validator.getErrorMessage
+        ? validator.getErrorMessage(value, path)
+        : validator.messageFactory
+          ? validator.messageFactory({ path, value, code })
+          : "Validation failed",
+      severity: validator.severity,
+      paths: () => [path],
+    });
+  }
+  return issues;
+}
+
+/**
+ * Attach warnings to a result without changing its validity
+ */
+export function withWarnings<T>(
+  result: Result<T>,
+  warnings: ValidationError[]
+): Result<T> {
+  if (warnings.length === 0) return result;
+  return result.isValid()
+    ? Result.ok(result.unwrap(), [...result.warnings, ...warnings])
+    : Result.error<T>(result.errors, [...result.warnings, ...warnings]);
+}
+
+/**
+ * Run the soft rules of every field against data
+ * Independent of abortEarly: all warnings are always reported
+ */
+export function collectSoftIssues(
+  fields: readonly RuleField[],
+  data: unknown
+): ValidationError[] {
+  const issues: ValidationError[] = [];
+  if (data === null || typeof data !== "object") return issues;
+
+  for (const field of fields) {
+    for (const [path, value] of resolveFieldPaths(data, field.path)) {
+      issues.push(...checkSoftRules(field.validators, value, path, data));
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,94 @@
+/**
+ * Standard Schema v1 interop
+ * Built validators and field rules expose "~standard" so libraries that
+ * accept any Standard Schema (form resolvers, tRPC, ...) can use them
+ * https://standardschema.dev
+ */
+
+import type { Result, ValidationError } from "../types";
+
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaProps<Input, Output>;
+}
+
+export interface StandardSchemaProps<Input = unknown, Output = Input> {
+  readonly version: 1;
+  readonly vendor: string;
+  readonly validate: (
+    value: unknown
+  ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+  readonly types?: StandardSchemaTypes<Input, Output> | undefined;
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | StandardSchemaPathSegment>;
+}
+
+export interface StandardSchemaPathSegment {
+  readonly key: PropertyKey;
+}
+
+/**
+ * Type-only slots read by StandardSchemaInput / StandardSchemaOutput
+ */
+export interface StandardSchemaTypes<Input = unknown, Output = Input> {
+  readonly input: Input;
+  readonly output: Output;
+}
+
+export type StandardSchemaInput<TSchema extends StandardSchemaV1> = NonNullable<
+  TSchema["~standard"]["types"]
+>["input"];
+
+export type StandardSchemaOutput<TSchema extends StandardSchemaV1> =
+  NonNullable<TSchema["~standard"]["types"]>["output"];
+
+export const STANDARD_SCHEMA_VENDOR = "luq";
+
+// "items[1].name" -> ["items", 1, "name"]
+const toPathSegments = (path: string): PropertyKey[] =>
+  (path.match(/\[\d+\]|[^.[\]]+/g) || []).map((token) =>
+    token[0] === "[" ? Number(token.slice(1, -1)) : token
+  );
+
+/**
+ * One issue per path of each error (ValidationError.paths())
+ * Errors without a path are reported at the root
+ */
+export function toStandardIssues(
+  errors: readonly ValidationError[]
+): StandardSchemaIssue[] {
+  return errors.flatMap((error) => {
+    const paths = error.paths?.() ?? [error.path];
+    return (paths.length > 0 ? paths : [error.path]).map((path) =>
+      path
+        ? { message: error.message, path: toPathSegments(path) }
+        : { message: error.message }
+    );
+  });
+}
+
+export function toStandardResult<T>(
+  result: Result<T>,
+  issuesOf: (
+    errors: readonly ValidationError[]
+  ) => StandardSchemaIssue[] = toStandardIssues
+): StandardSchemaResult<T> {
+  return result.isValid()
+    ? { value: result.unwrap() }
+    : { issues: issuesOf(result.errors) };
+}
+
+/**
+ * "~standard" property running validate through the given function
+ */
+export function standardSchemaProps<Input, Output>(
+  validate: StandardSchemaProps<Input, Output>["validate"]
+): StandardSchemaProps<Input, Output> {
+  return { version: 1, vendor: STANDARD_SCHEMA_VENDOR, validate };
+}
@@ -2,3 +2,10 @@
 export { sanitize } from "./sanitize";
 export { createReplace, createReplaceAll } from "./replace";
 export { createDefaultValue } from "./defaultValue";
+export {
+  createNormalize,
+  collapseWhitespace,
+  slugify,
+  createTruncate,
+  type UnicodeNormalizationForm,
+} from "./normalize";
@@ -0,0 +1,76 @@
+/**
+ * Unicode normalization forms accepted by String.prototype.normalize
+ */
+export type UnicodeNormalizationForm = "NFC" | "NFD" | "NFKC" | "NFKD";
+
+const NORMALIZATION_FORMS: readonly UnicodeNormalizationForm[] = [
+  "NFC",
+  "NFD",
+  "NFKC",
+  "NFKD",
+];
+
+/**
+ * Creates a Unicode normalization transform function
+ * @param form - The normalization form (default: "NFC")
+ * @returns A function that normalizes the string
+ */
+export function createNormalize(
+  form: UnicodeNormalizationForm = "NFC"
+): (value: string) => string {
+  if (!NORMALIZATION_FORMS.includes(form)) {
+    throw new Error(`Invalid normalization form: ${String(form)}`);
+  }
+  return (value: string): string => value.normalize(form);
+}
+
+/**
+ * Replaces every run of whitespace with a single space and trims the ends
+ * @param value - The string value to collapse
+ * @returns The collapsed string
+ */
+export function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Turns a string into a URL slug: "Crème Brûlée!" -> "creme-brulee"
+ * Accents are removed, other characters than a-z and 0-9 become dashes
+ * @param value - The string value to slugify
+ * @returns The slug
+ */
+export function slugify(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Creates a truncate transform function
+ * Lengths count code points, so surrogate pairs are never split
+ * @param maxLength - The maximum length of the result, suffix included
+ * @param suffix - Appended when the string is cut (e.g. "…")
+ * @returns A function that truncates the string
+ */
+export function createTruncate(
+  maxLength: number,
+  suffix = ""
+): (value: string) => string {
+  if (!Number.isInteger(maxLength) || maxLength < 0) {
+    throw new Error(`Invalid truncate length: ${maxLength}`);
+  }
+  const suffixLength = Array.from(suffix).length;
+  if (suffixLength > maxLength) {
+    throw new Error(
+      `Truncate suffix "${suffix}" is longer than ${maxLength} characters`
+    );
+  }
+  return (value: string): string => {
+    const chars = Array.from(value);
+    if (chars.length <= maxLength) return value;
+    return chars.slice(0, maxLength - suffixLength).join("") + suffix;
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Unknown-key policy
+ * Objects with declared fields below them can drop (strip), keep
+ * (passthrough) or reject (strict) keys that no field declares.
+ * The policy is set per builder and overridden per field with the
+ * unknownKeys field option; it applies to the nested objects below
+ */
+
+import { Result, type ValidationError } from "../types";
+import { translateMessage } from "./i18n/translator";
+
+export type UnknownKeyPolicy = "strip" | "passthrough" | "strict";
+
+export const UNRECOGNIZED_KEY_CODE = "UNRECOGNIZED_KEY";
+
+const UNRECOGNIZED_KEY_KEY = "unrecognizedKey";
+
+/**
+ * Declared structure of the validated object
+ * Nodes without keys or items are declared values left as they are
+ */
+export interface ShapeNode {
+  keys: Map<string, ShapeNode>;
+  items?: ShapeNode;
+  policy?: UnknownKeyPolicy;
+  /** Accepts keys of this object that no field declares */
+  allowKey?: UnknownKeyPredicate;
+}
+
+/**
+ * Whether an undeclared key of the object is still known
+ */
+export type UnknownKeyPredicate = (
+  key: string,
+  value: Record<string, unknown>
+) => boolean;
+
+const createNode = (): ShapeNode => ({ keys: new Map() });
+
+/**
+ * Build the shape from the field paths ("items[*].sku") and their policies
+ */
+export function buildShape(
+  definitions: ReadonlyArray<{
+    path: string;
+    metadata?: { fieldOptions?: { unknownKeys?: UnknownKeyPolicy } };
+  }>,
+  policy: UnknownKeyPolicy,
+  allowKey?: UnknownKeyPredicate
+): ShapeNode {
+  const root: ShapeNode = { ...createNode(), policy, allowKey };
+  for (const definition of definitions) {
+    let node = root;
+    for (const token of definition.path.match(/\[\*\]|[^.[\]]+/g) || []) {
+      if (token === "[*]") {
+        node = node.items ||= createNode();
+      } else {
+        let child = node.keys.get(token);
+        if (!child) {
+          child = createNode();
+          node.keys.set(token, child);
+        }
+        node = child;
+      }
+    }
+    const fieldPolicy = definition.metadata?.fieldOptions?.unknownKeys;
+    if (fieldPolicy) {
+      node.policy = fieldPolicy;
+    }
+  }
+  return root;
+}
+
+/**
+ * Whether any object in the shape strips or rejects unknown keys
+ */
+export function hasKeyRestrictions(node: ShapeNode): boolean {
+  if (node.policy && node.policy !== "passthrough") return true;
+  if (node.items && hasKeyRestrictions(node.items)) return true;
+  for (const child of node.keys.values()) {
+    if (hasKeyRestrictions(child)) return true;
+  }
+  return false;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  !(value instanceof Date);
+
+const joinPath = (path: string, key: string): string =>
+  path ? `${path}.${key}` : key;
+
+const walk = (
+  node: ShapeNode,
+  value: unknown,
+  path: string,
+  inherited: UnknownKeyPolicy,
+  visit: (
+    node: ShapeNode,
+    value: Record<string, unknown>,
+    path: string,
+    policy: UnknownKeyPolicy
+  ) => void
+): void => {
+  const policy = node.policy || inherited;
+  if (node.items && Array.isArray(value)) {
+    value.forEach((item, index) =>
+      walk(node.items!, item, `${path}[${index}]`, policy, visit)
+    );
+    return;
+  }
+  if ((node.keys.size === 0 && !node.allowKey) || !isPlainObject(value)) {
+    return;
+  }
+
+  visit(node, value, path, policy);
+  for (const [key, child] of node.keys) {
+    walk(child, value[key], joinPath(path, key), policy, visit);
+  }
+};
+
+/**
+ * Errors for the undeclared keys of strict objects
+ */
+export function collectUnknownKeyIssues(
+  shape: ShapeNode,
+  data: unknown
+): ValidationError[] {
+  const issues: ValidationError[] = [];
+  walk(shape, data, "", "passthrough", (node, value, path, policy) => {
+    if (policy !== "strict") return;
+    for (const key of Object.keys(value)) {
+      if (node.keys.has(key) || node.allowKey?.(key, value)) continue;
+      const keyPath = joinPath(path, key);
+      issues.push({
+        path: keyPath,
+        code: UNRECOGNIZED_KEY_CODE,
+        message:
+          translateMessage(UNRECOGNIZED_KEY_KEY, () => ({
+            path: keyPath,
+            key,
+          })) ?? `Unrecognized key "${key}"`,
+        paths: () => [keyPath],
+      });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Copy of data without the undeclared keys of strip objects
+ */
+export function stripUnknownKeys<T>(
+  shape: ShapeNode,
+  data: T,
+  inherited: UnknownKeyPolicy = "passthrough"
+): T {
+  const policy = shape.policy || inherited;
+  if (shape.items && Array.isArray(data)) {
+    return data.map((item) =>
+      stripUnknownKeys(shape.items!, item, policy)
+    ) as T;
+  }
+  if ((shape.keys.size === 0 && !shape.allowKey) || !isPlainObject(data)) {
+    return data;
+  }
+
+  const copy: Record<string, unknown> =
+    policy === "strip" ? {} : { ...data };
+  if (policy === "strip" && shape.allowKey) {
+    for (const key of Object.keys(data)) {
+      if (shape.allowKey(key, data)) copy[key] = data[key];
+    }
+  }
+  for (const [key, child] of shape.keys) {
+    if (key in data) {
+      copy[key] = stripUnknownKeys(child, data[key], policy);
+    }
+  }
+  return copy as T;
+}
+
+/**
+ * Report unknown keys of strict objects after the other errors
+ */
+export function withUnknownKeyIssues<T>(
+  result: Result<T>,
+  issues: ValidationError[],
+  options?: { abortEarly?: boolean }
+): Result<T> {
+  if (issues.length === 0) return result;
+
+  const errors = [...(result.isValid() ? [] : result.errors), ...issues];
+  return Result.error<T>(
+    options?.abortEarly === false ? errors : errors.slice(0, 1),
+    result.warnings
+  );
+}
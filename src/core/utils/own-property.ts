@@ -0,0 +1,27 @@
+/**
+ * Own properties of objects keyed by user data (field paths, error keys)
+ * Inherited names such as "constructor" or "__proto__" are plain keys here
+ */
+
+export const hasOwnProperty = (target: object, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(target, key);
+
+/**
+ * Own value of target[key], set to create() on first use
+ */
+export function getOrSetOwn<T>(
+  target: Record<string, T>,
+  key: string,
+  create: () => T
+): T {
+  if (!hasOwnProperty(target, key)) {
+    // defineProperty keeps "__proto__" an ordinary key
+    Object.defineProperty(target, key, {
+      value: create(),
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+  }
+  return target[key];
+}
@@ -0,0 +1,87 @@
+/**
+ * Helpers for rules that run outside the optimized validators
+ * (WARN/INFO rules, async rules, coercion, preprocessing)
+ */
+
+/**
+ * A field path and the validators of its rules
+ */
+export interface RuleField {
+  path: string;
+  validators: any[];
+}
+
+/**
+ * Validators of a field rule (type builder, composer or FieldRule)
+ */
+export const getRuleValidators = (rule: any): any[] => {
+  if (rule && typeof rule._getInternalValidators === "function") {
+    return rule._getInternalValidators().validators || [];
+  }
+  if (rule && !rule._validators && typeof rule.build === "function") {
+    return rule.build()?._validators || [];
+  }
+  return rule?._validators || [];
+};
+
+/**
+ * Collect the fields that have at least one validator matching predicate
+ */
+export function collectRuleFields(
+  definitions: ReadonlyArray<{ path: string; rules?: readonly any[] }>,
+  predicate: (validator: any) => boolean
+): RuleField[] {
+  const fields: RuleField[] = [];
+  for (const definition of definitions) {
+    const validators = (definition.rules || []).flatMap(getRuleValidators);
+    if (validators.some(predicate)) {
+      fields.push({ path: definition.path, validators });
+    }
+  }
+  return fields;
+}
+
+/**
+ * Resolve a field path ("items[*].sku") to the concrete paths in data
+ */
+export function resolveFieldPaths(
+  data: unknown,
+  path: string
+): Array<[string, unknown]> {
+  let entries: Array<[string, unknown]> = [["", data]];
+  for (const token of path.match(/\[\*\]|[^.[\]]+/g) || []) {
+    const next: Array<[string, unknown]> = [];
+    for (const [currentPath, value] of entries) {
+      if (token === "[*]") {
+        if (!Array.isArray(value)) continue;
+        value.forEach((item, index) =>
+          next.push([`${currentPath}[${index}]`, item])
+        );
+      } else {
+        next.push([
+          currentPath ? `${currentPath}.${token}` : token,
+          value !== null && typeof value === "object"
+            ? (value as Record<string, unknown>)[token]
+            : undefined,
+        ]);
+      }
+    }
+    entries = next;
+  }
+  return entries;
+}
+
+/**
+ * Copy the containers along a tokenized path and set the value at its end
+ */
+export function setAtPath(
+  target: any,
+  tokens: readonly string[],
+  value: unknown
+): unknown {
+  if (tokens.length === 0) return value;
+  const [token, ...rest] = tokens;
+  const copy = Array.isArray(target) ? [...target] : { ...target };
+  copy[token] = setAtPath(target?.[token], rest, value);
+  return copy;
+}
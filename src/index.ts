@@ -25,8 +25,12 @@ export {
 export {
   type FieldBuilder,
   type TransformAwareValidator,
+  type BuiltValidator,
   type ApplyFieldTransforms,
   type ExtractFieldType,
+  type ApplyUnknownKeyPolicy,
+  type DeepPartial,
+  type DeepRequired,
   type TypedPlugin,
   type PluginType,
   type PluginCategory,
@@ -42,7 +46,8 @@ export { ValidationResult } from "./core/builder/plugins/plugin-types";
 export {
   type ValidationOptions,
   type MessageContext,
-  type SEVERITY,
+  SEVERITY,
+  type Severity,
 } from "./core/plugin/types";
 
 // Export plugin interfaces
@@ -108,6 +113,15 @@ export { stringContentEncodingPlugin } from "./core/plugin/stringContentEncoding
 export { stringContentMediaTypePlugin } from "./core/plugin/stringContentMediaType";
 export { uuidPlugin } from "./core/plugin/uuid";
 
+// String normalization plugins
+export { stringTrimPlugin } from "./core/plugin/stringTrim";
+export { stringToLowerCasePlugin } from "./core/plugin/stringToLowerCase";
+export { stringToUpperCasePlugin } from "./core/plugin/stringToUpperCase";
+export { stringNormalizePlugin } from "./core/plugin/stringNormalize";
+export { stringCollapseWhitespacePlugin } from "./core/plugin/stringCollapseWhitespace";
+export { stringSlugifyPlugin } from "./core/plugin/stringSlugify";
+export { stringTruncatePlugin } from "./core/plugin/stringTruncate";
+
 // Number validation plugins
 export { numberMinPlugin } from "./core/plugin/numberMin";
 export { numberMaxPlugin } from "./core/plugin/numberMax";
@@ -120,12 +134,26 @@ export { numberMultipleOfPlugin } from "./core/plugin/numberMultipleOf";
 export { booleanTruthyPlugin } from "./core/plugin/booleanTruthy";
 export { booleanFalsyPlugin } from "./core/plugin/booleanFalsy";
 
+// Date validation plugins
+export { dateMinPlugin } from "./core/plugin/dateMin";
+export { dateMaxPlugin } from "./core/plugin/dateMax";
+export { dateAfterPlugin } from "./core/plugin/dateAfter";
+export { dateBeforePlugin } from "./core/plugin/dateBefore";
+export { datePastPlugin } from "./core/plugin/datePast";
+export { dateFuturePlugin } from "./core/plugin/dateFuture";
+export { dateWithinLastPlugin } from "./core/plugin/dateWithinLast";
+export { dateWithinNextPlugin } from "./core/plugin/dateWithinNext";
+export { dateWeekdayPlugin } from "./core/plugin/dateWeekday";
+export { dateBusinessDayPlugin } from "./core/plugin/dateBusinessDay";
+export type { DateInput, DateDuration } from "./core/plugin/date-utils";
+
 // Array validation plugins
 export { arrayMinLengthPlugin } from "./core/plugin/arrayMinLength";
 export { arrayMaxLengthPlugin } from "./core/plugin/arrayMaxLength";
 export { arrayUniquePlugin } from "./core/plugin/arrayUnique";
 export { arrayIncludesPlugin } from "./core/plugin/arrayIncludes";
 export { arrayContainsPlugin } from "./core/plugin/arrayContains";
+export { arrayItemsPlugin } from "./core/plugin/arrayItems";
 
 // Object validation plugins
 export { objectPlugin } from "./core/plugin/object";
@@ -136,6 +164,18 @@ export { objectPropertyNamesPlugin } from "./core/plugin/objectPropertyNames";
 export { objectPatternPropertiesPlugin } from "./core/plugin/objectPatternProperties";
 export { objectDependentRequiredPlugin } from "./core/plugin/objectDependentRequired";
 export { objectDependentSchemasPlugin } from "./core/plugin/objectDependentSchemas";
+export { objectSchemaPlugin } from "./core/plugin/objectSchema";
+
+// BigInt validation plugins
+export { bigintMinPlugin } from "./core/plugin/bigintMin";
+export { bigintMaxPlugin } from "./core/plugin/bigintMax";
+export { bigintMultipleOfPlugin } from "./core/plugin/bigintMultipleOf";
+
+// Map, Set and record validation plugins
+export { collectionMinSizePlugin } from "./core/plugin/collectionMinSize";
+export { collectionMaxSizePlugin } from "./core/plugin/collectionMaxSize";
+export { collectionKeysPlugin } from "./core/plugin/collectionKeys";
+export { collectionValuesPlugin } from "./core/plugin/collectionValues";
 
 // Value validation plugins
 export { oneOfPlugin } from "./core/plugin/oneOf";
@@ -151,14 +191,165 @@ export { skipPlugin } from "./core/plugin/skip";
 
 // Transform plugin
 export { transformPlugin } from "./core/plugin/transform";
+export { coercePlugin } from "./core/plugin/coerce";
+export { COERCION_FAILED_CODE } from "./core/coercion";
+export { preprocessPlugin } from "./core/plugin/preprocess";
+export type {
+  PreprocessContext,
+  FieldPreprocessor,
+  ObjectPreprocessor,
+} from "./core/preprocess";
 
 // Tuple plugin
 export { tupleBuilderPlugin } from "./core/plugin/tupleBuilder";
 
+// Union plugin
+export { unionGuardPlugin } from "./core/plugin/unionGuard";
+export {
+  unionDiscriminatedPlugin,
+  INVALID_DISCRIMINATOR_CODE,
+} from "./core/plugin/unionDiscriminated";
+
 // Context plugins
 export { readOnlyWriteOnlyPlugin } from "./core/plugin/readOnlyWriteOnly";
 export { customPlugin } from "./core/plugin/custom";
+export { refineAsyncPlugin } from "./core/plugin/refineAsync";
+
+// Async rules (validateAsync / parseAsync)
+export {
+  ASYNC_TIMEOUT_CODE,
+  type AsyncValidationOptions,
+  type AsyncRuleContext,
+  type AsyncRuleResult,
+} from "./core/async.experimental/async-rules";
+
+// Unknown-key policy (FieldBuilder.unknownKeys / unknownKeys field option)
+export {
+  UNRECOGNIZED_KEY_CODE,
+  type UnknownKeyPolicy,
+  type UnknownKeyPredicate,
+} from "./core/unknown-keys";
+
+// Lazy validators for recursive schemas
+export { lazy, CIRCULAR_REFERENCE_CODE } from "./core/lazy";
+
+// Standard Schema v1 interop ("~standard" on built validators and field rules)
+export {
+  toStandardIssues,
+  STANDARD_SCHEMA_VENDOR,
+  type StandardSchemaV1,
+  type StandardSchemaProps,
+  type StandardSchemaResult,
+  type StandardSchemaIssue,
+  type StandardSchemaPathSegment,
+  type StandardSchemaInput,
+  type StandardSchemaOutput,
+} from "./core/standard-schema";
+
+// Error formatting for forms and HTTP APIs
+export {
+  flattenErrors,
+  treeifyErrors,
+  toProblemDetails,
+  toJsonApiErrors,
+  toJsonPointer,
+  type ErrorSource,
+  type FlattenedErrors,
+  type ErrorTree,
+  type ProblemDetails,
+  type ProblemDetailsOptions,
+  type JsonApiErrorDocument,
+  type JsonApiErrorOptions,
+} from "./core/error-format";
+
+// Form library adapters (react-hook-form, Formik, VeeValidate, TanStack Form)
+export {
+  reactHookFormResolver,
+  formikValidate,
+  veeValidateSchema,
+  tanstackFormValidator,
+  type FormAdapterOptions,
+  type ReactHookFormResolver,
+  type ReactHookFormResolverResult,
+  type ReactHookFormFieldError,
+  type FormikValidate,
+  type VeeValidateTypedSchema,
+  type TanStackFormValidator,
+} from "./core/form-adapters";
+
+// HTTP request validation middleware (Express, Fastify, Koa, Hono)
+export {
+  validateRequest,
+  expressValidator,
+  fastifyValidator,
+  koaValidator,
+  honoValidator,
+  type RequestPart,
+  type RequestValidators,
+  type RequestValidationOptions,
+  type ValidatedParts,
+  type ValidatedRequest,
+} from "./core/http-middleware";
+
+// OpenAPI 3.1 documents from validators and route definitions, and
+// per-operation validators from imported OpenAPI documents
+export {
+  createOpenApiRegistry,
+  importOpenApi,
+  type OpenApiRegistry,
+  type OpenApiImportOptions,
+  type ImportedOperation,
+  type ImportedOperations,
+  type HttpMethod,
+  type SchemaSource,
+  type OpenApiInfo,
+  type OpenApiDocument,
+  type OpenApiDocumentOptions,
+  type OpenApiDocumentResult,
+  type OpenApiOperationDefinition,
+  type OpenApiParameter,
+  type OpenApiResponseDefinition,
+  type OpenApiUnsupportedRule,
+} from "./core/openapi";
+
+// Cross-field dependencies behind validator.validateAt()
+export {
+  buildDependencyGraph,
+  getAffectedFields,
+  scanFieldReads,
+  type DependencyGraph,
+} from "./core/field-dependencies";
+
+// i18n: message catalogs and translation
+export {
+  registerMessageCatalog,
+  getMessageCatalog,
+  createTranslator,
+  interpolateMessage,
+  enMessages,
+  jaMessages,
+  deMessages,
+  type MessageCatalog,
+  type TranslateFunction,
+  type TranslatorOptions,
+} from "./core/i18n";
 
 // JSON Schema plugins
 export { jsonSchemaPlugin } from "./core/plugin/jsonSchema";
+export {
+  convertFieldDefinitionsToJsonSchema,
+  createRefResolver,
+  detectDialect,
+  type RefResolver,
+  type JsonSchemaOptions,
+  type JsonSchemaImportDialect,
+  type SchemaLoader,
+  type JsonSchemaDialect,
+  type JsonSchemaDocument,
+  type ToJsonSchemaOptions,
+  type ToJsonSchemaResult,
+  type UnsupportedRule,
+  type InferJsonSchema,
+  type InferJsonSchemaObject,
+} from "./core/plugin/jsonSchema";
 export { jsonSchemaFullFeaturePlugin } from "./core/plugin/jsonSchemaFullFeature";
\ No newline at end of file
@@ -26,6 +26,8 @@ export type ValidationError = {
   path: string;
   message: string;
   code: string;
+  /** Set on issues reported by WARN/INFO rules (see Result.warnings) */
+  severity?: Severity | string;
   paths(): string[];
 };
 
@@ -33,7 +35,7 @@ export type ValidationError = {
  * Message factory type - used in reporter.ts and plugin/types.ts
  * Import from plugin/types for consistent definition
  */
-import type { MessageFactory } from "../core/plugin/types";
+import type { MessageFactory, Severity } from "../core/plugin/types";
 export type { MessageFactory };
 
 /**
@@ -126,6 +126,11 @@ export function createIndexedResult<T>(state: IndexedValidState<T>): Result<T> {
       return generateErrors();
     },
 
+    // Index-based results never carry WARN/INFO issues
+    get warnings(): ValidationError[] {
+      return [];
+    },
+
     get valid(): boolean {
       return state.errorIndex === -1;
     },
@@ -138,11 +143,13 @@ export function createIndexedResult<T>(state: IndexedValidState<T>): Result<T> {
       valid: boolean;
       data?: T;
       errors: ValidationError[];
+      warnings: ValidationError[];
     } {
       return {
         valid: state.errorIndex === -1,
         data: state.data,
         errors: generateErrors(),
+        warnings: [],
       };
     },
   };
@@ -44,6 +44,7 @@ export interface ValidResult<T> {
   readonly isValid: true;
   readonly data: T;
   readonly errors: never;
+  readonly warnings?: ValidationError[];
 }
 
 /**
@@ -53,6 +54,7 @@ export interface InvalidResult {
   readonly isValid: false;
   readonly data: never;
   readonly errors: ValidationError[];
+  readonly warnings?: ValidationError[];
 }
 
 /**
@@ -147,6 +149,11 @@ export interface Result<T> {
    */
   readonly errors: ValidationError[];
 
+  /**
+   * Issues reported by WARN/INFO rules; they never make the result invalid
+   */
+  readonly warnings: ValidationError[];
+
   /**
    * Convert to plain object (for serialization/compatibility)
    */
@@ -154,6 +161,7 @@ export interface Result<T> {
     valid: boolean;
     data?: T;
     errors: ValidationError[];
+    warnings: ValidationError[];
   };
 }
 
@@ -186,7 +194,7 @@ const successProto = {
   },
 
   map(fn: (data: any) => any): Result<any> {
-    return Result.ok(fn((this as any)._data));
+    return Result.ok(fn((this as any)._data), (this as any)._warnings);
   },
 
   flatMap(fn: (data: any) => Result<any>): Result<any> {
@@ -216,6 +224,7 @@ const successProto = {
       valid: true,
       data: (this as any)._data,
       errors: [],
+      warnings: (this as any)._warnings || [],
     };
   },
 
@@ -226,6 +235,10 @@ const successProto = {
   get value(): any {
     return (this as any)._data;
   },
+
+  get warnings(): ValidationError[] {
+    return (this as any)._warnings || [];
+  },
 };
 
 /**
@@ -235,21 +248,25 @@ export const Result = {
   /**
    * Create a successful result - optimized for performance
    */
-  ok<T>(data: T): Result<T> {
+  ok<T>(data: T, warnings?: ValidationError[]): Result<T> {
     // Use prototype-based approach for better performance
     const result = Object.create(successProto);
     result._data = data;
+    if (warnings && warnings.length > 0) {
+      result._warnings = warnings;
+    }
     return result;
   },
 
   /**
    * Create a failed result
    */
-  error<T>(errors: ValidationError[]): Result<T> {
+  error<T>(errors: ValidationError[], warnings?: ValidationError[]): Result<T> {
     return createResult({
       isValid: false,
       data: undefined as never,
       errors,
+      warnings,
     } as InvalidResult);
   },
 };
@@ -287,16 +304,16 @@ function createResult<T>(state: ValidationState<T>): Result<T> {
 
     map<U>(fn: (data: T) => U): Result<U> {
       if (state.isValid) {
-        return Result.ok(fn(state.data));
+        return Result.ok(fn(state.data), state.warnings);
       }
-      return Result.error(state.errors);
+      return Result.error(state.errors, state.warnings);
     },
 
     flatMap<U>(fn: (data: T) => Result<U>): Result<U> {
       if (state.isValid) {
         return fn(state.data);
       }
-      return Result.error(state.errors);
+      return Result.error(state.errors, state.warnings);
     },
 
     tap(fn: (data: T) => void): Result<T> {
@@ -321,11 +338,13 @@ function createResult<T>(state: ValidationState<T>): Result<T> {
       valid: boolean;
       data?: T;
       errors: ValidationError[];
+      warnings: ValidationError[];
     } {
       return {
         valid: state.isValid,
         data: state.isValid ? state.data : undefined,
         errors: state.isValid ? [] : state.errors,
+        warnings: state.warnings || [],
       };
     },
 
@@ -337,6 +356,10 @@ function createResult<T>(state: ValidationState<T>): Result<T> {
     get errors(): ValidationError[] {
       return state.isValid ? [] : state.errors;
     },
+
+    get warnings(): ValidationError[] {
+      return state.warnings || [];
+    },
   };
   return result;
 }
@@ -9,7 +9,9 @@ type IsPlainObject<T> = T extends object
       ? false
       : T extends Date
         ? false
-        : true
+        : T extends ReadonlyMap<any, any> | ReadonlySet<any>
+          ? false
+          : true
   : false;
 
 // Helper type to create a depth counter
@@ -0,0 +1,221 @@
+/**
+ * @jest-environment node
+ */
+
+import { Builder } from "../../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../../src/core/plugin/required";
+import { stringMinPlugin } from "../../../../src/core/plugin/stringMin";
+import { refineAsyncPlugin } from "../../../../src/core/plugin/refineAsync";
+import { createAsyncContext } from "../../../../src/core/async.experimental/async-context";
+import { ASYNC_TIMEOUT_CODE } from "../../../../src/core/async.experimental/async-rules";
+import { SEVERITY } from "../../../../src/core/plugin/types";
+
+type Signup = { username: string; email: string };
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const createValidator = (
+  isTaken: (username: string, signal: AbortSignal) => Promise<boolean>
+) =>
+  Builder()
+    .use(requiredPlugin)
+    .use(stringMinPlugin)
+    .use(refineAsyncPlugin)
+    .for<Signup>()
+    .v("username", (b) =>
+      b.string
+        .required()
+        .min(3)
+        .refineAsync(
+          async (username: string, { signal }) =>
+            !(await isTaken(username, signal)),
+          { code: "USERNAME_TAKEN" }
+        )
+    )
+    .v("email", (b) => b.string.required())
+    .build();
+
+describe("async rules", () => {
+  it("keeps validate() synchronous and skips async rules", () => {
+    const isTaken = jest.fn(async () => true);
+    const result = createValidator(isTaken).validate({
+      username: "alice",
+      email: "a@example.com",
+    });
+
+    expect(result.isValid()).toBe(true);
+    expect(isTaken).not.toHaveBeenCalled();
+  });
+
+  it("runs async rules in validateAsync", async () => {
+    const validator = createValidator(async (username) => username === "taken");
+
+    const ok = await validator.validateAsync({
+      username: "alice",
+      email: "a@example.com",
+    });
+    const taken = await validator.validateAsync({
+      username: "taken",
+      email: "a@example.com",
+    });
+
+    expect(ok.isValid()).toBe(true);
+    expect(taken.isValid()).toBe(false);
+    expect(taken.errors).toHaveLength(1);
+    expect(taken.errors[0].path).toBe("username");
+    expect(taken.errors[0].code).toBe("USERNAME_TAKEN");
+  });
+
+  it("does not call async rules when sync validation fails", async () => {
+    const isTaken = jest.fn(async () => false);
+    const result = await createValidator(isTaken).validateAsync({
+      username: "al",
+      email: "a@example.com",
+    });
+
+    expect(result.errors[0].code).toBe("stringMin");
+    expect(isTaken).not.toHaveBeenCalled();
+  });
+
+  it("parseAsync returns parsed data when async rules pass", async () => {
+    const result = await createValidator(async () => false).parseAsync({
+      username: "alice",
+      email: "a@example.com",
+    });
+
+    expect(result.unwrap()).toEqual({
+      username: "alice",
+      email: "a@example.com",
+    });
+  });
+
+  it("limits concurrency across fields and array elements", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const validator = Builder()
+      .use(refineAsyncPlugin)
+      .for<{ tags: string[] }>()
+      .v("tags[*]", (b) =>
+        b.string.refineAsync(async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await delay(5);
+          running--;
+          return true;
+        })
+      )
+      .build();
+
+    const result = await validator.validateAsync(
+      { tags: ["a", "b", "c", "d", "e"] },
+      { concurrency: 2 }
+    );
+
+    expect(result.isValid()).toBe(true);
+    expect(maxRunning).toBe(2);
+  });
+
+  it("reports timed out rules and aborts their signal", async () => {
+    let ruleSignal: AbortSignal | undefined;
+    const validator = Builder()
+      .use(refineAsyncPlugin)
+      .for<{ code: string }>()
+      .v("code", (b) =>
+        b.string.refineAsync(
+          async (_value: string, { signal }) => {
+            ruleSignal = signal;
+            await delay(50);
+            return true;
+          },
+          { timeout: 5 }
+        )
+      )
+      .build();
+
+    const result = await validator.validateAsync({ code: "x" });
+
+    expect(result.errors[0].code).toBe(ASYNC_TIMEOUT_CODE);
+    expect(result.errors[0].message).toBe(
+      "code validation timed out after 5ms"
+    );
+    expect(ruleSignal?.aborted).toBe(true);
+  });
+
+  it("rejects with the reason when the caller aborts", async () => {
+    const controller = new AbortController();
+    const validator = createValidator(async () => {
+      controller.abort(new Error("cancelled"));
+      await delay(20);
+      return false;
+    });
+
+    await expect(
+      validator.validateAsync(
+        { username: "alice", email: "a@example.com" },
+        { signal: controller.signal }
+      )
+    ).rejects.toThrow("cancelled");
+  });
+
+  it("rejects with the error a rule throws instead of reporting an issue", async () => {
+    const validator = createValidator(async () => {
+      throw new Error("database unavailable");
+    });
+
+    await expect(
+      validator.validateAsync({ username: "alice", email: "a@example.com" })
+    ).rejects.toThrow("database unavailable");
+  });
+
+  it("prepares the input once per validateAsync call", async () => {
+    const preprocess = jest.fn((input: any) => input);
+    const validator = Builder()
+      .use(refineAsyncPlugin)
+      .for<{ username: string }>()
+      .preprocess(preprocess)
+      .v("username", (b) => b.string.refineAsync(async () => true))
+      .build();
+
+    await validator.parseAsync({ username: "alice" });
+
+    expect(preprocess).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports WARN async rules as warnings", async () => {
+    const validator = Builder()
+      .use(refineAsyncPlugin)
+      .for<{ domain: string }>()
+      .v("domain", (b) =>
+        b.string.refineAsync(async () => false, { severity: SEVERITY.WARN })
+      )
+      .build();
+
+    const result = await validator.validateAsync({ domain: "example.com" });
+
+    expect(result.isValid()).toBe(true);
+    expect(result.warnings[0].severity).toBe("WARN");
+  });
+
+  it("passes async context data to async rules", async () => {
+    const validator = Builder()
+      .use(refineAsyncPlugin)
+      .for<{ username: string }>()
+      .v("username", (b) =>
+        b.string.refineAsync(
+          async (username: string, { asyncContext }) =>
+            !asyncContext?.reserved.includes(username),
+          { messageFactory: ({ value }) => `${value} is reserved` }
+        )
+      )
+      .build();
+    const context = await createAsyncContext()
+      .set("reserved", Promise.resolve(["admin"]))
+      .build();
+
+    const result = await validator
+      .withAsyncContext(context)
+      .validate({ username: "admin" });
+
+    expect(result.errors[0].message).toBe("admin is reserved");
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, test, expect } from "@jest/globals";
+import { Builder } from "../../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../../src/core/plugin/required";
+import { optionalPlugin } from "../../../../src/core/plugin/optional";
+import { stringMinPlugin } from "../../../../src/core/plugin/stringMin";
+import { stringEmailPlugin } from "../../../../src/core/plugin/stringEmail";
+import { numberMinPlugin } from "../../../../src/core/plugin/numberMin";
+import { transformPlugin } from "../../../../src/core/plugin/transform";
+import { createPluginRegistry } from "../../../../src/core/registry/plugin-registry";
+
+type User = {
+  id: string;
+  name: string;
+  email: string;
+  age?: number;
+  address: { city: string; zip: string };
+};
+
+const base = Builder()
+  .use(requiredPlugin)
+  .use(optionalPlugin)
+  .use(stringMinPlugin)
+  .use(stringEmailPlugin)
+  .use(numberMinPlugin)
+  .use(transformPlugin)
+  .for<User>()
+  .v("id", (b) => b.string.required())
+  .v("name", (b) =>
+    b.string
+      .required()
+      .min(2)
+      .transform((name) => name.trim())
+  )
+  .v("email", (b) => b.string.required().email())
+  .v("age", (b) => b.number.optional().min(0))
+  .v("address.city", (b) => b.string.required())
+  .v("address.zip", (b) => b.string.required().min(5));
+
+const user = {
+  id: "u1",
+  name: " Ann ",
+  email: "ann@example.com",
+  age: 30,
+  address: { city: "Berlin", zip: "10115" },
+};
+
+const paths = (result: { errors: Array<{ path: string }> }) =>
+  result.errors.map((error) => error.path);
+
+describe("builder composition", () => {
+  test("pick keeps the given fields and the paths below them", () => {
+    const validator = base.pick(["name", "address"]).build();
+
+    expect(
+      validator
+        .validate({ name: "Ann", address: {} }, { abortEarly: false })
+        .errors.map((e) => e.path)
+    ).toEqual(["address.city", "address.zip"]);
+    const data = validator
+      .parse({ name: " Ann ", address: user.address })
+      .unwrap();
+    const name: string = data.name;
+    expect(name).toBe("Ann");
+
+    // @ts-expect-error email is not picked
+    base.pick(["name"]).v("email", (b) => b.string);
+  });
+
+  test("omit removes the given fields", () => {
+    const validator = base.omit(["id", "address"]).build();
+    const { id, address, ...rest } = user;
+
+    expect(validator.validate(rest).isValid()).toBe(true);
+    expect(paths(validator.validate({ ...rest, email: "x" }))).toEqual([
+      "email",
+    ]);
+  });
+
+  test("partial makes every rule optional and keeps the others", () => {
+    const validator = base.omit(["id"]).partial().build();
+
+    expect(validator.validate({}).isValid()).toBe(true);
+    expect(validator.validate({ address: { city: "Rome" } }).isValid()).toBe(
+      true
+    );
+    expect(paths(validator.validate({ email: "x" }))).toEqual(["email"]);
+    expect(paths(validator.validate({ name: null }))).toEqual(["name"]);
+    expect(validator.parse({ name: " Bo " }).unwrap().name).toBe("Bo");
+  });
+
+  test("required makes optional rules required", () => {
+    const validator = base.required().build();
+    const { age, ...withoutAge } = user;
+
+    expect(validator.validate(user).isValid()).toBe(true);
+    expect(paths(validator.validate(withoutAge))).toEqual(["age"]);
+  });
+
+  test("partial and required apply to useField rules", () => {
+    const registry = createPluginRegistry()
+      .use(requiredPlugin)
+      .use(optionalPlugin)
+      .use(stringMinPlugin);
+    const builder = Builder()
+      .use(requiredPlugin)
+      .use(optionalPlugin)
+      .for<{ name: string; nickname?: string }>()
+      .useField(
+        "name",
+        registry.createFieldRule<string>((b) => b.string.required().min(2))
+      )
+      .useField(
+        "nickname",
+        registry.createFieldRule<string>((b) => b.string.optional().min(2))
+      );
+
+    const patch = builder.partial().build();
+    expect(patch.validate({}).isValid()).toBe(true);
+    expect(paths(patch.validate({ name: "A" }))).toEqual(["name"]);
+
+    const complete = builder.required().build();
+    expect(paths(complete.validate({ name: "Ann" }))).toEqual(["nickname"]);
+    expect(complete.validate({ name: "Ann", nickname: "Al" }).isValid()).toBe(
+      true
+    );
+  });
+
+  test("partial leaves a shared rule unchanged", () => {
+    let shared: any;
+    const builder = Builder()
+      .use(requiredPlugin)
+      .use(optionalPlugin)
+      .for<{ name: string }>()
+      .v("name", (b) => (shared ||= b.string.required()));
+
+    expect(builder.partial().build().validate({}).isValid()).toBe(true);
+    expect(paths(builder.build().validate({}))).toEqual(["name"]);
+  });
+
+  test("extend adds and replaces fields of another builder", () => {
+    const idOnly = Builder()
+      .use(requiredPlugin)
+      .use(stringMinPlugin)
+      .for<User>()
+      .v("id", (b) => b.string.required().min(3));
+    const validator = base.extend(idOnly).build();
+
+    expect(paths(validator.validate(user))).toEqual(["id"]);
+    expect(validator.validate({ ...user, id: "u-1" }).isValid()).toBe(true);
+    expect(validator.parse({ ...user, id: "u-1" }).unwrap().name).toBe("Ann");
+  });
+
+  test("extend intersects the object types of both builders", () => {
+    const audit = Builder()
+      .use(requiredPlugin)
+      .for<{ createdBy: string }>()
+      .v("createdBy", (b) => b.string.required());
+    const validator = base.extend(audit).build();
+
+    expect(paths(validator.validate(user))).toEqual(["createdBy"]);
+    const data = validator.parse({ ...user, createdBy: "admin" }).unwrap();
+    const createdBy: string = data.createdBy;
+    const name: string = data.name;
+    expect([createdBy, name]).toEqual(["admin", "Ann"]);
+
+    // Fields of both object types can be declared on the result
+    base.extend(audit).v("createdBy", (b) => b.string.min(2));
+    base.extend(audit).v("address.zip", (b) => b.string.min(5));
+  });
+
+  test("derived builders are independent", () => {
+    const create = base.build();
+    const patch = base.partial().build();
+    const complete = base.required().build();
+
+    expect(paths(create.validate({}))).toEqual(["id"]);
+    expect(patch.validate({}).isValid()).toBe(true);
+    expect(create.validate({ ...user, age: undefined }).isValid()).toBe(true);
+    expect(paths(complete.validate({ ...user, age: undefined }))).toEqual([
+      "age",
+    ]);
+  });
+});
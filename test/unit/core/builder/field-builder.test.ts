@@ -159,6 +159,7 @@ describe("FieldBuilderImpl", () => {
         _phantomType: {} as any,
         parse: (value: any) => Result.ok(value),
         getPluginRegistry: () => mockPluginRegistry,
+        "~standard": {} as any,
       };
 
       const fieldBuilder = createFieldBuilderImpl<
@@ -195,6 +196,7 @@ describe("FieldBuilderImpl", () => {
         _phantomType: {} as any,
         parse: (value: any) => Result.ok(value),
         getPluginRegistry: () => mockPluginRegistry,
+        "~standard": {} as any,
       };
 
       const fieldBuilder = createFieldBuilderImpl<User, {}, typeof plugins>(
@@ -455,6 +457,7 @@ describe("FieldBuilderImpl", () => {
         _phantomType: {} as any,
         parse: (value: any) => Result.ok(value),
         getPluginRegistry: () => mockPluginRegistry,
+        "~standard": {} as any,
       };
 
       const fieldBuilder = createFieldBuilderImpl<
@@ -0,0 +1,209 @@
+import { describe, test, expect, jest } from "@jest/globals";
+import { Builder } from "../../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../../src/core/plugin/required";
+import { optionalPlugin } from "../../../../src/core/plugin/optional";
+import { stringMinPlugin } from "../../../../src/core/plugin/stringMin";
+import { transformPlugin } from "../../../../src/core/plugin/transform";
+import { objectSchemaPlugin } from "../../../../src/core/plugin/objectSchema";
+import { arrayItemsPlugin } from "../../../../src/core/plugin/arrayItems";
+
+type Address = { street: string; city: string; zip: string };
+
+type User = {
+  name: string;
+  address: Address;
+  billing?: Address;
+  addresses: Address[];
+};
+
+const addressValidator = Builder()
+  .use(requiredPlugin)
+  .use(stringMinPlugin)
+  .use(transformPlugin)
+  .for<Address>()
+  .v("street", (b) => b.string.required())
+  .v("city", (b) => b.string.required())
+  .v("zip", (b) =>
+    b.string
+      .required()
+      .min(5)
+      .transform((zip) => Number(zip))
+  )
+  .build();
+
+const userValidator = Builder()
+  .use(requiredPlugin)
+  .use(optionalPlugin)
+  .use(objectSchemaPlugin)
+  .use(arrayItemsPlugin)
+  .for<User>()
+  .v("name", (b) => b.string.required())
+  .v("address", (b) => b.object.required().schema(addressValidator))
+  .v("billing", (b) => b.object.optional().schema(addressValidator))
+  .v("addresses", (b) => b.array.required().items(addressValidator))
+  .build();
+
+const address = { street: "Main St", city: "Paris", zip: "75001" };
+
+describe("nested validators", () => {
+  test("accepts data the nested validators accept", () => {
+    const result = userValidator.validate({
+      name: "Ann",
+      address,
+      addresses: [address],
+    });
+
+    expect(result.isValid()).toBe(true);
+  });
+
+  test("reports nested errors below the object field", () => {
+    const result = userValidator.validate({
+      name: "Ann",
+      address: { street: "Main St", zip: "75001" },
+      addresses: [],
+    });
+
+    expect(result.isValid()).toBe(false);
+    expect(result.errors.map((error) => error.path)).toEqual(["address.city"]);
+    expect(result.errors[0].code).toBe("required");
+  });
+
+  test("reports nested errors at the array index", () => {
+    const result = userValidator.validate(
+      {
+        name: "Ann",
+        address,
+        addresses: [address, { street: "Elm St", city: "Lyon", zip: "1" }],
+      },
+      { abortEarly: false }
+    );
+
+    expect(result.isValid()).toBe(false);
+    expect(result.errors.map((error) => error.path)).toEqual([
+      "addresses[1].zip",
+    ]);
+  });
+
+  test("collects the errors of every element without abortEarly", () => {
+    const result = userValidator.validate(
+      {
+        name: "Ann",
+        address,
+        addresses: [{ street: "Elm St" }, address, { city: "Lyon" }],
+      },
+      { abortEarly: false }
+    );
+
+    expect(result.errors.map((error) => error.path)).toEqual([
+      "addresses[0].city",
+      "addresses[0].zip",
+      "addresses[2].street",
+      "addresses[2].zip",
+    ]);
+  });
+
+  test("skips optional nested objects that are missing", () => {
+    const result = userValidator.validate({
+      name: "Ann",
+      address,
+      addresses: [],
+    });
+
+    expect(result.isValid()).toBe(true);
+  });
+
+  test("parse applies the nested transforms", () => {
+    const result = userValidator.parse({
+      name: "Ann",
+      address,
+      billing: address,
+      addresses: [address, { ...address, zip: "69001" }],
+    });
+
+    expect(result.isValid()).toBe(true);
+    const parsed = result.unwrap();
+    const zip: number = parsed.address.zip;
+    const zips: number[] = parsed.addresses.map((item) => item.zip);
+    expect(zip).toBe(75001);
+    expect(parsed.billing?.zip).toBe(75001);
+    expect(zips).toEqual([75001, 69001]);
+  });
+
+  test("runs the nested validator once with the caller's options", () => {
+    const cityValidator = Builder()
+      .use(requiredPlugin)
+      .use(stringMinPlugin)
+      .for<Address>()
+      .v("city", (b) => b.string.required().min(2))
+      .v("zip", (b) => b.string.required().min(5))
+      .build();
+    const validator = Builder()
+      .use(objectSchemaPlugin)
+      .for<{ address: Address }>()
+      .v("address", (b) => b.object.schema(cityValidator))
+      .build();
+    const validate = jest.spyOn(cityValidator, "validate");
+    const parse = jest.spyOn(cityValidator, "parse");
+    const context = { tenant: "a" };
+
+    const invalid = { address: { ...address, city: "P", zip: "1" } };
+    expect(
+      validator
+        .validate(invalid, { abortEarly: false, context })
+        .errors.map((error) => error.path)
+    ).toEqual(["address.city", "address.zip"]);
+    expect(
+      validator.validate(invalid, { context }).errors.map((error) => error.path)
+    ).toEqual(["address.city"]);
+    expect(validate).toHaveBeenCalledTimes(2);
+    expect(validate).toHaveBeenLastCalledWith(
+      invalid.address,
+      expect.objectContaining({ context })
+    );
+
+    expect(validator.parse({ address }, { context }).unwrap()).toEqual({
+      address,
+    });
+    expect(parse).toHaveBeenCalledTimes(1);
+    expect(parse).toHaveBeenCalledWith(
+      address,
+      expect.objectContaining({ context })
+    );
+  });
+
+  test("runs the items validator once per element with the caller's options", () => {
+    const cityValidator = Builder()
+      .use(requiredPlugin)
+      .use(stringMinPlugin)
+      .for<Address>()
+      .v("city", (b) => b.string.required().min(2))
+      .build();
+    const validator = Builder()
+      .use(arrayItemsPlugin)
+      .for<{ addresses: Address[] }>()
+      .v("addresses", (b) => b.array.items(cityValidator))
+      .build();
+    const validate = jest.spyOn(cityValidator, "validate");
+    const parse = jest.spyOn(cityValidator, "parse");
+    const context = { tenant: "a" };
+
+    const invalid = { addresses: [address, { ...address, city: "P" }] };
+    expect(
+      validator.validate(invalid, { context }).errors.map((error) => error.path)
+    ).toEqual(["addresses[1].city"]);
+    expect(validate).toHaveBeenCalledTimes(2);
+    expect(validate).toHaveBeenLastCalledWith(
+      invalid.addresses[1],
+      expect.objectContaining({ context })
+    );
+
+    expect(
+      validator.parse({ addresses: [address] }, { context }).unwrap()
+    ).toEqual({ addresses: [address] });
+    expect(parse).toHaveBeenCalledTimes(1);
+    expect(parse).toHaveBeenCalledWith(
+      address,
+      expect.objectContaining({ context })
+    );
+  });
+});
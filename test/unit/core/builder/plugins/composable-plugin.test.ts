@@ -0,0 +1,57 @@
+import { describe, test, expect } from "@jest/globals";
+import { Builder } from "../../../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../../../src/core/plugin/required";
+import { stringMinPlugin } from "../../../../../src/core/plugin/stringMin";
+import { numberMinPlugin } from "../../../../../src/core/plugin/numberMin";
+import { unionGuardPlugin } from "../../../../../src/core/plugin/unionGuard";
+import { tupleBuilderPlugin } from "../../../../../src/core/plugin/tupleBuilder";
+
+describe("composable plugins without an execution plan", () => {
+  test("run the union guards on validate", () => {
+    const validator = Builder()
+      .use(unionGuardPlugin)
+      .use(stringMinPlugin)
+      .use(numberMinPlugin)
+      .for<{ value: string | number }>()
+      .v("value", (b) =>
+        b.union
+          .guard(
+            (v): v is string => typeof v === "string",
+            (b) => b.string.min(3)
+          )
+          .guard(
+            (v): v is number => typeof v === "number",
+            (b) => b.number.min(0)
+          )
+      )
+      .build();
+
+    expect(validator.validate({ value: "abc" }).isValid()).toBe(true);
+    expect(validator.validate({ value: 1 }).isValid()).toBe(true);
+    expect(validator.validate({ value: "ab" }).isValid()).toBe(false);
+    expect(validator.validate({ value: -1 }).isValid()).toBe(false);
+    expect(validator.validate({ value: true }).isValid()).toBe(false);
+  });
+
+  test("run the tuple element rules on validate", () => {
+    const validator = Builder()
+      .use(requiredPlugin)
+      .use(tupleBuilderPlugin)
+      .use(stringMinPlugin)
+      .use(numberMinPlugin)
+      .for<{ entry: [string, number] }>()
+      .v("entry", (b) =>
+        b.tuple
+          .required()
+          .builder(
+            (b: any) => b.string.required().min(2),
+            (b: any) => b.number.required().min(0)
+          )
+      )
+      .build();
+
+    expect(validator.validate({ entry: ["ab", 1] }).isValid()).toBe(true);
+    expect(validator.validate({ entry: ["a", 1] }).isValid()).toBe(false);
+    expect(validator.validate({ entry: ["ab", -1] }).isValid()).toBe(false);
+  });
+});
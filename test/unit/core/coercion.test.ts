@@ -0,0 +1,165 @@
+import { describe, test, expect, afterEach } from "@jest/globals";
+import { Builder } from "../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../src/core/plugin/required";
+import { optionalPlugin } from "../../../src/core/plugin/optional";
+import { numberMinPlugin } from "../../../src/core/plugin/numberMin";
+import { coercePlugin } from "../../../src/core/plugin/coerce";
+import {
+  COERCION_FAILED_CODE,
+  parseDateWithFormat,
+} from "../../../src/core/coercion";
+import { globalConfig } from "../../../src/core/global-config";
+
+type Query = {
+  page: string;
+  debug?: string;
+  since?: string;
+  ids?: string[];
+};
+
+const createValidator = () =>
+  Builder()
+    .use(requiredPlugin)
+    .use(optionalPlugin)
+    .use(numberMinPlugin)
+    .use(coercePlugin)
+    .for<Query>()
+    .v("page", (b) => b.number.coerce().required().min(1))
+    .v("debug", (b) => b.boolean.coerce().optional())
+    .v("since", (b) => b.date.coerce().optional())
+    .v("ids[*]", (b) => b.number.coerce())
+    .build();
+
+describe("coerce", () => {
+  afterEach(() => {
+    globalConfig.reset();
+  });
+
+  test("parse converts string input to the field types", () => {
+    const result = createValidator().parse({
+      page: "2",
+      debug: "yes",
+      since: "2024-03-01",
+      ids: ["1", "2"],
+    });
+
+    const data = result.unwrap();
+    expect(data.page).toBe(2);
+    expect(data.debug).toBe(true);
+    expect(data.since).toEqual(new Date(Date.UTC(2024, 2, 1)));
+    expect(data.ids).toEqual([1, 2]);
+  });
+
+  test("reflects the coerced types in the parse output type", () => {
+    const data = createValidator().parse({ page: "3" }).unwrap();
+    const page: number = data.page;
+    const debug: boolean | undefined = data.debug;
+
+    expect(page).toBe(3);
+    expect(debug).toBeUndefined();
+  });
+
+  test("does not modify the input", () => {
+    const input = { page: "2", ids: ["1"] };
+    createValidator().parse(input);
+
+    expect(input).toEqual({ page: "2", ids: ["1"] });
+  });
+
+  test("validates the coerced values", () => {
+    const result = createValidator().validate({ page: "0" });
+
+    expect(result.isValid()).toBe(false);
+    expect(result.errors[0].code).toBe("numberMin");
+  });
+
+  test("reports the original string when coercion fails", () => {
+    const result = createValidator().validate(
+      { page: "abc", debug: "maybe", ids: ["1", "x"] },
+      { abortEarly: false }
+    );
+
+    expect(
+      result.errors.map((error) => [error.path, error.code, error.message])
+    ).toEqual([
+      ["page", COERCION_FAILED_CODE, 'Cannot convert "abc" to number'],
+      ["debug", COERCION_FAILED_CODE, 'Cannot convert "maybe" to boolean'],
+      ["ids[1]", COERCION_FAILED_CODE, 'Cannot convert "x" to number'],
+    ]);
+  });
+
+  test("treats empty strings as missing values", () => {
+    const result = createValidator().validate({ page: "", debug: "" });
+
+    expect(result.errors.map((error) => [error.path, error.code])).toEqual([
+      ["page", "required"],
+    ]);
+  });
+
+  test("uses the GlobalConfig number, boolean and date settings", () => {
+    globalConfig.setConfig({
+      numberFormat: { decimalSeparator: ",", thousandSeparator: "." },
+      toBooleanTruthyValues: ["ja"],
+      toBooleanFalsyValues: ["nein"],
+      dateFormat: "DD.MM.YYYY",
+    });
+
+    const data = Builder()
+      .use(coercePlugin)
+      .for<{ price: number; paid: boolean; due: Date; sent: boolean }>()
+      .v("price", (b) => b.number.coerce())
+      .v("paid", (b) => b.boolean.coerce())
+      .v("due", (b) => b.date.coerce())
+      .v("sent", (b) => b.boolean.coerce())
+      .build()
+      .parse({ price: "1.234,5", paid: "ja", due: "31.12.2024", sent: "nein" })
+      .unwrap();
+
+    expect(data).toEqual({
+      price: 1234.5,
+      paid: true,
+      due: new Date(Date.UTC(2024, 11, 31)),
+      sent: false,
+    });
+  });
+
+  test("accepts thousand separators between groups of three digits", () => {
+    const validator = Builder()
+      .use(coercePlugin)
+      .for<{ amount: number }>()
+      .v("amount", (b) => b.number.coerce())
+      .build();
+    const amountOf = (amount: string) => validator.parse({ amount });
+
+    expect(amountOf("1,234,567.5").unwrap()).toEqual({ amount: 1234567.5 });
+    expect(amountOf("-12,345").unwrap()).toEqual({ amount: -12345 });
+    expect(amountOf("1234").unwrap()).toEqual({ amount: 1234 });
+    for (const amount of ["1,5", "1,2,3", "1234,567", ",123", "1,234.5,6"]) {
+      expect(amountOf(amount).errors[0]?.code).toBe(COERCION_FAILED_CODE);
+    }
+  });
+
+  test("supports custom error messages", () => {
+    const result = Builder()
+      .use(coercePlugin)
+      .for<{ port: number }>()
+      .v("port", (b) =>
+        b.number.coerce({
+          messageFactory: ({ path, value, expected }) =>
+            `${path} must be a ${expected}, got ${value}`,
+        })
+      )
+      .build()
+      .validate({ port: "http" });
+
+    expect(result.errors[0].message).toBe("port must be a number, got http");
+  });
+
+  test("parseDateWithFormat rejects impossible dates", () => {
+    expect(parseDateWithFormat("2024-02-30", "YYYY-MM-DD")).toBeUndefined();
+    expect(parseDateWithFormat("2024/02/03", "YYYY-MM-DD")).toBeUndefined();
+    expect(parseDateWithFormat("2024-02-03 10:30", "YYYY-MM-DD HH:mm")).toEqual(
+      new Date(Date.UTC(2024, 1, 3, 10, 30))
+    );
+  });
+});
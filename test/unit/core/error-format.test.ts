@@ -0,0 +1,172 @@
+import { describe, test, expect } from "@jest/globals";
+import { Builder } from "../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../src/core/plugin/required";
+import { stringMinPlugin } from "../../../src/core/plugin/stringMin";
+import { numberMinPlugin } from "../../../src/core/plugin/numberMin";
+import {
+  flattenErrors,
+  treeifyErrors,
+  toProblemDetails,
+  toJsonApiErrors,
+  toJsonPointer,
+} from "../../../src/core/error-format";
+import type { ValidationError } from "../../../src/types";
+
+type Order = {
+  customer: { name: string };
+  items: Array<{ sku: string; quantity: number }>;
+};
+
+const validator = Builder()
+  .use(requiredPlugin)
+  .use(stringMinPlugin)
+  .use(numberMinPlugin)
+  .for<Order>()
+  .v("customer.name", (b) => b.string.required().min(2))
+  .v("items[*].sku", (b) => b.string.min(3))
+  .v("items[*].quantity", (b) => b.number.required().min(1))
+  .build();
+
+const invalidOrder = {
+  customer: { name: "A" },
+  items: [
+    { sku: "A-1", quantity: 1 },
+    { sku: "B", quantity: 0 },
+  ],
+};
+
+const error = (path: string, message: string): ValidationError => ({
+  path,
+  message,
+  code: "custom",
+  paths: () => [path],
+});
+
+describe("error formatting", () => {
+  test("flattenErrors groups messages by path", () => {
+    const result = validator.validate(invalidOrder, { abortEarly: false });
+
+    expect(flattenErrors(result)).toEqual({
+      fieldErrors: {
+        "customer.name": ["String must have at least 2 characters, but got 1"],
+        "items[1].sku": ["String must have at least 3 characters, but got 1"],
+        "items[1].quantity": ["Value must be at least 1, but got 0"],
+      },
+      formErrors: [],
+    });
+  });
+
+  test("flattenErrors keeps errors without a path as form errors", () => {
+    const errors = [
+      error("", "Passwords do not match"),
+      error("password", "Too short"),
+      error("password", "Missing a digit"),
+    ];
+
+    expect(flattenErrors(errors)).toEqual({
+      fieldErrors: { password: ["Too short", "Missing a digit"] },
+      formErrors: ["Passwords do not match"],
+    });
+  });
+
+  test("treeifyErrors nests messages like the input", () => {
+    const result = validator.validate(invalidOrder, { abortEarly: false });
+    const tree = treeifyErrors(result);
+
+    expect(tree._errors).toEqual([]);
+    expect(tree.customer?.name?._errors).toEqual([
+      "String must have at least 2 characters, but got 1",
+    ]);
+    expect(tree.items?.[0]).toBeUndefined();
+    expect(tree.items?.[1]?.quantity?._errors).toEqual([
+      "Value must be at least 1, but got 0",
+    ]);
+  });
+
+  test("keeps fields named like Object.prototype properties", () => {
+    const errors = [
+      error("constructor", "Required"),
+      error("toString", "Too short"),
+      error("__proto__.name", "Required"),
+    ];
+
+    expect(flattenErrors(errors).fieldErrors).toEqual({
+      constructor: ["Required"],
+      toString: ["Too short"],
+      "__proto__.name": ["Required"],
+    });
+
+    const tree = treeifyErrors(errors);
+    expect(tree["constructor" as string]._errors).toEqual(["Required"]);
+    expect(tree["toString" as string]._errors).toEqual(["Too short"]);
+    expect(Object.getPrototypeOf(tree)).toBe(Object.prototype);
+    expect(Object.keys(tree)).toEqual([
+      "_errors",
+      "constructor",
+      "toString",
+      "__proto__",
+    ]);
+  });
+
+  test("valid results produce empty documents", () => {
+    const result = validator.validate({
+      customer: { name: "Ann" },
+      items: [{ sku: "A-1", quantity: 2 }],
+    });
+
+    expect(flattenErrors(result)).toEqual({ fieldErrors: {}, formErrors: [] });
+    expect(treeifyErrors(result)).toEqual({ _errors: [] });
+    expect(toJsonApiErrors(result)).toEqual({ errors: [] });
+  });
+
+  test("toProblemDetails builds an RFC 7807 body", () => {
+    const result = validator.validate({
+      customer: { name: "A" },
+      items: [],
+    });
+
+    expect(
+      toProblemDetails(result, {
+        type: "https://example.com/problems/validation",
+        instance: "/orders",
+      })
+    ).toEqual({
+      type: "https://example.com/problems/validation",
+      title: "Validation failed",
+      status: 422,
+      detail: "Validation failed with 1 error(s)",
+      instance: "/orders",
+      errors: [
+        {
+          pointer: "/customer/name",
+          detail: "String must have at least 2 characters, but got 1",
+          code: "stringMin",
+        },
+      ],
+    });
+  });
+
+  test("toJsonApiErrors points into the resource attributes", () => {
+    const result = validator.validate(invalidOrder, { abortEarly: false });
+    const document = toJsonApiErrors(result, { status: 400 });
+
+    expect(
+      document.errors.find((entry) => entry.code === "numberMin")
+    ).toEqual({
+      status: "400",
+      code: "numberMin",
+      title: "Invalid field",
+      detail: "Value must be at least 1, but got 0",
+      source: { pointer: "/data/attributes/items/1/quantity" },
+    });
+    expect(
+      toJsonApiErrors([error("", "Invalid")], { pointerPrefix: "/data" })
+        .errors[0].source
+    ).toEqual({ pointer: "/data" });
+  });
+
+  test("toJsonPointer escapes ~ and /", () => {
+    expect(toJsonPointer("items[0].a/b.c~d")).toBe("/items/0/a~1b/c~0d");
+    expect(toJsonPointer("")).toBe("");
+  });
+});
@@ -0,0 +1,266 @@
+import { describe, test, expect, jest } from "@jest/globals";
+import { Builder } from "../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../src/core/plugin/required";
+import { optionalPlugin } from "../../../src/core/plugin/optional";
+import { stringMinPlugin } from "../../../src/core/plugin/stringMin";
+import { numberMinPlugin } from "../../../src/core/plugin/numberMin";
+import { compareFieldPlugin } from "../../../src/core/plugin/compareField";
+import { requiredIfPlugin } from "../../../src/core/plugin/requiredIf";
+import { stitchPlugin } from "../../../src/core/plugin/stitch";
+import { validateIfPlugin } from "../../../src/core/plugin/validateIf";
+import { fromContextPlugin } from "../../../src/core/plugin/fromContext";
+import {
+  buildDependencyGraph,
+  getAffectedFields,
+  scanFieldReads,
+} from "../../../src/core/field-dependencies";
+
+type Signup = {
+  password: string;
+  confirmPassword: string;
+  accountType: string;
+  companyName?: string;
+  nickname: string;
+};
+
+const signupValidator = Builder()
+  .use(requiredPlugin)
+  .use(optionalPlugin)
+  .use(stringMinPlugin)
+  .use(compareFieldPlugin)
+  .use(requiredIfPlugin)
+  .for<Signup>()
+  .v("password", (b) => b.string.required().min(8))
+  .v("confirmPassword", (b) => b.string.required().compareField("password"))
+  .v("accountType", (b) => b.string.required())
+  .v("companyName", (b) =>
+    b.string.optional().requiredIf((data) => data.accountType === "business")
+  )
+  .v("nickname", (b) => b.string.required().min(3))
+  .build();
+
+const errorPaths = (result: {
+  isValid(): boolean;
+  errors: Array<{ path: string }>;
+}) => (result.isValid() ? [] : result.errors.map((error) => error.path));
+
+describe("validateAt", () => {
+  test("re-runs the fields that compare against the edited field", () => {
+    const result = signupValidator.validateAt(
+      "password",
+      { password: "secret-123", confirmPassword: "secret-12" },
+      { abortEarly: false }
+    );
+
+    expect(errorPaths(result)).toEqual(["confirmPassword"]);
+  });
+
+  test("re-runs the fields whose condition reads the edited field", () => {
+    const result = signupValidator.validateAt(
+      "accountType",
+      { accountType: "business" },
+      { abortEarly: false }
+    );
+
+    expect(errorPaths(result)).toEqual(["companyName"]);
+  });
+
+  test("follows reads behind a short-circuit in the condition", () => {
+    const validator = Builder()
+      .use(requiredPlugin)
+      .use(optionalPlugin)
+      .use(requiredIfPlugin)
+      .for<{ country: string; state: string; zip?: string }>()
+      .v("country", (b) => b.string.required())
+      .v("state", (b) => b.string.required())
+      .v("zip", (b) =>
+        b.string
+          .optional()
+          .requiredIf((data) => data.country === "US" && data.state !== "")
+      )
+      .build();
+
+    const result = validator.validateAt(
+      "state",
+      { country: "US", state: "CA" },
+      { abortEarly: false }
+    );
+
+    expect(errorPaths(result)).toEqual(["zip"]);
+  });
+
+  test("does not check unrelated fields", () => {
+    const result = signupValidator.validateAt("nickname", { nickname: "Kim" });
+
+    expect(result.isValid()).toBe(true);
+  });
+
+  test("re-runs stitch rules that list the edited field", () => {
+    const validator = Builder()
+      .use(requiredPlugin)
+      .use(numberMinPlugin)
+      .use(stitchPlugin)
+      .for<{ price: number; quantity: number; total: number }>()
+      .v("price", (b) => b.number.required().min(0))
+      .v("quantity", (b) => b.number.required().min(1))
+      .v("total", (b) =>
+        b.number
+          .required()
+          .stitch(["price", "quantity"] as const, (fields, total) => ({
+            valid: fields.price * fields.quantity === total,
+          }))
+      )
+      .build();
+
+    const result = validator.validateAt(
+      "quantity",
+      { price: 10, quantity: 3, total: 20 },
+      { abortEarly: false }
+    );
+
+    expect(errorPaths(result)).toEqual(["total"]);
+  });
+
+  test("re-runs the fields whose validateIf condition reads the edited field", () => {
+    const validator = Builder()
+      .use(requiredPlugin)
+      .use(stringMinPlugin)
+      .use(validateIfPlugin)
+      .for<{ environment: string; apiKey: string }>()
+      .v("environment", (b) => b.string.required())
+      .v("apiKey", (b) =>
+        b.string
+          .validateIf((values) => values.environment !== "local")
+          .required()
+          .min(8)
+      )
+      .build();
+
+    const result = validator.validateAt(
+      "environment",
+      { environment: "production", apiKey: "abc" },
+      { abortEarly: false }
+    );
+
+    expect(errorPaths(result)).toEqual(["apiKey"]);
+  });
+
+  test("re-runs fromContext rules that read the edited field", () => {
+    const validator = Builder()
+      .use(requiredPlugin)
+      .use(fromContextPlugin)
+      .for<{ password: string; confirmPassword: string }>()
+      .v("password", (b) => b.string.required())
+      .v("confirmPassword", (b) =>
+        b.string.required().fromContext({
+          validate: (value, _context, allValues) => ({
+            valid: value === allValues.password,
+          }),
+        })
+      )
+      .build();
+
+    const result = validator.validateAt(
+      "password",
+      { password: "secret-123", confirmPassword: "secret-12" },
+      { abortEarly: false }
+    );
+
+    expect(errorPaths(result)).toEqual(["confirmPassword"]);
+  });
+
+  test("does not run the rules' callbacks to find their reads", async () => {
+    const condition = jest.fn((values: { accountType: string }) => {
+      return values.accountType === "business";
+    });
+    const validate = jest.fn(async (_email: unknown, context: any) => {
+      if (context.hasEmail) throw new Error("lookup failed");
+      return { valid: true };
+    });
+    const validator = Builder()
+      .use(requiredPlugin)
+      .use(optionalPlugin)
+      .use(requiredIfPlugin)
+      .use(fromContextPlugin)
+      .for<{ accountType: string; companyName?: string; email: string }>()
+      .v("accountType", (b) => b.string.required())
+      .v("companyName", (b) => b.string.optional().requiredIf(condition))
+      .v("email", (b) => b.string.fromContext({ validate } as any))
+      .build();
+
+    expect(validator.validateAt("accountType", {}).isValid()).toBe(false);
+    expect(condition).not.toHaveBeenCalled();
+    expect(validate).not.toHaveBeenCalled();
+  });
+
+  test("accepts concrete array indices for array element fields", () => {
+    const validator = Builder()
+      .use(requiredPlugin)
+      .use(stringMinPlugin)
+      .use(numberMinPlugin)
+      .for<{ title: string; items: Array<{ sku: string; quantity: number }> }>()
+      .v("title", (b) => b.string.required())
+      .v("items[*].sku", (b) => b.string.required().min(3))
+      .v("items[*].quantity", (b) => b.number.required().min(1))
+      .build();
+
+    const result = validator.validateAt(
+      "items[1].sku",
+      {
+        items: [
+          { sku: "A-1", quantity: 1 },
+          { sku: "B", quantity: 1 },
+        ],
+      },
+      { abortEarly: false }
+    );
+
+    expect(errorPaths(result)).toEqual(["items[1].sku"]);
+  });
+});
+
+describe("dependency graph", () => {
+  test("finds the fields read through a destructured parameter", () => {
+    expect(
+      scanFieldReads(({ shipping, items: list }) =>
+        [shipping.method, list.length].join()
+      ).sort()
+    ).toEqual(["items", "shipping.method"]);
+  });
+
+  test("finds reads skipped by short-circuits in the source", () => {
+    expect(
+      scanFieldReads(
+        (data) =>
+          data.shipping.method === "express" &&
+          data.items.length > 0 &&
+          data.tags.some((tag: string) => tag === "gift")
+      ).sort()
+    ).toEqual(["items", "shipping.method", "tags"]);
+  });
+
+  test("treats method calls as reads of their object", () => {
+    expect(scanFieldReads((data) => data.tags.includes("vip"))).toEqual([
+      "tags",
+    ]);
+  });
+
+  test("reads only the given parameter", () => {
+    expect(
+      scanFieldReads(
+        (_value: unknown, context: any, allValues: any) =>
+          context.hasEmail && allValues.email !== allValues.backupEmail,
+        2
+      ).sort()
+    ).toEqual(["backupEmail", "email"]);
+  });
+
+  test("maps edited fields to the fields that read them", () => {
+    const graph = buildDependencyGraph([{ path: "endDate", rules: [] }]);
+    graph.set("endDate", ["startDate"]);
+
+    expect(
+      getAffectedFields(graph, ["startDate", "endDate", "title"], "startDate")
+    ).toEqual(["startDate", "endDate"]);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, test, expect } from "@jest/globals";
+import { Builder } from "../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../src/core/plugin/required";
+import { stringMinPlugin } from "../../../src/core/plugin/stringMin";
+import { stringEmailPlugin } from "../../../src/core/plugin/stringEmail";
+import { numberMinPlugin } from "../../../src/core/plugin/numberMin";
+import { transformPlugin } from "../../../src/core/plugin/transform";
+import {
+  reactHookFormResolver,
+  formikValidate,
+  veeValidateSchema,
+  tanstackFormValidator,
+} from "../../../src/core/form-adapters";
+
+type Order = {
+  email: string;
+  items: Array<{ sku: string; quantity: number }>;
+};
+
+const orderValidator = Builder()
+  .use(requiredPlugin)
+  .use(stringMinPlugin)
+  .use(stringEmailPlugin)
+  .use(numberMinPlugin)
+  .use(transformPlugin)
+  .for<Order>()
+  .v("email", (b) =>
+    b.string
+      .required()
+      .min(12)
+      .email()
+      .transform((email) => email.toLowerCase())
+  )
+  .v("items[*].sku", (b) => b.string.required().min(3))
+  .v("items[*].quantity", (b) => b.number.required().min(1))
+  .build();
+
+const validOrder = {
+  email: "Buyer@Example.com",
+  items: [{ sku: "A-100", quantity: 2 }],
+};
+
+const invalidOrder = {
+  email: "bad",
+  items: [
+    { sku: "A-100", quantity: 1 },
+    { sku: "B", quantity: 0 },
+  ],
+};
+
+describe("reactHookFormResolver", () => {
+  test("submits transformed values", async () => {
+    const result = await reactHookFormResolver(orderValidator)(validOrder);
+
+    expect(result).toEqual({
+      values: { ...validOrder, email: "buyer@example.com" },
+      errors: {},
+    });
+  });
+
+  test("nests errors with arrays for element fields", async () => {
+    const { values, errors } =
+      await reactHookFormResolver(orderValidator)(invalidOrder);
+
+    expect(values).toEqual({});
+    expect(errors.email).toEqual({
+      type: "stringMin",
+      message: expect.any(String),
+    });
+    expect(Array.isArray(errors.items)).toBe(true);
+    expect(errors.items[0]).toBeUndefined();
+    expect(Object.keys(errors.items[1])).toEqual(["sku", "quantity"]);
+  });
+
+  test("collects every message by code with criteriaMode all", async () => {
+    const { errors } = await reactHookFormResolver(orderValidator)(
+      invalidOrder,
+      undefined,
+      { criteriaMode: "all" }
+    );
+
+    expect(Object.keys(errors.email.types)).toEqual([
+      "stringMin",
+      "stringEmail",
+    ]);
+  });
+});
+
+describe("formikValidate", () => {
+  test("returns one message per field and {} when valid", () => {
+    const validate = formikValidate(orderValidator);
+
+    expect(validate(validOrder)).toEqual({});
+
+    const errors = validate(invalidOrder);
+    expect(typeof errors.email).toBe("string");
+    expect(errors.items[1]).toEqual({
+      sku: expect.any(String),
+      quantity: expect.any(String),
+    });
+  });
+});
+
+describe("veeValidateSchema", () => {
+  test("reports every message of each field by path", async () => {
+    const schema = veeValidateSchema(orderValidator);
+
+    expect(schema.__type).toBe("VVTypedSchema");
+    await expect(schema.parse(validOrder)).resolves.toEqual({
+      value: { ...validOrder, email: "buyer@example.com" },
+      errors: [],
+    });
+
+    const { errors } = await schema.parse(invalidOrder);
+    expect(errors.map((error) => error.path).sort()).toEqual([
+      "email",
+      "items[1].quantity",
+      "items[1].sku",
+    ]);
+    expect(errors.find((error) => error.path === "email")?.errors).toHaveLength(
+      2
+    );
+  });
+});
+
+describe("tanstackFormValidator", () => {
+  test("maps the first message of each field to its path", () => {
+    const validate = tanstackFormValidator(orderValidator);
+
+    expect(validate({ value: validOrder })).toBeUndefined();
+    expect(validate({ value: invalidOrder })).toEqual({
+      fields: {
+        email: expect.any(String),
+        "items[1].sku": expect.any(String),
+        "items[1].quantity": expect.any(String),
+      },
+    });
+  });
+});
+
+describe("fields named like Object.prototype properties", () => {
+  const validator = Builder()
+    .use(requiredPlugin)
+    .use(stringMinPlugin)
+    .for<{ constructor: string; toString: { label: string } }>()
+    .v("constructor", (b) => b.string.required().min(3))
+    .v("toString.label", (b) => b.string.required().min(3))
+    .build();
+  const values = { constructor: "a", toString: { label: "b" } };
+
+  test("get their own errors in every adapter", async () => {
+    const { errors } = await reactHookFormResolver(validator)(
+      values,
+      undefined,
+      { criteriaMode: "all" }
+    );
+    expect(errors.constructor).toEqual({
+      type: "stringMin",
+      message: expect.any(String),
+      types: { stringMin: expect.any(String) },
+    });
+    expect(errors["toString" as string].label.type).toBe("stringMin");
+
+    const formikErrors = formikValidate(validator)(values);
+    expect(typeof formikErrors.constructor).toBe("string");
+    expect(typeof formikErrors["toString" as string].label).toBe("string");
+
+    expect(tanstackFormValidator(validator)({ value: values })).toEqual({
+      fields: {
+        constructor: expect.any(String),
+        "toString.label": expect.any(String),
+      },
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, test, expect, jest } from "@jest/globals";
+import { Builder } from "../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../src/core/plugin/required";
+import { stringMinPlugin } from "../../../src/core/plugin/stringMin";
+import { numberMinPlugin } from "../../../src/core/plugin/numberMin";
+import { coercePlugin } from "../../../src/core/plugin/coerce";
+import { transformPlugin } from "../../../src/core/plugin/transform";
+import {
+  validateRequest,
+  expressValidator,
+  fastifyValidator,
+  koaValidator,
+  honoValidator,
+  type ValidatedRequest,
+} from "../../../src/core/http-middleware";
+
+const orderRequest = {
+  params: Builder()
+    .use(requiredPlugin)
+    .use(transformPlugin)
+    .for<{ shopId: string }>()
+    .v("shopId", (b) => b.string.required().transform((id) => Number(id)))
+    .build(),
+  query: Builder()
+    .use(numberMinPlugin)
+    .use(coercePlugin)
+    .for<{ page: number }>()
+    .v("page", (b) => b.number.coerce().min(1))
+    .build(),
+  body: Builder()
+    .use(requiredPlugin)
+    .use(stringMinPlugin)
+    .for<{ sku: string }>()
+    .v("sku", (b) => b.string.required().min(3))
+    .build(),
+};
+
+const validRequest = {
+  params: { shopId: "42" },
+  query: { page: "2" },
+  body: { sku: "A-100" },
+  headers: { host: "example.com" },
+};
+
+const invalidRequest = {
+  params: { shopId: "42" },
+  query: { page: "0" },
+  body: { sku: "A" },
+  headers: { host: "example.com" },
+};
+
+describe("validateRequest", () => {
+  test("parses each part and types the output", () => {
+    const result = validateRequest(orderRequest, validRequest);
+
+    expect(result.unwrap()).toEqual({
+      params: { shopId: 42 },
+      query: { page: 2 },
+      body: { sku: "A-100" },
+    });
+
+    const request = {
+      ...validRequest,
+      ...result.unwrap(),
+    } as ValidatedRequest<typeof orderRequest, typeof validRequest>;
+    const shopId: number = request.params.shopId;
+    const host: string = request.headers.host;
+    expect([shopId, host]).toEqual([42, "example.com"]);
+  });
+
+  test("collects the errors of all parts with the part as prefix", () => {
+    const result = validateRequest(orderRequest, invalidRequest);
+
+    expect(result.isValid()).toBe(false);
+    expect(result.errors.map((error) => error.path)).toEqual([
+      "query.page",
+      "body.sku",
+    ]);
+    expect(result.errors[0].paths()).toEqual(["query.page"]);
+  });
+});
+
+describe("expressValidator", () => {
+  test("replaces the parts with the parsed values", () => {
+    const req: any = { ...validRequest };
+    const next = jest.fn();
+
+    expressValidator(orderRequest)(req, {}, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(req.params).toEqual({ shopId: 42 });
+    expect(req.query).toEqual({ page: 2 });
+  });
+
+  test("shadows getter parts like the Express 5 query", () => {
+    const req: any = Object.create({
+      get query() {
+        return { page: "3" };
+      },
+    });
+
+    expressValidator({ query: orderRequest.query })(req, {}, jest.fn());
+
+    expect(req.query).toEqual({ page: 3 });
+  });
+
+  test("responds 400 with problem details", () => {
+    const json = jest.fn();
+    const res = { status: jest.fn(() => ({ json })) };
+    const next = jest.fn();
+
+    expressValidator(orderRequest)({ ...invalidRequest }, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(json.mock.calls[0][0]).toMatchObject({
+      status: 400,
+      errors: [{ pointer: "/query/page" }, { pointer: "/body/sku" }],
+    });
+  });
+
+  test("uses the configured status and body", () => {
+    const json = jest.fn();
+    const res = { status: jest.fn(() => ({ json })) };
+
+    expressValidator(orderRequest, {
+      status: 422,
+      errorBody: (errors) => ({ fields: errors.map((error) => error.path) }),
+    })({ ...invalidRequest }, res, jest.fn());
+
+    expect(res.status).toHaveBeenCalledWith(422);
+    expect(json).toHaveBeenCalledWith({ fields: ["query.page", "body.sku"] });
+  });
+});
+
+describe("fastifyValidator", () => {
+  test("replaces the parts or sends the error reply", async () => {
+    const request: any = { ...validRequest };
+    await fastifyValidator(orderRequest)(request, {});
+    expect(request.params).toEqual({ shopId: 42 });
+
+    const send = jest.fn(() => "sent");
+    const reply = { code: jest.fn(() => ({ send })) };
+    await expect(
+      fastifyValidator(orderRequest)({ ...invalidRequest }, reply)
+    ).resolves.toBe("sent");
+    expect(reply.code).toHaveBeenCalledWith(400);
+  });
+});
+
+describe("koaValidator", () => {
+  test("replaces the parts on ctx.request and ctx.params", async () => {
+    const ctx: any = {
+      params: { shopId: "42" },
+      request: { body: { sku: "A-100" }, query: { page: "2" }, headers: {} },
+    };
+    const next = jest.fn(async () => undefined);
+
+    await koaValidator(orderRequest)(ctx, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(ctx.params).toEqual({ shopId: 42 });
+    expect(ctx.request.query).toEqual({ page: 2 });
+  });
+
+  test("sets the error status and body", async () => {
+    const ctx: any = {
+      params: { shopId: "42" },
+      request: { body: { sku: "A" }, query: { page: "2" }, headers: {} },
+    };
+    const next = jest.fn(async () => undefined);
+
+    await koaValidator(orderRequest)(ctx, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(ctx.status).toBe(400);
+    expect(ctx.body.errors[0].pointer).toBe("/body/sku");
+  });
+});
+
+describe("honoValidator", () => {
+  const createContext = (body: unknown) => {
+    const validated: Record<string, unknown> = {};
+    return {
+      validated,
+      req: {
+        header: (name?: string) =>
+          name ? "application/json" : { "content-type": "application/json" },
+        json: async () => body,
+        parseBody: async () => ({}),
+        query: () => ({ page: "2" }),
+        param: () => ({ shopId: "42" }),
+        addValidatedData: (target: string, value: unknown) => {
+          validated[target] = value;
+        },
+      },
+      json: jest.fn((value: unknown, status: number) => ({ value, status })),
+    };
+  };
+
+  test("stores the parsed parts for c.req.valid()", async () => {
+    const c = createContext({ sku: "A-100" });
+    const next = jest.fn(async () => undefined);
+
+    await honoValidator(orderRequest)(c, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(c.validated).toEqual({
+      param: { shopId: 42 },
+      query: { page: 2 },
+      json: { sku: "A-100" },
+    });
+  });
+
+  test("returns the error response", async () => {
+    const c = createContext({ sku: "A" });
+    const next = jest.fn(async () => undefined);
+
+    const response = await honoValidator(orderRequest)(c, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(response).toMatchObject({ status: 400 });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, test, expect, afterEach } from "@jest/globals";
+import { Builder } from "../../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../../src/core/plugin/required";
+import { stringMinPlugin } from "../../../../src/core/plugin/stringMin";
+import { numberMinPlugin } from "../../../../src/core/plugin/numberMin";
+import { oneOfPlugin } from "../../../../src/core/plugin/oneOf";
+import { createPluginRegistry } from "../../../../src/core/registry/plugin-registry";
+import {
+  setGlobalConfig,
+  resetGlobalConfig,
+} from "../../../../src/core/global-config";
+import {
+  createTranslator,
+  registerMessageCatalog,
+  getMessageCatalog,
+  interpolateMessage,
+} from "../../../../src/core/i18n";
+
+type Form = { name: string; age: number; role: string };
+
+const createValidator = () =>
+  Builder()
+    .use(requiredPlugin)
+    .use(stringMinPlugin)
+    .use(numberMinPlugin)
+    .use(oneOfPlugin)
+    .for<Form>()
+    .v("name", (b) => b.string.required().min(3))
+    .v("age", (b) => b.number.required().min(18))
+    .v("role", (b) => b.string.oneOf(["admin", "user"]))
+    .build();
+
+describe("i18n", () => {
+  afterEach(() => {
+    resetGlobalConfig();
+  });
+
+  test("keeps plugin messages when no translation is configured", () => {
+    const result = createValidator().validate({ name: "Al", age: 20 });
+
+    expect(result.errors[0].message).toBe(
+      "String must have at least 3 characters, but got 2"
+    );
+  });
+
+  test("passes stable keys and params to translate", () => {
+    const calls: Array<[string, Record<string, any> | undefined]> = [];
+    const translate = (key: string, params?: Record<string, any>) => {
+      calls.push([key, params]);
+      return `${key}:${JSON.stringify(params)}`;
+    };
+
+    const result = createValidator().validate(
+      { name: "Al", age: 10, role: "guest" },
+      { translate, abortEarly: false }
+    );
+
+    expect(result.errors.map((error) => error.message)).toEqual([
+      'stringMin:{"min":3,"path":"name","actual":2}',
+      'numberMin:{"min":18,"exclusive":false,"path":"age"}',
+      'oneOf:{"values":"\\"admin\\", \\"user\\"","path":"role","actual":5}',
+    ]);
+    expect(calls.map(([key]) => key)).toEqual([
+      "stringMin",
+      "numberMin",
+      "oneOf",
+    ]);
+  });
+
+  test("translates type errors with expected and received types", () => {
+    const result = createValidator().validate(
+      { name: 42, age: 20 },
+      { translate: createTranslator("en") }
+    );
+
+    expect(result.errors[0].message).toBe(
+      "Expected string, but received number"
+    );
+  });
+
+  test("uses bundled catalogs through GlobalConfig.locale", () => {
+    setGlobalConfig({ locale: "ja" });
+
+    const result = createValidator().parse({ name: "Al", age: 20 });
+
+    expect(result.errors[0].message).toBe("3文字以上で入力してください");
+  });
+
+  test("translates missing required fields", () => {
+    const result = createValidator().validate(
+      { age: 20 },
+      { translate: createTranslator("de") }
+    );
+
+    expect(result.errors[0].path).toBe("name");
+    expect(result.errors[0].message).toBe("name ist erforderlich");
+  });
+
+  test("prefers a messageFactory given to the rule", () => {
+    const validator = Builder()
+      .use(stringMinPlugin)
+      .for<{ name: string }>()
+      .v("name", (b) => b.string.min(3, { messageFactory: () => "too short" }))
+      .build();
+
+    const result = validator.validate(
+      { name: "Al" },
+      { translate: createTranslator("ja") }
+    );
+
+    expect(result.errors[0].message).toBe("too short");
+  });
+
+  test("prefixes keys with GlobalConfig.messageKeyPrefix", () => {
+    setGlobalConfig({ messageKeyPrefix: "validation." });
+    const keys: string[] = [];
+
+    createValidator().validate(
+      { name: "Al", age: 20 },
+      {
+        translate: (key) => {
+          keys.push(key);
+          return key;
+        },
+      }
+    );
+
+    expect(keys).toEqual(["validation.stringMin"]);
+  });
+
+  test("registers custom catalogs globally", () => {
+    registerMessageCatalog("x-pirate", { stringMin: "Arr, {min} letters!" });
+    setGlobalConfig({ locale: "x-pirate" });
+
+    const result = createValidator().validate({ name: "Al", age: 20 });
+
+    expect(result.errors[0].message).toBe("Arr, 3 letters!");
+    expect(getMessageCatalog("x-pirate")).toEqual({
+      stringMin: "Arr, {min} letters!",
+    });
+    // Keys missing from the catalog fall back to English
+    expect(createTranslator("x-pirate")("numberMin", { min: 1 })).toBe(
+      "Must be at least 1"
+    );
+  });
+
+  test("applies translate to FieldRule validation", () => {
+    const rule = createPluginRegistry()
+      .use(stringMinPlugin)
+      .createFieldRule<string>((b) => b.string.min(5), { name: "code" });
+
+    const result = rule.validate("abc", {
+      translate: createTranslator("de"),
+    });
+
+    expect(result.errors[0].message).toBe(
+      "Muss mindestens 5 Zeichen lang sein"
+    );
+  });
+
+  test("interpolates params and keeps unknown placeholders", () => {
+    expect(interpolateMessage("{min}-{max}", { min: 1 })).toBe("1-{max}");
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, test, expect, jest } from "@jest/globals";
+import { Builder } from "../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../src/core/plugin/required";
+import { optionalPlugin } from "../../../src/core/plugin/optional";
+import { stringMinPlugin } from "../../../src/core/plugin/stringMin";
+import { transformPlugin } from "../../../src/core/plugin/transform";
+import { objectSchemaPlugin } from "../../../src/core/plugin/objectSchema";
+import { arrayItemsPlugin } from "../../../src/core/plugin/arrayItems";
+import { lazy, CIRCULAR_REFERENCE_CODE } from "../../../src/core/lazy";
+import type { TransformAwareValidator } from "../../../src/core/builder/plugins/plugin-types";
+
+type Folder = { name: string; children: Folder[] };
+
+const folderValidator: TransformAwareValidator<Folder> = Builder()
+  .use(requiredPlugin)
+  .use(stringMinPlugin)
+  .use(arrayItemsPlugin)
+  .for<Folder>()
+  .v("name", (b) => b.string.required().min(1))
+  .v("children", (b) => b.array.required().items(lazy(() => folderValidator)))
+  .build();
+
+// Expr contains Stmt, Stmt contains Expr
+type Expr = { op: string; body?: Stmt[] };
+type Stmt = { label: string; expr?: Expr };
+
+const exprValidator: TransformAwareValidator<Expr> = Builder()
+  .use(requiredPlugin)
+  .use(optionalPlugin)
+  .use(arrayItemsPlugin)
+  .for<Expr>()
+  .v("op", (b) => b.string.required())
+  .v("body", (b) => b.array.optional().items(lazy(() => stmtValidator)))
+  .build();
+
+const stmtValidator: TransformAwareValidator<Stmt> = Builder()
+  .use(requiredPlugin)
+  .use(optionalPlugin)
+  .use(objectSchemaPlugin)
+  .for<Stmt>()
+  .v("label", (b) => b.string.required())
+  .v("expr", (b) => b.object.optional().schema(lazy(() => exprValidator)))
+  .build();
+
+const folder = (name: string, children: Folder[] = []): Folder => ({
+  name,
+  children,
+});
+
+describe("lazy", () => {
+  test("validates self-recursive data", () => {
+    const tree = folder("root", [folder("a", [folder("b")]), folder("c")]);
+
+    expect(folderValidator.validate(tree).isValid()).toBe(true);
+  });
+
+  test("reports errors at nested paths", () => {
+    const tree = folder("root", [
+      folder("a"),
+      folder("b"),
+      folder("c", [folder(""), folder("d")]),
+    ]);
+
+    const result = folderValidator.validate(tree);
+
+    expect(result.isValid()).toBe(false);
+    expect(result.errors.map((error) => error.path)).toEqual([
+      "children[2].children[0].name",
+    ]);
+  });
+
+  test("supports mutually recursive validators", () => {
+    const valid: Expr = {
+      op: "block",
+      body: [{ label: "s1", expr: { op: "call", body: [{ label: "s2" }] } }],
+    };
+    const invalid = {
+      op: "block",
+      body: [{ label: "s1", expr: { op: "call", body: [{}] } }],
+    };
+
+    expect(exprValidator.validate(valid).isValid()).toBe(true);
+    const result = exprValidator.validate(invalid);
+    expect(result.isValid()).toBe(false);
+    expect(result.errors.map((error) => error.path)).toEqual([
+      "body[0].expr.body[0].label",
+    ]);
+  });
+
+  test("reports cycles in the input instead of recursing", () => {
+    const root = folder("root");
+    const child = folder("child", [root]);
+    root.children.push(child);
+
+    const result = folderValidator.validate(root);
+
+    expect(result.isValid()).toBe(false);
+    expect(result.errors[0].code).toBe(CIRCULAR_REFERENCE_CODE);
+    expect(result.errors[0].path).toBe("children[0].children[0].children[0]");
+  });
+
+  test("shares values that appear twice without a cycle", () => {
+    const shared = folder("shared");
+    const tree = folder("root", [shared, folder("a", [shared])]);
+
+    expect(folderValidator.validate(tree).isValid()).toBe(true);
+  });
+
+  test("validates each folder of a deep invalid tree once", () => {
+    let tree = folder("");
+    for (let depth = 0; depth < 18; depth++) {
+      tree = folder(`level${depth}`, [tree]);
+    }
+    const validate = jest.spyOn(folderValidator, "validate");
+
+    const result = folderValidator.validate(tree);
+
+    expect(result.errors.map((error) => error.path)).toEqual([
+      `${"children[0].".repeat(18)}name`,
+    ]);
+    // The root call and one call per nested folder
+    expect(validate).toHaveBeenCalledTimes(19);
+    validate.mockRestore();
+  });
+
+  test("parse applies transforms of the resolved validator", () => {
+    type Node = { label: string; next?: Node };
+    const nodeValidator: TransformAwareValidator<Node, { label: string }> =
+      Builder()
+        .use(requiredPlugin)
+        .use(optionalPlugin)
+        .use(transformPlugin)
+        .use(objectSchemaPlugin)
+        .for<Node>()
+        .v("label", (b) =>
+          b.string.required().transform((label) => label.toUpperCase())
+        )
+        .v("next", (b) => b.object.optional().schema(lazy(() => nodeValidator)))
+        .build();
+
+    const result = nodeValidator.parse({ label: "a", next: { label: "b" } });
+
+    expect(result.unwrap()).toEqual({ label: "A", next: { label: "B" } });
+  });
+});
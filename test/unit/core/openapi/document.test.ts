@@ -0,0 +1,233 @@
+import { describe, test, expect } from "@jest/globals";
+import { Builder } from "../../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../../src/core/plugin/required";
+import { optionalPlugin } from "../../../../src/core/plugin/optional";
+import { stringMinPlugin } from "../../../../src/core/plugin/stringMin";
+import { numberMinPlugin } from "../../../../src/core/plugin/numberMin";
+import { customPlugin } from "../../../../src/core/plugin/custom";
+import { createOpenApiRegistry } from "../../../../src/core/openapi";
+
+const orderValidator = Builder()
+  .use(requiredPlugin)
+  .use(stringMinPlugin)
+  .use(numberMinPlugin)
+  .for<{ sku: string; quantity: number }>()
+  .v("sku", (b) => b.string.required().min(3), {
+    description: "Catalog SKU",
+    metadata: { owner: "catalog" },
+  })
+  .v("quantity", (b) => b.number.required().min(1))
+  .build();
+
+const shopParams = Builder()
+  .use(requiredPlugin)
+  .for<{ shopId: string }>()
+  .v("shopId", (b) => b.string.required())
+  .build();
+
+const pagination = Builder()
+  .use(optionalPlugin)
+  .use(numberMinPlugin)
+  .for<{ page?: number; per_page?: number }>()
+  .v("page", (b) => b.number.optional().min(1), {
+    description: "Page number",
+  })
+  .v("per_page", (b) => b.number.optional(), { deprecated: true })
+  .build();
+
+const info = { title: "Shop API", version: "1.0.0" };
+
+describe("createOpenApiRegistry", () => {
+  test("writes operations with parameters, body and responses", () => {
+    const { document, unsupported } = createOpenApiRegistry({ info })
+      .operation({
+        method: "POST",
+        path: "/shops/{shopId}/orders",
+        operationId: "createOrder",
+        tags: ["orders"],
+        request: {
+          params: shopParams,
+          query: pagination,
+          body: orderValidator,
+        },
+        responses: {
+          201: orderValidator,
+          422: { description: "Invalid order" },
+        },
+      })
+      .toDocument();
+
+    expect(unsupported).toEqual([]);
+    expect(document.openapi).toBe("3.1.0");
+    expect(document.info).toEqual(info);
+
+    const operation = document.paths["/shops/{shopId}/orders"].post;
+    expect(operation.operationId).toBe("createOrder");
+    expect(operation.tags).toEqual(["orders"]);
+    expect(operation.parameters).toEqual([
+      {
+        name: "shopId",
+        in: "path",
+        required: true,
+        schema: { type: "string" },
+      },
+      {
+        name: "page",
+        in: "query",
+        required: false,
+        schema: { type: "number", minimum: 1 },
+        description: "Page number",
+      },
+      {
+        name: "per_page",
+        in: "query",
+        required: false,
+        schema: { type: "number" },
+        deprecated: true,
+      },
+    ]);
+    expect(operation.responses["422"]).toEqual({
+      description: "Invalid order",
+    });
+    expect(operation.responses["201"].description).toBe("Created");
+  });
+
+  test("moves validators shared by bodies and responses to components", () => {
+    const { document } = createOpenApiRegistry({ info })
+      .operation({
+        method: "post",
+        path: "/orders",
+        operationId: "createOrder",
+        request: { body: orderValidator },
+        responses: { 201: orderValidator },
+      })
+      .toDocument();
+
+    const ref = { $ref: "#/components/schemas/Schema1" };
+    const operation = document.paths["/orders"].post;
+    expect(operation.requestBody).toEqual({
+      required: true,
+      content: { "application/json": { schema: ref } },
+    });
+    expect(
+      operation.responses["201"].content["application/json"].schema
+    ).toEqual(ref);
+    expect(document.components?.schemas.Schema1).toEqual({
+      type: "object",
+      properties: {
+        sku: {
+          type: "string",
+          minLength: 3,
+          description: "Catalog SKU",
+          "x-owner": "catalog",
+        },
+        quantity: { type: "number", minimum: 1 },
+      },
+      required: ["sku", "quantity"],
+    });
+  });
+
+  test("numbers shared validators after the named ones", () => {
+    const { document } = createOpenApiRegistry({ info })
+      .schema("Schema1", shopParams)
+      .operation({
+        method: "put",
+        path: "/orders/{id}",
+        request: { body: orderValidator },
+        responses: { 200: orderValidator },
+      })
+      .operation({
+        method: "get",
+        path: "/shops",
+        responses: { 200: shopParams, 404: shopParams },
+      })
+      .toDocument();
+
+    expect(Object.keys(document.components?.schemas || {})).toEqual([
+      "Schema1",
+      "Schema2",
+    ]);
+    expect(
+      document.paths["/orders/{id}"].put.requestBody.content["application/json"]
+        .schema
+    ).toEqual({ $ref: "#/components/schemas/Schema2" });
+  });
+
+  test("rejects a second operation for the same method and path", () => {
+    const registry = createOpenApiRegistry({ info }).operation({
+      method: "get",
+      path: "/orders",
+      responses: { 200: orderValidator },
+    });
+
+    expect(() =>
+      registry.operation({
+        method: "GET",
+        path: "/orders",
+        operationId: "listOrders",
+        responses: { 204: {} },
+      })
+    ).toThrow("Operation GET /orders is already registered");
+  });
+
+  test("references named schemas and inlines single-use ones", () => {
+    const { document } = createOpenApiRegistry({ info })
+      .schema("Order", orderValidator)
+      .operation({
+        method: "get",
+        path: "/orders/{id}",
+        responses: { 200: orderValidator },
+      })
+      .operation({
+        method: "put",
+        path: "/shops/{shopId}",
+        request: { body: shopParams },
+        responses: { 204: {} },
+      })
+      .toDocument();
+
+    expect(Object.keys(document.components?.schemas || {})).toEqual(["Order"]);
+    expect(
+      document.paths["/orders/{id}"].get.responses["200"].content[
+        "application/json"
+      ].schema
+    ).toEqual({ $ref: "#/components/schemas/Order" });
+    expect(
+      document.paths["/shops/{shopId}"].put.requestBody.content[
+        "application/json"
+      ].schema
+    ).toEqual({
+      type: "object",
+      properties: { shopId: { type: "string" } },
+      required: ["shopId"],
+    });
+    expect(document.paths["/shops/{shopId}"].put.responses["204"]).toEqual({
+      description: "No Content",
+    });
+  });
+
+  test("reports rules without a JSON Schema equivalent with their location", () => {
+    const validator = Builder()
+      .use(customPlugin)
+      .for<{ code: string }>()
+      .v("code", (b) => b.string.custom((value: string) => value !== "x"))
+      .build();
+
+    const { unsupported } = createOpenApiRegistry({ info })
+      .operation({
+        method: "post",
+        path: "/codes",
+        request: { body: validator },
+        responses: { 204: {} },
+      })
+      .toDocument();
+
+    expect(unsupported).toEqual([
+      expect.objectContaining({
+        path: "code",
+        plugin: "custom",
+        location: "POST /codes body",
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,388 @@
+import { describe, test, expect } from "@jest/globals";
+import { importOpenApi } from "../../../../src/core/openapi";
+import { validateRequest } from "../../../../src/core/http-middleware";
+
+// Compile-time check: fails type checking unless A and B are identical
+type Equals<A, B> =
+  (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2
+    ? true
+    : false;
+const assertType = <T extends true>(_: T) => {};
+
+const petStore = {
+  openapi: "3.0.3",
+  info: { title: "Pet Store", version: "1.0.0" },
+  paths: {
+    "/pets/{petId}": {
+      parameters: [
+        {
+          name: "petId",
+          in: "path",
+          required: true,
+          schema: { type: "integer" },
+        },
+      ],
+      get: {
+        operationId: "getPet",
+        parameters: [
+          {
+            name: "X-Request-Id",
+            in: "header",
+            required: true,
+            schema: { type: "string" },
+          },
+          { $ref: "#/components/parameters/Verbose" },
+        ],
+        responses: {
+          "200": { $ref: "#/components/responses/Pet" },
+          "404": { description: "Not found" },
+        },
+      },
+    },
+    "/pets": {
+      post: {
+        operationId: "createPet",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/Pet" },
+            },
+          },
+        },
+        responses: { "201": { $ref: "#/components/responses/Pet" } },
+      },
+      get: {
+        parameters: [
+          {
+            name: "tags",
+            in: "query",
+            schema: { type: "array", items: { type: "string" } },
+          },
+          {
+            name: "limit",
+            in: "query",
+            schema: { type: "integer", minimum: 1 },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Pets",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/Pet" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    parameters: {
+      Verbose: { name: "verbose", in: "query", schema: { type: "boolean" } },
+    },
+    responses: {
+      Pet: {
+        description: "A pet",
+        content: {
+          "application/json": { schema: { $ref: "#/components/schemas/Pet" } },
+        },
+      },
+    },
+    schemas: {
+      Pet: {
+        type: "object",
+        properties: {
+          id: { type: "integer", readOnly: true },
+          name: { type: "string", minLength: 1 },
+          password: { type: "string", writeOnly: true },
+          nickname: { type: "string", nullable: true },
+          age: { type: "integer", minimum: 0, exclusiveMinimum: true },
+          kind: { $ref: "#/components/schemas/Kind" },
+        },
+        required: ["id", "name", "password"],
+      },
+      Kind: { type: "string", maxLength: 3 },
+    },
+  },
+} as const;
+
+describe("importOpenApi", () => {
+  test("builds validators by operationId", () => {
+    const api = importOpenApi(petStore);
+
+    expect(Object.keys(api).sort()).toEqual(["createPet", "getPet", "getPets"]);
+    expect(api.getPet).toMatchObject({
+      method: "get",
+      path: "/pets/{petId}",
+      operationId: "getPet",
+    });
+    expect(api.getPet.body).toBeUndefined();
+    expect(Object.keys(api.getPet.responses)).toEqual(["200"]);
+  });
+
+  test("leaves readOnly out of requests and writeOnly out of responses", () => {
+    const api = importOpenApi(petStore);
+    const body = api.createPet.body!;
+    const response = api.createPet.responses["201"]!;
+
+    expect(body.validate({ name: "Tom", password: "secret" }).isValid()).toBe(
+      true
+    );
+    expect(body.validate({ name: "Tom" }).isValid()).toBe(false);
+    expect(body.validate({ name: "", password: "secret" }).isValid()).toBe(
+      false
+    );
+
+    expect(response.validate({ id: 1, name: "Tom" }).isValid()).toBe(true);
+    expect(response.validate({ name: "Tom" }).isValid()).toBe(false);
+  });
+
+  test("resolves nullable, exclusive bounds and component refs", () => {
+    const body = importOpenApi(petStore).createPet.body!;
+    const pet = { name: "Tom", password: "secret" };
+
+    expect(body.validate({ ...pet, nickname: null }).isValid()).toBe(true);
+    expect(body.validate({ ...pet, nickname: 1 }).isValid()).toBe(false);
+    expect(body.validate({ ...pet, age: 0 }).isValid()).toBe(false);
+    expect(body.validate({ ...pet, age: 1 }).isValid()).toBe(true);
+    expect(body.validate({ ...pet, kind: "cat" }).isValid()).toBe(true);
+    expect(body.validate({ ...pet, kind: "horse" }).isValid()).toBe(false);
+  });
+
+  test("coerces parameter strings and lowercases header names", () => {
+    const api = importOpenApi(petStore);
+
+    expect(
+      validateRequest(api.getPet, {
+        params: { petId: "7" },
+        query: {},
+        headers: { "x-request-id": "abc" },
+      }).unwrap()
+    ).toEqual({
+      params: { petId: 7 },
+      query: {},
+      headers: { "x-request-id": "abc" },
+    });
+
+    expect(api.getPet.params!.parse({ petId: "42" }).unwrap()).toEqual({
+      petId: 42,
+    });
+    expect(api.getPet.params!.validate({ petId: "x" }).isValid()).toBe(false);
+    expect(api.getPet.query!.parse({ verbose: "true" }).unwrap()).toEqual({
+      verbose: true,
+    });
+    expect(
+      api.getPet.headers!.validate({ "x-request-id": "abc" }).isValid()
+    ).toBe(true);
+    expect(api.getPet.headers!.validate({}).isValid()).toBe(false);
+
+    expect(
+      api.getPets.query!.parse({ tags: "small", limit: "10" }).unwrap()
+    ).toEqual({ tags: ["small"], limit: 10 });
+    expect(api.getPets.query!.validate({ limit: "0" }).isValid()).toBe(false);
+  });
+
+  test("tells discriminated variants apart by the discriminator value", () => {
+    const document = {
+      paths: {
+        "/payments": {
+          post: {
+            operationId: "pay",
+            requestBody: {
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      payment: {
+                        oneOf: [
+                          { $ref: "#/components/schemas/Card" },
+                          { $ref: "#/components/schemas/Transfer" },
+                        ],
+                        discriminator: {
+                          propertyName: "method",
+                          mapping: { card: "#/components/schemas/Card" },
+                        },
+                      },
+                    },
+                    required: ["payment"],
+                  },
+                },
+              },
+            },
+            responses: {},
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Card: {
+            type: "object",
+            properties: {
+              method: { type: "string" },
+              last4: { type: "string" },
+            },
+            required: ["method"],
+          },
+          Transfer: {
+            type: "object",
+            properties: {
+              method: { type: "string" },
+              iban: { type: "string" },
+            },
+            required: ["method"],
+          },
+        },
+      },
+    };
+    const body = importOpenApi(document).pay.body!;
+    const pay = (payment: object) => body.validate({ payment }).isValid();
+
+    expect(pay({ method: "card", last4: "4242" })).toBe(true);
+    expect(pay({ method: "Transfer", iban: "DE00" })).toBe(true);
+    expect(pay({ method: "Card" })).toBe(false);
+    expect(pay({ method: "cash" })).toBe(false);
+  });
+
+  test("checks bodies whose root is a oneOf", () => {
+    const body = (schema: object) => ({
+      requestBody: {
+        content: { "application/json": { schema } },
+      },
+      responses: {},
+    });
+    const document = {
+      paths: {
+        "/payments": {
+          post: {
+            operationId: "pay",
+            ...body({ $ref: "#/components/schemas/Payment" }),
+          },
+          put: {
+            operationId: "replace",
+            ...body({
+              oneOf: [
+                { $ref: "#/components/schemas/Card" },
+                { $ref: "#/components/schemas/Transfer" },
+              ],
+            }),
+          },
+        },
+      },
+      components: {
+        schemas: {
+          Payment: {
+            oneOf: [
+              { $ref: "#/components/schemas/Card" },
+              { $ref: "#/components/schemas/Transfer" },
+            ],
+            discriminator: { propertyName: "method" },
+          },
+          Card: {
+            type: "object",
+            properties: {
+              method: { type: "string" },
+              last4: { type: "string", minLength: 4 },
+            },
+            required: ["method", "last4"],
+          },
+          Transfer: {
+            type: "object",
+            properties: {
+              method: { type: "string" },
+              iban: { type: "string" },
+            },
+            required: ["method", "iban"],
+          },
+        },
+      },
+    };
+    const api = importOpenApi(document);
+    const pay = api.pay.body!;
+
+    expect(pay.validate({ method: "Card", last4: "4242" }).isValid()).toBe(
+      true
+    );
+    expect(pay.validate({ method: "Transfer", iban: "DE00" }).isValid()).toBe(
+      true
+    );
+    const card = pay.validate({ method: "Card", last4: "42" });
+    expect(card.errors.map((error) => error.path)).toEqual(["last4"]);
+    const cash = pay.validate({ method: "cash" });
+    expect(cash.errors).toMatchObject([
+      { path: "method", code: "INVALID_DISCRIMINATOR" },
+    ]);
+    expect(pay.parse({ method: "Card", last4: "4242" }).unwrap()).toEqual({
+      method: "Card",
+      last4: "4242",
+    });
+
+    const replace = api.replace.body!;
+    expect(replace.validate({ method: "x", iban: "DE00" }).isValid()).toBe(
+      true
+    );
+    expect(replace.validate({ method: "x" }).errors).toMatchObject([
+      { path: "", code: "ONE_OF" },
+    ]);
+  });
+
+  test("accepts null for required nullable properties", () => {
+    const document = {
+      paths: {
+        "/profile": {
+          put: {
+            operationId: "updateProfile",
+            requestBody: {
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      nickname: { type: "string", nullable: true },
+                      bio: { type: ["string", "null"] },
+                    },
+                    required: ["nickname", "bio"],
+                  },
+                },
+              },
+            },
+            responses: {},
+          },
+        },
+      },
+    };
+    const body = importOpenApi(document).updateProfile.body!;
+
+    expect(body.validate({ nickname: null, bio: null }).isValid()).toBe(true);
+    expect(body.validate({ nickname: "Tom", bio: "Hi" }).isValid()).toBe(true);
+    expect(body.validate({ nickname: 1, bio: null }).isValid()).toBe(false);
+    expect(
+      body.validate({}, { abortEarly: false }).errors.map((e) => e.path)
+    ).toEqual(["nickname", "bio"]);
+  });
+
+  test("types the operations of documents declared as const", () => {
+    const api = importOpenApi(petStore);
+
+    const params = api.getPet.params!.parse({ petId: "1" }).unwrap();
+    assertType<Equals<typeof params, { petId: number }>>(true);
+
+    const headers = api.getPet.headers!.parse({ "x-request-id": "a" }).unwrap();
+    assertType<Equals<typeof headers, { "x-request-id": string }>>(true);
+
+    const query = api.getPets.query!.parse({}).unwrap();
+    assertType<Equals<typeof query, { tags?: string[]; limit?: number }>>(true);
+
+    const pet = api.createPet.body!.parse({ name: "Tom", password: "x" });
+    const name: string = pet.unwrap().name;
+    expect(name).toBe("Tom");
+
+    // @ts-expect-error deletePet is not an operation of the document
+    expect(api.deletePet).toBeUndefined();
+  });
+});
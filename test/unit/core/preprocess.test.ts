@@ -0,0 +1,139 @@
+import { describe, test, expect } from "@jest/globals";
+import { Builder } from "../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../src/core/plugin/required";
+import { optionalPlugin } from "../../../src/core/plugin/optional";
+import { numberMinPlugin } from "../../../src/core/plugin/numberMin";
+import { stringMinPlugin } from "../../../src/core/plugin/stringMin";
+import { coercePlugin } from "../../../src/core/plugin/coerce";
+import { preprocessPlugin } from "../../../src/core/plugin/preprocess";
+
+type Signup = {
+  name: string;
+  age?: number;
+  tags: string[];
+  scores?: number[];
+};
+
+const toNumber = (value: unknown) =>
+  value === "" || value === undefined ? undefined : Number(value);
+
+const createBuilder = () =>
+  Builder()
+    .use(requiredPlugin)
+    .use(optionalPlugin)
+    .use(numberMinPlugin)
+    .use(stringMinPlugin)
+    .use(coercePlugin)
+    .use(preprocessPlugin)
+    .for<Signup>();
+
+describe("preprocess", () => {
+  test("runs before the type check and feeds the rest of the chain", () => {
+    const validator = createBuilder()
+      .v("name", (b) => b.string.required())
+      .v("age", (b) => b.number.preprocess(toNumber).optional().min(18))
+      .v("tags", (b) =>
+        b.array.preprocess((v) =>
+          typeof v === "string" ? v.split(",") : (v as string[])
+        )
+      )
+      .build();
+
+    const result = validator.parse({ name: "Ada", age: "42", tags: "a,b" });
+    expect(result.isValid()).toBe(true);
+    expect(result.unwrap()).toEqual({ name: "Ada", age: 42, tags: ["a", "b"] });
+
+    const tooYoung = validator.validate({ name: "Ada", age: "12", tags: [] });
+    expect(tooYoung.isValid()).toBe(false);
+    expect(tooYoung.errors[0].code).toBe("numberMin");
+  });
+
+  test("runs before required and optional handling", () => {
+    const validator = createBuilder()
+      .v("name", (b) =>
+        b.string
+          .preprocess((v) => (v === "" ? undefined : (v as string)))
+          .required()
+      )
+      .v("age", (b) => b.number.preprocess(toNumber).optional())
+      .v("tags", (b) => b.array.preprocess((v) => (v as string[]) ?? []))
+      .build();
+
+    const result = validator.parse({ name: "Ada", age: "" } as any);
+    expect(result.isValid()).toBe(true);
+    expect(result.unwrap()).toEqual({ name: "Ada", age: undefined, tags: [] });
+
+    const missing = validator.validate({ name: "", tags: [] } as any);
+    expect(missing.isValid()).toBe(false);
+    expect(missing.errors[0].path).toBe("name");
+    expect(missing.errors[0].code).toBe("required");
+  });
+
+  test("applies to every element of array fields and receives the path", () => {
+    const paths: string[] = [];
+    const validator = createBuilder()
+      .v("scores[*]", (b) =>
+        b.number
+          .preprocess((v, { path }) => {
+            paths.push(path);
+            return toNumber(v);
+          })
+          .min(0)
+      )
+      .build();
+
+    const result = validator.parse({ scores: ["1", "2.5"] } as any);
+    expect(result.unwrap()).toEqual({ scores: [1, 2.5] });
+    expect(paths).toEqual(["scores[0]", "scores[1]"]);
+  });
+
+  test("runs before coerce()", () => {
+    const validator = createBuilder()
+      .v("age", (b) =>
+        b.number
+          .preprocess((v) => (typeof v === "string" ? v.trim() : v) as number)
+          .coerce()
+      )
+      .build();
+
+    expect(validator.parse({ age: " 7 " } as any).unwrap()).toEqual({ age: 7 });
+  });
+
+  test("object-level steps run first, in the order they are added", () => {
+    const validator = createBuilder()
+      .preprocess((input) =>
+        typeof input === "string" ? JSON.parse(input) : (input as Signup)
+      )
+      .preprocess((input) => ({ tags: [], ...(input as Signup) }))
+      .v("name", (b) => b.string.required().min(2))
+      .v("tags", (b) => b.array.required())
+      .v("age", (b) => b.number.preprocess(toNumber).optional())
+      .build();
+
+    const result = validator.parse('{"name":"Ada","age":"30"}');
+    expect(result.isValid()).toBe(true);
+    expect(result.unwrap()).toEqual({ name: "Ada", age: 30, tags: [] });
+
+    const invalid = validator.validate('{"name":"A"}');
+    expect(invalid.isValid()).toBe(false);
+    expect(invalid.errors[0].path).toBe("name");
+  });
+
+  test("does not modify the input", () => {
+    const validator = createBuilder()
+      .v("age", (b) => b.number.preprocess(toNumber))
+      .build();
+
+    const input = { age: "5" };
+    validator.parse(input as any);
+    expect(input).toEqual({ age: "5" });
+  });
+
+  test("preprocess functions must return the field type", () => {
+    createBuilder().v("age", (b) =>
+      // @ts-expect-error a string is not a number
+      b.number.preprocess((v) => String(v))
+    );
+    expect(true).toBe(true);
+  });
+});
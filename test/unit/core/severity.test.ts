@@ -0,0 +1,139 @@
+import { describe, test, expect } from "@jest/globals";
+import { Builder } from "../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../src/core/plugin/required";
+import { stringMinPlugin } from "../../../src/core/plugin/stringMin";
+import { stringMaxPlugin } from "../../../src/core/plugin/stringMax";
+import { stringPatternPlugin } from "../../../src/core/plugin/stringPattern";
+import { numberMinPlugin } from "../../../src/core/plugin/numberMin";
+import { createPluginRegistry } from "../../../src/core/registry/plugin-registry";
+import { SEVERITY } from "../../../src/core/plugin/types";
+import { createTranslator } from "../../../src/core/i18n";
+
+type Account = {
+  password: string;
+  age: number;
+  items: Array<{ note: string }>;
+};
+
+const createValidator = () =>
+  Builder()
+    .use(requiredPlugin)
+    .use(stringMinPlugin)
+    .use(stringMaxPlugin)
+    .use(stringPatternPlugin)
+    .use(numberMinPlugin)
+    .for<Account>()
+    .v("password", (b) =>
+      b.string
+        .required()
+        .min(12, { severity: SEVERITY.WARN })
+        .max(20)
+    )
+    .v("age", (b) => b.number.required().min(18))
+    .v("items[*].note", (b) =>
+      b.string.pattern(/^[a-z]+$/, { severity: SEVERITY.INFO })
+    )
+    .build();
+
+describe("severity", () => {
+  test("keeps the result valid when only WARN/INFO rules fail", () => {
+    const result = createValidator().validate({
+      password: "short",
+      age: 20,
+      items: [{ note: "ok" }, { note: "NOT OK" }],
+    });
+
+    expect(result.valid).toBe(true);
+    expect(
+      result.warnings.map(({ path, code, severity }) => ({
+        path,
+        code,
+        severity,
+      }))
+    ).toEqual([
+      { path: "password", code: "stringMin", severity: "WARN" },
+      { path: "items[1].note", code: "stringPattern", severity: "INFO" },
+    ]);
+    expect(result.warnings[0].message).toBe(
+      "String must have at least 12 characters, but got 5"
+    );
+  });
+
+  test("abortEarly stops on errors but still reports every warning", () => {
+    const result = createValidator().validate({
+      password: "short",
+      age: 10,
+      items: [{ note: "NOT OK" }],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((error) => error.code)).toEqual(["numberMin"]);
+    expect(result.warnings.map((warning) => warning.path)).toEqual([
+      "password",
+      "items[0].note",
+    ]);
+  });
+
+  test("skips soft rules for values that fail the field's errors", () => {
+    const result = createValidator().validate(
+      { password: "x".repeat(30), age: 20, items: [] },
+      { abortEarly: false }
+    );
+
+    expect(result.errors.map((error) => error.code)).toEqual(["stringMax"]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  test("parse returns data together with warnings", () => {
+    const result = createValidator().parse({
+      password: "short",
+      age: 20,
+      items: [],
+    });
+
+    expect(result.unwrap()).toEqual({ password: "short", age: 20, items: [] });
+    expect(result.warnings.map((warning) => warning.code)).toEqual([
+      "stringMin",
+    ]);
+    expect(result.toPlainObject().warnings).toHaveLength(1);
+  });
+
+  test("translates warning messages", () => {
+    const result = createValidator().validate(
+      { password: "short", age: 20, items: [] },
+      { translate: createTranslator("de") }
+    );
+
+    expect(result.warnings[0].message).toBe(
+      "Muss mindestens 12 Zeichen lang sein"
+    );
+  });
+
+  test("reports warnings from FieldRule.validate and parse", () => {
+    const rule = createPluginRegistry()
+      .use(stringMinPlugin)
+      .use(stringMaxPlugin)
+      .createFieldRule<string>(
+        (b) => b.string.min(8, { severity: SEVERITY.WARN }).max(10),
+        { name: "password" }
+      );
+
+    const weak = rule.validate("abc");
+    expect(weak.valid).toBe(true);
+    expect(weak.warnings).toHaveLength(1);
+    expect(weak.warnings[0].severity).toBe("WARN");
+    expect(rule.parse("abc").warnings).toHaveLength(1);
+
+    expect(rule.validate("abcdefgh").warnings).toEqual([]);
+    expect(rule.validate("abcdefghijkl").valid).toBe(false);
+  });
+
+  test("leaves WARN/INFO rules out of the JSON Schema export", () => {
+    const { schema } = createValidator().toJsonSchema();
+
+    expect(schema.properties.password).toEqual({
+      type: "string",
+      maxLength: 20,
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { Builder } from "../../../src/core/builder/core/builder";
+import { createPluginRegistry } from "../../../src/core/registry/plugin-registry";
+import { requiredPlugin } from "../../../src/core/plugin/required";
+import { stringMinPlugin } from "../../../src/core/plugin/stringMin";
+import { numberMinPlugin } from "../../../src/core/plugin/numberMin";
+import { transformPlugin } from "../../../src/core/plugin/transform";
+import { refineAsyncPlugin } from "../../../src/core/plugin/refineAsync";
+import { lazy } from "../../../src/core/lazy";
+import {
+  toStandardIssues,
+  type StandardSchemaV1,
+  type StandardSchemaInput,
+  type StandardSchemaOutput,
+} from "../../../src/core/standard-schema";
+
+type Order = {
+  id: string;
+  items: Array<{ sku: string; qty: number }>;
+};
+
+const orderValidator = Builder()
+  .use(requiredPlugin)
+  .use(stringMinPlugin)
+  .use(numberMinPlugin)
+  .use(transformPlugin)
+  .for<Order>()
+  .v("id", (b) => b.string.required().transform((id) => Number(id)))
+  .v("items[*].sku", (b) => b.string.required().min(3))
+  .v("items[*].qty", (b) => b.number.required().min(1))
+  .build();
+
+// Accepts any Standard Schema, like form resolvers and tRPC do
+const runStandard = async <TSchema extends StandardSchemaV1>(
+  schema: TSchema,
+  value: unknown
+) => schema["~standard"].validate(value);
+
+describe("Standard Schema", () => {
+  it("exposes version 1 and the luq vendor", () => {
+    expect(orderValidator["~standard"].version).toBe(1);
+    expect(orderValidator["~standard"].vendor).toBe("luq");
+  });
+
+  it("returns the parsed value on success", async () => {
+    const result = await runStandard(orderValidator, {
+      id: "42",
+      items: [{ sku: "ABC", qty: 2 }],
+    });
+    expect(result).toEqual({
+      value: { id: 42, items: [{ sku: "ABC", qty: 2 }] },
+    });
+  });
+
+  it("maps error paths to path segments with numeric indices", async () => {
+    const result = orderValidator["~standard"].validate({
+      id: "1",
+      items: [
+        { sku: "ABC", qty: 1 },
+        { sku: "AB", qty: 1 },
+      ],
+    });
+    expect(result).not.toBeInstanceOf(Promise);
+    expect((result as { issues: unknown }).issues).toEqual([
+      {
+        message: expect.any(String),
+        path: ["items", 1, "sku"],
+      },
+    ]);
+  });
+
+  it("reports every failing field", async () => {
+    const invalid = { id: "1", items: [{ sku: "AB", qty: 0 }] };
+    const issuePaths = (result: any) =>
+      result.issues.map((issue: { path: unknown }) => issue.path);
+
+    expect(issuePaths(await runStandard(orderValidator, invalid))).toEqual([
+      ["items", 0, "sku"],
+      ["items", 0, "qty"],
+    ]);
+    expect(
+      issuePaths(await runStandard(lazy(() => orderValidator), invalid))
+    ).toEqual([
+      ["items", 0, "sku"],
+      ["items", 0, "qty"],
+    ]);
+  });
+
+  it("reports an issue for every path of an error", () => {
+    const issues = toStandardIssues([
+      {
+        path: "confirm",
+        code: "PASSWORD_MISMATCH",
+        message: "Passwords do not match",
+        paths: () => ["password", "confirm"],
+      },
+      { path: "", code: "FORM", message: "Invalid form", paths: () => [] },
+    ]);
+    expect(issues).toEqual([
+      { message: "Passwords do not match", path: ["password"] },
+      { message: "Passwords do not match", path: ["confirm"] },
+      { message: "Invalid form" },
+    ]);
+  });
+
+  it("is asynchronous when the validator has async rules", async () => {
+    const validator = Builder()
+      .use(refineAsyncPlugin)
+      .for<{ username: string }>()
+      .v("username", (b) =>
+        b.string.refineAsync(async (name: string) => name !== "taken")
+      )
+      .build();
+
+    const pending = validator["~standard"].validate({ username: "taken" });
+    expect(pending).toBeInstanceOf(Promise);
+    expect((await pending).issues).toHaveLength(1);
+  });
+
+  it("is implemented by lazy validators and field rules", async () => {
+    const lazyOrder = lazy(() => orderValidator);
+    expect(
+      (await runStandard(lazyOrder, { id: "1", items: [] })).issues
+    ).toBeUndefined();
+
+    const rule = createPluginRegistry()
+      .use(stringMinPlugin)
+      .createFieldRule<string>((context) => context.string.min(3));
+    expect(await runStandard(rule, "abcd")).toEqual({ value: "abcd" });
+    expect(await runStandard(rule, "ab")).toEqual({
+      issues: [{ message: expect.any(String) }],
+    });
+  });
+
+  it("derives the input and output types", () => {
+    type Input = StandardSchemaInput<typeof orderValidator>;
+    type Output = StandardSchemaOutput<typeof orderValidator>;
+    const input: Input = { id: "1", items: [] };
+    const output: Output = { id: 1, items: [] };
+    // @ts-expect-error id is transformed to a number
+    const wrong: Output = { id: "1", items: [] };
+    expect([input, output, wrong]).toHaveLength(3);
+  });
+});
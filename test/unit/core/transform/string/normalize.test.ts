@@ -0,0 +1,59 @@
+import {
+  createNormalize,
+  collapseWhitespace,
+  slugify,
+  createTruncate,
+} from "../../../../../src/core/transform/string/normalize";
+
+describe("createNormalize", () => {
+  it("should compose to NFC by default", () => {
+    expect(createNormalize()("e\u0301")).toBe("\u00e9");
+  });
+
+  it("should decompose with NFD", () => {
+    expect(createNormalize("NFD")("\u00e9")).toBe("e\u0301");
+  });
+
+  it("should reject unknown forms", () => {
+    expect(() => createNormalize("NFX" as any)).toThrow(
+      "Invalid normalization form: NFX"
+    );
+  });
+});
+
+describe("collapseWhitespace", () => {
+  it("should collapse runs of whitespace and trim the ends", () => {
+    expect(collapseWhitespace("  hello \t\n  world  ")).toBe("hello world");
+  });
+});
+
+describe("slugify", () => {
+  it("should remove accents and join words with dashes", () => {
+    expect(slugify("Crème Brûlée!")).toBe("creme-brulee");
+    expect(slugify("  Hello,   World 2024 ")).toBe("hello-world-2024");
+  });
+
+  it("should return an empty string without letters or digits", () => {
+    expect(slugify("!!!")).toBe("");
+  });
+});
+
+describe("createTruncate", () => {
+  it("should keep strings within the limit", () => {
+    expect(createTruncate(5)("hello")).toBe("hello");
+  });
+
+  it("should cut long strings, suffix included", () => {
+    expect(createTruncate(5)("hello world")).toBe("hello");
+    expect(createTruncate(5, "…")("hello world")).toBe("hell…");
+  });
+
+  it("should not split surrogate pairs", () => {
+    expect(createTruncate(2)("😀😀😀")).toBe("😀😀");
+  });
+
+  it("should reject invalid lengths", () => {
+    expect(() => createTruncate(-1)).toThrow("Invalid truncate length: -1");
+    expect(() => createTruncate(1, "...")).toThrow();
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, test, expect } from "@jest/globals";
+import { Builder } from "../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../src/core/plugin/required";
+import { optionalPlugin } from "../../../src/core/plugin/optional";
+import { transformPlugin } from "../../../src/core/plugin/transform";
+import { UNRECOGNIZED_KEY_CODE } from "../../../src/core/unknown-keys";
+import { createTranslator } from "../../../src/core/i18n";
+
+type SignUp = {
+  name: string;
+  isAdmin?: boolean;
+  address: { city: string; zip?: string };
+  tags: Array<{ label: string; color?: string }>;
+  meta?: Record<string, unknown>;
+};
+
+const input = {
+  name: "Ann",
+  isAdmin: true,
+  address: { city: "Berlin", zip: "10115", country: "DE" },
+  tags: [{ label: "a", color: "red", id: 1 }],
+  meta: { source: "web" },
+};
+
+const createBuilder = () =>
+  Builder()
+    .use(requiredPlugin)
+    .use(optionalPlugin)
+    .use(transformPlugin)
+    .for<SignUp>()
+    .v("name", (b) => b.string.required())
+    .v("address.city", (b) => b.string.required())
+    .v("tags[*].label", (b) => b.string.required())
+    .v("meta", (b) => b.object.optional());
+
+describe("unknown-key policy", () => {
+  test("keeps unknown keys by default", () => {
+    const data = createBuilder().build().parse(input).unwrap();
+
+    expect(data).toEqual(input);
+  });
+
+  test("strip removes undeclared keys recursively", () => {
+    const result = createBuilder().unknownKeys("strip").build().parse(input);
+
+    expect(result.unwrap()).toEqual({
+      name: "Ann",
+      address: { city: "Berlin" },
+      tags: [{ label: "a" }],
+      meta: { source: "web" },
+    });
+    expect(input.address.country).toBe("DE");
+  });
+
+  test("strip is reflected in the parse output type", () => {
+    const data = createBuilder().unknownKeys("strip").build().parse(input).unwrap();
+    const city: string = data.address.city;
+    const label: string = data.tags[0].label;
+
+    // @ts-expect-error isAdmin is not declared
+    data.isAdmin;
+    // @ts-expect-error zip is not declared
+    data.address.zip;
+
+    expect([city, label]).toEqual(["Berlin", "a"]);
+  });
+
+  test("strip keeps transformed values", () => {
+    const data = Builder()
+      .use(transformPlugin)
+      .for<{ name: string; role?: string }>()
+      .unknownKeys("strip")
+      .v("name", (b) => b.string.transform((name) => name.length))
+      .build()
+      .parse({ name: "Ann", role: "admin" })
+      .unwrap();
+
+    const length: number = data.name;
+    expect(data).toEqual({ name: 3 });
+    expect(length).toBe(3);
+  });
+
+  test("strict reports undeclared keys at their paths", () => {
+    const validator = createBuilder().unknownKeys("strict").build();
+    const result = validator.validate(input, { abortEarly: false });
+
+    expect(result.errors.map((error) => [error.path, error.code])).toEqual([
+      ["isAdmin", UNRECOGNIZED_KEY_CODE],
+      ["address.zip", UNRECOGNIZED_KEY_CODE],
+      ["address.country", UNRECOGNIZED_KEY_CODE],
+      ["tags[0].color", UNRECOGNIZED_KEY_CODE],
+      ["tags[0].id", UNRECOGNIZED_KEY_CODE],
+    ]);
+    expect(result.errors[0].message).toBe('Unrecognized key "isAdmin"');
+    expect(validator.parse(input).errors).toHaveLength(1);
+    expect(
+      validator.validate({
+        name: "Ann",
+        address: { city: "Berlin" },
+        tags: [],
+      }).isValid()
+    ).toBe(true);
+  });
+
+  test("allowKey accepts undeclared root keys", () => {
+    const builder = Builder()
+      .use(requiredPlugin)
+      .for<{ name: string }>()
+      .v("name", (b) => b.string.required());
+    const allowKey = (key: string) => key.startsWith("x-");
+
+    const strict = builder.unknownKeys("strict", allowKey).build();
+    expect(strict.validate({ name: "Ann", "x-id": 1 }).isValid()).toBe(true);
+    expect(strict.validate({ name: "Ann", id: 1 }).errors[0]).toMatchObject({
+      path: "id",
+      code: UNRECOGNIZED_KEY_CODE,
+    });
+
+    const data = builder
+      .unknownKeys("strip", allowKey)
+      .build()
+      .parse({ name: "Ann", "x-id": 1, id: 1 })
+      .unwrap();
+    expect(data).toEqual({ name: "Ann", "x-id": 1 });
+  });
+
+  test("nested objects override the builder policy", () => {
+    const data = Builder()
+      .use(requiredPlugin)
+      .for<SignUp>()
+      .unknownKeys("strip")
+      .v("name", (b) => b.string.required())
+      .v("address", (b) => b.object, { unknownKeys: "passthrough" })
+      .v("address.city", (b) => b.string.required())
+      .build()
+      .parse(input)
+      .unwrap();
+
+    expect(data).toEqual({
+      name: "Ann",
+      address: { city: "Berlin", zip: "10115", country: "DE" },
+    });
+
+    const result = Builder()
+      .use(requiredPlugin)
+      .for<SignUp>()
+      .v("name", (b) => b.string.required())
+      .v("tags", (b) => b.array, { unknownKeys: "strict" })
+      .v("tags[*].label", (b) => b.string.required())
+      .build()
+      .validate(input, { abortEarly: false });
+
+    expect(result.errors.map((error) => error.path)).toEqual([
+      "tags[0].color",
+      "tags[0].id",
+    ]);
+  });
+
+  test("translates unrecognized key messages", () => {
+    const result = createBuilder()
+      .unknownKeys("strict")
+      .build()
+      .validate(input, { translate: createTranslator("de") });
+
+    expect(result.errors[0].message).toBe('Unbekannter Schlüssel "isAdmin"');
+  });
+});
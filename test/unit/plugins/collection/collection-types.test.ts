@@ -0,0 +1,194 @@
+import { describe, test, expect } from "@jest/globals";
+import { Builder } from "../../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../../src/core/plugin/required";
+import { optionalPlugin } from "../../../../src/core/plugin/optional";
+import { stringMinPlugin } from "../../../../src/core/plugin/stringMin";
+import { stringPatternPlugin } from "../../../../src/core/plugin/stringPattern";
+import { numberMinPlugin } from "../../../../src/core/plugin/numberMin";
+import { objectSchemaPlugin } from "../../../../src/core/plugin/objectSchema";
+import { collectionMinSizePlugin } from "../../../../src/core/plugin/collectionMinSize";
+import { collectionMaxSizePlugin } from "../../../../src/core/plugin/collectionMaxSize";
+import { collectionKeysPlugin } from "../../../../src/core/plugin/collectionKeys";
+import { collectionValuesPlugin } from "../../../../src/core/plugin/collectionValues";
+import { bigintMinPlugin } from "../../../../src/core/plugin/bigintMin";
+import { bigintMaxPlugin } from "../../../../src/core/plugin/bigintMax";
+import { bigintMultipleOfPlugin } from "../../../../src/core/plugin/bigintMultipleOf";
+import type { NestedKeyOf } from "../../../../src/types/util";
+
+// bigint literals need ES2020
+const big = (value: number | string): bigint =>
+  (globalThis as any).BigInt(value);
+
+type Price = { amount: number; currency: string };
+
+type Product = {
+  prices: Map<string, Price>;
+  tags: Set<string>;
+  stock: Record<string, number>;
+  ledger: bigint;
+};
+
+const priceValidator = Builder()
+  .use(requiredPlugin)
+  .use(numberMinPlugin)
+  .for<Price>()
+  .v("amount", (b) => b.number.required().min(0))
+  .v("currency", (b) => b.string.required())
+  .build();
+
+const productValidator = Builder()
+  .use(requiredPlugin)
+  .use(stringMinPlugin)
+  .use(stringPatternPlugin)
+  .use(numberMinPlugin)
+  .use(objectSchemaPlugin)
+  .use(collectionMinSizePlugin)
+  .use(collectionMaxSizePlugin)
+  .use(collectionKeysPlugin)
+  .use(collectionValuesPlugin)
+  .use(bigintMinPlugin)
+  .use(bigintMaxPlugin)
+  .use(bigintMultipleOfPlugin)
+  .for<Product>()
+  .v("prices", (b) =>
+    b.map
+      .required()
+      .minSize(1)
+      .keys((k) => k.string.pattern(/^[A-Z]{3}$/))
+  )
+  .v("tags", (b) =>
+    b.set
+      .required()
+      .maxSize(3)
+      .values((v) => v.string.min(2))
+  )
+  .v("stock", (b) => b.record.required().values((v) => v.number.min(0)))
+  .v("ledger", (b) =>
+    b.bigint.required().min(big(0)).max(big(1000)).multipleOf(big(10))
+  )
+  .build();
+
+const product = (): Product => ({
+  prices: new Map([["EUR", { amount: 10, currency: "EUR" }]]),
+  tags: new Set(["sale", "new"]),
+  stock: { paris: 3, lyon: 0 },
+  ledger: big(500),
+});
+
+describe("Map, Set, record and bigint fields", () => {
+  test("accepts valid collections and bigints", () => {
+    expect(productValidator.validate(product()).isValid()).toBe(true);
+  });
+
+  test("checks the field types", () => {
+    const result = productValidator.validate(
+      { ...product(), prices: { EUR: 1 }, tags: ["sale"], ledger: 500 },
+      { abortEarly: false }
+    );
+
+    expect(result.isValid()).toBe(false);
+    expect(result.errors.map((error) => error.path)).toEqual([
+      "prices",
+      "tags",
+      "ledger",
+    ]);
+  });
+
+  test("reports invalid keys and values at their element paths", () => {
+    const data = product();
+    data.prices.set("usd", { amount: 1, currency: "USD" });
+    data.tags.add("x");
+    data.stock.rome = -1;
+
+    const result = productValidator.validate(data, { abortEarly: false });
+
+    expect(result.isValid()).toBe(false);
+    expect(result.errors.map((error) => [error.path, error.code])).toEqual([
+      ["prices.usd", "stringPattern"],
+      ["tags[2]", "stringMin"],
+      ["stock.rome", "numberMin"],
+    ]);
+  });
+
+  test("checks collection sizes", () => {
+    const result = productValidator.validate(
+      {
+        ...product(),
+        prices: new Map(),
+        tags: new Set(["aa", "bb", "cc", "dd"]),
+      },
+      { abortEarly: false }
+    );
+
+    expect(result.errors.map((error) => error.code)).toEqual([
+      "collectionMinSize",
+      "collectionMaxSize",
+    ]);
+  });
+
+  test("checks bigint bounds and divisibility", () => {
+    const codes = (ledger: bigint) => {
+      const result = productValidator.validate(
+        { ...product(), ledger },
+        { abortEarly: false }
+      );
+      return result.isValid() ? [] : result.errors.map((error) => error.code);
+    };
+
+    expect(codes(big(-10))).toEqual(["bigintMin"]);
+    expect(codes(big(2000))).toEqual(["bigintMax"]);
+    expect(codes(big(15))).toEqual(["bigintMultipleOf"]);
+    expect(codes(big("990"))).toEqual([]);
+  });
+
+  test("validates Map values with a nested validator", () => {
+    const validator = Builder()
+      .use(collectionValuesPlugin)
+      .use(objectSchemaPlugin)
+      .for<{ prices: Map<string, Price> }>()
+      .v("prices", (b) => b.map.values((v) => v.object.schema(priceValidator)))
+      .build();
+
+    const result = validator.validate({
+      prices: new Map([
+        ["EUR", { amount: 1, currency: "EUR" }],
+        ["USD", { amount: -1, currency: "USD" }],
+      ]),
+    });
+
+    expect(result.isValid()).toBe(false);
+    expect(result.errors[0].path).toBe("prices.USD");
+  });
+
+  test("treats Map and Set as leaves of field paths", () => {
+    type Paths = NestedKeyOf<Product>;
+    const paths: Paths[] = ["prices", "tags", "stock", "stock.paris", "ledger"];
+    // @ts-expect-error Map methods are not field paths
+    const mapMethod: Paths = "prices.size";
+
+    expect(paths).toHaveLength(5);
+    expect(mapMethod).toBe("prices.size");
+  });
+
+  test("exports Set, record and bigint to JSON Schema", () => {
+    const { schema, unsupported } = productValidator.toJsonSchema();
+
+    expect(schema.properties.tags).toEqual({
+      type: "array",
+      uniqueItems: true,
+      maxItems: 3,
+      items: { type: "string", minLength: 2 },
+    });
+    expect(schema.properties.stock).toEqual({
+      type: "object",
+      additionalProperties: { type: "number", minimum: 0 },
+    });
+    expect(schema.properties.ledger).toEqual({
+      type: "integer",
+      minimum: 0,
+      maximum: 1000,
+      multipleOf: 10,
+    });
+    expect(unsupported.map((rule) => rule.plugin)).toContain("map");
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, test, expect, jest } from "@jest/globals";
+import { Builder } from "../../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../../src/core/plugin/required";
+import { stringMinPlugin } from "../../../../src/core/plugin/stringMin";
+import { numberMinPlugin } from "../../../../src/core/plugin/numberMin";
+import { customPlugin } from "../../../../src/core/plugin/custom";
+import {
+  unionDiscriminatedPlugin,
+  INVALID_DISCRIMINATOR_CODE,
+} from "../../../../src/core/plugin/unionDiscriminated";
+
+type Payment =
+  | { kind: "card"; cardNumber: string; cvc: string }
+  | { kind: "bank"; iban: string }
+  | { kind: "wallet"; balance: number };
+
+type Order = { payment: Payment; refunds?: Payment[] };
+
+const paymentBranches = {
+  card: (card: any) =>
+    card
+      .v("cardNumber", (b: any) => b.string.required().min(12))
+      .v("cvc", (b: any) => b.string.required().min(3)),
+  bank: (bank: any) => bank.v("iban", (b: any) => b.string.required()),
+  wallet: (wallet: any) =>
+    wallet.v("balance", (b: any) => b.number.required().min(0)),
+};
+
+const createValidator = () =>
+  Builder()
+    .use(requiredPlugin)
+    .use(stringMinPlugin)
+    .use(numberMinPlugin)
+    .use(unionDiscriminatedPlugin)
+    .for<Order>()
+    .v("payment", (b) =>
+      b.union.required().discriminated("kind", paymentBranches)
+    )
+    .v("refunds[*]", (b) => b.union.discriminated("kind", paymentBranches))
+    .build();
+
+const errorsOf = (result: any) =>
+  result.isValid()
+    ? []
+    : result.errors.map((error: any) => [error.path, error.code]);
+
+describe("unionDiscriminated Plugin", () => {
+  test("accepts every branch", () => {
+    const validator = createValidator();
+
+    expect(
+      validator
+        .validate({
+          payment: { kind: "card", cardNumber: "4111111111111111", cvc: "123" },
+        })
+        .isValid()
+    ).toBe(true);
+    expect(
+      validator.validate({ payment: { kind: "bank", iban: "DE89" } }).isValid()
+    ).toBe(true);
+    expect(
+      validator.validate({ payment: { kind: "wallet", balance: 0 } }).isValid()
+    ).toBe(true);
+  });
+
+  test("reports branch errors at nested paths", () => {
+    const result = createValidator().validate(
+      { payment: { kind: "card", cardNumber: "4111", cvc: "1" } },
+      { abortEarly: false }
+    );
+
+    expect(errorsOf(result)).toEqual([
+      ["payment.cardNumber", "stringMin"],
+      ["payment.cvc", "stringMin"],
+    ]);
+  });
+
+  test("keeps abortEarly within the branch", () => {
+    const result = createValidator().validate({
+      payment: { kind: "card", cardNumber: "4111", cvc: "1" },
+    });
+
+    expect(errorsOf(result)).toEqual([["payment.cardNumber", "stringMin"]]);
+  });
+
+  test("only validates the branch selected by the tag", () => {
+    const result = createValidator().validate({
+      payment: { kind: "bank", cardNumber: "4111", balance: -1 },
+    });
+
+    expect(errorsOf(result)).toEqual([["payment.iban", "required"]]);
+  });
+
+  test("validates the selected branch once per value", () => {
+    const checkIban = jest.fn((iban: string) => iban.startsWith("DE"));
+    const validator = Builder()
+      .use(customPlugin)
+      .use(unionDiscriminatedPlugin)
+      .for<{ payment: { kind: "bank"; iban: string } }>()
+      .v("payment", (b) =>
+        b.union.discriminated("kind", {
+          bank: (bank: any) =>
+            bank.v("iban", (b: any) => b.string.custom(checkIban)),
+        })
+      )
+      .build();
+
+    const result = validator.validate({ payment: { kind: "bank", iban: "FR" } });
+
+    expect(errorsOf(result)).toEqual([["payment.iban", "CUSTOM_VALIDATION_FAILED"]]);
+    expect(checkIban).toHaveBeenCalledTimes(1);
+  });
+
+  test("reports invalid discriminators with the allowed tags", () => {
+    const result = createValidator().validate({ payment: { kind: "cash" } });
+
+    expect(errorsOf(result)).toEqual([
+      ["payment.kind", INVALID_DISCRIMINATOR_CODE],
+    ]);
+    expect(result.errors[0].message).toBe(
+      'Invalid discriminator value. Expected one of: "card", "bank", "wallet"'
+    );
+  });
+
+  test("rejects values that are not objects", () => {
+    const result = createValidator().validate({ payment: "card" as any });
+
+    expect(errorsOf(result)).toEqual([["payment", "unionDiscriminated"]]);
+  });
+
+  test("resolves array element paths", () => {
+    const result = createValidator().validate(
+      {
+        payment: { kind: "bank", iban: "DE89" },
+        refunds: [
+          { kind: "wallet", balance: 10 },
+          { kind: "wallet", balance: -5 },
+        ],
+      },
+      { abortEarly: false }
+    );
+
+    expect(errorsOf(result)).toEqual([["refunds[1].balance", "numberMin"]]);
+  });
+
+  test("translates invalid discriminator messages", () => {
+    const result = createValidator().validate(
+      { payment: { kind: "cash" } },
+      {
+        translate: (key, params) =>
+          key === "invalidDiscriminator" ? `bad ${params?.key}` : key,
+      }
+    );
+
+    expect(result.errors[0].message).toBe("bad kind");
+  });
+
+  test("narrows the builder type of each branch", () => {
+    Builder()
+      .use(requiredPlugin)
+      .use(unionDiscriminatedPlugin)
+      .for<Order>()
+      .v("payment", (b) =>
+        b.union.discriminated("kind", {
+          card: (card) => card.v("cardNumber", (b) => b.string.required()),
+          // @ts-expect-error cardNumber is not part of the bank branch
+          bank: (bank) => bank.v("cardNumber", (b) => b.string.required()),
+          wallet: (wallet) => wallet.v("balance", (b) => b.number.required()),
+        })
+      );
+
+    Builder()
+      .use(unionDiscriminatedPlugin)
+      .for<Order>()
+      .v("payment", (b) =>
+        // @ts-expect-error the wallet branch is missing
+        b.union.discriminated("kind", {
+          card: (card) => card,
+          bank: (bank) => bank,
+        })
+      );
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, test, expect, afterEach } from "@jest/globals";
+import { Builder } from "../../../../src/core/builder/core/builder";
+import { stringDatePlugin } from "../../../../src/core/plugin/stringDate";
+import { stringDatetimePlugin } from "../../../../src/core/plugin/stringDatetime";
+import { dateMinPlugin } from "../../../../src/core/plugin/dateMin";
+import { dateMaxPlugin } from "../../../../src/core/plugin/dateMax";
+import { dateAfterPlugin } from "../../../../src/core/plugin/dateAfter";
+import { dateBeforePlugin } from "../../../../src/core/plugin/dateBefore";
+import { datePastPlugin } from "../../../../src/core/plugin/datePast";
+import { dateFuturePlugin } from "../../../../src/core/plugin/dateFuture";
+import { dateWithinLastPlugin } from "../../../../src/core/plugin/dateWithinLast";
+import { dateWithinNextPlugin } from "../../../../src/core/plugin/dateWithinNext";
+import { dateWeekdayPlugin } from "../../../../src/core/plugin/dateWeekday";
+import { dateBusinessDayPlugin } from "../../../../src/core/plugin/dateBusinessDay";
+import {
+  setGlobalConfig,
+  resetGlobalConfig,
+} from "../../../../src/core/global-config";
+import { createTranslator } from "../../../../src/core/i18n";
+
+const NOW = new Date("2024-06-15T12:00:00Z");
+
+describe("date constraints", () => {
+  afterEach(() => {
+    resetGlobalConfig();
+  });
+
+  test("min and max are inclusive bounds on Date fields", () => {
+    const validator = Builder()
+      .use(dateMinPlugin)
+      .use(dateMaxPlugin)
+      .for<{ day: Date }>()
+      .v("day", (b) => b.date.min("2024-01-01").max(new Date("2024-12-31")))
+      .build();
+
+    expect(validator.validate({ day: new Date("2024-01-01") }).isValid()).toBe(
+      true
+    );
+    expect(validator.validate({ day: new Date("2024-12-31") }).isValid()).toBe(
+      true
+    );
+
+    const result = validator.validate({ day: new Date("2023-12-31") });
+    expect(result.errors[0].code).toBe("dateMin");
+    expect(result.errors[0].message).toBe(
+      "Date must be on or after 2024-01-01T00:00:00.000Z"
+    );
+    expect(
+      validator.validate({ day: new Date("2025-01-01") }).errors[0].code
+    ).toBe("dateMax");
+  });
+
+  test("after and before are exclusive unless inclusive is set", () => {
+    const validator = Builder()
+      .use(dateAfterPlugin)
+      .use(dateBeforePlugin)
+      .for<{ start: Date; end: Date }>()
+      .v("start", (b) => b.date.after("2024-01-01"))
+      .v("end", (b) => b.date.before("2024-02-01", { inclusive: true }))
+      .build();
+
+    const result = validator.validate(
+      { start: new Date("2024-01-01"), end: new Date("2024-02-01") },
+      { abortEarly: false }
+    );
+
+    expect(result.errors.map((error) => [error.path, error.code])).toEqual([
+      ["start", "dateAfter"],
+    ]);
+  });
+
+  test("applies to ISO 8601 strings after the format check", () => {
+    const validator = Builder()
+      .use(stringDatePlugin)
+      .use(stringDatetimePlugin)
+      .use(dateAfterPlugin)
+      .use(dateBeforePlugin)
+      .use(dateWeekdayPlugin)
+      .for<{ checkIn: string; sentAt: string }>()
+      .v("checkIn", (b) => b.string.date().after("2024-03-01").weekday())
+      .v("sentAt", (b) => b.string.datetime().before("2024-03-01T00:00:00Z"))
+      .build();
+
+    expect(
+      validator
+        .validate({ checkIn: "2024-03-04", sentAt: "2024-02-29T23:59:59Z" })
+        .isValid()
+    ).toBe(true);
+
+    const result = validator.validate(
+      { checkIn: "2024-03-09", sentAt: "2024-03-01T00:00:00Z" },
+      { abortEarly: false }
+    );
+    expect(result.errors.map((error) => [error.path, error.code])).toEqual([
+      ["checkIn", "dateWeekday"],
+      ["sentAt", "dateBefore"],
+    ]);
+    expect(
+      validator.validate({ checkIn: "2024-02-30", sentAt: "x" }).isValid()
+    ).toBe(false);
+  });
+
+  test("relative rules use the GlobalConfig clock", () => {
+    setGlobalConfig({ clock: () => NOW });
+
+    const validator = Builder()
+      .use(datePastPlugin)
+      .use(dateFuturePlugin)
+      .use(dateWithinLastPlugin)
+      .use(dateWithinNextPlugin)
+      .for<{ birthday: Date; appointment: Date; login: Date; trial: Date }>()
+      .v("birthday", (b) => b.date.past())
+      .v("appointment", (b) => b.date.future())
+      .v("login", (b) => b.date.withinLast({ days: 30 }))
+      .v("trial", (b) => b.date.withinNext({ weeks: 2 }))
+      .build();
+
+    expect(
+      validator
+        .validate({
+          birthday: new Date("1990-05-01"),
+          appointment: new Date("2024-06-16"),
+          login: new Date("2024-05-20"),
+          trial: new Date("2024-06-29T12:00:00Z"),
+        })
+        .isValid()
+    ).toBe(true);
+
+    const result = validator.validate(
+      {
+        birthday: new Date("2024-07-01"),
+        appointment: NOW,
+        login: new Date("2024-05-01"),
+        trial: new Date("2024-06-30"),
+      },
+      { abortEarly: false }
+    );
+    expect(
+      result.errors.map((error) => [error.path, error.code, error.message])
+    ).toEqual([
+      ["birthday", "datePast", "Date must be in the past"],
+      ["appointment", "dateFuture", "Date must be in the future"],
+      ["login", "dateWithinLast", "Date must be within the last 30 days"],
+      ["trial", "dateWithinNext", "Date must be within the next 2 weeks"],
+    ]);
+  });
+
+  test("businessDay rejects weekends and holidays", () => {
+    const validator = Builder()
+      .use(dateBusinessDayPlugin)
+      .for<{ shipDate: Date }>()
+      .v("shipDate", (b) =>
+        b.date.businessDay({ holidays: ["2024-12-25", new Date("2025-01-01")] })
+      )
+      .build();
+
+    expect(
+      validator.validate({ shipDate: new Date("2024-12-24") }).isValid()
+    ).toBe(true);
+    expect(
+      validator.validate({ shipDate: new Date("2024-12-25T15:00:00Z") }).isValid()
+    ).toBe(false);
+    expect(
+      validator.validate({ shipDate: new Date("2024-12-28") }).isValid()
+    ).toBe(false);
+  });
+
+  test("supports custom and translated messages", () => {
+    setGlobalConfig({ clock: () => NOW });
+
+    const validator = Builder()
+      .use(dateAfterPlugin)
+      .use(dateWithinLastPlugin)
+      .for<{ start: Date; login: Date }>()
+      .v("start", (b) =>
+        b.date.after("2024-01-01", {
+          messageFactory: ({ path, date }) => `${path} must be after ${date}`,
+        })
+      )
+      .v("login", (b) => b.date.withinLast({ days: 7 }))
+      .build();
+
+    const data = { start: new Date("2023-01-01"), login: new Date("2024-01-01") };
+
+    expect(
+      validator
+        .validate(data, { abortEarly: false })
+        .errors.map((error) => error.message)
+    ).toEqual([
+      "start must be after 2024-01-01T00:00:00.000Z",
+      "Date must be within the last 7 days",
+    ]);
+    expect(
+      validator.validate(data, {
+        abortEarly: false,
+        translate: createTranslator("en"),
+      }).errors[1].message
+    ).toBe("Must be within the last 7 days");
+  });
+});
@@ -578,10 +578,16 @@ describe("JsonSchema 100% Coverage - All Modules", () => {
         $ref: "#/definitions/node"
       };
       
-      // resolveAllRefs throws on circular reference to prevent infinite loops
-      expect(() => {
-        resolveAllRefs(circularSchema, circularSchema);
-      }).toThrow("Circular reference detected");
+      // The circular reference is kept as $ref to prevent infinite loops
+      expect(resolveAllRefs(circularSchema, circularSchema)).toEqual({
+        type: "object",
+        properties: {
+          children: {
+            type: "array",
+            items: { $ref: "#/definitions/node" }
+          }
+        }
+      });
     });
 
     test("should handle boolean schemas in allOf", () => {
@@ -0,0 +1,233 @@
+import { describe, test, expect } from "@jest/globals";
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { Builder } from "../../../../src/core/builder/core/builder";
+import { jsonSchemaFullFeaturePlugin } from "../../../../src/core/plugin/jsonSchemaFullFeature";
+import { createRefResolver } from "../../../../src/core/plugin/jsonSchema/ref-resolver";
+import { detectDialect } from "../../../../src/core/plugin/jsonSchema/dialect";
+import { validateValueAgainstSchema } from "../../../../src/core/plugin/jsonSchema/validation-core";
+import type { JSONSchema7 } from "json-schema";
+
+type SuiteGroup = {
+  description: string;
+  schema: JSONSchema7;
+  tests: Array<{ description: string; data: unknown; valid: boolean }>;
+};
+
+const suiteDir = join(__dirname, "json-schema-test-suite");
+const readJson = (path: string) => JSON.parse(readFileSync(path, "utf8"));
+
+const remotesDir = join(suiteDir, "remotes/draft2020-12");
+const remotes: Record<string, JSONSchema7> = Object.fromEntries(
+  readdirSync(remotesDir).map((file) => [
+    `http://localhost:1234/draft2020-12/${file}`,
+    readJson(join(remotesDir, file)),
+  ])
+);
+
+describe("JSON-Schema-Test-Suite draft2020-12", () => {
+  const testsDir = join(suiteDir, "tests/draft2020-12");
+  for (const file of readdirSync(testsDir)) {
+    describe(file, () => {
+      for (const group of readJson(join(testsDir, file)) as SuiteGroup[]) {
+        describe(group.description, () => {
+          createRefResolver(group.schema, { schemas: remotes });
+          for (const { description, data, valid } of group.tests) {
+            test(description, () => {
+              expect(validateValueAgainstSchema(data, group.schema)).toBe(valid);
+            });
+          }
+        });
+      }
+    });
+  }
+});
+
+describe("dialect detection", () => {
+  test("reads $schema and falls back to Draft-07", () => {
+    expect(
+      detectDialect({ $schema: "https://json-schema.org/draft/2020-12/schema" })
+    ).toBe("2020-12");
+    expect(
+      detectDialect({ $schema: "https://json-schema.org/draft/2019-09/schema#" })
+    ).toBe("2019-09");
+    expect(
+      detectDialect({ $schema: "http://json-schema.org/draft-07/schema#" })
+    ).toBe("draft-07");
+    expect(detectDialect({})).toBe("draft-07");
+  });
+
+  test("dialect option overrides $schema", () => {
+    const schema: JSONSchema7 = {
+      type: "object",
+      properties: { foo: { type: "string" } },
+      unevaluatedProperties: false,
+    } as JSONSchema7;
+
+    createRefResolver(schema);
+    expect(validateValueAgainstSchema({ foo: "a", bar: 1 }, schema)).toBe(true);
+
+    createRefResolver(schema, { dialect: "2020-12" });
+    expect(validateValueAgainstSchema({ foo: "a", bar: 1 }, schema)).toBe(false);
+  });
+});
+
+describe("fromJsonSchema with 2020-12 schemas", () => {
+  const createValidator = () =>
+    Builder()
+      .use(jsonSchemaFullFeaturePlugin)
+      .fromJsonSchema({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        type: "object",
+        properties: {
+          point: {
+            type: "array",
+            prefixItems: [{ type: "number" }, { type: "number" }],
+            items: false,
+          },
+          tags: {
+            type: "array",
+            items: { type: "string" },
+            contains: { const: "primary" },
+            maxContains: 1,
+          },
+          address: {
+            $ref: "#/$defs/address",
+            unevaluatedProperties: false,
+          },
+        },
+        $defs: {
+          address: {
+            type: "object",
+            properties: { city: { type: "string" } },
+          },
+        },
+      })
+      .build();
+
+  test("accepts valid data", () => {
+    const result = createValidator().validate({
+      point: [1, 2],
+      tags: ["primary", "x"],
+      address: { city: "Kyoto" },
+    });
+
+    expect(result.isValid()).toBe(true);
+  });
+
+  test.each([
+    ["prefixItems", { point: [1, "2"] }],
+    ["items after prefixItems", { point: [1, 2, 3] }],
+    ["maxContains", { tags: ["primary", "primary"] }],
+    ["unevaluatedProperties next to $ref", { address: { city: "Kyoto", zip: "1" } }],
+  ])("rejects data violating %s", (_keyword, data) => {
+    expect(createValidator().validate(data).isValid()).toBe(false);
+  });
+});
+
+describe("fromJsonSchema with 2020-12 root object keywords", () => {
+  const fromJsonSchema = (schema: object) =>
+    Builder()
+      .use(jsonSchemaFullFeaturePlugin)
+      .fromJsonSchema({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        type: "object",
+        ...schema,
+      })
+      .build();
+
+  test("dependentRequired requires fields once the property is present", () => {
+    const validator = fromJsonSchema({
+      properties: { card: { type: "string" }, zip: { type: "string" } },
+      dependentRequired: { card: ["zip", "holder"] },
+    });
+
+    expect(validator.validate({}).isValid()).toBe(true);
+    expect(validator.validate({ zip: "1" }).isValid()).toBe(true);
+    expect(
+      validator.validate({ card: "x", zip: "1", holder: 7 }).isValid()
+    ).toBe(true);
+    expect(validator.validate({ card: "x", zip: "1" }).isValid()).toBe(false);
+    expect(validator.validate({ card: "x", holder: "A" }).isValid()).toBe(
+      false
+    );
+    expect(
+      validator.validate({ card: "x", zip: 1, holder: "A" }).isValid()
+    ).toBe(false);
+  });
+
+  test("dependentSchemas requires the fields the dependent schema lists", () => {
+    const validator = fromJsonSchema({
+      properties: { card: { type: "string" }, zip: { type: "string" } },
+      dependentSchemas: { card: { required: ["zip"] } },
+    });
+
+    expect(validator.validate({}).isValid()).toBe(true);
+    expect(validator.validate({ card: "x", zip: "1" }).isValid()).toBe(true);
+    expect(validator.validate({ card: "x" }).isValid()).toBe(false);
+  });
+
+  test.each(["unevaluatedProperties", "additionalProperties"])(
+    "%s: false rejects undeclared keys",
+    (keyword) => {
+      const validator = fromJsonSchema({
+        properties: { a: { type: "string" } },
+        [keyword]: false,
+      });
+
+      expect(validator.validate({ a: "x" }).isValid()).toBe(true);
+      const result = validator.validate({ a: "x", b: 1 });
+      expect(result.isValid()).toBe(false);
+      expect(result.errors[0]).toMatchObject({
+        path: "b",
+        code: "UNRECOGNIZED_KEY",
+      });
+    }
+  );
+
+  test("required properties whose type allows null accept null", () => {
+    const validator = fromJsonSchema({
+      properties: { deletedAt: { type: ["string", "null"] } },
+      required: ["deletedAt"],
+    });
+
+    expect(validator.validate({ deletedAt: null }).isValid()).toBe(true);
+    expect(validator.validate({ deletedAt: "2024-01-01" }).isValid()).toBe(
+      true
+    );
+    expect(validator.validate({}).isValid()).toBe(false);
+  });
+
+  test("unevaluatedProperties: false accepts keys that if/then evaluates", () => {
+    const validator = fromJsonSchema({
+      properties: { b: { type: "number" } },
+      if: { properties: { b: { const: 1 } } },
+      then: { properties: { c: { type: "string" } } },
+      unevaluatedProperties: false,
+    });
+
+    expect(validator.validate({ b: 1, c: "x" }).isValid()).toBe(true);
+    const result = validator.validate({ b: 2, c: "x" });
+    expect(result.isValid()).toBe(false);
+    expect(result.errors[0]).toMatchObject({
+      path: "c",
+      code: "UNRECOGNIZED_KEY",
+    });
+  });
+
+  test("additionalProperties: false accepts keys that a pattern matches", () => {
+    const validator = fromJsonSchema({
+      properties: { b: { type: "number" } },
+      patternProperties: { "^x-": { type: "string" } },
+      additionalProperties: false,
+    });
+
+    expect(validator.validate({ b: 1, "x-id": "x" }).isValid()).toBe(true);
+    const result = validator.validate({ b: 1, y: "x" });
+    expect(result.isValid()).toBe(false);
+    expect(result.errors[0]).toMatchObject({
+      path: "y",
+      code: "UNRECOGNIZED_KEY",
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { Builder } from "../../../../src/core/builder/core/builder";
+import { requiredPlugin } from "../../../../src/core/plugin/required";
+import { optionalPlugin } from "../../../../src/core/plugin/optional";
+import { nullablePlugin } from "../../../../src/core/plugin/nullable";
+import { stringMinPlugin } from "../../../../src/core/plugin/stringMin";
+import { stringMaxPlugin } from "../../../../src/core/plugin/stringMax";
+import { stringEmailPlugin } from "../../../../src/core/plugin/stringEmail";
+import { stringPatternPlugin } from "../../../../src/core/plugin/stringPattern";
+import { numberMinPlugin } from "../../../../src/core/plugin/numberMin";
+import { numberIntegerPlugin } from "../../../../src/core/plugin/numberInteger";
+import { numberMultipleOfPlugin } from "../../../../src/core/plugin/numberMultipleOf";
+import { arrayUniquePlugin } from "../../../../src/core/plugin/arrayUnique";
+import { arrayMinLengthPlugin } from "../../../../src/core/plugin/arrayMinLength";
+import { objectAdditionalPropertiesPlugin } from "../../../../src/core/plugin/objectAdditionalProperties";
+import { oneOfPlugin } from "../../../../src/core/plugin/oneOf";
+import { literalPlugin } from "../../../../src/core/plugin/literal";
+import { tupleBuilderPlugin } from "../../../../src/core/plugin/tupleBuilder";
+import { customPlugin } from "../../../../src/core/plugin/custom";
+import { bigintMinPlugin } from "../../../../src/core/plugin/bigintMin";
+import { bigintMaxPlugin } from "../../../../src/core/plugin/bigintMax";
+import { bigintMultipleOfPlugin } from "../../../../src/core/plugin/bigintMultipleOf";
+import { convertFieldDefinitionsToJsonSchema } from "../../../../src/core/plugin/jsonSchema/exporter";
+
+describe("toJsonSchema", () => {
+  type User = {
+    name: string;
+    email: string;
+    age: number | null;
+    role: "admin" | "user";
+    kind: "user";
+    tags: string[];
+    address: { city: string; zip?: string };
+    items: Array<{ sku: string; quantity: number }>;
+    point: [number, number];
+    nickname?: string;
+  };
+
+  const createValidator = () =>
+    Builder()
+      .use(requiredPlugin)
+      .use(optionalPlugin)
+      .use(nullablePlugin)
+      .use(stringMinPlugin)
+      .use(stringMaxPlugin)
+      .use(stringEmailPlugin)
+      .use(stringPatternPlugin)
+      .use(numberMinPlugin)
+      .use(numberIntegerPlugin)
+      .use(numberMultipleOfPlugin)
+      .use(arrayUniquePlugin)
+      .use(arrayMinLengthPlugin)
+      .use(objectAdditionalPropertiesPlugin)
+      .use(oneOfPlugin)
+      .use(literalPlugin)
+      .use(tupleBuilderPlugin)
+      .for<User>()
+      .v("name", (b) => b.string.required().min(2).max(50), {
+        description: "Display name",
+      })
+      .v("email", (b) => b.string.required().email())
+      .v("age", (b) => b.number.nullable().integer().min(0))
+      .v("role", (b) => b.string.oneOf(["admin", "user"]), { default: "user" })
+      .v("kind", (b) => b.string.literal("user"))
+      .v("tags", (b) => b.array.unique().minLength(1))
+      .v("address", (b) => b.object.required().additionalProperties(false))
+      .v("address.city", (b) => b.string.required())
+      .v("items[*].sku", (b) => b.string.required().pattern(/^[A-Z]{3}$/))
+      .v("items[*].quantity", (b) => b.number.required().multipleOf(1))
+      .v("point", (b) =>
+        b.tuple.builder(
+          (b: any) => b.number.required(),
+          (b: any) => b.number.required()
+        )
+      )
+      .v("nickname", (b) => b.string.optional())
+      .build();
+
+  test("exports Draft-07 by default", () => {
+    const { schema, unsupported } = createValidator().toJsonSchema();
+
+    expect(unsupported).toEqual([]);
+    expect(schema.$schema).toBe("http://json-schema.org/draft-07/schema#");
+    expect(schema.type).toBe("object");
+    expect(schema.required).toEqual(["name", "email", "address"]);
+    expect(schema.properties.name).toEqual({
+      type: "string",
+      minLength: 2,
+      maxLength: 50,
+      description: "Display name",
+    });
+    expect(schema.properties.email).toEqual({ type: "string", format: "email" });
+    expect(schema.properties.age).toEqual({
+      type: ["integer", "null"],
+      minimum: 0,
+    });
+    expect(schema.properties.role).toEqual({
+      type: "string",
+      enum: ["admin", "user"],
+      default: "user",
+    });
+    expect(schema.properties.kind).toEqual({ type: "string", const: "user" });
+    expect(schema.properties.tags).toEqual({
+      type: "array",
+      uniqueItems: true,
+      minItems: 1,
+    });
+    expect(schema.properties.nickname).toEqual({ type: "string" });
+  });
+
+  test("nests dotted and array element paths", () => {
+    const { schema } = createValidator().toJsonSchema();
+
+    expect(schema.properties.address).toEqual({
+      type: "object",
+      additionalProperties: false,
+      properties: { city: { type: "string" } },
+      required: ["city"],
+    });
+    expect(schema.properties.items).toEqual({
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          sku: { type: "string", pattern: "^[A-Z]{3}$" },
+          quantity: { type: "number", multipleOf: 1 },
+        },
+        required: ["sku", "quantity"],
+      },
+    });
+  });
+
+  test("uses items/additionalItems for tuples in Draft-07", () => {
+    const { schema } = createValidator().toJsonSchema();
+
+    expect(schema.properties.point).toEqual({
+      type: "array",
+      items: [{ type: "number" }, { type: "number" }],
+      additionalItems: false,
+      minItems: 2,
+      maxItems: 2,
+    });
+  });
+
+  test("uses prefixItems for tuples in 2020-12", () => {
+    const { schema } = createValidator().toJsonSchema({
+      dialect: "2020-12",
+      $id: "https://example.com/user.json",
+    });
+
+    expect(schema.$schema).toBe("https://json-schema.org/draft/2020-12/schema");
+    expect(schema.$id).toBe("https://example.com/user.json");
+    expect(schema.properties.point).toEqual({
+      type: "array",
+      prefixItems: [{ type: "number" }, { type: "number" }],
+      items: false,
+      minItems: 2,
+      maxItems: 2,
+    });
+  });
+
+  test("reports rules without a JSON Schema equivalent", () => {
+    const validator = Builder()
+      .use(requiredPlugin)
+      .use(customPlugin)
+      .use(stringPatternPlugin)
+      .for<{ code: string }>()
+      .v("code", (b) =>
+        b.string
+          .required()
+          .pattern(/^abc$/i)
+          .custom((value: string) => value !== "abc")
+      )
+      .build();
+
+    const { schema, unsupported } = validator.toJsonSchema();
+
+    expect(schema.properties.code).toEqual({ type: "string", pattern: "^abc$" });
+    expect(unsupported.map((rule) => rule.plugin)).toEqual([
+      "stringPattern",
+      "custom",
+    ]);
+    expect(unsupported[1].path).toBe("code");
+    expect(() => validator.toJsonSchema({ onUnsupported: "throw" })).toThrow(
+      "Rules cannot be represented in JSON Schema: code: stringPattern, code: custom"
+    );
+  });
+
+  test("reports bigint bounds that JSON numbers cannot hold exactly", () => {
+    const validator = Builder()
+      .use(bigintMinPlugin)
+      .use(bigintMaxPlugin)
+      .use(bigintMultipleOfPlugin)
+      .for<{ id: bigint }>()
+      .v("id", (b) =>
+        b.bigint
+          .min(BigInt(1))
+          .max(BigInt("18446744073709551616"))
+          .multipleOf(BigInt("1152921504606846976"))
+      )
+      .build();
+
+    const { schema, unsupported } = validator.toJsonSchema();
+
+    expect(schema.properties.id).toEqual({ type: "integer", minimum: 1 });
+    expect(unsupported.map((rule) => [rule.path, rule.plugin])).toEqual([
+      ["id", "bigintMax"],
+      ["id", "bigintMultipleOf"],
+    ]);
+  });
+
+  test("writes field metadata as prefixed keywords when asked", () => {
+    const validator = Builder()
+      .use(requiredPlugin)
+      .for<{ sku: string }>()
+      .v("sku", (b) => b.string.required(), {
+        metadata: { owner: "catalog", since: new Date("2024-01-01") },
+      })
+      .build();
+
+    expect(validator.toJsonSchema().schema.properties.sku).toEqual({
+      type: "string",
+    });
+    expect(
+      validator.toJsonSchema({ metadataPrefix: "x-" }).schema.properties.sku
+    ).toEqual({
+      type: "string",
+      "x-owner": "catalog",
+      "x-since": "2024-01-01T00:00:00.000Z",
+    });
+  });
+
+  test("converts field definitions without a built validator", () => {
+    const { schema } = convertFieldDefinitionsToJsonSchema([]);
+
+    expect(schema).toEqual({
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {},
+    });
+  });
+});
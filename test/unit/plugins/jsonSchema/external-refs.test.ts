@@ -0,0 +1,206 @@
+import { describe, test, expect } from "@jest/globals";
+import { Builder } from "../../../../src/core/builder/core/builder";
+import { jsonSchemaFullFeaturePlugin } from "../../../../src/core/plugin/jsonSchemaFullFeature";
+import {
+  createRefResolver,
+  resolveRef,
+} from "../../../../src/core/plugin/jsonSchema/ref-resolver";
+import { validateValueAgainstSchema } from "../../../../src/core/plugin/jsonSchema/validation-core";
+import type { JSONSchema7 } from "json-schema";
+
+const common: JSONSchema7 = {
+  definitions: {
+    Address: {
+      type: "object",
+      properties: {
+        street: { type: "string", minLength: 1 },
+        country: { $ref: "#/definitions/Country" },
+      },
+      required: ["street"],
+    },
+    Country: { type: "string", minLength: 2, maxLength: 2 },
+  },
+};
+
+describe("external $ref resolution", () => {
+  test("resolves refs into registered documents", () => {
+    const validator = Builder()
+      .use(jsonSchemaFullFeaturePlugin)
+      .fromJsonSchema(
+        {
+          type: "object",
+          properties: {
+            address: { $ref: "common.json#/definitions/Address" },
+          },
+          required: ["address"],
+        },
+        { schemas: { "common.json": common } }
+      )
+      .build();
+
+    expect(
+      validator.validate({ address: { street: "Main", country: "JP" } }).isValid()
+    ).toBe(true);
+    expect(
+      validator.validate({ address: { street: "Main", country: "FRA" } }).isValid()
+    ).toBe(false);
+  });
+
+  test("loads missing documents once through the loader", () => {
+    const loader = jest.fn((uri: string) =>
+      uri === "https://example.com/schemas/common.json" ? common : undefined
+    );
+    const root: JSONSchema7 = {
+      $id: "https://example.com/schemas/order.json",
+      type: "object",
+      properties: {
+        billing: { $ref: "common.json#/definitions/Address" },
+        shipping: { $ref: "common.json#/definitions/Address" },
+      },
+    };
+    const resolver = createRefResolver(root, { loader });
+
+    expect(resolver.resolve("common.json#/definitions/Country")).toEqual(
+      common.definitions!.Country
+    );
+    expect(resolveRef("common.json#/definitions/Address", root)).toBe(
+      common.definitions!.Address
+    );
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  test("resolves against embedded $id base URIs and $anchor", () => {
+    const root: JSONSchema7 = {
+      $id: "https://example.com/root.json",
+      $defs: {
+        item: {
+          $id: "items/item.json",
+          type: "object",
+          properties: { tag: { $ref: "#tag" } },
+          $defs: {
+            tag: { $anchor: "tag", type: "string", maxLength: 3 } as JSONSchema7,
+          },
+        },
+      },
+    } as JSONSchema7;
+    const resolver = createRefResolver(root);
+
+    expect(
+      resolver.resolve("https://example.com/items/item.json#tag")
+    ).toMatchObject({ maxLength: 3 });
+    expect(resolver.resolve("items/item.json#/properties/tag")).toEqual({
+      $ref: "#tag",
+    });
+    expect(
+      validateValueAgainstSchema(
+        { tag: "abcd" },
+        resolver.resolve("items/item.json")
+      )
+    ).toBe(false);
+  });
+
+  test("validates recursive refs lazily", () => {
+    const validator = Builder()
+      .use(jsonSchemaFullFeaturePlugin)
+      .fromJsonSchema({
+        type: "object",
+        properties: {
+          tree: { $ref: "#/definitions/Node" },
+        },
+        definitions: {
+          Node: {
+            type: "object",
+            properties: {
+              value: { type: "string" },
+              children: { type: "array", items: { $ref: "#/definitions/Node" } },
+            },
+          },
+        },
+      })
+      .build();
+
+    const tree = (value: unknown) => ({
+      tree: {
+        value: "root",
+        children: [{ value: "a", children: [{ value, children: [] }] }],
+      },
+    });
+
+    expect(validator.validate(tree("leaf")).isValid()).toBe(true);
+    expect(validator.validate(tree(42)).isValid()).toBe(false);
+  });
+
+  test("reports recursive ref issues at their nested paths", () => {
+    const validator = Builder()
+      .use(jsonSchemaFullFeaturePlugin)
+      .fromJsonSchema({
+        type: "object",
+        properties: { tree: { $ref: "#/definitions/Node" } },
+        definitions: {
+          Node: {
+            type: "object",
+            properties: {
+              value: { type: "string" },
+              children: { type: "array", items: { $ref: "#/definitions/Node" } },
+            },
+          },
+        },
+      })
+      .build();
+
+    const result = validator.validate({
+      tree: { value: "root", children: [{ value: 42, children: [] }] },
+    });
+
+    expect(result.errors.map((error) => error.path)).toEqual([
+      "tree.children[0].value",
+    ]);
+  });
+
+  test("checks cyclic data against recursive refs", () => {
+    const schema: JSONSchema7 = {
+      $ref: "#/definitions/Node",
+      definitions: {
+        Node: {
+          type: "object",
+          properties: {
+            value: { type: "string" },
+            children: { type: "array", items: { $ref: "#/definitions/Node" } },
+          },
+        },
+      },
+    };
+    const node: any = { value: "a", children: [] };
+    node.children.push(node);
+
+    const validator = Builder()
+      .use(jsonSchemaFullFeaturePlugin)
+      .fromJsonSchema({
+        type: "object",
+        properties: { tree: { $ref: "#/definitions/Node" } },
+        definitions: schema.definitions,
+      })
+      .build();
+
+    expect(validateValueAgainstSchema(node, schema, undefined, schema)).toBe(true);
+    expect(validator.validate({ tree: node }).isValid()).toBe(true);
+
+    node.children.push({ value: 1, children: [node] });
+    expect(validateValueAgainstSchema(node, schema, undefined, schema)).toBe(false);
+    // Reported once, at a path that reaches the invalid value
+    const { errors } = validator.validate({ tree: node });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].path).toMatch(/^tree\.(children\[0\]\.)*children\[1\]\.value$/);
+  });
+
+  test("reports documents nobody can provide", () => {
+    const resolver = createRefResolver({}, { loader: () => undefined });
+
+    expect(() => resolver.resolve("missing.json#/definitions/A")).toThrow(
+      "Cannot resolve $ref: missing.json#/definitions/A"
+    );
+    expect(() => resolveRef("other.json", {})).toThrow(
+      "External $ref not supported"
+    );
+  });
+});
@@ -252,9 +252,11 @@ describe("JsonSchema Final 100% Coverage Push", () => {
       };
       
       // The visited set should prevent infinite loops
-      expect(() => {
-        resolveAllRefs(schema.definitions!.node as JSONSchema7, schema);
-      }).toThrow("Circular reference detected");
+      const resolved = resolveAllRefs(schema.definitions!.node as JSONSchema7, schema);
+      expect(resolved.properties!.child).toEqual({
+        type: "object",
+        properties: { child: { $ref: "#/definitions/node" } }
+      });
     });
   });
 
@@ -0,0 +1,226 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { Builder } from "../../../../src/core/builder/core/builder";
+import { jsonSchemaPlugin } from "../../../../src/core/plugin/jsonSchema/plugin";
+import { jsonSchemaFullFeaturePlugin } from "../../../../src/core/plugin/jsonSchemaFullFeature";
+import type { InferJsonSchema } from "../../../../src/core/plugin/jsonSchema/infer";
+
+// Compile-time check: fails type checking unless A and B are identical
+type Equals<A, B> =
+  (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2
+    ? true
+    : false;
+const assertType = <T extends true>(_: T) => {};
+
+describe("InferJsonSchema", () => {
+  it("infers required and optional properties", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        id: { type: "integer" },
+        name: { type: "string" },
+        active: { type: "boolean" },
+      },
+      required: ["id", "name"],
+    } as const;
+
+    assertType<
+      Equals<
+        InferJsonSchema<typeof schema>,
+        { id: number; name: string; active?: boolean }
+      >
+    >(true);
+  });
+
+  it("infers enum, const and nullable types", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        status: { enum: ["draft", "published"] },
+        kind: { const: "post" },
+        note: { type: ["string", "null"] },
+        rating: { type: "number", nullable: true },
+      },
+      required: ["status", "kind", "note", "rating"],
+    } as const;
+
+    assertType<
+      Equals<
+        InferJsonSchema<typeof schema>,
+        {
+          status: "draft" | "published";
+          kind: "post";
+          note: string | null;
+          rating: number | null;
+        }
+      >
+    >(true);
+  });
+
+  it("infers arrays and tuples", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        tags: { type: "array", items: { type: "string" } },
+        point: {
+          type: "array",
+          prefixItems: [{ type: "number" }, { type: "number" }],
+        },
+        legacy: {
+          type: "array",
+          items: [{ type: "string" }, { type: "boolean" }],
+        },
+      },
+      required: ["tags", "point", "legacy"],
+    } as const;
+
+    assertType<
+      Equals<
+        InferJsonSchema<typeof schema>,
+        { tags: string[]; point: [number, number]; legacy: [string, boolean] }
+      >
+    >(true);
+  });
+
+  it("infers the items after tuple elements as a rest element", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        row: {
+          type: "array",
+          prefixItems: [{ type: "string" }, { type: "number" }],
+          items: { type: "boolean" },
+        },
+        closed: {
+          type: "array",
+          prefixItems: [{ type: "string" }],
+          items: false,
+        },
+        legacy: {
+          type: "array",
+          items: [{ type: "string" }],
+          additionalItems: { type: "number" },
+        },
+        legacyClosed: {
+          type: "array",
+          items: [{ type: "string" }],
+          additionalItems: false,
+        },
+      },
+      required: ["row", "closed", "legacy", "legacyClosed"],
+    } as const;
+
+    assertType<
+      Equals<
+        InferJsonSchema<typeof schema>,
+        {
+          row: [string, number, ...boolean[]];
+          closed: [string];
+          legacy: [string, ...number[]];
+          legacyClosed: [string];
+        }
+      >
+    >(true);
+  });
+
+  it("resolves $defs and definitions references", () => {
+    const schema = {
+      type: "object",
+      $defs: {
+        address: {
+          type: "object",
+          properties: { city: { type: "string" } },
+          required: ["city"],
+        },
+      },
+      definitions: { count: { type: "integer" } },
+      properties: {
+        home: { $ref: "#/$defs/address" },
+        visits: { $ref: "#/definitions/count" },
+      },
+      required: ["home"],
+    } as const;
+
+    assertType<
+      Equals<
+        InferJsonSchema<typeof schema>,
+        { home: { city: string }; visits?: number }
+      >
+    >(true);
+  });
+
+  it("resolves OpenAPI components references", () => {
+    const schema = {
+      type: "object",
+      components: {
+        schemas: { Sku: { type: "string" } },
+      },
+      properties: { sku: { $ref: "#/components/schemas/Sku" } },
+      required: ["sku"],
+    } as const;
+
+    assertType<Equals<InferJsonSchema<typeof schema>, { sku: string }>>(true);
+  });
+
+  it("infers any for schemas that are not declared as const", () => {
+    const schema = {
+      type: "object",
+      properties: { name: { type: "string" } },
+    };
+
+    assertType<Equals<InferJsonSchema<typeof schema>, any>>(true);
+  });
+});
+
+describe("fromJsonSchema type inference", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 1 },
+      tags: { type: "array", items: { type: "string" } },
+    },
+    required: ["name"],
+  } as const;
+
+  it("types validate() and parse() from a const schema", () => {
+    const validator = Builder()
+      .use(jsonSchemaPlugin)
+      .fromJsonSchema(schema)
+      .build();
+
+    const result = validator.parse({ name: "Ann", tags: ["a"] });
+    expect(result.isValid()).toBe(true);
+
+    const value = result.unwrap();
+    assertType<Equals<typeof value, { name: string; tags?: string[] }>>(true);
+    expect(value.name).toBe("Ann");
+
+    // @ts-expect-error age is not declared by the schema
+    expect(value.age).toBeUndefined();
+  });
+
+  it("types the full feature plugin the same way", () => {
+    const validator = Builder()
+      .use(jsonSchemaFullFeaturePlugin)
+      .fromJsonSchema(schema)
+      .build();
+
+    const value = validator.parse({ name: "Ann" }).unwrap();
+    assertType<Equals<typeof value, { name: string; tags?: string[] }>>(true);
+    expect(validator.validate({ name: "" }).isValid()).toBe(false);
+  });
+
+  it("keeps any for schemas without literal types", () => {
+    const loose: Record<string, unknown> = { type: "object" };
+    const validator = Builder()
+      .use(jsonSchemaPlugin)
+      .fromJsonSchema(loose)
+      .build();
+
+    const value = validator.parse({ anything: 1 }).unwrap();
+    assertType<Equals<typeof value, any>>(true);
+  });
+});
@@ -397,7 +397,7 @@ describe("Schema Reference Resolver", () => {
       });
     });
 
-    test("should detect circular references", () => {
+    test("should keep circular references as $ref", () => {
       const rootSchema: JSONSchema7 = {
         definitions: {
           Node: {
@@ -414,9 +414,13 @@ describe("Schema Reference Resolver", () => {
         $ref: "#/definitions/Node"
       };
 
-      expect(() => {
-        resolveAllRefs(schema, rootSchema);
-      }).toThrow("Circular reference detected");
+      expect(resolveAllRefs(schema, rootSchema)).toEqual({
+        type: "object",
+        properties: {
+          value: { type: "string" },
+          next: { $ref: "#/definitions/Node" }
+        }
+      });
     });
 
     test("should handle deeply nested references", () => {
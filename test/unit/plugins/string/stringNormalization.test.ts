@@ -0,0 +1,202 @@
+import { describe, test, expect, afterEach } from "@jest/globals";
+import { Builder, setGlobalConfig, resetGlobalConfig } from "../../../../src";
+import { requiredPlugin } from "../../../../src/core/plugin/required";
+import { stringMinPlugin } from "../../../../src/core/plugin/stringMin";
+import { stringMaxPlugin } from "../../../../src/core/plugin/stringMax";
+import { stringEmailPlugin } from "../../../../src/core/plugin/stringEmail";
+import { stringPatternPlugin } from "../../../../src/core/plugin/stringPattern";
+import { transformPlugin } from "../../../../src/core/plugin/transform";
+import { stringTrimPlugin } from "../../../../src/core/plugin/stringTrim";
+import { stringToLowerCasePlugin } from "../../../../src/core/plugin/stringToLowerCase";
+import { stringToUpperCasePlugin } from "../../../../src/core/plugin/stringToUpperCase";
+import { stringNormalizePlugin } from "../../../../src/core/plugin/stringNormalize";
+import { stringCollapseWhitespacePlugin } from "../../../../src/core/plugin/stringCollapseWhitespace";
+import { stringSlugifyPlugin } from "../../../../src/core/plugin/stringSlugify";
+import { stringTruncatePlugin } from "../../../../src/core/plugin/stringTruncate";
+import { oneOfPlugin } from "../../../../src/core/plugin/oneOf";
+import { literalPlugin } from "../../../../src/core/plugin/literal";
+import { stringStartsWithPlugin } from "../../../../src/core/plugin/stringStartsWith";
+import { stringEndsWithPlugin } from "../../../../src/core/plugin/stringEndsWith";
+
+const normalizingBuilder = () =>
+  Builder()
+    .use(requiredPlugin)
+    .use(stringMinPlugin)
+    .use(stringMaxPlugin)
+    .use(stringEmailPlugin)
+    .use(stringPatternPlugin)
+    .use(transformPlugin)
+    .use(stringTrimPlugin)
+    .use(stringToLowerCasePlugin)
+    .use(stringToUpperCasePlugin)
+    .use(stringNormalizePlugin)
+    .use(stringCollapseWhitespacePlugin)
+    .use(stringSlugifyPlugin)
+    .use(stringTruncatePlugin);
+
+describe("String normalization plugins", () => {
+  afterEach(() => {
+    resetGlobalConfig();
+  });
+
+  test("parse returns the normalized strings", () => {
+    const validator = normalizingBuilder()
+      .for<{
+        email: string;
+        code: string;
+        name: string;
+        title: string;
+        slug: string;
+        summary: string;
+      }>()
+      .v("email", (b) => b.string.required().trim().toLowerCase().email())
+      .v("code", (b) => b.string.toUpperCase())
+      .v("name", (b) => b.string.normalize())
+      .v("title", (b) => b.string.collapseWhitespace())
+      .v("slug", (b) => b.string.slugify())
+      .v("summary", (b) => b.string.truncate(8, { suffix: "…" }))
+      .build();
+
+    const result = validator.parse({
+      email: "  Ada@Example.COM ",
+      code: "jp",
+      name: "José",
+      title: " Hello \n  world ",
+      slug: "Crème Brûlée!",
+      summary: "A long summary",
+    });
+
+    expect(result.isValid()).toBe(true);
+    expect(result.unwrap()).toEqual({
+      email: "ada@example.com",
+      code: "JP",
+      name: "José",
+      title: "Hello world",
+      slug: "creme-brulee",
+      summary: "A long …",
+    });
+  });
+
+  test("rules declared after a normalizer check the normalized value", () => {
+    const validator = normalizingBuilder()
+      .for<{ username: string }>()
+      .v("username", (b) => b.string.trim().min(3).max(5))
+      .build();
+
+    expect(validator.validate({ username: "  abcd  " }).isValid()).toBe(true);
+
+    const result = validator.validate({ username: "  ab  " });
+    expect(result.isValid()).toBe(false);
+    expect(result.errors[0].code).toBe("stringMin");
+    expect(result.errors[0].message).toContain("but got 2");
+  });
+
+  test("rules declared before a normalizer check the original value", () => {
+    const validator = normalizingBuilder()
+      .for<{ username: string }>()
+      .v("username", (b) => b.string.max(5).trim())
+      .build();
+
+    const result = validator.parse({ username: "  abcd  " });
+    expect(result.isValid()).toBe(false);
+    expect(result.errors[0].code).toBe("stringMax");
+  });
+
+  test("normalizers and transforms run in declared order", () => {
+    const validator = normalizingBuilder()
+      .for<{ tag: string }>()
+      .v("tag", (b) =>
+        b.string
+          .transform((v) => `${v}!`)
+          .toUpperCase()
+          .pattern(/^[A-Z]+$/)
+      )
+      .build();
+
+    // The pattern sees the upper-cased input; the transform is applied first
+    // to the parsed value, then the normalizer
+    const result = validator.parse({ tag: "abc" });
+    expect(result.isValid()).toBe(true);
+    expect(result.unwrap()).toEqual({ tag: "ABC!" });
+  });
+
+  test("leaves non-string values to the type check", () => {
+    const validator = normalizingBuilder()
+      .for<{ name: string }>()
+      .v("name", (b) => b.string.trim().min(1))
+      .build();
+
+    const result = validator.validate({ name: 42 as any });
+    expect(result.isValid()).toBe(false);
+    expect(result.errors).toHaveLength(1);
+  });
+
+  test("honors GlobalConfig.trimStrings", () => {
+    setGlobalConfig({ trimStrings: true });
+
+    const validator = normalizingBuilder()
+      .for<{ email: string; role: string }>()
+      .v("email", (b) => b.string.email())
+      .v("role", (b) => b.string.toLowerCase().pattern(/^admin$/))
+      .build();
+
+    const result = validator.parse({
+      email: " Ada@Example.com ",
+      role: "ADMIN ",
+    });
+    expect(result.isValid()).toBe(true);
+    expect(result.unwrap()).toEqual({
+      email: "Ada@Example.com",
+      role: "admin",
+    });
+  });
+
+  test("keeps the case of the output with caseSensitive: false", () => {
+    setGlobalConfig({ caseSensitive: false });
+
+    const validator = normalizingBuilder()
+      .for<{ name: string; email: string }>()
+      .v("name", (b) => b.string.min(1))
+      .v("email", (b) => b.string.toLowerCase().email())
+      .build();
+
+    expect(
+      validator.parse({ name: "Ada", email: "Ada@Example.com" }).unwrap()
+    ).toEqual({ name: "Ada", email: "ada@example.com" });
+  });
+
+  test("compares strings ignoring case with caseSensitive: false", () => {
+    const validator = Builder()
+      .use(oneOfPlugin)
+      .use(literalPlugin)
+      .use(stringStartsWithPlugin)
+      .use(stringEndsWithPlugin)
+      .for<{ role: string; kind: string; code: string; file: string }>()
+      .v("role", (b) => b.string.oneOf(["admin", "user"]))
+      .v("kind", (b) => b.string.literal("Post"))
+      .v("code", (b) => b.string.startsWith("ab-"))
+      .v("file", (b) => b.string.endsWith(".PNG"))
+      .build();
+    const input = { role: "Admin", kind: "POST", code: "AB-1", file: "a.png" };
+
+    expect(
+      validator.validate(input, { abortEarly: false }).errors
+    ).toHaveLength(4);
+
+    setGlobalConfig({ caseSensitive: false });
+    expect(validator.validate(input).isValid()).toBe(true);
+    expect(validator.parse(input).unwrap()).toEqual(input);
+    expect(validator.validate({ ...input, role: "guest" }).isValid()).toBe(
+      false
+    );
+  });
+
+  test("does not change strings with the default GlobalConfig", () => {
+    const validator = normalizingBuilder()
+      .for<{ role: string }>()
+      .v("role", (b) => b.string.pattern(/^admin$/))
+      .build();
+
+    expect(validator.validate({ role: " ADMIN" }).isValid()).toBe(false);
+  });
+});
@@ -10,7 +10,8 @@ describe("Transform Plugin - Comprehensive Coverage", () => {
       expect(transformPlugin.methodName).toBe("transform");
       expect(transformPlugin.category).toBe("transform");
       expect(transformPlugin.allowedTypes).toEqual([
-        "string", "number", "boolean", "array", "object", "date", "union"
+        "string", "number", "boolean", "array", "object", "date", "union",
+        "map", "set", "record", "bigint"
       ]);
     });
 
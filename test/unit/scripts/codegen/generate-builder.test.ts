@@ -0,0 +1,278 @@
+/**
+ * @jest-environment node
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as ts from "typescript";
+import {
+  generateFromJsonSchema,
+  generateFromTypeScript,
+  parseJsonSchema,
+  parseTypeDeclarations,
+} from "../../../../scripts/codegen";
+
+const USER_TYPES = `
+export enum Role {
+  Admin = "admin",
+  Member = "member",
+}
+
+interface Address {
+  city: string;
+  /** @pattern ^\\d{5}$ */
+  zip?: string;
+}
+
+export interface User {
+  /**
+   * @minLength 1
+   * @maxLength 50
+   */
+  name: string;
+  /** @format email */
+  email: string;
+  /** @integer @minimum 0 */
+  age?: number;
+  role: Role;
+  status: "active" | "inactive";
+  nickname: string | null;
+  address: Address;
+  tags: string[];
+  point: [number, number];
+  value: string | number;
+}
+
+export type Tag = { label: string };
+
+type Internal = { secret: string };
+`;
+
+describe("parseTypeDeclarations", () => {
+  let dir: string;
+  let file: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "luq-codegen-"));
+    file = path.join(dir, "user.ts");
+    fs.writeFileSync(file, USER_TYPES);
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads exported interfaces and object type aliases only", () => {
+    const names = parseTypeDeclarations(file).map((decl) => decl.name);
+    expect(names).toEqual(["User", "Tag"]);
+    expect(parseTypeDeclarations(file, ["Tag"]).map((d) => d.name)).toEqual([
+      "Tag",
+    ]);
+  });
+
+  it("maps optionality, null, literal unions and JSDoc tags", () => {
+    const [user] = parseTypeDeclarations(file, ["User"]);
+    const byName = Object.fromEntries(
+      user.properties.map((property) => [property.name, property])
+    );
+
+    expect(byName.name.constraints).toEqual({ minLength: 1, maxLength: 50 });
+    expect(byName.age).toMatchObject({
+      optional: true,
+      type: { kind: "number" },
+      constraints: { integer: true, minimum: 0 },
+    });
+    expect(byName.role.type).toEqual({
+      kind: "literal",
+      values: ["admin", "member"],
+    });
+    expect(byName.nickname).toMatchObject({
+      nullable: true,
+      type: { kind: "string" },
+    });
+    expect(byName.point.type.kind).toBe("tuple");
+    expect(byName.value.type.kind).toBe("union");
+  });
+
+  it("emits a builder with the plugins its fields use", () => {
+    const source = generateFromTypeScript(file, {
+      typeNames: ["User"],
+      typesModule: "./user",
+    });
+
+    expect(source).toContain('import type { User } from "./user";');
+    expect(source).toContain("export const userValidator = Builder()");
+    expect(source).toContain("  .for<User>()");
+    expect(source).toContain(
+      '  .v("name", (b) => b.string.required().min(1).max(50))'
+    );
+    expect(source).toContain(
+      '  .v("age", (b) => b.number.optional().integer().min(0))'
+    );
+    expect(source).toContain(
+      '  .v("role", (b) => b.string.required().oneOf(["admin", "member"]))'
+    );
+    expect(source).toContain('  .v("nickname", (b) => b.string.nullable())');
+    expect(source).toContain(
+      '  .v("address.zip", (b) => b.string.optional().pattern("^\\\\d{5}$"))'
+    );
+    expect(source).toContain('  .v("tags[*]", (b) => b.string.required())');
+    expect(source).toContain(
+      "b.tuple.required().builder((b: any) => b.number.required(), (b: any) => b.number.required())"
+    );
+    expect(source).toContain(
+      '.guard((v) => typeof v === "string", (b) => b.string)'
+    );
+    expect(source).toContain("  .use(unionGuardPlugin)");
+    expect(source).not.toContain("literalPlugin");
+    expect(source).not.toContain("arrayUniquePlugin");
+  });
+});
+
+describe("generated module", () => {
+  const SETTINGS_TYPES = `
+export interface Settings {
+  mode: "on" | "off" | 0 | 1;
+  level: "max" | number;
+  meta?: { note: string; tags?: { label: string } };
+  items: Array<{ sku: string; extra: { size: number } | null }>;
+}
+`;
+  let dir: string;
+  let settingsValidator: any;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "luq-codegen-"));
+    fs.writeFileSync(path.join(dir, "settings.ts"), SETTINGS_TYPES);
+    const file = path.join(dir, "validators.ts");
+    const source = generateFromTypeScript(path.join(dir, "settings.ts"), {
+      packageName: path.resolve(__dirname, "../../../../src"),
+    });
+    fs.writeFileSync(file, source);
+
+    const program = ts.createProgram([file], {
+      strict: true,
+      noEmit: true,
+      skipLibCheck: true,
+      target: ts.ScriptTarget.ES2019,
+      module: ts.ModuleKind.CommonJS,
+      moduleResolution: ts.ModuleResolutionKind.NodeJs,
+      esModuleInterop: true,
+    });
+    const sourceFile = program.getSourceFile(file)!;
+    const diagnostics = [
+      ...program.getSyntacticDiagnostics(sourceFile),
+      ...program.getSemanticDiagnostics(sourceFile),
+    ].map((diagnostic) =>
+      ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")
+    );
+    expect(diagnostics).toEqual([]);
+
+    const output = ts.transpileModule(source, {
+      compilerOptions: { module: ts.ModuleKind.CommonJS },
+    });
+    fs.writeFileSync(path.join(dir, "validators.js"), output.outputText);
+    ({ settingsValidator } = require(path.join(dir, "validators.js")));
+  }, 60000);
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const valid = { mode: "on", level: 3, items: [{ sku: "a", extra: null }] };
+  const isValid = (value: object) =>
+    settingsValidator.validate(value).isValid();
+
+  it("narrows mixed literal unions to their members", () => {
+    expect(isValid(valid)).toBe(true);
+    expect(isValid({ ...valid, mode: 1 })).toBe(true);
+    expect(isValid({ ...valid, mode: "auto" })).toBe(false);
+    expect(isValid({ ...valid, mode: 2 })).toBe(false);
+    expect(isValid({ ...valid, level: "max" })).toBe(true);
+    expect(isValid({ ...valid, level: "min" })).toBe(false);
+  });
+
+  it("requires the fields of optional objects only when they are present", () => {
+    expect(isValid({ ...valid, meta: { note: "x" } })).toBe(true);
+    expect(isValid({ ...valid, meta: {} })).toBe(false);
+    expect(isValid({ ...valid, meta: { note: "x", tags: {} } })).toBe(false);
+    expect(isValid({ ...valid, items: [{ sku: "a", extra: {} }] })).toBe(
+      false
+    );
+    expect(
+      isValid({ ...valid, items: [{ sku: "a", extra: { size: 1 } }] })
+    ).toBe(true);
+  });
+});
+
+describe("JSON Schema input", () => {
+  const schema = {
+    title: "Order",
+    type: "object",
+    $defs: {
+      line: {
+        type: "object",
+        properties: {
+          sku: { type: "string", minLength: 3 },
+          qty: { type: "integer", minimum: 1 },
+        },
+        required: ["sku", "qty"],
+      },
+    },
+    properties: {
+      id: { type: "string", format: "uuid" },
+      lines: { type: "array", items: { $ref: "#/$defs/line" }, minItems: 1 },
+      note: { type: ["string", "null"] },
+      kind: { const: "order" },
+      loc: {
+        type: "array",
+        prefixItems: [{ type: "number" }, { type: "number" }],
+      },
+    },
+    required: ["id", "lines", "kind"],
+  };
+
+  it("resolves $refs into the model", () => {
+    const order = parseJsonSchema(schema);
+    expect(order.name).toBe("Order");
+    const lines = order.properties.find((p) => p.name === "lines")!;
+    expect(lines.type).toMatchObject({
+      kind: "array",
+      items: { type: { kind: "object" } },
+    });
+  });
+
+  it("emits the interface and the validator", () => {
+    const source = generateFromJsonSchema(schema);
+
+    expect(source).toContain(
+      [
+        "export interface Order {",
+        "  id: string;",
+        "  lines: Array<{ sku: string; qty: number }>;",
+        "  note?: string | null;",
+        '  kind: "order";',
+        "  loc?: [number, number];",
+        "}",
+      ].join("\n")
+    );
+    expect(source).toContain('  .v("id", (b) => b.string.required().uuid())');
+    expect(source).toContain(
+      '  .v("lines[*].qty", (b) => b.number.required().integer().min(1))'
+    );
+    expect(source).toContain(
+      '  .v("kind", (b) => b.string.required().literal("order"))'
+    );
+    expect(source).toContain(
+      '  .v("loc", (b) => b.array.optional().minLength(2).maxLength(2))'
+    );
+  });
+
+  it("rejects schemas that do not describe objects", () => {
+    expect(() => parseJsonSchema({ type: "string" }, "Name")).toThrow(
+      'JSON Schema "Name" does not describe an object'
+    );
+  });
+});